@@ -0,0 +1,130 @@
+import Fastify, { type FastifyInstance, type FastifyServerOptions } from 'fastify';
+
+// Import plugins
+import sensiblePlugin from './plugins/sensible';
+import errorHandlerPlugin from './plugins/error-handler';
+import securityPlugin from './plugins/security';
+import authPlugin from './plugins/auth';
+import permissionsPlugin from './plugins/permissions';
+import validationPlugin from './plugins/validation';
+import swaggerPlugin from './plugins/swagger';
+import redirectHandlerPlugin from './plugins/redirect-handler';
+import staticPlugin from '@fastify/static';
+import multipartPlugin from '@fastify/multipart';
+import { Secrets } from './services/secrets';
+
+// Import routes
+import healthRoutes from './routes/health';
+import authRoutes from './routes/auth';
+import pageRoutes from './routes/pages';
+import templateRoutes from './routes/templates';
+import themeRoutes from './routes/themes';
+import mediaRoutes from './routes/media';
+import blogRoutes from './routes/blog';
+import commentRoutes from './routes/comments';
+import socialRoutes from './routes/social';
+import rssRoutes from './routes/rss';
+import seoRoutes from './routes/seo';
+import abTestRoutes from './routes/ab-tests';
+import buildRoutes from './routes/builds';
+import siteRoutes from './routes/site';
+
+const defaultOptions: FastifyServerOptions = {
+  logger:
+    process.env.NODE_ENV === 'development'
+      ? {
+          level: process.env.LOG_LEVEL || 'info',
+          transport: {
+            target: 'pino-pretty',
+            options: {
+              colorize: true,
+              translateTime: 'HH:MM:ss Z',
+              ignore: 'pid,hostname',
+            },
+          },
+        }
+      : {
+          level: process.env.LOG_LEVEL || 'info',
+        },
+  trustProxy: true, // Enable if behind a proxy
+  disableRequestLogging: false,
+  requestIdHeader: 'x-request-id',
+  requestIdLogLabel: 'reqId',
+};
+
+/**
+ * Build the API server with every plugin and route registered, ready to listen or be injected
+ */
+export async function buildApp(options: FastifyServerOptions = {}): Promise<FastifyInstance> {
+  // Refuse to start with development secrets in production
+  Secrets.assertConfigured();
+
+  const fastify = Fastify({ ...defaultOptions, ...options });
+
+  await registerPlugins(fastify);
+  await registerRoutes(fastify);
+
+  return fastify;
+}
+
+// Register plugins in order
+async function registerPlugins(fastify: FastifyInstance) {
+  // Core plugins first
+  await fastify.register(sensiblePlugin);
+  await fastify.register(errorHandlerPlugin);
+
+  // Documentation (register early to define schemas)
+  await fastify.register(swaggerPlugin);
+
+  // Security plugins
+  await fastify.register(securityPlugin);
+
+  // Static file serving for uploads
+  await fastify.register(staticPlugin, {
+    root: process.env.UPLOAD_DIR || new URL('../uploads', import.meta.url).pathname,
+    prefix: '/uploads/',
+  });
+
+  // Multipart file upload support
+  await fastify.register(multipartPlugin, {
+    limits: {
+      fileSize: 50 * 1024 * 1024, // 50MB
+    },
+  });
+
+  // Authentication and validation
+  await fastify.register(authPlugin);
+  await fastify.register(permissionsPlugin);
+  await fastify.register(validationPlugin);
+
+  // Redirect handler (register after auth but before routes)
+  await fastify.register(redirectHandlerPlugin);
+}
+
+// Register routes
+async function registerRoutes(fastify: FastifyInstance) {
+  // Health routes (no prefix)
+  await fastify.register(healthRoutes);
+
+  // API routes with /api prefix
+  await fastify.register(
+    async function (fastify) {
+      await fastify.register(authRoutes, { prefix: '/auth' });
+      await fastify.register(pageRoutes, { prefix: '/pages' });
+      await fastify.register(templateRoutes, { prefix: '/templates' });
+      await fastify.register(themeRoutes, { prefix: '/themes' });
+      await fastify.register(mediaRoutes, { prefix: '/media' });
+      await fastify.register(blogRoutes, { prefix: '/blog' });
+      await fastify.register(commentRoutes, { prefix: '/comments' });
+      await fastify.register(socialRoutes, { prefix: '/social' });
+      await fastify.register(rssRoutes, { prefix: '/rss' });
+      await fastify.register(seoRoutes, { prefix: '/seo' });
+      await fastify.register(abTestRoutes);
+      await fastify.register(buildRoutes, { prefix: '/builds' });
+    },
+    { prefix: '/api' }
+  );
+
+  // Public site routes (no prefix, registered last so API routes take precedence)
+  await fastify.register(siteRoutes);
+}
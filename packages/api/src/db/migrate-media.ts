@@ -0,0 +1,62 @@
+import { closeDatabaseConnection } from './index';
+import { initializeRedis, closeRedisConnection } from './redis';
+import { mediaService, type MediaMigrationOptions } from '../services/media-service';
+import { STORAGE_BACKENDS } from '../services/media-storage';
+import type { MediaStorageBackend } from '@oldworldcharm/shared';
+
+const USAGE = 'Usage: pnpm media:migrate --from <local|s3> --to <local|s3> [--dry-run] [--delete-source]';
+
+function parseArgs(args: string[]): MediaMigrationOptions {
+  const value = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  const from = value('--from') as MediaStorageBackend;
+  const to = value('--to') as MediaStorageBackend;
+  if (!STORAGE_BACKENDS.includes(from) || !STORAGE_BACKENDS.includes(to) || from === to) {
+    throw new Error(USAGE);
+  }
+
+  return { from, to, dryRun: args.includes('--dry-run'), deleteSource: args.includes('--delete-source') };
+}
+
+// Move existing media assets between storage backends and rewrite their URLs
+async function migrateMedia(args: string[] = process.argv.slice(2)) {
+  const options = parseArgs(args);
+  console.log(`Moving media assets from ${options.from} to ${options.to}${options.dryRun ? ' (dry run)' : ''}...`);
+
+  // Rewritten page content is purged from the page cache
+  await initializeRedis();
+
+  try {
+    const result = await mediaService.migrateAssets({
+      ...options,
+      onAsset: (asset, error) => {
+        console.log(error ? `❌ ${asset.filename}: ${error.message}` : `✅ ${asset.filename}`);
+      },
+    });
+
+    console.log(
+      `🎉 ${options.dryRun ? 'Would move' : 'Moved'} ${result.migrated} assets` +
+        (result.rewrittenUrls > 0 ? `, updated ${result.rewrittenUrls} pages and posts` : '') +
+        (result.failed.length > 0 ? `, ${result.failed.length} failed (run again to retry)` : '')
+    );
+    return result;
+  } finally {
+    await closeRedisConnection();
+    await closeDatabaseConnection();
+  }
+}
+
+// Run the migration if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateMedia()
+    .then(result => process.exit(result.failed.length > 0 ? 1 : 0))
+    .catch(error => {
+      console.error('❌ Media migration failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
+
+export { migrateMedia };
@@ -0,0 +1,11 @@
+-- Migration: Link blog posts to their owning user
+-- Description: Lets the permission model restrict authors to their own posts
+
+ALTER TABLE "blog_posts" ADD COLUMN IF NOT EXISTS "author_id" uuid;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "blog_posts_author_id_idx" ON "blog_posts" ("author_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "blog_posts" ADD CONSTRAINT "blog_posts_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,29 @@
+-- Migration: Add deployments
+-- Description: Records static site builds, their status and timings
+
+-- Deployments table - records static site builds and their status
+CREATE TABLE IF NOT EXISTS "deployments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"build_id" varchar(64) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"build_options" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"output_dir" varchar(500),
+	"url" varchar(500),
+	"error" text,
+	"page_count" integer DEFAULT 0 NOT NULL,
+	"file_count" integer DEFAULT 0 NOT NULL,
+	"build_time" integer DEFAULT 0 NOT NULL,
+	"deploy_time" integer DEFAULT 0 NOT NULL,
+	"triggered_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "deployments_build_id_unique" UNIQUE("build_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "deployments_status_idx" ON "deployments" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "deployments_created_at_idx" ON "deployments" ("created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "deployments" ADD CONSTRAINT "deployments_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,7 @@
+-- Migration: Add page scheduling columns
+-- Description: Lets the publishing scheduler publish pages at a set time and unpublish them on expiry
+
+ALTER TABLE "pages" ADD COLUMN IF NOT EXISTS "scheduled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pages" ADD COLUMN IF NOT EXISTS "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pages_scheduled_at_idx" ON "pages" ("scheduled_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pages_expires_at_idx" ON "pages" ("expires_at");
@@ -0,0 +1,28 @@
+-- Migration: Add workflow transitions
+-- Description: Audit trail for the content review workflow (submit, approve, request changes, publish)
+
+-- Workflow transitions table - audit trail of review workflow status changes
+CREATE TABLE IF NOT EXISTS "workflow_transitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"page_id" uuid NOT NULL,
+	"action" varchar(30) NOT NULL,
+	"from_status" varchar(20) NOT NULL,
+	"to_status" varchar(20) NOT NULL,
+	"comment" text,
+	"user_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workflow_transitions_page_id_idx" ON "workflow_transitions" ("page_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workflow_transitions_created_at_idx" ON "workflow_transitions" ("created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_page_id_pages_id_fk" FOREIGN KEY ("page_id") REFERENCES "pages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workflow_transitions" ADD CONSTRAINT "workflow_transitions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,28 @@
+-- Migration: Add A/B test exposures
+-- Description: Records the first time each visitor is served an A/B test variant during page delivery
+
+-- A/B test exposures table - one row per visitor and test, from the first time they are served a variant
+CREATE TABLE IF NOT EXISTS "ab_test_exposures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"test_id" uuid NOT NULL,
+	"variant_id" varchar(255) NOT NULL,
+	"session_id" varchar(255) NOT NULL,
+	"page_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_exposures_test_variant_idx" ON "ab_test_exposures" ("test_id","variant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_exposures_session_id_idx" ON "ab_test_exposures" ("session_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "ab_test_exposures_test_session_idx" ON "ab_test_exposures" ("test_id","session_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_exposures_created_at_idx" ON "ab_test_exposures" ("created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ab_test_exposures" ADD CONSTRAINT "ab_test_exposures_test_id_ab_tests_id_fk" FOREIGN KEY ("test_id") REFERENCES "ab_tests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ab_test_exposures" ADD CONSTRAINT "ab_test_exposures_page_id_pages_id_fk" FOREIGN KEY ("page_id") REFERENCES "pages"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,6 @@
+-- Migration: Add A/B test holdouts and exclusion groups
+-- Description: Holdout share per test and mutually exclusive test groups for deterministic bucketing
+
+ALTER TABLE "ab_tests" ADD COLUMN IF NOT EXISTS "holdout_percentage" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "ab_tests" ADD COLUMN IF NOT EXISTS "exclusion_group" varchar(100);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_tests_exclusion_group_idx" ON "ab_tests" ("exclusion_group");
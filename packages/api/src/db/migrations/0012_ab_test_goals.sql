@@ -0,0 +1,7 @@
+-- Migration: Add A/B test goals
+-- Description: Named primary, secondary and guardrail goals per test, with per-goal conversions and revenue
+
+ALTER TABLE "ab_tests" ADD COLUMN IF NOT EXISTS "goals" jsonb DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ab_test_results" ADD COLUMN IF NOT EXISTS "goal_id" varchar(100) DEFAULT 'conversion' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ab_test_results" ADD COLUMN IF NOT EXISTS "revenue" numeric(12, 2);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_results_test_goal_idx" ON "ab_test_results" ("test_id","goal_id");
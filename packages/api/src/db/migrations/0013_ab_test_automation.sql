@@ -0,0 +1,23 @@
+-- Migration: Add A/B test automation
+-- Description: Stopping rules and bandit settings per test, and a log of the decisions the background job makes
+
+ALTER TABLE "ab_tests" ADD COLUMN IF NOT EXISTS "stopping_rules" jsonb;--> statement-breakpoint
+ALTER TABLE "ab_tests" ADD COLUMN IF NOT EXISTS "bandit" jsonb;--> statement-breakpoint
+-- A/B test decisions table - automatic stops and traffic reallocations
+CREATE TABLE IF NOT EXISTS "ab_test_decisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"test_id" uuid NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"rule" varchar(30) NOT NULL,
+	"reason" text NOT NULL,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_decisions_test_id_idx" ON "ab_test_decisions" ("test_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ab_test_decisions_created_at_idx" ON "ab_test_decisions" ("created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ab_test_decisions" ADD CONSTRAINT "ab_test_decisions_test_id_ab_tests_id_fk" FOREIGN KEY ("test_id") REFERENCES "ab_tests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
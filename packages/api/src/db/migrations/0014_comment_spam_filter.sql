@@ -0,0 +1,15 @@
+-- Migration: Add comment spam filtering
+-- Description: Spam score and moderation reason per comment, and a blocklist of emails, domains and IPs
+
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "spam_score" integer;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "moderation_reason" text;--> statement-breakpoint
+-- Comment blocklist table - comments from these emails, domains and IPs are marked as spam
+CREATE TABLE IF NOT EXISTS "comment_blocklist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(10) NOT NULL,
+	"value" varchar(255) NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "comment_blocklist_type_value_idx" ON "comment_blocklist" ("type","value");
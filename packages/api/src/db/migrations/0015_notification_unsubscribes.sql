@@ -0,0 +1,12 @@
+-- Migration: Add notification unsubscribes
+-- Description: Records which comment notification emails each recipient has unsubscribed from
+
+-- Notification unsubscribes table - one row per email address and notification scope
+CREATE TABLE IF NOT EXISTS "notification_unsubscribes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"scope" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "notification_unsubscribes_email_scope_idx" ON "notification_unsubscribes" ("email","scope");
@@ -0,0 +1,20 @@
+-- Migration: Add comment threading
+-- Description: Self-referencing parent foreign key, stored reply depth and an index for paging threads
+
+-- Replies whose parent no longer exists become top-level comments
+UPDATE "comments" SET "parent_id" = NULL
+WHERE "parent_id" IS NOT NULL AND "parent_id" NOT IN (SELECT "id" FROM "comments");--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+WITH RECURSIVE "thread" AS (
+	SELECT "id", 0 AS "depth" FROM "comments" WHERE "parent_id" IS NULL
+	UNION ALL
+	SELECT "comments"."id", "thread"."depth" + 1 FROM "comments" INNER JOIN "thread" ON "comments"."parent_id" = "thread"."id"
+)
+UPDATE "comments" SET "depth" = "thread"."depth" FROM "thread" WHERE "comments"."id" = "thread"."id";--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "comments" ADD CONSTRAINT "comments_parent_id_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "comments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "comments_thread_idx" ON "comments" ("blog_post_id","parent_id","created_at");
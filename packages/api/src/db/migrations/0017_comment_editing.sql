@@ -0,0 +1,20 @@
+-- Migration: Add commenter editing and deletion
+-- Description: Edit timestamp per comment, the content each edit replaced, and a deletion timestamp so comments deleted by their authors while they have replies are kept as tombstones
+
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp;--> statement-breakpoint
+-- Comment revisions table - content of a comment before each edit by its author
+CREATE TABLE IF NOT EXISTS "comment_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" uuid NOT NULL,
+	"content" text NOT NULL,
+	"edited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "comments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "comment_revisions_comment_id_idx" ON "comment_revisions" ("comment_id");
@@ -0,0 +1,20 @@
+-- Migration: Add theme inheritance and per-page themes
+-- Description: Themes can extend a parent theme, and pages can pick a theme and override some of its tokens
+
+ALTER TABLE "themes" ADD COLUMN IF NOT EXISTS "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "pages" ADD COLUMN IF NOT EXISTS "theme_id" uuid;--> statement-breakpoint
+ALTER TABLE "pages" ADD COLUMN IF NOT EXISTS "theme_overrides" jsonb;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "themes" ADD CONSTRAINT "themes_parent_id_themes_id_fk" FOREIGN KEY ("parent_id") REFERENCES "themes"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pages" ADD CONSTRAINT "pages_theme_id_themes_id_fk" FOREIGN KEY ("theme_id") REFERENCES "themes"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "themes_parent_id_idx" ON "themes" ("parent_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pages_theme_id_idx" ON "pages" ("theme_id");
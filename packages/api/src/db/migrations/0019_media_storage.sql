@@ -0,0 +1,6 @@
+-- Migration: Add media storage backends and private media
+-- Description: Media assets record which storage backend holds their files and whether they are only served through signed URLs
+
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "storage" varchar(20) DEFAULT 'local' NOT NULL;--> statement-breakpoint
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "visibility" varchar(20) DEFAULT 'public' NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "media_assets_storage_idx" ON "media_assets" ("storage");
@@ -0,0 +1,6 @@
+-- Migration: Add media variant manifests
+-- Description: Media assets record their pixel dimensions and the resized copies generated for responsive images
+
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "width" integer;--> statement-breakpoint
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "height" integer;--> statement-breakpoint
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "variants" jsonb DEFAULT '[]' NOT NULL;
@@ -0,0 +1,5 @@
+-- Migration: Add media focal points and crops
+-- Description: Images record the focal point and hand-set crop presets used when generating cropped variants
+
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "focal_point" jsonb;--> statement-breakpoint
+ALTER TABLE "media_assets" ADD COLUMN IF NOT EXISTS "crops" jsonb DEFAULT '{}' NOT NULL;
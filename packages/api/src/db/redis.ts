@@ -134,6 +134,58 @@ export class CacheManager {
     }
     return 0;
   }
+
+  // Drop everything cached for a page plus the listings and feeds that include it;
+  // delivered blog posts are cached under blog:<slug>
+  static async invalidateContent(slug: string): Promise<number> {
+    const counts = await Promise.all([
+      this.invalidatePattern(`page:${slug}`),
+      this.invalidatePattern(`page:${slug}:*`),
+      this.invalidatePattern('blog:*'),
+      this.invalidatePattern('sitemap*'),
+      this.invalidatePattern('rss*'),
+    ]);
+    return counts.reduce((total, count) => total + count, 0);
+  }
+}
+
+// Distributed locks so background jobs run on one API instance at a time
+export class LockManager {
+  private static readonly LOCK_PREFIX = 'lock:';
+
+  // Returns a token when the lock was acquired, or null if another holder has it
+  static async acquire(name: string, ttlMs: number): Promise<string | null> {
+    const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    const result = await redis.set(`${this.LOCK_PREFIX}${name}`, token, {
+      NX: true,
+      PX: ttlMs,
+    });
+    return result === 'OK' ? token : null;
+  }
+
+  // Only deletes the lock if it is still held with the given token
+  static async release(name: string, token: string): Promise<boolean> {
+    const result = await redis.eval(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+      { keys: [`${this.LOCK_PREFIX}${name}`], arguments: [token] }
+    );
+    return result === 1;
+  }
+}
+
+// Fixed-window rate limiting counters
+export class RateLimiter {
+  private static readonly RATE_LIMIT_PREFIX = 'ratelimit:';
+
+  // Counts a hit and returns the number of hits in the current window
+  static async hit(key: string, windowSeconds: number): Promise<number> {
+    const rateKey = `${this.RATE_LIMIT_PREFIX}${key}`;
+    const count = await redis.incr(rateKey);
+    if (count === 1) {
+      await redis.expire(rateKey, windowSeconds);
+    }
+    return count;
+  }
 }
 
 // A/B testing utilities
@@ -7,7 +7,10 @@ import {
   boolean,
   timestamp,
   integer,
+  numeric,
   index,
+  uniqueIndex,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -21,8 +24,12 @@ export const pages = pgTable(
     description: text('description'),
     content: jsonb('content').notNull(), // Component tree structure
     seoData: jsonb('seo_data'), // SEO metadata
-    status: varchar('status', { length: 20 }).notNull().default('draft'), // draft, published, archived
+    status: varchar('status', { length: 20 }).notNull().default('draft'), // draft, in_review, changes_requested, approved, published, archived
     publishedAt: timestamp('published_at'),
+    scheduledAt: timestamp('scheduled_at'), // Publish automatically at this time
+    expiresAt: timestamp('expires_at'), // Unpublish automatically at this time
+    themeId: uuid('theme_id').references((): AnyPgColumn => themes.id, { onDelete: 'set null' }), // Falls back to the default theme
+    themeOverrides: jsonb('theme_overrides'), // Tokens overridden for this page only
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -30,6 +37,9 @@ export const pages = pgTable(
     slugIdx: index('pages_slug_idx').on(table.slug),
     statusIdx: index('pages_status_idx').on(table.status),
     publishedAtIdx: index('pages_published_at_idx').on(table.publishedAt),
+    scheduledAtIdx: index('pages_scheduled_at_idx').on(table.scheduledAt),
+    expiresAtIdx: index('pages_expires_at_idx').on(table.expiresAt),
+    themeIdIdx: index('pages_theme_id_idx').on(table.themeId),
   })
 );
 
@@ -46,6 +56,7 @@ export const blogPosts = pgTable(
     categories: jsonb('categories').notNull().default('[]'), // Array of category strings
     tags: jsonb('tags').notNull().default('[]'), // Array of tag strings
     author: varchar('author', { length: 255 }).notNull(),
+    authorId: uuid('author_id').references(() => users.id, { onDelete: 'set null' }), // Owning user account
     readingTime: integer('reading_time').notNull().default(0), // in minutes
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -53,6 +64,7 @@ export const blogPosts = pgTable(
   table => ({
     pageIdIdx: index('blog_posts_page_id_idx').on(table.pageId),
     authorIdx: index('blog_posts_author_idx').on(table.author),
+    authorIdIdx: index('blog_posts_author_id_idx').on(table.authorId),
   })
 );
 
@@ -62,7 +74,8 @@ export const themes = pgTable(
   {
     id: uuid('id').primaryKey().defaultRandom(),
     name: varchar('name', { length: 255 }).notNull(),
-    config: jsonb('config').notNull(), // Theme configuration object
+    config: jsonb('config').notNull(), // Theme configuration object; only the overridden tokens when it has a parent
+    parentId: uuid('parent_id').references((): AnyPgColumn => themes.id, { onDelete: 'restrict' }), // Theme this one extends
     isDefault: boolean('is_default').notNull().default(false),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -70,6 +83,7 @@ export const themes = pgTable(
   table => ({
     nameIdx: index('themes_name_idx').on(table.name),
     isDefaultIdx: index('themes_is_default_idx').on(table.isDefault),
+    parentIdIdx: index('themes_parent_id_idx').on(table.parentId),
   })
 );
 
@@ -87,6 +101,13 @@ export const mediaAssets = pgTable(
     altText: text('alt_text'),
     tags: jsonb('tags').notNull().default('[]'), // Array of tag strings
     folder: varchar('folder', { length: 255 }),
+    storage: varchar('storage', { length: 20 }).notNull().default('local'), // 'local' | 's3'
+    visibility: varchar('visibility', { length: 20 }).notNull().default('public'), // 'public' | 'private' (served through signed URLs)
+    width: integer('width'), // Pixel dimensions of images
+    height: integer('height'),
+    variants: jsonb('variants').notNull().default('[]'), // Manifest of resized copies (MediaVariant[])
+    focalPoint: jsonb('focal_point'), // { x, y } as fractions of the image size
+    crops: jsonb('crops').notNull().default('{}'), // Crops set by hand, by preset name
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
@@ -94,6 +115,7 @@ export const mediaAssets = pgTable(
     filenameIdx: index('media_assets_filename_idx').on(table.filename),
     mimeTypeIdx: index('media_assets_mime_type_idx').on(table.mimeType),
     folderIdx: index('media_assets_folder_idx').on(table.folder),
+    storageIdx: index('media_assets_storage_idx').on(table.storage),
     createdAtIdx: index('media_assets_created_at_idx').on(table.createdAt),
   })
 );
@@ -109,6 +131,11 @@ export const abTests = pgTable(
       .references(() => pages.id, { onDelete: 'cascade' }),
     variants: jsonb('variants').notNull(), // Array of variant configurations
     trafficSplit: jsonb('traffic_split').notNull(), // Traffic distribution configuration
+    goals: jsonb('goals').notNull().default('[]'), // Named goals: primary, secondary and guardrail metrics
+    holdoutPercentage: integer('holdout_percentage').notNull().default(0), // Share of visitors kept out of the test
+    exclusionGroup: varchar('exclusion_group', { length: 100 }), // Visitors join at most one running test per group
+    stoppingRules: jsonb('stopping_rules'), // Automatic stopping rules checked by the background job
+    bandit: jsonb('bandit'), // Multi-armed bandit traffic reallocation settings
     status: varchar('status', { length: 20 }).notNull().default('draft'), // draft, running, completed, paused
     startDate: timestamp('start_date'),
     endDate: timestamp('end_date'),
@@ -119,6 +146,7 @@ export const abTests = pgTable(
     pageIdIdx: index('ab_tests_page_id_idx').on(table.pageId),
     statusIdx: index('ab_tests_status_idx').on(table.status),
     startDateIdx: index('ab_tests_start_date_idx').on(table.startDate),
+    exclusionGroupIdx: index('ab_tests_exclusion_group_idx').on(table.exclusionGroup),
   })
 );
 
@@ -132,8 +160,10 @@ export const abTestResults = pgTable(
       .references(() => abTests.id, { onDelete: 'cascade' }),
     variantId: varchar('variant_id', { length: 255 }).notNull(),
     sessionId: varchar('session_id', { length: 255 }).notNull(),
+    goalId: varchar('goal_id', { length: 100 }).notNull().default('conversion'),
     converted: boolean('converted').notNull().default(false),
     conversionValue: integer('conversion_value').default(0),
+    revenue: numeric('revenue', { precision: 12, scale: 2 }), // Set for revenue goals
     metadata: jsonb('metadata'), // Additional tracking data
     createdAt: timestamp('created_at').notNull().defaultNow(),
   },
@@ -142,6 +172,50 @@ export const abTestResults = pgTable(
     variantIdIdx: index('ab_test_results_variant_id_idx').on(table.variantId),
     sessionIdIdx: index('ab_test_results_session_id_idx').on(table.sessionId),
     convertedIdx: index('ab_test_results_converted_idx').on(table.converted),
+    testGoalIdx: index('ab_test_results_test_goal_idx').on(table.testId, table.goalId),
+  })
+);
+
+// A/B test exposures table - one row per visitor and test, from the first time they are served a variant
+export const abTestExposures = pgTable(
+  'ab_test_exposures',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    testId: uuid('test_id')
+      .notNull()
+      .references(() => abTests.id, { onDelete: 'cascade' }),
+    variantId: varchar('variant_id', { length: 255 }).notNull(),
+    sessionId: varchar('session_id', { length: 255 }).notNull(),
+    pageId: uuid('page_id')
+      .notNull()
+      .references(() => pages.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    testVariantIdx: index('ab_test_exposures_test_variant_idx').on(table.testId, table.variantId),
+    sessionIdIdx: index('ab_test_exposures_session_id_idx').on(table.sessionId),
+    testSessionIdx: uniqueIndex('ab_test_exposures_test_session_idx').on(table.testId, table.sessionId),
+    createdAtIdx: index('ab_test_exposures_created_at_idx').on(table.createdAt),
+  })
+);
+
+// A/B test decisions table - log of automatic stops and traffic reallocations
+export const abTestDecisions = pgTable(
+  'ab_test_decisions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    testId: uuid('test_id')
+      .notNull()
+      .references(() => abTests.id, { onDelete: 'cascade' }),
+    action: varchar('action', { length: 20 }).notNull(), // stop, reallocate
+    rule: varchar('rule', { length: 30 }).notNull(), // max_duration, significance, guardrail, bandit
+    reason: text('reason').notNull(),
+    details: jsonb('details'), // Figures the decision was based on
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    testIdIdx: index('ab_test_decisions_test_id_idx').on(table.testId),
+    createdAtIdx: index('ab_test_decisions_created_at_idx').on(table.createdAt),
   })
 );
 
@@ -226,6 +300,22 @@ export const pagesRelations = relations(pages, ({ many, one }) => ({
   }),
   abTests: many(abTests),
   versions: many(pageVersions),
+  theme: one(themes, {
+    fields: [pages.themeId],
+    references: [themes.id],
+  }),
+}));
+
+export const themesRelations = relations(themes, ({ one, many }) => ({
+  parent: one(themes, {
+    fields: [themes.parentId],
+    references: [themes.id],
+    relationName: 'parentTheme',
+  }),
+  children: many(themes, {
+    relationName: 'parentTheme',
+  }),
+  pages: many(pages),
 }));
 
 export const blogPostsRelations = relations(blogPosts, ({ one }) => ({
@@ -241,6 +331,8 @@ export const abTestsRelations = relations(abTests, ({ one, many }) => ({
     references: [pages.id],
   }),
   results: many(abTestResults),
+  exposures: many(abTestExposures),
+  decisions: many(abTestDecisions),
 }));
 
 export const abTestResultsRelations = relations(abTestResults, ({ one }) => ({
@@ -250,6 +342,24 @@ export const abTestResultsRelations = relations(abTestResults, ({ one }) => ({
   }),
 }));
 
+export const abTestDecisionsRelations = relations(abTestDecisions, ({ one }) => ({
+  test: one(abTests, {
+    fields: [abTestDecisions.testId],
+    references: [abTests.id],
+  }),
+}));
+
+export const abTestExposuresRelations = relations(abTestExposures, ({ one }) => ({
+  test: one(abTests, {
+    fields: [abTestExposures.testId],
+    references: [abTests.id],
+  }),
+  page: one(pages, {
+    fields: [abTestExposures.pageId],
+    references: [pages.id],
+  }),
+}));
+
 export const pageVersionsRelations = relations(pageVersions, ({ one }) => ({
   page: one(pages, {
     fields: [pageVersions.pageId],
@@ -269,7 +379,8 @@ export const comments = pgTable(
     blogPostId: uuid('blog_post_id')
       .notNull()
       .references(() => pages.id, { onDelete: 'cascade' }),
-    parentId: uuid('parent_id'), // For nested comments - will be set up with foreign key later
+    parentId: uuid('parent_id').references((): AnyPgColumn => comments.id, { onDelete: 'cascade' }), // Replies are removed with their parent by moderators
+    depth: integer('depth').notNull().default(0), // 0 for top-level comments, parent depth + 1 for replies
     authorName: varchar('author_name', { length: 255 }).notNull(),
     authorEmail: varchar('author_email', { length: 255 }).notNull(),
     authorWebsite: varchar('author_website', { length: 500 }),
@@ -278,18 +389,68 @@ export const comments = pgTable(
     ipAddress: varchar('ip_address', { length: 45 }), // IPv4 or IPv6
     userAgent: text('user_agent'),
     isVerified: boolean('is_verified').notNull().default(false), // Email verification
+    spamScore: integer('spam_score'), // Score from the spam pipeline, higher is more likely spam
+    moderationReason: text('moderation_reason'), // Why the spam pipeline assigned the status
+    editedAt: timestamp('edited_at'), // Last edit by the commenter; previous content is kept in comment_revisions
+    deletedAt: timestamp('deleted_at'), // Deleted by the commenter but kept, with content and author cleared, because it has replies
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
   table => ({
     blogPostIdIdx: index('comments_blog_post_id_idx').on(table.blogPostId),
     parentIdIdx: index('comments_parent_id_idx').on(table.parentId),
+    threadIdx: index('comments_thread_idx').on(table.blogPostId, table.parentId, table.createdAt),
     statusIdx: index('comments_status_idx').on(table.status),
     createdAtIdx: index('comments_created_at_idx').on(table.createdAt),
     authorEmailIdx: index('comments_author_email_idx').on(table.authorEmail),
   })
 );
 
+// Comment revisions table - content of a comment before each edit by its author
+export const commentRevisions = pgTable(
+  'comment_revisions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    commentId: uuid('comment_id')
+      .notNull()
+      .references(() => comments.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    editedAt: timestamp('edited_at').notNull().defaultNow(), // When this content was replaced
+  },
+  table => ({
+    commentIdIdx: index('comment_revisions_comment_id_idx').on(table.commentId),
+  })
+);
+
+// Comment blocklist table - emails, email domains and IP addresses whose comments are marked as spam
+export const commentBlocklist = pgTable(
+  'comment_blocklist',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    type: varchar('type', { length: 10 }).notNull(), // email, domain, ip
+    value: varchar('value', { length: 255 }).notNull(), // Stored lowercase
+    reason: text('reason'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    typeValueIdx: uniqueIndex('comment_blocklist_type_value_idx').on(table.type, table.value),
+  })
+);
+
+// Notification unsubscribes table - email notifications recipients opted out of
+export const notificationUnsubscribes = pgTable(
+  'notification_unsubscribes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    email: varchar('email', { length: 255 }).notNull(), // Stored lowercase
+    scope: varchar('scope', { length: 100 }).notNull(), // all, pending-comments, thread:<comment id>
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    emailScopeIdx: uniqueIndex('notification_unsubscribes_email_scope_idx').on(table.email, table.scope),
+  })
+);
+
 // Social shares table - tracks social media shares
 export const socialShares = pgTable(
   'social_shares',
@@ -344,6 +505,14 @@ export const commentsRelations = relations(comments, ({ one, many }) => ({
   replies: many(comments, {
     relationName: 'parentComment',
   }),
+  revisions: many(commentRevisions),
+}));
+
+export const commentRevisionsRelations = relations(commentRevisions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentRevisions.commentId],
+    references: [comments.id],
+  }),
 }));
 
 export const socialSharesRelations = relations(socialShares, ({ one }) => ({
@@ -452,6 +621,122 @@ export const sitemapEntriesRelations = relations(sitemapEntries, ({ one }) => ({
   }),
 }));
 
+// Users table - stores team accounts with hashed credentials
+export const users = pgTable(
+  'users',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    email: varchar('email', { length: 255 }).notNull().unique(),
+    passwordHash: varchar('password_hash', { length: 255 }).notNull(), // scrypt hash in salt:hash form
+    name: varchar('name', { length: 100 }).notNull(),
+    role: varchar('role', { length: 20 }).notNull().default('viewer'), // admin, editor, author, viewer
+    avatar: varchar('avatar', { length: 500 }),
+    preferences: jsonb('preferences').notNull().default('{}'), // UserPreferences object
+    isActive: boolean('is_active').notNull().default(true),
+    lastLoginAt: timestamp('last_login_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  table => ({
+    emailIdx: index('users_email_idx').on(table.email),
+    roleIdx: index('users_role_idx').on(table.role),
+  })
+);
+
+// Refresh tokens table - stores hashed refresh tokens for token rotation
+export const refreshTokens = pgTable(
+  'refresh_tokens',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: varchar('token_hash', { length: 128 }).notNull().unique(), // SHA-256 of the raw token
+    expiresAt: timestamp('expires_at').notNull(),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    userIdIdx: index('refresh_tokens_user_id_idx').on(table.userId),
+    expiresAtIdx: index('refresh_tokens_expires_at_idx').on(table.expiresAt),
+  })
+);
+
+export const usersRelations = relations(users, ({ many }) => ({
+  refreshTokens: many(refreshTokens),
+}));
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+// Deployments table - records static site builds and their status
+export const deployments = pgTable(
+  'deployments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    buildId: varchar('build_id', { length: 64 }).notNull().unique(),
+    status: varchar('status', { length: 20 }).notNull().default('pending'), // pending, building, deploying, success, failed
+    buildOptions: jsonb('build_options').notNull().default('{}'), // BuildOptions object
+    outputDir: varchar('output_dir', { length: 500 }),
+    url: varchar('url', { length: 500 }),
+    error: text('error'),
+    pageCount: integer('page_count').notNull().default(0),
+    fileCount: integer('file_count').notNull().default(0),
+    buildTime: integer('build_time').notNull().default(0), // milliseconds
+    deployTime: integer('deploy_time').notNull().default(0), // milliseconds
+    triggeredBy: uuid('triggered_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    completedAt: timestamp('completed_at'),
+  },
+  table => ({
+    statusIdx: index('deployments_status_idx').on(table.status),
+    createdAtIdx: index('deployments_created_at_idx').on(table.createdAt),
+  })
+);
+
+export const deploymentsRelations = relations(deployments, ({ one }) => ({
+  triggeredByUser: one(users, {
+    fields: [deployments.triggeredBy],
+    references: [users.id],
+  }),
+}));
+
+// Workflow transitions table - audit trail of review workflow status changes
+export const workflowTransitions = pgTable(
+  'workflow_transitions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    pageId: uuid('page_id')
+      .notNull()
+      .references(() => pages.id, { onDelete: 'cascade' }),
+    action: varchar('action', { length: 30 }).notNull(), // submit, approve, request_changes, publish, ...
+    fromStatus: varchar('from_status', { length: 20 }).notNull(),
+    toStatus: varchar('to_status', { length: 20 }).notNull(),
+    comment: text('comment'),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }), // Null for scheduler transitions
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  table => ({
+    pageIdIdx: index('workflow_transitions_page_id_idx').on(table.pageId),
+    createdAtIdx: index('workflow_transitions_created_at_idx').on(table.createdAt),
+  })
+);
+
+export const workflowTransitionsRelations = relations(workflowTransitions, ({ one }) => ({
+  page: one(pages, {
+    fields: [workflowTransitions.pageId],
+    references: [pages.id],
+  }),
+  user: one(users, {
+    fields: [workflowTransitions.userId],
+    references: [users.id],
+  }),
+}));
+
 // Export all tables for use in migrations and queries
 export const schema = {
   pages,
@@ -460,25 +745,42 @@ export const schema = {
   mediaAssets,
   abTests,
   abTestResults,
+  abTestExposures,
+  abTestDecisions,
   userSessions,
   pageVersions,
   contentTemplates,
   comments,
+  commentBlocklist,
+  commentRevisions,
+  notificationUnsubscribes,
   socialShares,
   rssFeeds,
   seoRedirects,
   seoAnalysis,
   sitemapEntries,
+  users,
+  refreshTokens,
+  deployments,
+  workflowTransitions,
   pagesRelations,
+  themesRelations,
   blogPostsRelations: blogPostsRelationsExtended,
   abTestsRelations,
   abTestResultsRelations,
+  abTestExposuresRelations,
+  abTestDecisionsRelations,
   pageVersionsRelations,
   contentTemplatesRelations,
   commentsRelations,
+  commentRevisionsRelations,
   socialSharesRelations,
   rssRelations,
   seoRedirectsRelations,
   seoAnalysisRelations,
   sitemapEntriesRelations,
+  usersRelations,
+  refreshTokensRelations,
+  deploymentsRelations,
+  workflowTransitionsRelations,
 };
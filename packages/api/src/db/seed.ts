@@ -1,5 +1,6 @@
 import { db } from './connection';
-import { pages, themes, mediaAssets, blogPosts } from './schema';
+import { pages, themes, mediaAssets, blogPosts, users } from './schema';
+import { UserService } from '../services/user-service';
 
 // Default theme configuration
 const defaultTheme = {
@@ -297,6 +298,24 @@ async function seedDatabase() {
     await db.insert(mediaAssets).values(sampleAssets);
     console.log('✅ Sample media assets created');
 
+    // Create development accounts (change these passwords outside local development)
+    const seedPassword = process.env.SEED_USER_PASSWORD || 'password123';
+    const sampleUsers = [
+      { email: 'admin@example.com', name: 'Admin User', role: 'admin' },
+      { email: 'editor@example.com', name: 'Editor User', role: 'editor' },
+    ];
+
+    for (const sampleUser of sampleUsers) {
+      await db
+        .insert(users)
+        .values({
+          ...sampleUser,
+          passwordHash: await UserService.hashPassword(seedPassword),
+        })
+        .onConflictDoNothing({ target: users.email });
+    }
+    console.log('✅ Sample users created');
+
     console.log('🎉 Database seeding completed successfully!');
   } catch (error) {
     console.error('❌ Seeding failed:', error);
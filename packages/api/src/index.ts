@@ -1,124 +1,31 @@
-import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
 import {
   checkDatabaseConnection,
   closeDatabaseConnection,
   initializeRedis,
   closeRedisConnection,
 } from './db/index';
+import {
+  initializeRedis as initializeCacheRedis,
+  closeRedisConnection as closeCacheRedisConnection,
+} from './db/redis';
+import { PublishingScheduler } from './services/publishing-scheduler';
+import { ABTestAutomation } from './services/ab-test-automation';
+import { buildApp } from './app';
 
-// Import plugins
-import sensiblePlugin from './plugins/sensible';
-import errorHandlerPlugin from './plugins/error-handler';
-import securityPlugin from './plugins/security';
-import authPlugin from './plugins/auth';
-import validationPlugin from './plugins/validation';
-import swaggerPlugin from './plugins/swagger';
-import redirectHandlerPlugin from './plugins/redirect-handler';
-import staticPlugin from '@fastify/static';
-import multipartPlugin from '@fastify/multipart';
-
-// Import routes
-import healthRoutes from './routes/health';
-import authRoutes from './routes/auth';
-import pageRoutes from './routes/pages';
-import templateRoutes from './routes/templates';
-import themeRoutes from './routes/themes';
-import mediaRoutes from './routes/media';
-import blogRoutes from './routes/blog';
-import commentRoutes from './routes/comments';
-import socialRoutes from './routes/social';
-import rssRoutes from './routes/rss';
-import seoRoutes from './routes/seo';
-import abTestRoutes from './routes/ab-tests';
-
-const fastify = Fastify({
-  logger:
-    process.env.NODE_ENV === 'development'
-      ? {
-          level: process.env.LOG_LEVEL || 'info',
-          transport: {
-            target: 'pino-pretty',
-            options: {
-              colorize: true,
-              translateTime: 'HH:MM:ss Z',
-              ignore: 'pid,hostname',
-            },
-          },
-        }
-      : {
-          level: process.env.LOG_LEVEL || 'info',
-        },
-  trustProxy: true, // Enable if behind a proxy
-  disableRequestLogging: false,
-  requestIdHeader: 'x-request-id',
-  requestIdLogLabel: 'reqId',
-});
-
-// Register plugins in order
-async function registerPlugins() {
-  // Core plugins first
-  await fastify.register(sensiblePlugin);
-  await fastify.register(errorHandlerPlugin);
-
-  // Documentation (register early to define schemas)
-  await fastify.register(swaggerPlugin);
-
-  // Security plugins
-  await fastify.register(securityPlugin);
-
-  // Static file serving for uploads
-  await fastify.register(staticPlugin, {
-    root: process.env.UPLOAD_DIR || new URL('../uploads', import.meta.url).pathname,
-    prefix: '/uploads/',
-  });
-
-  // Multipart file upload support
-  await fastify.register(multipartPlugin, {
-    limits: {
-      fileSize: 50 * 1024 * 1024, // 50MB
-    },
-  });
-
-  // Authentication and validation
-  await fastify.register(authPlugin);
-  await fastify.register(validationPlugin);
-
-  // Redirect handler (register after auth but before routes)
-  await fastify.register(redirectHandlerPlugin);
-}
-
-// Register routes
-async function registerRoutes() {
-  // Health routes (no prefix)
-  await fastify.register(healthRoutes);
-
-  // API routes with /api prefix - temporarily disable problematic routes
-  await fastify.register(
-    async function (fastify) {
-      await fastify.register(authRoutes, { prefix: '/auth' });
-      // await fastify.register(pageRoutes, { prefix: '/pages' });
-      // await fastify.register(templateRoutes, { prefix: '/templates' });
-      // await fastify.register(themeRoutes, { prefix: '/themes' });
-      // await fastify.register(mediaRoutes, { prefix: '/media' });
-      // await fastify.register(blogRoutes, { prefix: '/blog' });
-      // await fastify.register(commentRoutes, { prefix: '/comments' });
-      // await fastify.register(socialRoutes, { prefix: '/social' });
-      // await fastify.register(rssRoutes, { prefix: '/rss' });
-      // await fastify.register(seoRoutes, { prefix: '/seo' });
-      // await fastify.register(abTestRoutes);
-    },
-    { prefix: '/api' }
-  );
-}
+let fastify: FastifyInstance | undefined;
 
 // Graceful shutdown handler
 const gracefulShutdown = async () => {
   console.log('🛑 Shutting down gracefully...');
 
   try {
-    await fastify.close();
+    PublishingScheduler.stop();
+    ABTestAutomation.stop();
+    await fastify?.close();
     await closeDatabaseConnection();
     await closeRedisConnection();
+    await closeCacheRedisConnection();
     console.log('✅ Graceful shutdown completed');
     process.exit(0);
   } catch (error) {
@@ -133,8 +40,9 @@ process.on('SIGINT', gracefulShutdown);
 
 const start = async () => {
   try {
-    // Initialize Redis connection
+    // Initialize Redis connections (session client and cache/lock client)
     await initializeRedis();
+    await initializeCacheRedis();
 
     // Check database connection
     const dbConnected = await checkDatabaseConnection();
@@ -143,8 +51,7 @@ const start = async () => {
     }
 
     // Register plugins and routes
-    await registerPlugins();
-    await registerRoutes();
+    fastify = await buildApp();
 
     // Start server
     const port = parseInt(process.env.PORT || '3001', 10);
@@ -152,6 +59,22 @@ const start = async () => {
 
     await fastify.listen({ port, host });
 
+    // Publish scheduled content and unpublish expired content in the background
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      PublishingScheduler.start(
+        parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000', 10),
+        fastify.log
+      );
+    }
+
+    // Apply A/B test stopping rules and bandit traffic reallocation in the background
+    if (process.env.AB_TEST_AUTOMATION_ENABLED !== 'false') {
+      ABTestAutomation.start(
+        parseInt(process.env.AB_TEST_AUTOMATION_INTERVAL_MS || '900000', 10),
+        fastify.log
+      );
+    }
+
     console.log('🏛️ Visual Website Builder API server running');
     console.log(`📡 Server: http://localhost:${port}`);
     console.log(`📊 Health: http://localhost:${port}/health`);
@@ -8,6 +8,7 @@ import {
   ForbiddenError,
   TokenExpiredError,
 } from '@oldworldcharm/shared';
+import { Secrets } from '../services/secrets';
 
 // JWT payload interface
 interface JWTPayload {
@@ -44,9 +45,7 @@ declare module '@fastify/jwt' {
 async function authPlugin(fastify: FastifyInstance) {
   // Register JWT plugin
   await fastify.register(jwt, {
-    secret:
-      process.env.JWT_SECRET ||
-      'your-super-secret-jwt-key-change-in-production',
+    secret: Secrets.get('jwt'),
     sign: {
       algorithm: 'HS256',
       expiresIn: '24h',
@@ -62,17 +61,13 @@ async function authPlugin(fastify: FastifyInstance) {
 
   // Register cookie plugin
   await fastify.register(cookie, {
-    secret:
-      process.env.COOKIE_SECRET ||
-      'your-super-secret-cookie-key-change-in-production',
+    secret: Secrets.get('cookie'),
     hook: 'onRequest',
   });
 
   // Register session plugin
   await fastify.register(session, {
-    secret:
-      process.env.SESSION_SECRET ||
-      'your-super-secret-session-key-change-in-production',
+    secret: Secrets.get('session'),
     cookie: {
       secure: process.env.NODE_ENV === 'production',
       httpOnly: true,
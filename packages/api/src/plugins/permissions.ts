@@ -0,0 +1,95 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  ValidationError,
+  PermissionUtils,
+  WORKFLOW_TRANSITIONS,
+  type PermissionResource,
+  type PermissionAction,
+  type WorkflowAction,
+} from '@oldworldcharm/shared';
+
+// Resolves the user ID that owns the record targeted by a request
+type OwnerResolver = (request: FastifyRequest) => Promise<string | null | undefined>;
+
+interface PermissionOptions {
+  getOwnerId?: OwnerResolver;
+}
+
+async function permissionsPlugin(fastify: FastifyInstance) {
+  // Permission decorator - must run after fastify.authenticate
+  fastify.decorate(
+    'requirePermission',
+    function (
+      resource: PermissionResource,
+      action: PermissionAction,
+      options: PermissionOptions = {}
+    ) {
+      return async function (request: FastifyRequest, _reply: FastifyReply) {
+        if (!request.user) {
+          throw new UnauthorizedError('Authentication required');
+        }
+
+        const result = PermissionUtils.check(request.user.role, resource, action);
+
+        if (result === 'granted') {
+          return;
+        }
+
+        if (result === 'own' && options.getOwnerId) {
+          const ownerId = await options.getOwnerId(request);
+          if (ownerId && ownerId === request.user.userId) {
+            return;
+          }
+
+          throw new ForbiddenError(
+            `Access denied. Role '${request.user.role}' can only ${action} its own ${resource}`
+          );
+        }
+
+        throw new ForbiddenError(
+          `Access denied. Role '${request.user.role}' cannot ${action} ${resource}`
+        );
+      };
+    }
+  );
+
+  // Workflow actions need the permission of the requested transition - must run after body validation
+  fastify.decorate(
+    'requireWorkflowPermission',
+    function (resource: PermissionResource, options: PermissionOptions = {}) {
+      return async function (request: FastifyRequest, reply: FastifyReply) {
+        const { action } = (request.body || {}) as { action: WorkflowAction };
+        const rule = WORKFLOW_TRANSITIONS[action];
+
+        if (!rule) {
+          throw new ValidationError(`Unknown workflow action '${action}'`);
+        }
+
+        await fastify.requirePermission(resource, rule.permission, options)(request, reply);
+      };
+    }
+  );
+}
+
+// Extend Fastify instance type
+declare module 'fastify' {
+  interface FastifyInstance {
+    requirePermission: (
+      resource: PermissionResource,
+      action: PermissionAction,
+      options?: PermissionOptions
+    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireWorkflowPermission: (
+      resource: PermissionResource,
+      options?: PermissionOptions
+    ) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+  }
+}
+
+export default fp(permissionsPlugin, {
+  name: 'permissions',
+  dependencies: ['auth'],
+});
@@ -3,6 +3,7 @@ import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
 import cors from '@fastify/cors';
 import { FastifyInstance } from 'fastify';
+import { RateLimitError } from '@oldworldcharm/shared';
 
 async function securityPlugin(fastify: FastifyInstance) {
   // Register CORS
@@ -63,21 +64,12 @@ async function securityPlugin(fastify: FastifyInstance) {
       // Use IP address as key, but consider user ID if authenticated
       return request.user?.userId || request.ip;
     },
-    errorResponseBuilder: (_request, context) => {
-      return {
-        success: false,
-        error: {
-          code: 'RATE_LIMIT_EXCEEDED',
-          message: `Rate limit exceeded. Maximum ${context.max} requests per ${context.after}`,
-          details: {
-            max: context.max,
-            remaining: context.ttl,
-            resetTime: new Date(Date.now() + context.ttl),
-          },
-        },
-        timestamp: new Date().toISOString(),
-      };
-    },
+    // The plugin throws what this returns, so the error handler answers with a 429
+    errorResponseBuilder: (_request, context) =>
+      new RateLimitError(
+        `Rate limit exceeded. Maximum ${context.max} requests per ${context.after}`,
+        Math.ceil(context.ttl / 1000)
+      ),
     addHeaders: {
       'x-ratelimit-limit': true,
       'x-ratelimit-remaining': true,
@@ -215,7 +215,7 @@ async function swaggerPlugin(fastify: FastifyInstance) {
               },
               status: {
                 type: 'string',
-                enum: ['draft', 'published', 'archived'],
+                enum: ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'],
               },
               publishedAt: { type: 'string', format: 'date-time' },
               createdAt: { type: 'string', format: 'date-time' },
@@ -245,6 +245,7 @@ async function swaggerPlugin(fastify: FastifyInstance) {
         { name: 'A/B Tests', description: 'A/B testing management' },
         { name: 'SEO', description: 'SEO optimization' },
         { name: 'Build', description: 'Build and deployment' },
+        { name: 'Site', description: 'Public page delivery' },
       ],
     },
     hideUntagged: true,
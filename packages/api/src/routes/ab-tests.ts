@@ -1,9 +1,43 @@
 import { FastifyPluginAsync } from 'fastify';
 import { ABTestService } from '../services/ab-test-service';
-import type { ABTest } from '@oldworldcharm/shared';
+import { ABTestStatistics } from '@oldworldcharm/shared';
+import type { ABTest, AnalysisOptions } from '@oldworldcharm/shared';
 
 const abTestRoutes: FastifyPluginAsync = async (fastify) => {
   // Schema definitions for request/response validation
+  const goalSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', pattern: '^[a-z0-9_-]+$', maxLength: 100 },
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      type: { type: 'string', enum: ['click', 'form_submit', 'page_reached', 'custom_event', 'revenue'] },
+      role: { type: 'string', enum: ['primary', 'secondary', 'guardrail'] },
+      target: { type: 'string', maxLength: 500 },
+    },
+    required: ['id', 'name', 'type', 'role'],
+  };
+
+  const stoppingRulesSchema = {
+    type: 'object',
+    properties: {
+      maxDurationDays: { type: 'integer', minimum: 1, maximum: 365 },
+      minSamplePerVariant: { type: 'integer', minimum: 1 },
+      confidenceLevel: { type: 'number', exclusiveMinimum: 0.5, exclusiveMaximum: 1 },
+      stopOnGuardrailDegradation: { type: 'boolean' },
+      guardrailTolerance: { type: 'number', minimum: 0, maximum: 1 },
+    },
+  };
+
+  const banditSchema = {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      minTrafficPercentage: { type: 'number', minimum: 0, maximum: 50 },
+      minSamplePerVariant: { type: 'integer', minimum: 0 },
+    },
+    required: ['enabled'],
+  };
+
   const abTestSchema = {
     type: 'object',
     properties: {
@@ -25,7 +59,12 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
           required: ['id', 'name', 'components', 'trafficPercentage', 'isControl'],
         },
       },
-      trafficSplit: { type: 'object' },
+      trafficSplit: { type: 'object', additionalProperties: { type: 'number' } },
+      goals: { type: 'array', items: goalSchema },
+      holdoutPercentage: { type: 'integer' },
+      exclusionGroup: { type: 'string' },
+      stoppingRules: stoppingRulesSchema,
+      bandit: banditSchema,
       status: { 
         type: 'string',
         enum: ['draft', 'running', 'paused', 'completed', 'archived']
@@ -39,6 +78,106 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
     required: ['name', 'pageId', 'variants', 'trafficSplit'],
   };
 
+  const confidenceIntervalSchema = {
+    type: 'object',
+    properties: {
+      lower: { type: 'number' },
+      upper: { type: 'number' },
+    },
+  };
+
+  const analysisSchema = {
+    type: 'object',
+    properties: {
+      confidenceLevel: { type: 'number' },
+      correction: { type: 'string' },
+      winner: { type: 'string' },
+      variants: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            variantId: { type: 'string' },
+            isControl: { type: 'boolean' },
+            visitors: { type: 'number' },
+            conversions: { type: 'number' },
+            conversionRate: { type: 'number' },
+            confidenceInterval: confidenceIntervalSchema,
+            comparison: {
+              type: 'object',
+              properties: {
+                absoluteDifference: { type: 'number' },
+                relativeLift: { type: 'number' },
+                zScore: { type: 'number' },
+                pValue: { type: 'number' },
+                adjustedPValue: { type: 'number' },
+                significant: { type: 'boolean' },
+                probabilityToBeatControl: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+      sampleSize: {
+        type: 'object',
+        properties: {
+          minimumDetectableEffect: { type: 'number' },
+          requiredPerVariant: { type: ['number', 'null'] },
+          currentPerVariant: { type: 'number' },
+          detectableEffect: { type: ['number', 'null'] },
+        },
+      },
+    },
+  };
+
+  // Records keyed by variant ID
+  const variantNumbersSchema = {
+    type: 'object',
+    additionalProperties: { type: 'number' },
+  };
+
+  const goalResultsSchema = {
+    type: 'object',
+    properties: {
+      goalId: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      role: { type: 'string' },
+      conversions: variantNumbersSchema,
+      conversionRates: variantNumbersSchema,
+      analysis: analysisSchema,
+      revenue: {
+        type: 'object',
+        properties: {
+          total: variantNumbersSchema,
+          perVisitor: variantNumbersSchema,
+          comparisons: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                difference: { type: 'number' },
+                relativeLift: { type: 'number' },
+                zScore: { type: 'number' },
+                pValue: { type: 'number' },
+                adjustedPValue: { type: 'number' },
+                significant: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  const analysisQuerySchema = {
+    type: 'object',
+    properties: {
+      confidenceLevel: { type: 'number', exclusiveMinimum: 0.5, exclusiveMaximum: 1 },
+      minimumDetectableEffect: { type: 'number', exclusiveMinimum: 0 },
+    },
+  };
+
   const createTestSchema = {
     body: {
       type: 'object',
@@ -65,6 +204,11 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
           type: 'object',
           additionalProperties: { type: 'number', minimum: 0, maximum: 100 }
         },
+        goals: { type: 'array', maxItems: 20, items: goalSchema },
+        holdoutPercentage: { type: 'integer', minimum: 0, maximum: 99 },
+        exclusionGroup: { type: 'string', maxLength: 100 },
+        stoppingRules: stoppingRulesSchema,
+        bandit: banditSchema,
         conversionGoal: { type: 'string' },
         startDate: { type: 'string', format: 'date-time' },
         endDate: { type: 'string', format: 'date-time' },
@@ -79,7 +223,10 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
   // Create A/B test
   fastify.post<{
     Body: Omit<ABTest, 'id' | 'createdAt' | 'updatedAt'>;
-  }>('/ab-tests', { schema: createTestSchema }, async (request, reply) => {
+  }>('/ab-tests', {
+    schema: createTestSchema,
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'create')],
+  }, async (request, reply) => {
     try {
       const test = await ABTestService.createTest(request.body);
       return reply.code(201).send(test);
@@ -124,6 +271,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
       const { status, pageId, limit = 50, offset = 0 } = request.query;
@@ -155,6 +303,62 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Sample size and minimum detectable effect calculator
+  fastify.get<{
+    Querystring: {
+      baselineRate: number;
+      minimumDetectableEffect?: number;
+      sampleSize?: number;
+      variants?: number;
+      confidenceLevel?: number;
+      power?: number;
+    };
+  }>('/ab-tests/sample-size', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          baselineRate: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+          minimumDetectableEffect: { type: 'number', exclusiveMinimum: 0, default: 0.1 },
+          sampleSize: { type: 'integer', minimum: 1 },
+          variants: { type: 'integer', minimum: 2, default: 2 },
+          confidenceLevel: { type: 'number', exclusiveMinimum: 0.5, exclusiveMaximum: 1, default: 0.95 },
+          power: { type: 'number', exclusiveMinimum: 0.5, exclusiveMaximum: 1, default: 0.8 },
+        },
+        required: ['baselineRate'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            requiredPerVariant: { type: ['number', 'null'] },
+            requiredTotal: { type: ['number', 'null'] },
+            detectableEffect: { type: ['number', 'null'] },
+          },
+        },
+      },
+    },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
+  }, async (request, reply) => {
+    const {
+      baselineRate,
+      minimumDetectableEffect = 0.1,
+      sampleSize,
+      variants = 2,
+      confidenceLevel = 0.95,
+      power = 0.8,
+    } = request.query;
+    const options = { baselineRate, alpha: 1 - confidenceLevel, power, comparisons: variants - 1 };
+
+    const requiredPerVariant = ABTestStatistics.sampleSize({ ...options, minimumDetectableEffect });
+
+    reply.send({
+      requiredPerVariant,
+      requiredTotal: requiredPerVariant !== null ? requiredPerVariant * variants : null,
+      detectableEffect: sampleSize ? ABTestStatistics.minimumDetectableEffect({ ...options, sampleSize }) : null,
+    });
+  });
+
   // Get A/B test by ID
   fastify.get<{
     Params: { testId: string };
@@ -178,6 +382,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
       const test = await ABTestService.getTestById(request.params.testId);
@@ -232,6 +437,11 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
             },
           },
           trafficSplit: { type: 'object' },
+          goals: { type: 'array', maxItems: 20, items: goalSchema },
+          holdoutPercentage: { type: 'integer', minimum: 0, maximum: 99 },
+          exclusionGroup: { type: 'string', maxLength: 100 },
+          stoppingRules: stoppingRulesSchema,
+          bandit: banditSchema,
           status: { 
             type: 'string',
             enum: ['draft', 'running', 'paused', 'completed', 'archived']
@@ -252,6 +462,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'update')],
   }, async (request, reply) => {
     try {
       const test = await ABTestService.updateTest(request.params.testId, request.body);
@@ -297,6 +508,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'delete')],
   }, async (request, reply) => {
     try {
       const deleted = await ABTestService.deleteTest(request.params.testId);
@@ -342,6 +554,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'publish')],
   }, async (request, reply) => {
     try {
       const test = await ABTestService.startTest(request.params.testId);
@@ -378,6 +591,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'publish')],
   }, async (request, reply) => {
     try {
       const test = await ABTestService.pauseTest(request.params.testId);
@@ -414,6 +628,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'publish')],
   }, async (request, reply) => {
     try {
       const test = await ABTestService.completeTest(request.params.testId);
@@ -480,7 +695,8 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         request.body.sessionId
       );
 
-      if (!assignment) {
+      const test = assignment && (await ABTestService.getTestById(request.params.testId));
+      if (!assignment || !test) {
         reply.code(404).send({
           error: 'Not found',
           message: 'A/B test not found or not running',
@@ -488,6 +704,9 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         return;
       }
 
+      // The frontend renders the variant it is given, so this counts as the visitor's exposure
+      await ABTestService.recordExposure(test.id, assignment.variantId, request.body.sessionId, test.pageId);
+
       reply.send(assignment);
     } catch (error) {
       fastify.log.error({ error }, 'Error assigning user to variant');
@@ -502,7 +721,9 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{
     Params: { testId: string };
     Body: {
-      sessionId: string;
+      sessionId?: string;
+      goalId?: string;
+      revenue?: number;
       conversionValue?: number;
       metadata?: Record<string, unknown>;
     };
@@ -518,11 +739,14 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
       body: {
         type: 'object',
         properties: {
+          // Defaults to the visitor cookie set when the variant was served
           sessionId: { type: 'string' },
+          // Defaults to the test's primary goal
+          goalId: { type: 'string' },
+          revenue: { type: 'number', minimum: 0 },
           conversionValue: { type: 'number' },
           metadata: { type: 'object' },
         },
-        required: ['sessionId'],
       },
       response: {
         200: {
@@ -535,13 +759,22 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
+    const sessionId = request.body.sessionId || request.cookies[ABTestService.VISITOR_COOKIE];
+    if (!sessionId) {
+      reply.code(400).send({
+        error: 'Failed to record conversion',
+        message: 'A session ID or visitor cookie is required',
+      });
+      return;
+    }
+
     try {
-      await ABTestService.recordConversion(
-        request.params.testId,
-        request.body.sessionId,
-        request.body.conversionValue,
-        request.body.metadata
-      );
+      await ABTestService.recordConversion(request.params.testId, sessionId, {
+        goalId: request.body.goalId,
+        revenue: request.body.revenue,
+        conversionValue: request.body.conversionValue,
+        metadata: request.body.metadata,
+      });
 
       reply.send({
         success: true,
@@ -559,6 +792,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
   // Get A/B test results
   fastify.get<{
     Params: { testId: string };
+    Querystring: AnalysisOptions;
   }>('/ab-tests/:testId/results', {
     schema: {
       params: {
@@ -568,16 +802,19 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
         required: ['testId'],
       },
+      querystring: analysisQuerySchema,
       response: {
         200: {
           type: 'object',
           properties: {
             totalVisitors: { type: 'number' },
-            conversions: { type: 'object' },
-            conversionRates: { type: 'object' },
+            conversions: variantNumbersSchema,
+            conversionRates: variantNumbersSchema,
             statisticalSignificance: { type: 'number' },
             winner: { type: 'string' },
             confidence: { type: 'number' },
+            analysis: analysisSchema,
+            goals: { type: 'array', items: goalResultsSchema },
           },
         },
         404: {
@@ -589,9 +826,10 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
-      const results = await ABTestService.getTestResults(request.params.testId);
+      const results = await ABTestService.getTestResults(request.params.testId, request.query);
       
       if (!results) {
         reply.code(404).send({
@@ -614,6 +852,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
   // Get detailed analytics for A/B test
   fastify.get<{
     Params: { testId: string };
+    Querystring: AnalysisOptions;
   }>('/ab-tests/:testId/analytics', {
     schema: {
       params: {
@@ -623,6 +862,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
         required: ['testId'],
       },
+      querystring: analysisQuerySchema,
       response: {
         200: {
           type: 'object',
@@ -631,11 +871,13 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
               type: 'object',
               properties: {
                 totalVisitors: { type: 'number' },
-                conversions: { type: 'object' },
-                conversionRates: { type: 'object' },
+                conversions: variantNumbersSchema,
+                conversionRates: variantNumbersSchema,
                 statisticalSignificance: { type: 'number' },
                 winner: { type: 'string' },
                 confidence: { type: 'number' },
+                analysis: analysisSchema,
+                goals: { type: 'array', items: goalResultsSchema },
               },
             },
             timeline: {
@@ -650,7 +892,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
                 },
               },
             },
-            variantPerformance: { type: 'object' },
+            variantPerformance: { type: 'object', additionalProperties: true },
           },
         },
         404: {
@@ -662,9 +904,10 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
-      const analytics = await ABTestService.getDetailedAnalytics(request.params.testId);
+      const analytics = await ABTestService.getDetailedAnalytics(request.params.testId, request.query);
       
       if (!analytics) {
         reply.code(404).send({
@@ -730,6 +973,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
       const summary = await ABTestService.getTestSummary(request.params.testId);
@@ -752,6 +996,67 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Get the automatic decisions taken on an A/B test
+  fastify.get<{
+    Params: { testId: string };
+  }>('/ab-tests/:testId/decisions', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          testId: { type: 'string' },
+        },
+        required: ['testId'],
+      },
+      response: {
+        200: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              testId: { type: 'string' },
+              action: { type: 'string', enum: ['stop', 'reallocate'] },
+              rule: { type: 'string', enum: ['max_duration', 'significance', 'guardrail', 'bandit'] },
+              reason: { type: 'string' },
+              details: { type: 'object', additionalProperties: true },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
+  }, async (request, reply) => {
+    try {
+      const test = await ABTestService.getTestById(request.params.testId);
+
+      if (!test) {
+        reply.code(404).send({
+          error: 'Not found',
+          message: 'A/B test not found',
+        });
+        return;
+      }
+
+      const decisions = await ABTestService.getDecisions(test.id);
+      reply.send(decisions);
+    } catch (error) {
+      fastify.log.error({ error }, 'Error fetching A/B test decisions');
+      reply.code(500).send({
+        error: 'Failed to fetch A/B test decisions',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // Export A/B test results
   fastify.get<{
     Params: { testId: string };
@@ -776,6 +1081,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
       const { format = 'json' } = request.query;
@@ -813,6 +1119,7 @@ const abTestRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('ab-tests', 'read')],
   }, async (request, reply) => {
     try {
       const tests = await ABTestService.getTestsByPageId(request.params.pageId);
@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
+import { UserService } from '../services/user-service';
 
 // Auth schemas
 const LoginSchema = z.object({
@@ -17,23 +18,13 @@ const RefreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
-// Mock user data (in production, this would come from database)
-const mockUsers = [
-  {
-    id: '1',
-    email: 'admin@example.com',
-    password: 'password123', // In production, this would be hashed
-    name: 'Admin User',
-    role: 'admin',
-  },
-  {
-    id: '2',
-    email: 'editor@example.com',
-    password: 'password123',
-    name: 'Editor User',
-    role: 'editor',
-  },
-];
+const UserIdParamsSchema = z.object({
+  id: z.string().uuid('Invalid user ID'),
+});
+
+const UpdateRoleSchema = z.object({
+  role: z.enum(['admin', 'editor', 'author', 'viewer']),
+});
 
 export default async function authRoutes(fastify: FastifyInstance) {
   // Login endpoint
@@ -70,6 +61,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
                     },
                   },
                   token: { type: 'string' },
+                  refreshToken: { type: 'string' },
                 },
               },
               message: { type: 'string' },
@@ -83,10 +75,22 @@ export default async function authRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { email, password } = request.body as z.infer<typeof LoginSchema>;
 
-      // Find user (in production, query database)
-      const user = mockUsers.find(
-        u => u.email === email && u.password === password
-      );
+      let user;
+      try {
+        user = await UserService.authenticate(email, password);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Account is disabled') {
+          return reply.code(403).send({
+            success: false,
+            error: {
+              code: 'ACCOUNT_DISABLED',
+              message: 'This account has been disabled',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+        throw error;
+      }
 
       if (!user) {
         return reply.code(401).send({
@@ -99,12 +103,13 @@ export default async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
-      // Generate JWT token
+      // Generate JWT and refresh tokens
       const token = fastify.generateToken({
         userId: user.id,
         email: user.email,
         role: user.role,
       });
+      const refreshToken = await UserService.issueRefreshToken(user.id);
 
       // Set auth cookie
       fastify.setAuthCookie(reply, token);
@@ -125,6 +130,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
             role: user.role,
           },
           token,
+          refreshToken,
         },
         'Login successful'
       );
@@ -166,6 +172,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
                     },
                   },
                   token: { type: 'string' },
+                  refreshToken: { type: 'string' },
                 },
               },
               message: { type: 'string' },
@@ -182,36 +189,35 @@ export default async function authRoutes(fastify: FastifyInstance) {
         typeof RegisterSchema
       >;
 
-      // Check if user already exists
-      const existingUser = mockUsers.find(u => u.email === email);
-      if (existingUser) {
-        return reply.code(409).send({
-          success: false,
-          error: {
-            code: 'USER_EXISTS',
-            message: 'User with this email already exists',
-          },
-          timestamp: new Date().toISOString(),
+      let newUser;
+      try {
+        newUser = await UserService.createUser({
+          email,
+          password,
+          name,
+          role: 'viewer', // Self-registered accounts can only read until an admin grants them a role
         });
+      } catch (error) {
+        if (error instanceof Error && error.message === 'User with this email already exists') {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'USER_EXISTS',
+              message: 'User with this email already exists',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+        throw error;
       }
 
-      // Create new user (in production, save to database with hashed password)
-      const newUser = {
-        id: String(mockUsers.length + 1),
-        email,
-        password, // In production, hash this password
-        name,
-        role: 'editor', // Default role
-      };
-
-      mockUsers.push(newUser);
-
-      // Generate JWT token
+      // Generate JWT and refresh tokens
       const token = fastify.generateToken({
         userId: newUser.id,
         email: newUser.email,
         role: newUser.role,
       });
+      const refreshToken = await UserService.issueRefreshToken(newUser.id);
 
       // Set auth cookie
       fastify.setAuthCookie(reply, token);
@@ -233,6 +239,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
             role: newUser.role,
           },
           token,
+          refreshToken,
         },
         'Registration successful'
       );
@@ -246,7 +253,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Auth'],
         summary: 'User logout',
-        description: 'Logout user and clear authentication',
+        description: 'Logout user, clear authentication and revoke refresh tokens',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         response: {
           200: {
@@ -262,6 +269,9 @@ export default async function authRoutes(fastify: FastifyInstance) {
       preHandler: fastify.authenticate,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
+      // Revoke refresh tokens so they can't be used to sign back in
+      await UserService.revokeRefreshTokens(request.user.userId);
+
       // Clear auth cookie
       fastify.clearAuthCookie(reply);
 
@@ -312,7 +322,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
       preHandler: fastify.authenticate,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const user = mockUsers.find(u => u.id === request.user!.userId);
+      const user = await UserService.getUserById(request.user.userId);
 
       if (!user) {
         return reply.code(404).send({
@@ -336,14 +346,14 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // Refresh token endpoint (placeholder for future implementation)
+  // Refresh token endpoint
   fastify.post(
     '/refresh',
     {
       schema: {
         tags: ['Auth'],
         summary: 'Refresh authentication token',
-        description: 'Refresh JWT token using refresh token',
+        description: 'Exchange a refresh token for a new JWT and a rotated refresh token',
         body: {
           type: 'object',
           properties: {
@@ -371,16 +381,91 @@ export default async function authRoutes(fastify: FastifyInstance) {
       },
       preHandler: fastify.validate({ body: RefreshTokenSchema }),
     },
-    async (_request: FastifyRequest, reply: FastifyReply) => {
-      // This is a placeholder implementation
-      // In production, you would validate the refresh token and generate new tokens
-      reply.code(501).send({
-        success: false,
-        error: {
-          code: 'NOT_IMPLEMENTED',
-          message: 'Refresh token functionality not yet implemented',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { refreshToken } = request.body as z.infer<typeof RefreshTokenSchema>;
+
+      const rotated = await UserService.rotateRefreshToken(refreshToken);
+
+      if (!rotated) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_REFRESH_TOKEN',
+            message: 'Refresh token is invalid or has expired',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const token = fastify.generateToken({
+        userId: rotated.user.id,
+        email: rotated.user.email,
+        role: rotated.user.role,
+      });
+
+      fastify.setAuthCookie(reply, token);
+
+      fastify.sendSuccess(reply, {
+        token,
+        refreshToken: rotated.refreshToken,
+      });
+    }
+  );
+
+  // Change a user's role (admin only)
+  fastify.patch(
+    '/users/:id/role',
+    {
+      schema: {
+        tags: ['Auth'],
+        summary: 'Change user role',
+        description: 'Promote or demote a user. New accounts start as viewers until an admin grants them a role.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['role'],
+          properties: {
+            role: { type: 'string', enum: ['admin', 'editor', 'author', 'viewer'] },
+          },
+        },
+      },
+      preHandler: [
+        fastify.authenticate,
+        fastify.requirePermission('users', 'update'),
+        fastify.validate({ params: UserIdParamsSchema, body: UpdateRoleSchema }),
+      ],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as z.infer<typeof UserIdParamsSchema>;
+      const { role } = request.body as z.infer<typeof UpdateRoleSchema>;
+
+      const user = await UserService.updateRole(id, role);
+
+      if (!user) {
+        return reply.code(404).send({
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      fastify.sendSuccess(reply, {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
         },
-        timestamp: new Date().toISOString(),
       });
     }
   );
@@ -2,10 +2,16 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { eq, desc, asc, and, or, like, sql } from 'drizzle-orm';
 import { db, pages, blogPosts } from '../db/index';
+import { WorkflowService, mapWorkflowError } from '../services/workflow-service';
+import { PageDeliveryService } from '../services/page-delivery-service';
 import {
+  InitialPageStatusSchema,
   PageStatusSchema,
   SEODataSchema,
   ComponentInstanceSchema,
+  WorkflowTransitionRequestSchema,
+  WorkflowUtils,
+  type PageStatus,
 } from '@oldworldcharm/shared';
 
 // Request schemas for blog API endpoints
@@ -45,12 +51,13 @@ const CreateBlogPostSchema = z.object({
   content: z.string().optional(),
   components: z.array(ComponentInstanceSchema).default([]),
   seoData: SEODataSchema.default({}),
-  status: PageStatusSchema.default('draft'),
+  status: InitialPageStatusSchema.default('draft'),
   publishedAt: z.date().optional(),
 });
 
 const UpdateBlogPostSchema = CreateBlogPostSchema.partial().extend({
   id: z.string().min(1, 'Blog post ID is required'),
+  status: PageStatusSchema.optional(),
 });
 
 const BlogPostQuerySchema = z.object({
@@ -101,6 +108,19 @@ function calculateReadingTime(content: string, components: any[]): number {
   return Math.max(1, Math.ceil(wordCount / 200));
 }
 
+// Resolve the owning user of a blog post for own-record permission checks
+async function getBlogPostOwnerId(request: FastifyRequest): Promise<string | null> {
+  const { id } = request.params as { id: string };
+
+  const [blogPost] = await db
+    .select({ authorId: blogPosts.authorId })
+    .from(blogPosts)
+    .where(eq(blogPosts.pageId, id))
+    .limit(1);
+
+  return blogPost?.authorId ?? null;
+}
+
 export default async function blogRoutes(fastify: FastifyInstance) {
   // Create a new blog post
   fastify.post(
@@ -125,7 +145,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             content: { type: 'string' },
             components: { type: 'array', items: { type: 'object' } },
             seoData: { type: 'object' },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            status: { type: 'string', enum: ['draft', 'in_review'] },
             publishedAt: { type: 'string', format: 'date-time' },
           },
           required: ['slug', 'title', 'author'],
@@ -138,7 +158,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  blogPost: { type: 'object' },
+                  blogPost: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -149,7 +169,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: CreateBlogPostSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'create'), fastify.validate({ body: CreateBlogPostSchema })],
     },
     async (request: FastifyRequest<CreateBlogPostRequest>, reply: FastifyReply) => {
       const blogPostData = request.body;
@@ -190,9 +210,6 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             content: blogPostData.components || [],
             seoData: blogPostData.seoData,
             status: blogPostData.status,
-            publishedAt: blogPostData.status === 'published' 
-              ? (blogPostData.publishedAt || new Date()) 
-              : null,
           })
           .returning({ id: pages.id, slug: pages.slug, content: pages.content });
 
@@ -210,6 +227,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             categories: blogPostData.categories,
             tags: blogPostData.tags,
             author: blogPostData.author,
+            authorId: request.user?.userId ?? null,
             readingTime,
           })
           .returning({ id: blogPosts.id, pageId: blogPosts.pageId });
@@ -218,6 +236,16 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           throw new Error('Failed to create blog post');
         }
 
+        if (blogPostData.status === 'in_review') {
+          await WorkflowService.recordTransition({
+            pageId: newPage.id,
+            action: 'submit',
+            fromStatus: 'draft',
+            toStatus: 'in_review',
+            userId: request.user?.userId,
+          });
+        }
+
         // Combine page and blog post data
         const combinedBlogPost = {
           ...newPage,
@@ -259,7 +287,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           properties: {
             page: { type: 'integer', minimum: 1, default: 1 },
             pageSize: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            status: { type: 'string', enum: ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'] },
             search: { type: 'string' },
             categories: { type: 'array', items: { type: 'string' } },
             tags: { type: 'array', items: { type: 'string' } },
@@ -276,7 +304,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -290,7 +318,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: BlogPostQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'read'), fastify.validate({ querystring: BlogPostQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof BlogPostQuerySchema>;
@@ -447,7 +475,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  blogPost: { type: 'object' },
+                  blogPost: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -456,7 +484,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -550,7 +578,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             content: { type: 'string' },
             components: { type: 'array', items: { type: 'object' } },
             seoData: { type: 'object' },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            status: { type: 'string', enum: ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'] },
             publishedAt: { type: 'string', format: 'date-time' },
           },
         },
@@ -562,18 +590,20 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  blogPost: { type: 'object' },
+                  blogPost: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
               timestamp: { type: 'string', format: 'date-time' },
             },
           },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: UpdateBlogPostSchema.omit({ id: true }) })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'update', { getOwnerId: getBlogPostOwnerId }), fastify.validate({ body: UpdateBlogPostSchema.omit({ id: true }) })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -584,6 +614,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
         const [existingBlogPost] = await db
           .select({
             pageId: blogPosts.pageId,
+            authorId: blogPosts.authorId,
             slug: pages.slug,
             status: pages.status,
           })
@@ -624,6 +655,24 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           }
         }
 
+        // Status changes must follow the review workflow
+        const transition = WorkflowService.resolveUpdateTransition({
+          resource: 'blog',
+          role: request.user!.role,
+          isOwner: !!existingBlogPost.authorId && existingBlogPost.authorId === request.user?.userId,
+          currentStatus: existingBlogPost.status as PageStatus,
+          requestedStatus: updateData.status,
+          contentChanged: [
+            updateData.slug,
+            updateData.title,
+            updateData.description,
+            updateData.components,
+            updateData.seoData,
+            updateData.content,
+            updateData.excerpt,
+          ].some(value => value !== undefined),
+        });
+
         // Prepare page update data
         const pageUpdateValues: any = {
           updatedAt: new Date(),
@@ -634,16 +683,11 @@ export default async function blogRoutes(fastify: FastifyInstance) {
         if (updateData.description !== undefined) pageUpdateValues.description = updateData.description;
         if (updateData.components !== undefined) pageUpdateValues.content = updateData.components;
         if (updateData.seoData !== undefined) pageUpdateValues.seoData = updateData.seoData;
-        if (updateData.status !== undefined) {
-          pageUpdateValues.status = updateData.status;
-          // Set publishedAt when status changes to published
-          if (updateData.status === 'published' && existingBlogPost.status !== 'published') {
-            pageUpdateValues.publishedAt = updateData.publishedAt || new Date();
-          }
-          // Clear publishedAt when status changes from published
-          if (updateData.status !== 'published' && existingBlogPost.status === 'published') {
-            pageUpdateValues.publishedAt = null;
-          }
+        if (transition) {
+          Object.assign(
+            pageUpdateValues,
+            WorkflowService.getStatusValues(transition.fromStatus, transition.toStatus, updateData.publishedAt)
+          );
         }
 
         // Prepare blog post update data
@@ -683,6 +727,14 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           throw new Error('Failed to update blog post');
         }
 
+        if (transition) {
+          await WorkflowService.recordTransition({ pageId: id, ...transition, userId: request.user?.userId });
+          await WorkflowService.syncPublicContent(updatedPage, transition.fromStatus);
+        }
+
+        // Drop the delivered copy under both the old and the new slug
+        await PageDeliveryService.purge(existingBlogPost.slug, updatedPage.slug);
+
         // Combine updated data
         const combinedBlogPost = {
           ...updatedPage,
@@ -696,6 +748,15 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           'Blog post updated successfully'
         );
       } catch (error) {
+        const workflowError = mapWorkflowError(error);
+        if (workflowError) {
+          return reply.code(workflowError.statusCode).send({
+            success: false,
+            error: workflowError.error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         fastify.log.error(error, 'Error updating blog post');
         return reply.code(500).send({
           success: false,
@@ -737,7 +798,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'delete', { getOwnerId: getBlogPostOwnerId })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -745,7 +806,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
       try {
         // Check if blog post exists
         const existingBlogPost = await db
-          .select({ pageId: blogPosts.pageId })
+          .select({ pageId: blogPosts.pageId, slug: pages.slug })
           .from(blogPosts)
           .innerJoin(pages, eq(blogPosts.pageId, pages.id))
           .where(eq(pages.id, id))
@@ -764,6 +825,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
 
         // Delete the page (blog post will be deleted via cascade)
         await db.delete(pages).where(eq(pages.id, id));
+        await PageDeliveryService.purge(existingBlogPost[0]!.slug);
 
         fastify.sendSuccess(reply, null, 'Blog post deleted successfully');
       } catch (error) {
@@ -819,7 +881,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: CategoryTagQuerySchema.omit({ type: true }) })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'read'), fastify.validate({ querystring: CategoryTagQuerySchema.omit({ type: true }) })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { type } = request.params as { type: 'categories' | 'tags' };
@@ -877,7 +939,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Blog'],
         summary: 'Schedule blog post publication',
-        description: 'Schedule a blog post to be published at a specific date and time',
+        description: 'Schedule an approved blog post to be published at a specific date and time',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -890,6 +952,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             publishedAt: { type: 'string', format: 'date-time' },
+            expiresAt: { type: 'string', format: 'date-time' },
           },
           required: ['publishedAt'],
         },
@@ -901,31 +964,75 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  blogPost: { type: 'object' },
+                  blogPost: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
               timestamp: { type: 'string', format: 'date-time' },
             },
           },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'publish')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
-      const { publishedAt } = request.body as { publishedAt: string };
+      const { publishedAt, expiresAt } = request.body as { publishedAt: string; expiresAt?: string };
 
       try {
         const scheduledDate = new Date(publishedAt);
+        const expiryDate = expiresAt ? new Date(expiresAt) : null;
+
+        if (expiryDate && expiryDate <= scheduledDate) {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'INVALID_SCHEDULE',
+              message: 'Expiry date must be after the publication date',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
         
-        // Update the blog post with scheduled publication date
+        const [existingPage] = await db
+          .select({ status: pages.status })
+          .from(pages)
+          .innerJoin(blogPosts, eq(pages.id, blogPosts.pageId))
+          .where(eq(pages.id, id))
+          .limit(1);
+
+        if (!existingPage) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'BLOG_POST_NOT_FOUND',
+              message: 'Blog post not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (existingPage.status !== 'approved') {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'BLOG_POST_NOT_APPROVED',
+              message: 'Only approved blog posts can be scheduled for publication',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        // Update the blog post with scheduled publication date; the publishing scheduler flips the status
         const [updatedPage] = await db
           .update(pages)
           .set({
-            status: 'draft', // Keep as draft until publication time
             publishedAt: scheduledDate,
+            scheduledAt: scheduledDate,
+            expiresAt: expiryDate,
             updatedAt: new Date(),
           })
           .where(eq(pages.id, id))
@@ -954,6 +1061,8 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             seoData: pages.seoData,
             status: pages.status,
             publishedAt: pages.publishedAt,
+            scheduledAt: pages.scheduledAt,
+            expiresAt: pages.expiresAt,
             createdAt: pages.createdAt,
             updatedAt: pages.updatedAt,
             // Blog post fields
@@ -1011,7 +1120,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Blog'],
         summary: 'Publish blog post immediately',
-        description: 'Publish a blog post immediately',
+        description: 'Publish an approved blog post immediately',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -1028,7 +1137,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  blogPost: { type: 'object' },
+                  blogPost: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -1036,26 +1145,22 @@ export default async function blogRoutes(fastify: FastifyInstance) {
             },
           },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'publish')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
 
       try {
-        // Update the blog post to published status
-        const [updatedPage] = await db
-          .update(pages)
-          .set({
-            status: 'published',
-            publishedAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(pages.id, id))
-          .returning();
+        const [existingBlogPost] = await db
+          .select({ pageId: blogPosts.pageId })
+          .from(blogPosts)
+          .where(eq(blogPosts.pageId, id))
+          .limit(1);
 
-        if (!updatedPage) {
+        if (!existingBlogPost) {
           return reply.code(404).send({
             success: false,
             error: {
@@ -1066,6 +1171,9 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // Only approved posts can be published; the workflow service enforces the transition
+        await WorkflowService.transition(id, 'publish', { userId: request.user?.userId });
+
         // Get the complete blog post data
         const [blogPost] = await db
           .select({
@@ -1115,6 +1223,15 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           'Blog post published successfully'
         );
       } catch (error) {
+        const workflowError = mapWorkflowError(error);
+        if (workflowError) {
+          return reply.code(workflowError.statusCode).send({
+            success: false,
+            error: workflowError.error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         fastify.log.error(error, 'Error publishing blog post');
         return reply.code(500).send({
           success: false,
@@ -1128,6 +1245,192 @@ export default async function blogRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Apply a review workflow action to a blog post
+  fastify.post(
+    '/:id/workflow',
+    {
+      schema: {
+        tags: ['Blog'],
+        summary: 'Apply workflow action',
+        description: 'Submit a blog post for review, approve it, request changes, publish, unpublish, archive or restore it. Requesting changes requires a comment.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['submit', 'withdraw', 'approve', 'request_changes', 'publish', 'unpublish', 'archive', 'restore'],
+            },
+            comment: { type: 'string', maxLength: 2000 },
+          },
+          required: ['action'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  blogPost: { type: 'object', additionalProperties: true },
+                  transition: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.validate({ body: WorkflowTransitionRequestSchema }), fastify.requireWorkflowPermission('blog', { getOwnerId: getBlogPostOwnerId })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { action, comment } = request.body as z.infer<typeof WorkflowTransitionRequestSchema>;
+
+      try {
+        const [existingBlogPost] = await db
+          .select({ pageId: blogPosts.pageId })
+          .from(blogPosts)
+          .where(eq(blogPosts.pageId, id))
+          .limit(1);
+
+        if (!existingBlogPost) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'BLOG_POST_NOT_FOUND',
+              message: 'Blog post not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const { page, transition } = await WorkflowService.transition(id, action, {
+          userId: request.user?.userId,
+          comment,
+        });
+
+        fastify.sendSuccess(
+          reply,
+          { blogPost: { ...page, components: page.content }, transition },
+          `Blog post moved to ${transition.toStatus.replace('_', ' ')}`
+        );
+      } catch (error) {
+        const workflowError = mapWorkflowError(error);
+        if (workflowError) {
+          return reply.code(workflowError.statusCode).send({
+            success: false,
+            error: workflowError.error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error applying blog post workflow action');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to apply workflow action',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get the review workflow state and history of a blog post
+  fastify.get(
+    '/:id/workflow',
+    {
+      schema: {
+        tags: ['Blog'],
+        summary: 'Get blog post workflow',
+        description: 'Retrieve the current status of a blog post, the workflow actions available from it and its transition history, newest first',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string' },
+                  availableActions: { type: 'array', items: { type: 'string' } },
+                  history: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const [blogPost] = await db
+          .select({ status: pages.status })
+          .from(pages)
+          .innerJoin(blogPosts, eq(pages.id, blogPosts.pageId))
+          .where(eq(pages.id, id))
+          .limit(1);
+
+        if (!blogPost) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'BLOG_POST_NOT_FOUND',
+              message: 'Blog post not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const status = blogPost.status as PageStatus;
+        const history = await WorkflowService.getHistory(id);
+
+        fastify.sendSuccess(reply, {
+          status,
+          availableActions: WorkflowUtils.getAvailableActions(status),
+          history,
+        });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching blog post workflow');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve blog post workflow',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
   // Get related blog posts (public endpoint)
   fastify.get(
     '/:id/related',
@@ -1157,7 +1460,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  relatedPosts: { type: 'array', items: { type: 'object' } },
+                  relatedPosts: { type: 'array', items: { type: 'object', additionalProperties: true } },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -1305,7 +1608,7 @@ export default async function blogRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('blog', 'read')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -0,0 +1,207 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { BuildOptionsSchema } from '@oldworldcharm/shared';
+import { BuildService } from '../services/build-service';
+
+// Request schemas for build endpoints
+const StartBuildSchema = BuildOptionsSchema.partial();
+
+const BuildQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export default async function buildRoutes(fastify: FastifyInstance) {
+  // Start a static site build
+  fastify.post(
+    '/',
+    {
+      schema: {
+        tags: ['Build'],
+        summary: 'Start a static site build',
+        description: 'Render every published page and blog post into a static site and deploy it',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            minify: { type: 'boolean' },
+            generateSitemap: { type: 'boolean' },
+            optimizeImages: { type: 'boolean' },
+            enablePWA: { type: 'boolean' },
+            customCSS: { type: 'string' },
+            customJS: { type: 'string' },
+            analyticsId: { type: 'string' },
+          },
+        },
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  build: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'publish'), fastify.validate({ body: StartBuildSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const options = (request.body || {}) as z.infer<typeof StartBuildSchema>;
+
+      try {
+        const build = await BuildService.startBuild(options, request.user?.userId);
+
+        reply.code(202);
+        fastify.sendSuccess(reply, { build }, 'Build started');
+      } catch (error) {
+        if (error instanceof Error && error.message === 'A build is already in progress') {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'BUILD_IN_PROGRESS',
+              message: error.message,
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error starting build');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to start build',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // List recent builds
+  fastify.get(
+    '/',
+    {
+      schema: {
+        tags: ['Build'],
+        summary: 'List builds',
+        description: 'Retrieve recent static site builds and their status',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  builds: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read'), fastify.validate({ querystring: BuildQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { limit } = request.query as z.infer<typeof BuildQuerySchema>;
+
+      try {
+        const builds = await BuildService.listBuilds(limit);
+        fastify.sendSuccess(reply, { builds });
+      } catch (error) {
+        fastify.log.error(error, 'Error listing builds');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve builds',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get build status
+  fastify.get(
+    '/:id',
+    {
+      schema: {
+        tags: ['Build'],
+        summary: 'Get build status',
+        description: 'Retrieve the status, timings and output of a single build',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  build: { type: 'object', additionalProperties: true },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const build = await BuildService.getBuild(id);
+
+        if (!build) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'BUILD_NOT_FOUND',
+              message: 'Build not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.sendSuccess(reply, { build });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching build');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve build',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+}
@@ -1,6 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { CommentsService } from '../services/comments-service';
+import { CommentsService, type CommentTreeOptions } from '../services/comments-service';
+import { SpamFilterService } from '../services/spam-filter-service';
+import { NotificationService } from '../services/notification-service';
+import { CommenterIdentityService } from '../services/commenter-identity-service';
+import { HtmlRenderer } from '@oldworldcharm/shared';
 
 // Request schemas for comment endpoints
 const CreateCommentSchema = z.object({
@@ -10,6 +14,9 @@ const CreateCommentSchema = z.object({
   authorEmail: z.string().email('Invalid email address'),
   authorWebsite: z.string().url('Invalid website URL').optional(),
   content: z.string().min(1, 'Comment content is required').max(2000, 'Comment too long'),
+  // Spam traps: a hidden field left empty by people, and when the form was shown (ms since the epoch)
+  honeypot: z.string().max(500).optional(),
+  renderedAt: z.number().int().nonnegative().optional(),
 });
 
 const CommentQuerySchema = z.object({
@@ -22,16 +29,149 @@ const CommentQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+const UpdateOwnCommentSchema = z.object({
+  content: z.string().min(1, 'Comment content is required').max(2000, 'Comment too long'),
+});
+
 const UpdateCommentStatusSchema = z.object({
   status: z.enum(['pending', 'approved', 'rejected', 'spam']),
 });
 
+const BlocklistEntrySchema = z.object({
+  type: z.enum(['email', 'domain', 'ip']),
+  value: z.string().min(1, 'Value is required').max(255, 'Value too long'),
+  reason: z.string().max(500, 'Reason too long').optional(),
+});
+
 const BulkUpdateCommentsSchema = z.object({
   commentIds: z.array(z.string().min(1, 'Comment ID is required')).min(1, 'At least one comment ID is required'),
   status: z.enum(['pending', 'approved', 'rejected', 'spam']),
 });
 
+const unsubscribeQuerystring = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', minLength: 1 },
+    scope: { type: 'string', minLength: 1 },
+    token: { type: 'string', minLength: 1 },
+  },
+  required: ['email', 'scope', 'token'],
+};
+
+interface UnsubscribeQuery {
+  email: string;
+  scope: string;
+  token: string;
+}
+
+// Small standalone page shown to people following a link from an email
+function renderMessagePage(title: string, body: string): string {
+  return HtmlRenderer.renderDocument({
+    title,
+    body: `<main style="max-width:32rem;margin:4rem auto;font-family:sans-serif">${body}</main>`,
+  });
+}
+
+const errorResponse = { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } };
+
+// Public view of a threaded comment; emails, IPs and moderation details are left out
+const commentTreeNodeSchema = {
+  $id: 'CommentTreeNode',
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    blogPostId: { type: 'string' },
+    parentId: { type: 'string' },
+    authorName: { type: 'string' },
+    authorWebsite: { type: 'string' },
+    content: { type: 'string' },
+    depth: { type: 'integer' },
+    edited: { type: 'boolean' },
+    editedAt: { type: 'string', format: 'date-time' },
+    deleted: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    replies: { type: 'array', items: { $ref: 'CommentTreeNode#' } },
+    replyCount: { type: 'integer' },
+    hasMoreReplies: { type: 'boolean' },
+  },
+};
+
+const commentTreePageResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', example: true },
+    data: {
+      type: 'object',
+      properties: {
+        comments: { type: 'array', items: { $ref: 'CommentTreeNode#' } },
+        nextCursor: { type: 'string', nullable: true },
+        hasMore: { type: 'boolean' },
+      },
+    },
+    timestamp: { type: 'string', format: 'date-time' },
+  },
+};
+
+const commentTreeQuerystring = {
+  cursor: { type: 'string', minLength: 1 },
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+  maxDepth: { type: 'integer', minimum: 0, maximum: 10 },
+};
+
+const ownCommentParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+  },
+  required: ['id'],
+};
+
+// Maps errors from the commenter's own edit and delete to responses
+function sendOwnCommentError(reply: FastifyReply, error: unknown): FastifyReply | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  const code =
+    error.message === 'Only the author can change this comment'
+      ? 'NOT_COMMENT_AUTHOR'
+      : error.message === 'Edit window has expired'
+        ? 'EDIT_WINDOW_EXPIRED'
+        : null;
+
+  if (!code) {
+    return null;
+  }
+
+  return reply.code(403).send({
+    success: false,
+    error: { code, message: error.message },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+const blocklistEntryResponse = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['email', 'domain', 'ip'] },
+    value: { type: 'string' },
+    reason: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
 export default async function commentRoutes(fastify: FastifyInstance) {
+  fastify.addSchema(commentTreeNodeSchema);
+
+  // Mail clients send one-click unsubscribes (RFC 8058) as form posts
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => done(null, Object.fromEntries(new URLSearchParams(body as string)))
+  );
+
   // Create a new comment (public endpoint)
   fastify.post(
     '/',
@@ -49,6 +189,8 @@ export default async function commentRoutes(fastify: FastifyInstance) {
             authorEmail: { type: 'string', format: 'email' },
             authorWebsite: { type: 'string', format: 'uri' },
             content: { type: 'string', minLength: 1, maxLength: 2000 },
+            honeypot: { type: 'string', maxLength: 500 },
+            renderedAt: { type: 'integer', minimum: 0 },
           },
           required: ['blogPostId', 'authorName', 'authorEmail', 'content'],
         },
@@ -60,7 +202,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  comment: { type: 'object' },
+                  comment: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -85,6 +227,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           ...commentData,
           ipAddress,
           userAgent,
+          commenterToken: request.cookies[CommenterIdentityService.COOKIE],
         };
         
         // Remove undefined parentId to avoid TypeScript issues
@@ -98,7 +241,10 @@ export default async function commentRoutes(fastify: FastifyInstance) {
         fastify.sendSuccess(
           reply,
           { comment: newComment },
-          'Comment submitted successfully and is pending moderation'
+          // Spam gets the same answer as held comments so spammers learn nothing
+          newComment.status === 'approved'
+            ? 'Comment published successfully'
+            : 'Comment submitted successfully and is pending moderation'
         );
       } catch (error) {
         fastify.log.error(error, 'Error creating comment');
@@ -136,6 +282,17 @@ export default async function commentRoutes(fastify: FastifyInstance) {
               timestamp: new Date().toISOString(),
             });
           }
+
+          if (error.message === 'Maximum reply depth exceeded') {
+            return reply.code(400).send({
+              success: false,
+              error: {
+                code: 'MAX_REPLY_DEPTH_EXCEEDED',
+                message: 'Replies cannot be nested any deeper',
+              },
+              timestamp: new Date().toISOString(),
+            });
+          }
         }
 
         return reply.code(500).send({
@@ -150,14 +307,14 @@ export default async function commentRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // Get comments for a specific blog post (public endpoint)
+  // Get threaded comments for a specific blog post (public endpoint)
   fastify.get(
     '/blog-post/:blogPostId',
     {
       schema: {
         tags: ['Comments'],
         summary: 'Get comments for a blog post',
-        description: 'Retrieve approved comments for a specific blog post',
+        description: 'Retrieve a cursor-paginated page of approved top-level comments, each with replies nested up to maxDepth levels',
         params: {
           type: 'object',
           properties: {
@@ -169,7 +326,208 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             includeReplies: { type: 'boolean', default: true },
+            ...commentTreeQuerystring,
+          },
+        },
+        response: {
+          200: commentTreePageResponse,
+          400: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { blogPostId } = request.params as { blogPostId: string };
+      const { includeReplies = true, cursor, limit, maxDepth } = request.query as {
+        includeReplies?: boolean;
+        cursor?: string;
+        limit?: number;
+        maxDepth?: number;
+      };
+
+      try {
+        const options: CommentTreeOptions = {};
+        if (cursor) options.cursor = cursor;
+        if (limit) options.limit = limit;
+        if (!includeReplies) options.maxDepth = 0;
+        else if (maxDepth !== undefined) options.maxDepth = maxDepth;
+
+        const page = await CommentsService.getCommentTree(blogPostId, options);
+
+        fastify.sendSuccess(reply, page);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Invalid cursor') {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'INVALID_CURSOR',
+              message: 'Invalid cursor',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error fetching comments');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to fetch comments',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Load more replies to a comment (public endpoint)
+  fastify.get(
+    '/:id/replies',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Get replies to a comment',
+        description: 'Retrieve a cursor-paginated page of approved replies to a comment, for branches cut off by the depth limit',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: commentTreeQuerystring,
+        },
+        response: {
+          200: commentTreePageResponse,
+          400: errorResponse,
+          404: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { cursor, limit, maxDepth } = request.query as { cursor?: string; limit?: number; maxDepth?: number };
+
+      try {
+        const options: CommentTreeOptions = {};
+        if (cursor) options.cursor = cursor;
+        if (limit) options.limit = limit;
+        if (maxDepth !== undefined) options.maxDepth = maxDepth;
+
+        const page = await CommentsService.getReplies(id, options);
+
+        if (!page) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'COMMENT_NOT_FOUND',
+              message: 'Comment not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.sendSuccess(reply, page);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Invalid cursor') {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'INVALID_CURSOR',
+              message: 'Invalid cursor',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error fetching comment replies');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to fetch comment replies',
           },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Verify a commenter's email address (public endpoint, signed link)
+  fastify.get(
+    '/verify',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Verify commenter email',
+        description: 'Confirm a commenter email address from a signed link and remember the commenter in a cookie',
+        querystring: {
+          type: 'object',
+          properties: {
+            email: { type: 'string', minLength: 1 },
+            comment: { type: 'string', format: 'uuid' },
+            expires: { type: 'integer' },
+            token: { type: 'string', minLength: 1 },
+          },
+          required: ['email', 'comment', 'expires', 'token'],
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { comment, ...query } = request.query as { email: string; comment: string; expires: number; token: string };
+      reply.type('text/html; charset=utf-8');
+
+      try {
+        const commenterToken = await CommenterIdentityService.verifyEmail({ ...query, commentId: comment });
+
+        if (!commenterToken) {
+          return reply.code(400).send(
+            renderMessagePage(
+              'Invalid link',
+              '<h1>Invalid link</h1><p>This verification link is invalid or has expired. Post another comment to get a new one.</p>'
+            )
+          );
+        }
+
+        return reply
+          .setCookie(CommenterIdentityService.COOKIE, commenterToken, {
+            path: '/',
+            maxAge: CommenterIdentityService.TOKEN_TTL_SECONDS,
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production',
+          })
+          .send(
+            renderMessagePage(
+              'Email verified',
+              '<h1>Email verified</h1><p>Your comments from this browser are now published straight away, and you can edit them for a short time after posting.</p>'
+            )
+          );
+      } catch (error) {
+        fastify.log.error(error, 'Error verifying commenter email');
+        return reply.code(500).send(
+          renderMessagePage('Something went wrong', '<h1>Something went wrong</h1><p>Please try the link again later.</p>')
+        );
+      }
+    }
+  );
+
+  // Edit your own comment (public endpoint, verified commenters)
+  fastify.put(
+    '/:id/own',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Edit own comment',
+        description: 'Edit a comment as its verified author within the edit window. The previous content is kept as a revision.',
+        params: ownCommentParams,
+        body: {
+          type: 'object',
+          properties: {
+            content: { type: 'string', minLength: 1, maxLength: 2000 },
+          },
+          required: ['content'],
         },
         response: {
           200: {
@@ -179,33 +537,195 @@ export default async function commentRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  comments: { type: 'array', items: { type: 'object' } },
+                  comment: { $ref: 'CommentTreeNode#' },
                 },
               },
+              message: { type: 'string' },
               timestamp: { type: 'string', format: 'date-time' },
             },
           },
+          401: errorResponse,
+          403: errorResponse,
+          404: errorResponse,
         },
       },
+      preHandler: [fastify.validate({ body: UpdateOwnCommentSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const { blogPostId } = request.params as { blogPostId: string };
-      const { includeReplies = true } = request.query as { includeReplies?: boolean };
+      const { id } = request.params as { id: string };
+      const { content } = request.body as z.infer<typeof UpdateOwnCommentSchema>;
+      const email = CommenterIdentityService.readCommenterToken(request.cookies[CommenterIdentityService.COOKIE]);
+
+      if (!email) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'COMMENTER_NOT_VERIFIED',
+            message: 'Verify your email address to edit comments',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
 
       try {
-        const comments = await CommentsService.getCommentsForBlogPost(
-          blogPostId,
-          includeReplies
-        );
+        const updatedComment = await CommentsService.updateOwnComment(id, email, content);
+
+        if (!updatedComment) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'COMMENT_NOT_FOUND',
+              message: 'Comment not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
 
-        fastify.sendSuccess(reply, { comments });
+        fastify.sendSuccess(reply, { comment: updatedComment }, 'Comment updated successfully');
       } catch (error) {
-        fastify.log.error(error, 'Error fetching comments');
+        const sent = sendOwnCommentError(reply, error);
+        if (sent) {
+          return sent;
+        }
+
+        fastify.log.error(error, 'Error editing own comment');
         return reply.code(500).send({
           success: false,
           error: {
             code: 'INTERNAL_ERROR',
-            message: 'Failed to fetch comments',
+            message: 'Failed to update comment',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Delete your own comment (public endpoint, verified commenters)
+  fastify.delete(
+    '/:id/own',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Delete own comment',
+        description: 'Delete a comment as its verified author within the edit window; a comment with replies is kept without its content and author',
+        params: ownCommentParams,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          401: errorResponse,
+          403: errorResponse,
+          404: errorResponse,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const email = CommenterIdentityService.readCommenterToken(request.cookies[CommenterIdentityService.COOKIE]);
+
+      if (!email) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'COMMENTER_NOT_VERIFIED',
+            message: 'Verify your email address to delete comments',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const deleted = await CommentsService.deleteOwnComment(id, email);
+
+        if (!deleted) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'COMMENT_NOT_FOUND',
+              message: 'Comment not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.sendSuccess(reply, null, 'Comment deleted successfully');
+      } catch (error) {
+        const sent = sendOwnCommentError(reply, error);
+        if (sent) {
+          return sent;
+        }
+
+        fastify.log.error(error, 'Error deleting own comment');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to delete comment',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get the edit history of a comment (admin endpoint)
+  fastify.get(
+    '/:id/revisions',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Get comment revisions',
+        description: 'Retrieve the content a comment had before each edit by its author, newest first (admin only)',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: ownCommentParams,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  revisions: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        commentId: { type: 'string' },
+                        content: { type: 'string' },
+                        editedAt: { type: 'string', format: 'date-time' },
+                      },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const revisions = await CommentsService.getCommentRevisions(id);
+        fastify.sendSuccess(reply, { revisions });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching comment revisions');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to fetch comment revisions',
           },
           timestamp: new Date().toISOString(),
         });
@@ -242,7 +762,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -256,7 +776,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: CommentQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'read'), fastify.validate({ querystring: CommentQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof CommentQuerySchema>;
@@ -327,7 +847,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  comment: { type: 'object' },
+                  comment: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -337,7 +857,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: UpdateCommentStatusSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate'), fastify.validate({ body: UpdateCommentStatusSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -410,7 +930,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: BulkUpdateCommentsSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate'), fastify.validate({ body: BulkUpdateCommentsSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { commentIds, status } = request.body as z.infer<typeof BulkUpdateCommentsSchema>;
@@ -465,7 +985,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'delete')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -533,7 +1053,7 @@ export default async function commentRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'read')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -553,4 +1073,261 @@ export default async function commentRoutes(fastify: FastifyInstance) {
       }
     }
   );
-}
\ No newline at end of file
+
+  // Get the comment blocklist (admin endpoint)
+  fastify.get(
+    '/blocklist',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Get comment blocklist',
+        description: 'List the emails, email domains and IP addresses whose comments are marked as spam (admin only)',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  entries: { type: 'array', items: blocklistEntryResponse },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate')],
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const entries = await SpamFilterService.getBlocklist();
+
+        fastify.sendSuccess(reply, { entries });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching comment blocklist');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to fetch comment blocklist',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Add a comment blocklist entry (admin endpoint)
+  fastify.post(
+    '/blocklist',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Add comment blocklist entry',
+        description: 'Block comments from an email address, email domain or IP address (admin only)',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['email', 'domain', 'ip'] },
+            value: { type: 'string', minLength: 1, maxLength: 255 },
+            reason: { type: 'string', maxLength: 500 },
+          },
+          required: ['type', 'value'],
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  entry: blocklistEntryResponse,
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate'), fastify.validate({ body: BlocklistEntrySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { type, value, reason } = request.body as z.infer<typeof BlocklistEntrySchema>;
+
+      try {
+        const entry = await SpamFilterService.addToBlocklist(type, value, reason);
+
+        reply.code(201);
+        fastify.sendSuccess(reply, { entry }, `Blocked ${type} ${entry.value}`);
+      } catch (error) {
+        if (error instanceof Error && error.message === 'Blocklist entry already exists') {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'BLOCKLIST_ENTRY_EXISTS',
+              message: 'Blocklist entry already exists',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error adding comment blocklist entry');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to add comment blocklist entry',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Remove a comment blocklist entry (admin endpoint)
+  fastify.delete(
+    '/blocklist/:id',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Remove comment blocklist entry',
+        description: 'Stop blocking comments from an email address, email domain or IP address (admin only)',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('comments', 'moderate')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const removed = await SpamFilterService.removeFromBlocklist(id);
+
+        if (!removed) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'BLOCKLIST_ENTRY_NOT_FOUND',
+              message: 'Blocklist entry not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.sendSuccess(reply, null, 'Blocklist entry removed successfully');
+      } catch (error) {
+        fastify.log.error(error, 'Error removing comment blocklist entry');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to remove comment blocklist entry',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Confirm an unsubscribe from comment emails (public endpoint, signed link)
+  fastify.get(
+    '/unsubscribe',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Confirm unsubscribe from comment emails',
+        description: 'Show a confirmation page for a signed unsubscribe link. Nothing changes until it is submitted, so link scanners cannot unsubscribe people.',
+        querystring: unsubscribeQuerystring,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { email, scope, token } = request.query as UnsubscribeQuery;
+      reply.type('text/html; charset=utf-8');
+
+      if (!NotificationService.verifyUnsubscribeToken(email, scope, token)) {
+        return reply.code(400).send(
+          renderMessagePage('Invalid link', '<h1>Invalid link</h1><p>This unsubscribe link is invalid or incomplete.</p>')
+        );
+      }
+
+      // Posts back to this same path with the signed parameters
+      const action = `?${new URLSearchParams({ email, scope, token }).toString()}`;
+      const description = scope.startsWith('thread:')
+        ? 'replies to your comment'
+        : scope === 'pending-comments'
+          ? 'new comments on your posts'
+          : 'all comment emails';
+
+      return reply.send(
+        renderMessagePage(
+          'Unsubscribe',
+          [
+            '<h1>Unsubscribe</h1>',
+            `<p>Stop sending ${HtmlRenderer.escapeHtml(email)} emails about ${description}?</p>`,
+            `<form method="post" action="${HtmlRenderer.escapeHtml(action)}"><button type="submit">Unsubscribe</button></form>`,
+          ].join('\n')
+        )
+      );
+    }
+  );
+
+  // Unsubscribe from comment emails (public endpoint, signed link)
+  fastify.post(
+    '/unsubscribe',
+    {
+      schema: {
+        tags: ['Comments'],
+        summary: 'Unsubscribe from comment emails',
+        description: 'Record an unsubscribe for a signed link, from the confirmation page or a mail client one-click unsubscribe',
+        querystring: unsubscribeQuerystring,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { email, scope, token } = request.query as UnsubscribeQuery;
+      reply.type('text/html; charset=utf-8');
+
+      try {
+        const unsubscribed = await NotificationService.unsubscribe(email, scope, token);
+
+        if (!unsubscribed) {
+          return reply.code(400).send(
+            renderMessagePage('Invalid link', '<h1>Invalid link</h1><p>This unsubscribe link is invalid or incomplete.</p>')
+          );
+        }
+
+        return reply.send(
+          renderMessagePage('Unsubscribed', "<h1>Unsubscribed</h1><p>You won't receive these emails any more.</p>")
+        );
+      } catch (error) {
+        fastify.log.error(error, 'Error recording unsubscribe');
+        return reply.code(500).send(
+          renderMessagePage('Something went wrong', '<h1>Something went wrong</h1><p>Please try the link again later.</p>')
+        );
+      }
+    }
+  );
+}
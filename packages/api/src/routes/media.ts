@@ -2,13 +2,17 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { eq, desc, asc, and, like, sql, inArray, or } from 'drizzle-orm';
 import { db, mediaAssets } from '../db/index';
-import { mediaService } from '../services/media-service';
+import { mediaService, MediaService, type MediaFileName, type VariantOptions, type ImageTransform } from '../services/media-service';
+import { LocalStorage } from '../services/media-storage';
 import path from 'path';
-import fs from 'fs/promises';
-import { createWriteStream } from 'fs';
-import { pipeline } from 'stream/promises';
-import sharp from 'sharp';
 import { randomUUID } from 'crypto';
+import {
+  MediaCropPresetSchema,
+  MediaCropSchema,
+  MediaFocalPointSchema,
+  MediaUtils,
+  MediaVariantFormatSchema,
+} from '@oldworldcharm/shared';
 
 // Request schemas for API endpoints
 
@@ -16,6 +20,8 @@ const MediaUpdateSchema = z.object({
   altText: z.string().max(200, 'Alt text too long').optional(),
   tags: z.array(z.string()).optional(),
   folder: z.string().optional(),
+  focalPoint: MediaFocalPointSchema.nullable().optional(),
+  crops: z.record(MediaCropPresetSchema, MediaCropSchema).optional(),
 });
 
 const MediaQuerySchema = z.object({
@@ -41,17 +47,43 @@ const BulkUpdateSchema = z.object({
   }),
 });
 
-// Supported image formats for optimization
-const SUPPORTED_IMAGE_FORMATS = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/tiff'];
+const MediaFileQuerySchema = z.object({
+  variant: z
+    .string()
+    .regex(
+      /^(original|thumbnail|((square|widescreen|og)-)?\d+w\.(jpeg|png|webp|avif))$/,
+      'Variant must be original, thumbnail or a variant such as 768w.webp or square-768w.webp'
+    )
+    .default('original'),
+});
+
+const SignedUrlQuerySchema = MediaFileQuerySchema.extend({
+  expiresIn: z.coerce.number().int().min(60).max(7 * 24 * 60 * 60).default(MediaService.SIGNED_URL_TTL),
+});
+
+const SignedFileQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().min(1),
+});
+
+const OptimizeSchema = z.object({
+  breakpoints: z.array(z.number().int().min(16).max(8192)).min(1).max(12).optional(),
+  formats: z.array(MediaVariantFormatSchema).min(1).optional(),
+});
+
+const TransformQuerySchema = z.object({
+  w: z.coerce.number().int().min(1).max(4096).optional(),
+  h: z.coerce.number().int().min(1).max(4096).optional(),
+  fit: z.enum(['cover', 'contain', 'inside', 'fill']).default('cover'),
+  preset: MediaCropPresetSchema.optional(),
+  format: MediaVariantFormatSchema.optional(),
+  q: z.coerce.number().int().min(1).max(100).optional(),
+});
+
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
-const THUMBNAIL_SIZE = 300;
+const TRANSFORM_RATE_LIMIT = parseInt(process.env.MEDIA_TRANSFORM_RATE_LIMIT || '60'); // per client per minute
 
 export default async function mediaRoutes(fastify: FastifyInstance) {
-  // Ensure upload directory exists
-  await fs.mkdir(UPLOAD_DIR, { recursive: true });
-  await fs.mkdir(path.join(UPLOAD_DIR, 'thumbnails'), { recursive: true });
-
   // Helper function to generate unique filename
   function generateUniqueFilename(originalName: string): string {
     const ext = path.extname(originalName);
@@ -61,40 +93,16 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
     return `${name}-${timestamp}-${uuid}${ext}`;
   }
 
-  // Helper function to optimize and generate thumbnails for images
-  async function processImage(filePath: string, mimeType: string): Promise<{ thumbnailUrl?: string; width?: number; height?: number }> {
-    if (!SUPPORTED_IMAGE_FORMATS.includes(mimeType)) {
-      return {};
+  // 404 for a missing asset, or for a thumbnail or variant the asset does not have
+  function sendFileNotFound(reply: FastifyReply, asset: unknown, variant: string) {
+    let error = { code: 'MEDIA_ASSET_NOT_FOUND', message: 'Media asset not found' };
+    if (asset) {
+      error = variant === 'thumbnail'
+        ? { code: 'THUMBNAIL_NOT_FOUND', message: 'Media asset has no thumbnail' }
+        : { code: 'VARIANT_NOT_FOUND', message: `Media asset has no ${variant} variant` };
     }
 
-    try {
-      const image = sharp(filePath);
-      const metadata = await image.metadata();
-      
-      // Generate thumbnail
-      const thumbnailFilename = `thumb_${path.basename(filePath)}`;
-      const thumbnailPath = path.join(UPLOAD_DIR, 'thumbnails', thumbnailFilename);
-      
-      await image
-        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { 
-          fit: 'inside',
-          withoutEnlargement: true 
-        })
-        .jpeg({ quality: 80 })
-        .toFile(thumbnailPath);
-
-      const result: { thumbnailUrl?: string; width?: number; height?: number } = {
-        thumbnailUrl: `/uploads/thumbnails/${thumbnailFilename}`,
-      };
-      
-      if (metadata.width) result.width = metadata.width;
-      if (metadata.height) result.height = metadata.height;
-      
-      return result;
-    } catch (error) {
-      fastify.log.error(error, 'Error processing image');
-      return {};
-    }
+    return reply.code(404).send({ success: false, error, timestamp: new Date().toISOString() });
   }
 
   // Upload single or multiple files
@@ -117,6 +125,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
             altText: { type: 'string', maxLength: 200 },
             tags: { type: 'array', items: { type: 'string' } },
             folder: { type: 'string' },
+            visibility: { type: 'string', enum: ['public', 'private'], default: 'public' },
           },
         },
         response: {
@@ -127,7 +136,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  assets: { type: 'array', items: { type: 'object' } },
+                  assets: { type: 'array', items: { type: 'object', additionalProperties: true } },
                 },
               },
               message: { type: 'string' },
@@ -138,7 +147,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           413: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'create')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -156,18 +165,10 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
         }
 
         const filename = generateUniqueFilename(data.filename);
-        const filePath = path.join(UPLOAD_DIR, filename);
-        
-        // Save file to disk
-        await pipeline(data.file, createWriteStream(filePath));
-        
-        // Get file stats
-        const stats = await fs.stat(filePath);
+        const body: Buffer = await data.toBuffer();
 
-        // Check file size after saving
-        if (stats.size > MAX_FILE_SIZE) {
-          // Delete the file if it's too large
-          await fs.unlink(filePath);
+        // Check file size before storing
+        if (body.length > MAX_FILE_SIZE) {
           return reply.code(413).send({
             success: false,
             error: {
@@ -178,35 +179,48 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           });
         }
         
-        // Process image if applicable
-        const imageData = await processImage(filePath, data.mimetype);
-
         // Parse additional fields from form data
         const fields = data.fields as any;
         const altText = fields?.altText?.value;
         const tags = fields?.tags?.value ? JSON.parse(fields.tags.value) : [];
         const folder = fields?.folder?.value;
+        const visibility = fields?.visibility?.value === 'private' ? 'private' : 'public';
+
+        // Store the file and, for images, its thumbnail
+        const id = randomUUID();
+        const { storage, url, thumbnailUrl, ...dimensions } = await mediaService.storeUpload({
+          id,
+          filename,
+          mimeType: data.mimetype,
+          body,
+          visibility,
+        });
 
         // Create media asset record
         const [newAsset] = await db
           .insert(mediaAssets)
           .values({
+            id,
             filename,
             originalName: data.filename,
             mimeType: data.mimetype,
-            size: stats.size,
-            url: `/uploads/${filename}`,
-            thumbnailUrl: imageData.thumbnailUrl || null,
+            size: body.length,
+            url,
+            thumbnailUrl,
             altText: altText || null,
             tags,
             folder: folder || null,
+            storage,
+            visibility,
+            width: dimensions.width ?? null,
+            height: dimensions.height ?? null,
           })
           .returning();
 
         reply.code(201);
         fastify.sendSuccess(
           reply,
-          { assets: [{ ...newAsset, ...imageData }] },
+          { assets: [newAsset] },
           'File uploaded successfully'
         );
       } catch (error) {
@@ -253,7 +267,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -267,7 +281,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: MediaQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read'), fastify.validate({ querystring: MediaQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof MediaQuerySchema>;
@@ -392,7 +406,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  asset: { type: 'object' },
+                  asset: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -401,7 +415,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -439,6 +453,297 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Redirect to a URL the browser can load; private assets get a short-lived signed URL
+  fastify.get(
+    '/:id/file',
+    {
+      schema: {
+        tags: ['Media'],
+        summary: 'Get media file',
+        description: 'Redirect to the file of a media asset or its thumbnail. Private assets redirect to a signed URL.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            variant: { type: 'string', default: 'original', description: 'original, thumbnail or a variant such as 768w.webp' },
+          },
+        },
+        response: {
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read'), fastify.validate({ querystring: MediaFileQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const variant = (request.query as z.infer<typeof MediaFileQuerySchema>).variant as MediaFileName;
+
+      try {
+        const [asset] = await db
+          .select()
+          .from(mediaAssets)
+          .where(eq(mediaAssets.id, id))
+          .limit(1);
+
+        if (!asset || !mediaService.getFileKey(asset, variant)) {
+          return sendFileNotFound(reply, asset, variant);
+        }
+
+        // Signed URLs expire, so the redirect must not be cached
+        reply.header('cache-control', 'private, no-store');
+        return reply.redirect(mediaService.getSignedUrl(asset, variant));
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching media file');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to fetch media file',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get a signed URL for a media asset
+  fastify.get(
+    '/:id/signed-url',
+    {
+      schema: {
+        tags: ['Media'],
+        summary: 'Get signed URL',
+        description: 'Get a time-limited URL for a private media asset. Public assets return their public URL.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            variant: { type: 'string', default: 'original', description: 'original, thumbnail or a variant such as 768w.webp' },
+            expiresIn: { type: 'integer', minimum: 60, maximum: 604800, description: 'Lifetime of the URL in seconds' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  url: { type: 'string' },
+                  expiresAt: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read'), fastify.validate({ querystring: SignedUrlQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { expiresIn } = request.query as z.infer<typeof SignedUrlQuerySchema>;
+      const variant = (request.query as z.infer<typeof SignedUrlQuerySchema>).variant as MediaFileName;
+
+      try {
+        const [asset] = await db
+          .select()
+          .from(mediaAssets)
+          .where(eq(mediaAssets.id, id))
+          .limit(1);
+
+        if (!asset || !mediaService.getFileKey(asset, variant)) {
+          return sendFileNotFound(reply, asset, variant);
+        }
+
+        fastify.sendSuccess(reply, {
+          url: mediaService.getSignedUrl(asset, variant, expiresIn),
+          expiresAt: asset.visibility === 'private' ? new Date(Date.now() + expiresIn * 1000).toISOString() : null,
+        });
+      } catch (error) {
+        fastify.log.error(error, 'Error signing media URL');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to sign media URL',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Serve a private file from local storage; the signature stands in for authentication
+  fastify.get(
+    '/files/*',
+    {
+      schema: {
+        tags: ['Media'],
+        summary: 'Get signed media file',
+        description: 'Serve a private media file stored on local disk, using a URL from the signed-url endpoint',
+        querystring: {
+          type: 'object',
+          properties: {
+            expires: { type: 'integer' },
+            signature: { type: 'string' },
+          },
+          required: ['expires', 'signature'],
+        },
+        response: {
+          403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.validate({ querystring: SignedFileQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const key = (request.params as { '*': string })['*'];
+      const { expires, signature } = request.query as z.infer<typeof SignedFileQuerySchema>;
+      const storage = mediaService.getStorage('local');
+
+      if (!(storage instanceof LocalStorage) || !storage.verifySignedUrl(key, expires, signature)) {
+        return reply.code(403).send({
+          success: false,
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Signed URL is invalid or has expired',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const filePath = storage.getFilePath(key);
+      reply.header('cache-control', 'private, no-store');
+      return reply.sendFile(path.basename(filePath), path.dirname(filePath));
+    }
+  );
+
+  // Resize, crop or convert a public image on the fly
+  fastify.get(
+    '/:id/transform',
+    {
+      schema: {
+        tags: ['Media'],
+        summary: 'Transform image',
+        description: 'Get a resized, cropped or converted copy of a public image. Crops come from the asset\'s presets, which use its hand-set crops or focal point. Sizes round up to the configured breakpoints and quality to the nearest of a few steps. Results are cached until the asset changes.',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            w: { type: 'integer', minimum: 1, maximum: 4096, description: 'Width in pixels' },
+            h: { type: 'integer', minimum: 1, maximum: 4096, description: 'Height in pixels' },
+            fit: { type: 'string', enum: ['cover', 'contain', 'inside', 'fill'], default: 'cover' },
+            preset: { type: 'string', enum: ['square', 'widescreen', 'og'], description: 'Crop preset' },
+            format: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif'], description: 'Defaults to the original format' },
+            q: { type: 'integer', minimum: 1, maximum: 100, description: 'Quality' },
+          },
+        },
+        response: {
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      config: {
+        rateLimit: { max: TRANSFORM_RATE_LIMIT, timeWindow: '1 minute' },
+      },
+      preHandler: [fastify.validate({ querystring: TransformQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const query = request.query as z.infer<typeof TransformQuerySchema>;
+
+      try {
+        const [asset] = await db
+          .select()
+          .from(mediaAssets)
+          .where(eq(mediaAssets.id, id))
+          .limit(1);
+
+        // Private assets are only reachable through signed URLs
+        if (!asset || asset.visibility === 'private') {
+          return sendFileNotFound(reply, null, 'original');
+        }
+
+        if (!MediaService.SUPPORTED_IMAGE_FORMATS.includes(asset.mimeType)) {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'UNSUPPORTED_FORMAT',
+              message: 'Only images can be transformed',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const transform: ImageTransform = {
+          width: query.w,
+          height: query.h,
+          fit: query.fit,
+          preset: query.preset,
+          format: query.format,
+          quality: query.q,
+        };
+
+        let image;
+        try {
+          image = await mediaService.transformImage(asset, transform);
+        } catch (error) {
+          if (error instanceof Error && error.message === 'Crop area is outside the image') {
+            return reply.code(400).send({
+              success: false,
+              error: {
+                code: 'INVALID_TRANSFORM',
+                message: error.message,
+              },
+              timestamp: new Date().toISOString(),
+            });
+          }
+          throw error;
+        }
+
+        reply.header('etag', image.etag);
+        reply.header('cache-control', 'public, max-age=86400');
+        if (request.headers['if-none-match'] === image.etag) {
+          return reply.code(304).send();
+        }
+
+        return reply.type(image.contentType).send(image.body);
+      } catch (error) {
+        fastify.log.error(error, 'Error transforming image');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to transform image',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
   // Update a media asset
   fastify.put(
     '/:id',
@@ -446,7 +751,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Media'],
         summary: 'Update media asset',
-        description: 'Update media asset metadata (alt text, tags, folder)',
+        description: 'Update media asset metadata (alt text, tags, folder) and the focal point and crops of images. Cropped variants are regenerated.',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -461,6 +766,28 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
             altText: { type: 'string', maxLength: 200 },
             tags: { type: 'array', items: { type: 'string' } },
             folder: { type: 'string' },
+            focalPoint: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                x: { type: 'number', minimum: 0, maximum: 1 },
+                y: { type: 'number', minimum: 0, maximum: 1 },
+              },
+              description: 'Subject of the image as fractions of its width and height',
+            },
+            crops: {
+              type: 'object',
+              description: 'Crops set by hand, by preset (square, widescreen, og); other presets follow the focal point',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  left: { type: 'integer' },
+                  top: { type: 'integer' },
+                  width: { type: 'integer' },
+                  height: { type: 'integer' },
+                },
+              },
+            },
           },
         },
         response: {
@@ -471,7 +798,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  asset: { type: 'object' },
+                  asset: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -481,7 +808,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: MediaUpdateSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'update'), fastify.validate({ body: MediaUpdateSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -514,14 +841,47 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
         if (updateData.altText !== undefined) updateValues.altText = updateData.altText;
         if (updateData.tags !== undefined) updateValues.tags = updateData.tags;
         if (updateData.folder !== undefined) updateValues.folder = updateData.folder;
+        if (updateData.focalPoint !== undefined) updateValues.focalPoint = updateData.focalPoint;
+
+        if (updateData.crops !== undefined) {
+          const { width, height } = existingAsset;
+          const [invalid] = Object.entries(updateData.crops).find(
+            ([, crop]) => !width || !height || !MediaUtils.isCropInside(crop, width, height)
+          ) || [];
+          if (invalid) {
+            return reply.code(400).send({
+              success: false,
+              error: {
+                code: 'INVALID_CROP',
+                message: `The ${invalid} crop is outside the image`,
+              },
+              timestamp: new Date().toISOString(),
+            });
+          }
+          updateValues.crops = updateData.crops;
+        }
 
         // Update the asset
-        const [updatedAsset] = await db
+        let [updatedAsset] = await db
           .update(mediaAssets)
           .set(updateValues)
           .where(eq(mediaAssets.id, id))
           .returning();
 
+        // Cropped variants and cached transforms follow the new focal point and crops
+        if (updateData.focalPoint !== undefined || updateData.crops !== undefined) {
+          await mediaService.purgeTransforms(id);
+
+          if (mediaService.getVariants(updatedAsset).length > 0) {
+            const { variants } = await mediaService.generateVariants(updatedAsset, mediaService.getVariantOptions(updatedAsset));
+            [updatedAsset] = await db
+              .update(mediaAssets)
+              .set({ variants })
+              .where(eq(mediaAssets.id, id))
+              .returning();
+          }
+        }
+
         fastify.sendSuccess(
           reply,
           { asset: updatedAsset },
@@ -569,7 +929,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'delete')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -593,19 +953,11 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Delete files from disk
+        // Delete files from storage
         try {
-          const filePath = path.join(UPLOAD_DIR, existingAsset.filename);
-          await fs.unlink(filePath);
-
-          // Delete thumbnail if it exists
-          if (existingAsset.thumbnailUrl) {
-            const thumbnailFilename = path.basename(existingAsset.thumbnailUrl);
-            const thumbnailPath = path.join(UPLOAD_DIR, 'thumbnails', thumbnailFilename);
-            await fs.unlink(thumbnailPath).catch(() => {}); // Ignore errors for thumbnail deletion
-          }
+          await mediaService.deleteAssetFiles(existingAsset);
         } catch (error) {
-          fastify.log.warn(error, 'Error deleting files from disk');
+          fastify.log.warn(error, 'Error deleting files from storage');
           // Continue with database deletion even if file deletion fails
         }
 
@@ -661,7 +1013,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: BulkDeleteSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'delete'), fastify.validate({ body: BulkDeleteSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { ids } = request.body as z.infer<typeof BulkDeleteSchema>;
@@ -676,18 +1028,10 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
         const failedIds: string[] = [];
         let deletedCount = 0;
 
-        // Delete files from disk
+        // Delete files from storage
         for (const asset of assetsToDelete) {
           try {
-            const filePath = path.join(UPLOAD_DIR, asset.filename);
-            await fs.unlink(filePath);
-
-            // Delete thumbnail if it exists
-            if (asset.thumbnailUrl) {
-              const thumbnailFilename = path.basename(asset.thumbnailUrl);
-              const thumbnailPath = path.join(UPLOAD_DIR, 'thumbnails', thumbnailFilename);
-              await fs.unlink(thumbnailPath).catch(() => {}); // Ignore errors for thumbnail deletion
-            }
+            await mediaService.deleteAssetFiles(asset);
           } catch (error) {
             fastify.log.warn(error, `Error deleting files for asset ${asset.id}`);
             failedIds.push(asset.id);
@@ -763,7 +1107,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: BulkUpdateSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'update'), fastify.validate({ body: BulkUpdateSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { ids, updates } = request.body as z.infer<typeof BulkUpdateSchema>;
@@ -829,7 +1173,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
                   usage: {
                     type: 'object',
                     properties: {
-                      pages: { type: 'array', items: { type: 'object' } },
+                      pages: { type: 'array', items: { type: 'object', additionalProperties: true } },
                       totalUsages: { type: 'integer' },
                     },
                   },
@@ -841,7 +1185,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -908,7 +1252,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -987,7 +1331,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -1001,7 +1345,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { query: searchQuery, filters = {}, page = 1, pageSize = 20, sortBy = 'createdAt', sortOrder = 'desc' } = request.body as any;
@@ -1152,7 +1496,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -1208,8 +1552,8 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
                     properties: {
                       totalFiles: { type: 'integer' },
                       totalSize: { type: 'integer' },
-                      byMimeType: { type: 'object' },
-                      byFolder: { type: 'object' },
+                      byMimeType: { type: 'object', additionalProperties: true },
+                      byFolder: { type: 'object', additionalProperties: true },
                     },
                   },
                 },
@@ -1219,7 +1563,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'read')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -1271,7 +1615,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'delete')],
     },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -1303,7 +1647,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Media'],
         summary: 'Optimize media asset',
-        description: 'Optimize an existing media asset by reducing file size and generating modern formats',
+        description: 'Optimize an existing image and generate resized variants at each breakpoint in WebP, AVIF and its own format',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -1312,6 +1656,13 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           },
           required: ['id'],
         },
+        body: {
+          type: 'object',
+          properties: {
+            breakpoints: { type: 'array', items: { type: 'integer' }, description: 'Variant widths in pixels; defaults to MEDIA_BREAKPOINTS' },
+            formats: { type: 'array', items: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif'] } },
+          },
+        },
         response: {
           200: {
             type: 'object',
@@ -1320,9 +1671,21 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  asset: { type: 'object' },
-                  variants: { type: 'array', items: { type: 'string' } },
-                  modernFormats: { type: 'object' },
+                  asset: { type: 'object', additionalProperties: true },
+                  variants: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        key: { type: 'string' },
+                        url: { type: 'string' },
+                        width: { type: 'integer' },
+                        height: { type: 'integer' },
+                        format: { type: 'string' },
+                        size: { type: 'integer' },
+                      },
+                    },
+                  },
                 },
               },
               message: { type: 'string' },
@@ -1332,10 +1695,11 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('media', 'update'), fastify.validate({ body: OptimizeSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
+      const options = (request.body || {}) as VariantOptions;
 
       try {
         // Check if asset exists
@@ -1357,7 +1721,7 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
         }
 
         // Only optimize images
-        if (!SUPPORTED_IMAGE_FORMATS.includes(asset.mimeType)) {
+        if (!MediaService.SUPPORTED_IMAGE_FORMATS.includes(asset.mimeType)) {
           return reply.code(400).send({
             success: false,
             error: {
@@ -1368,34 +1732,32 @@ export default async function mediaRoutes(fastify: FastifyInstance) {
           });
         }
 
-        const filePath = path.join(UPLOAD_DIR, asset.filename);
-
         // Optimize the original image
-        await mediaService.optimizeImage(filePath, asset.mimeType);
+        const size = await mediaService.optimizeImage(asset);
 
-        // Generate responsive variants
-        const variants = await mediaService.generateResponsiveVariants(filePath, asset.filename);
+        // Generate resized variants and record them in the manifest
+        const { width, height, variants } = await mediaService.generateVariants(asset, options);
 
-        // Generate modern formats
-        const modernFormats = await mediaService.generateModernFormats(filePath, asset.filename);
-
-        // Update file size in database
-        const stats = await fs.stat(filePath);
+        // Update file size, dimensions and variants in database
         const [updatedAsset] = await db
           .update(mediaAssets)
           .set({ 
-            size: stats.size,
+            size: size ?? asset.size,
+            width,
+            height,
+            variants,
             updatedAt: new Date() 
           })
           .where(eq(mediaAssets.id, id))
           .returning();
 
+        await mediaService.purgeTransforms(id);
+
         fastify.sendSuccess(
           reply,
           { 
             asset: updatedAsset, 
             variants,
-            modernFormats 
           },
           'Media asset optimized successfully'
         );
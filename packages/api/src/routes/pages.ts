@@ -1,11 +1,19 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { eq, desc, asc, and, or, like, sql } from 'drizzle-orm';
-import { db, pages, pageVersions } from '../db/index';
+import { db, pages, themes } from '../db/index';
+import { PageVersionService } from '../services/page-version-service';
+import { WorkflowService, mapWorkflowError } from '../services/workflow-service';
+import { PageDeliveryService } from '../services/page-delivery-service';
 import {
+  InitialPageStatusSchema,
   PageStatusSchema,
   SEODataSchema,
   ComponentInstanceSchema,
+  ThemeTokenOverridesSchema,
+  WorkflowTransitionRequestSchema,
+  WorkflowUtils,
+  type PageStatus,
 } from '@oldworldcharm/shared';
 
 // Request schemas for API endpoints
@@ -21,11 +29,18 @@ const CreatePageSchema = z.object({
   description: z.string().max(500, 'Description too long').optional(),
   components: z.array(ComponentInstanceSchema).default([]),
   seoData: SEODataSchema.default({}),
-  status: PageStatusSchema.default('draft'),
+  themeId: z.string().uuid('Invalid theme ID').optional(), // defaults to the site's default theme
+  themeOverrides: ThemeTokenOverridesSchema.optional(),
+  status: InitialPageStatusSchema.default('draft'),
 });
 
 const UpdatePageSchema = CreatePageSchema.partial().extend({
   id: z.string().min(1, 'Page ID is required'),
+  themeId: z.string().uuid('Invalid theme ID').nullable().optional(),
+  themeOverrides: ThemeTokenOverridesSchema.nullable().optional(),
+  status: PageStatusSchema.optional(),
+  // Optimistic concurrency: reject the update if the page changed since the client loaded it
+  expectedUpdatedAt: z.string().datetime().optional(),
 });
 
 const PageQuerySchema = z.object({
@@ -37,37 +52,42 @@ const PageQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+const SchedulePageSchema = z
+  .object({
+    publishAt: z.string().datetime().nullable().optional(),
+    expiresAt: z.string().datetime().nullable().optional(),
+  })
+  .refine(data => data.publishAt !== undefined || data.expiresAt !== undefined, {
+    message: 'Provide publishAt, expiresAt or both',
+  });
+
+const VersionParamsSchema = z.object({
+  id: z.string().min(1, 'Page ID is required'),
+  version: z.coerce.number().int().positive(),
+});
+
+const VersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
 export default async function pageRoutes(fastify: FastifyInstance) {
-  // Helper function to create a page version
-  async function createPageVersion(pageId: string, pageData: any, userId?: string, changeNote?: string) {
-    try {
-      // Get the next version number
-      const result = await db
-        .select({ nextVersion: sql<number>`COALESCE(MAX(${pageVersions.version}), 0) + 1` })
-        .from(pageVersions)
-        .where(eq(pageVersions.pageId, pageId));
-      
-      const nextVersion = result[0]?.nextVersion || 1;
-
-      // Create the version
-      await db.insert(pageVersions).values({
-        pageId,
-        version: nextVersion,
-        title: pageData.title,
-        description: pageData.description,
-        content: pageData.content,
-        seoData: pageData.seoData,
-        status: pageData.status,
-        publishedAt: pageData.publishedAt,
-        createdBy: userId || null,
-        changeNote: changeNote || null,
-      });
-
-      return nextVersion;
-    } catch (error) {
-      fastify.log.error(error, 'Error creating page version');
-      throw error;
-    }
+  // Helper functions for pages that pick their own theme
+  async function themeExists(themeId: string): Promise<boolean> {
+    const [theme] = await db.select({ id: themes.id }).from(themes).where(eq(themes.id, themeId)).limit(1);
+    return !!theme;
+  }
+
+  function sendThemeNotFound(reply: FastifyReply) {
+    return reply.code(400).send({
+      success: false,
+      error: {
+        code: 'THEME_NOT_FOUND',
+        message: 'Theme not found',
+        field: 'themeId',
+      },
+      timestamp: new Date().toISOString(),
+    });
   }
 
   // Create a new page
@@ -87,7 +107,9 @@ export default async function pageRoutes(fastify: FastifyInstance) {
             description: { type: 'string', maxLength: 500 },
             components: { type: 'array', items: { type: 'object' } },
             seoData: { type: 'object' },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            themeId: { type: 'string', format: 'uuid' },
+            themeOverrides: { type: 'object' },
+            status: { type: 'string', enum: ['draft', 'in_review'] },
           },
           required: ['slug', 'title'],
         },
@@ -99,7 +121,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  page: { type: 'object' },
+                  page: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -110,7 +132,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: CreatePageSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'create'), fastify.validate({ body: CreatePageSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const pageData = request.body as z.infer<typeof CreatePageSchema>;
@@ -135,6 +157,10 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (pageData.themeId && !(await themeExists(pageData.themeId))) {
+          return sendThemeNotFound(reply);
+        }
+
         // Create the page
         const [newPage] = await db
           .insert(pages)
@@ -144,19 +170,29 @@ export default async function pageRoutes(fastify: FastifyInstance) {
             description: pageData.description || null,
             content: pageData.components,
             seoData: pageData.seoData,
+            themeId: pageData.themeId || null,
+            themeOverrides: pageData.themeOverrides || null,
             status: pageData.status,
-            publishedAt: pageData.status === 'published' ? new Date() : null,
           })
           .returning();
 
         // Create initial version
         if (newPage) {
-          await createPageVersion(
-            newPage.id,
+          await PageVersionService.createVersion(
             newPage,
             request.user?.userId,
             'Initial version'
           );
+
+          if (newPage.status === 'in_review') {
+            await WorkflowService.recordTransition({
+              pageId: newPage.id,
+              action: 'submit',
+              fromStatus: 'draft',
+              toStatus: 'in_review',
+              userId: request.user?.userId,
+            });
+          }
         }
 
         reply.code(201);
@@ -193,7 +229,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           properties: {
             page: { type: 'integer', minimum: 1, default: 1 },
             pageSize: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            status: { type: 'string', enum: ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'] },
             search: { type: 'string' },
             sortBy: { type: 'string', enum: ['title', 'createdAt', 'updatedAt', 'publishedAt'], default: 'updatedAt' },
             sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
@@ -207,7 +243,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -221,7 +257,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: PageQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read'), fastify.validate({ querystring: PageQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof PageQuerySchema>;
@@ -331,7 +367,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  page: { type: 'object' },
+                  page: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -340,7 +376,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -402,7 +438,10 @@ export default async function pageRoutes(fastify: FastifyInstance) {
             description: { type: 'string', maxLength: 500 },
             components: { type: 'array', items: { type: 'object' } },
             seoData: { type: 'object' },
-            status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+            themeId: { type: 'string', format: 'uuid', nullable: true },
+            themeOverrides: { type: 'object', nullable: true },
+            status: { type: 'string', enum: ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'] },
+            expectedUpdatedAt: { type: 'string', format: 'date-time' },
           },
         },
         response: {
@@ -413,18 +452,20 @@ export default async function pageRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  page: { type: 'object' },
+                  page: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
               timestamp: { type: 'string', format: 'date-time' },
             },
           },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: UpdatePageSchema.omit({ id: true }) })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'update'), fastify.validate({ body: UpdatePageSchema.omit({ id: true }) })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -449,6 +490,21 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // Reject stale writes from clients that loaded an older copy of the page
+        if (
+          updateData.expectedUpdatedAt &&
+          new Date(updateData.expectedUpdatedAt).getTime() !== existingPage.updatedAt.getTime()
+        ) {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'PAGE_CONFLICT',
+              message: 'The page has been modified since it was loaded',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         // Check if slug is being changed and if it conflicts
         if (updateData.slug && updateData.slug !== existingPage.slug) {
           const conflictingPage = await db
@@ -470,6 +526,27 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           }
         }
 
+        if (updateData.themeId && updateData.themeId !== existingPage.themeId && !(await themeExists(updateData.themeId))) {
+          return sendThemeNotFound(reply);
+        }
+
+        // Status changes must follow the review workflow
+        const transition = WorkflowService.resolveUpdateTransition({
+          resource: 'pages',
+          role: request.user!.role,
+          currentStatus: existingPage.status as PageStatus,
+          requestedStatus: updateData.status,
+          contentChanged: [
+            updateData.slug,
+            updateData.title,
+            updateData.description,
+            updateData.components,
+            updateData.seoData,
+            updateData.themeId,
+            updateData.themeOverrides,
+          ].some(value => value !== undefined),
+        });
+
         // Prepare update data
         const updateValues: any = {
           updatedAt: new Date(),
@@ -480,33 +557,53 @@ export default async function pageRoutes(fastify: FastifyInstance) {
         if (updateData.description !== undefined) updateValues.description = updateData.description;
         if (updateData.components !== undefined) updateValues.content = updateData.components;
         if (updateData.seoData !== undefined) updateValues.seoData = updateData.seoData;
-        if (updateData.status !== undefined) {
-          updateValues.status = updateData.status;
-          // Set publishedAt when status changes to published
-          if (updateData.status === 'published' && existingPage.status !== 'published') {
-            updateValues.publishedAt = new Date();
-          }
-          // Clear publishedAt when status changes from published
-          if (updateData.status !== 'published' && existingPage.status === 'published') {
-            updateValues.publishedAt = null;
-          }
+        if (updateData.themeId !== undefined) updateValues.themeId = updateData.themeId;
+        if (updateData.themeOverrides !== undefined) updateValues.themeOverrides = updateData.themeOverrides;
+        if (transition) {
+          Object.assign(updateValues, WorkflowService.getStatusValues(transition.fromStatus, transition.toStatus));
         }
 
-        // Update the page
+        // Update the page; with expectedUpdatedAt, only if no other save landed since the check above.
+        // Timestamps are compared at the millisecond precision clients see.
         const [updatedPage] = await db
           .update(pages)
           .set(updateValues)
-          .where(eq(pages.id, id))
+          .where(
+            updateData.expectedUpdatedAt
+              ? and(
+                  eq(pages.id, id),
+                  sql`date_trunc('milliseconds', ${pages.updatedAt}) = ${sql.param(new Date(updateData.expectedUpdatedAt), pages.updatedAt)}`
+                )
+              : eq(pages.id, id)
+          )
           .returning();
 
+        if (!updatedPage && updateData.expectedUpdatedAt) {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'PAGE_CONFLICT',
+              message: 'The page has been modified since it was loaded',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         // Create a new version after update
         if (updatedPage) {
-          await createPageVersion(
-            updatedPage.id,
+          await PageVersionService.createVersion(
             updatedPage,
             request.user?.userId,
             'Page updated'
           );
+
+          if (transition) {
+            await WorkflowService.recordTransition({ pageId: id, ...transition, userId: request.user?.userId });
+            await WorkflowService.syncPublicContent(updatedPage, transition.fromStatus);
+          }
+
+          // Drop the delivered copy under both the old and the new slug
+          await PageDeliveryService.purge(existingPage.slug, updatedPage.slug);
         }
 
         fastify.sendSuccess(
@@ -515,6 +612,15 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           'Page updated successfully'
         );
       } catch (error) {
+        const workflowError = mapWorkflowError(error);
+        if (workflowError) {
+          return reply.code(workflowError.statusCode).send({
+            success: false,
+            error: workflowError.error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         fastify.log.error(error, 'Error updating page');
         return reply.code(500).send({
           success: false,
@@ -556,7 +662,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'delete')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -564,7 +670,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
       try {
         // Check if page exists
         const existingPage = await db
-          .select({ id: pages.id })
+          .select({ id: pages.id, slug: pages.slug })
           .from(pages)
           .where(eq(pages.id, id))
           .limit(1);
@@ -582,6 +688,7 @@ export default async function pageRoutes(fastify: FastifyInstance) {
 
         // Delete the page
         await db.delete(pages).where(eq(pages.id, id));
+        await PageDeliveryService.purge(existingPage[0]!.slug);
 
         fastify.sendSuccess(reply, null, 'Page deleted successfully');
       } catch (error) {
@@ -597,4 +704,582 @@ export default async function pageRoutes(fastify: FastifyInstance) {
       }
     }
   );
-}
\ No newline at end of file
+
+  // Schedule a page to be published or unpublished
+  fastify.post(
+    '/:id/schedule',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Schedule page publication',
+        description: 'Set when a page is published and/or unpublished by the publishing scheduler. Only approved pages can be scheduled for publication. Pass null to clear a date.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            publishAt: { type: ['string', 'null'], format: 'date-time' },
+            expiresAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  page: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'publish'), fastify.validate({ body: SchedulePageSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { publishAt, expiresAt } = request.body as z.infer<typeof SchedulePageSchema>;
+
+      try {
+        const [existingPage] = await db
+          .select()
+          .from(pages)
+          .where(eq(pages.id, id))
+          .limit(1);
+
+        if (!existingPage) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'PAGE_NOT_FOUND',
+              message: 'Page not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const scheduledAt = publishAt === undefined ? existingPage.scheduledAt : publishAt && new Date(publishAt);
+        const expiryDate = expiresAt === undefined ? existingPage.expiresAt : expiresAt && new Date(expiresAt);
+
+        if (publishAt && existingPage.status !== 'approved') {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'PAGE_NOT_APPROVED',
+              message: 'Only approved pages can be scheduled for publication',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        if (scheduledAt && expiryDate && expiryDate <= scheduledAt) {
+          return reply.code(400).send({
+            success: false,
+            error: {
+              code: 'INVALID_SCHEDULE',
+              message: 'Expiry date must be after the publication date',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const [updatedPage] = await db
+          .update(pages)
+          .set({
+            scheduledAt: scheduledAt ?? null,
+            expiresAt: expiryDate ?? null,
+            updatedAt: new Date(),
+          })
+          .where(eq(pages.id, id))
+          .returning();
+
+        fastify.sendSuccess(
+          reply,
+          { page: updatedPage },
+          'Page schedule updated successfully'
+        );
+      } catch (error) {
+        fastify.log.error(error, 'Error scheduling page');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to schedule page',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Apply a review workflow action to a page
+  fastify.post(
+    '/:id/workflow',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Apply workflow action',
+        description: 'Submit a page for review, approve it, request changes, publish, unpublish, archive or restore it. Requesting changes requires a comment.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['submit', 'withdraw', 'approve', 'request_changes', 'publish', 'unpublish', 'archive', 'restore'],
+            },
+            comment: { type: 'string', maxLength: 2000 },
+          },
+          required: ['action'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  page: { type: 'object', additionalProperties: true },
+                  transition: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.validate({ body: WorkflowTransitionRequestSchema }), fastify.requireWorkflowPermission('pages')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { action, comment } = request.body as z.infer<typeof WorkflowTransitionRequestSchema>;
+
+      try {
+        const { page, transition } = await WorkflowService.transition(id, action, {
+          userId: request.user?.userId,
+          comment,
+        });
+
+        fastify.sendSuccess(
+          reply,
+          { page, transition },
+          `Page moved to ${transition.toStatus.replace('_', ' ')}`
+        );
+      } catch (error) {
+        const workflowError = mapWorkflowError(error);
+        if (workflowError) {
+          return reply.code(workflowError.statusCode).send({
+            success: false,
+            error: workflowError.error,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error applying page workflow action');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to apply workflow action',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get the review workflow state and history of a page
+  fastify.get(
+    '/:id/workflow',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Get page workflow',
+        description: 'Retrieve the current status of a page, the workflow actions available from it and its transition history, newest first',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string' },
+                  availableActions: { type: 'array', items: { type: 'string' } },
+                  history: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const [page] = await db
+          .select({ id: pages.id, status: pages.status })
+          .from(pages)
+          .where(eq(pages.id, id))
+          .limit(1);
+
+        if (!page) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'PAGE_NOT_FOUND',
+              message: 'Page not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const status = page.status as PageStatus;
+        const history = await WorkflowService.getHistory(id);
+
+        fastify.sendSuccess(reply, {
+          status,
+          availableActions: WorkflowUtils.getAvailableActions(status),
+          history,
+        });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching page workflow');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve page workflow',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // List versions of a page
+  fastify.get(
+    '/:id/versions',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'List page versions',
+        description: 'Retrieve the version history of a page, newest first',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  versions: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read')],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      try {
+        const [page] = await db
+          .select({ id: pages.id })
+          .from(pages)
+          .where(eq(pages.id, id))
+          .limit(1);
+
+        if (!page) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'PAGE_NOT_FOUND',
+              message: 'Page not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const versions = await PageVersionService.listVersions(id);
+        fastify.sendSuccess(reply, { versions });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching page versions');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve page versions',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Diff two versions of a page
+  fastify.get(
+    '/:id/versions/diff',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Diff page versions',
+        description: 'Structural diff of two page versions, or of a version against the current page when "to" is omitted',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'integer', minimum: 1 },
+            to: { type: 'integer', minimum: 1 },
+          },
+          required: ['from'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  diff: { type: 'object', additionalProperties: true },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read'), fastify.validate({ querystring: VersionDiffQuerySchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { from, to } = request.query as z.infer<typeof VersionDiffQuerySchema>;
+
+      try {
+        const diff = await PageVersionService.diffVersions(id, from, to);
+        fastify.sendSuccess(reply, { diff });
+      } catch (error) {
+        if (error instanceof Error && /not found/.test(error.message)) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'VERSION_NOT_FOUND',
+              message: error.message,
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error diffing page versions');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to diff page versions',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Get a single version of a page
+  fastify.get(
+    '/:id/versions/:version',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Get page version',
+        description: 'Retrieve a single page version including its component tree',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            version: { type: 'integer', minimum: 1 },
+          },
+          required: ['id', 'version'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  version: { type: 'object', additionalProperties: true },
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'read'), fastify.validate({ params: VersionParamsSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, version } = request.params as z.infer<typeof VersionParamsSchema>;
+
+      try {
+        const pageVersion = await PageVersionService.getVersion(id, version);
+
+        if (!pageVersion) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: 'VERSION_NOT_FOUND',
+              message: 'Page version not found',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.sendSuccess(reply, { version: pageVersion });
+      } catch (error) {
+        fastify.log.error(error, 'Error fetching page version');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to retrieve page version',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Restore a page to an earlier version
+  fastify.post(
+    '/:id/versions/:version/restore',
+    {
+      schema: {
+        tags: ['Pages'],
+        summary: 'Restore page version',
+        description: 'Restore page content, title, description and SEO data from an earlier version. The page status is unchanged.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            version: { type: 'integer', minimum: 1 },
+          },
+          required: ['id', 'version'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  page: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('pages', 'update'), fastify.validate({ params: VersionParamsSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, version } = request.params as z.infer<typeof VersionParamsSchema>;
+
+      try {
+        const page = await PageVersionService.restoreVersion(id, version, request.user?.userId);
+        await PageDeliveryService.purge(page.slug);
+
+        fastify.sendSuccess(
+          reply,
+          { page },
+          `Page restored to version ${version}`
+        );
+      } catch (error) {
+        if (error instanceof Error && /not found/.test(error.message)) {
+          return reply.code(404).send({
+            success: false,
+            error: {
+              code: error.message === 'Page not found' ? 'PAGE_NOT_FOUND' : 'VERSION_NOT_FOUND',
+              message: error.message,
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        fastify.log.error(error, 'Error restoring page version');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to restore page version',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+}
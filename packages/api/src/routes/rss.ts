@@ -55,7 +55,7 @@ export default async function rssRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  feed: { type: 'object' },
+                  feed: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -114,7 +114,7 @@ export default async function rssRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  feeds: { type: 'array', items: { type: 'object' } },
+                  feeds: { type: 'array', items: { type: 'object', additionalProperties: true } },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -167,7 +167,7 @@ export default async function rssRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  feed: { type: 'object' },
+                  feed: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -247,7 +247,7 @@ export default async function rssRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  feed: { type: 'object' },
+                  feed: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -5,12 +5,6 @@ import { urlService } from '../services/url-service';
 import { db } from '../db/connection';
 import { pages, sitemapEntries } from '../db/schema';
 import { eq, desc } from 'drizzle-orm';
-import {
-  SEOAnalysisSchema,
-  URLRedirectSchema,
-  MetaTagsSchema,
-  StructuredDataSchema,
-} from '@oldworldcharm/shared';
 
 // Request/Response schemas
 const AnalyzePageRequestSchema = z.object({
@@ -83,11 +77,12 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
+            data: { type: 'object', additionalProperties: true },
           },
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'update')],
   }, async (request, reply) => {
     try {
       const { pageId, forceReanalysis } = request.body;
@@ -143,11 +138,12 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
+            data: { type: 'object', additionalProperties: true },
           },
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read')],
   }, async (request, reply) => {
     try {
       const { pageId } = request.params;
@@ -176,9 +172,8 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof GenerateMetaTagsRequestSchema>;
   }>('/meta-tags', {
     schema: {
-      body: GenerateMetaTagsRequestSchema,
       response: {
-        200: MetaTagsSchema,
+        200: { type: 'object', additionalProperties: true },
         404: {
           type: 'object',
           properties: {
@@ -188,6 +183,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read'), fastify.validate({ body: GenerateMetaTagsRequestSchema })],
   }, async (request, reply) => {
     try {
       const { pageId, baseUrl } = request.body;
@@ -224,9 +220,8 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof GenerateStructuredDataRequestSchema>;
   }>('/structured-data', {
     schema: {
-      body: GenerateStructuredDataRequestSchema,
       response: {
-        200: StructuredDataSchema,
+        200: { type: 'object', additionalProperties: true },
         404: {
           type: 'object',
           properties: {
@@ -236,6 +231,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read'), fastify.validate({ body: GenerateStructuredDataRequestSchema })],
   }, async (request, reply) => {
     try {
       const { pageId, contentType } = request.body;
@@ -270,9 +266,8 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof CreateRedirectRequestSchema>;
   }>('/redirects', {
     schema: {
-      body: CreateRedirectRequestSchema,
       response: {
-        201: URLRedirectSchema,
+        201: { type: 'object', additionalProperties: true },
         409: {
           type: 'object',
           properties: {
@@ -282,6 +277,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'create'), fastify.validate({ body: CreateRedirectRequestSchema })],
   }, async (request, reply) => {
     try {
       const { fromUrl, toUrl, statusCode } = request.body;
@@ -310,10 +306,11 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
       response: {
         200: {
           type: 'array',
-          items: URLRedirectSchema,
+          items: { type: 'object', additionalProperties: true },
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read')],
   }, async (_request, reply) => {
     try {
       const redirects = await urlService.getRedirects();
@@ -340,9 +337,8 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
         required: ['redirectId'],
       },
-      body: UpdateRedirectRequestSchema,
       response: {
-        200: URLRedirectSchema,
+        200: { type: 'object', additionalProperties: true },
         404: {
           type: 'object',
           properties: {
@@ -352,6 +348,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'update'), fastify.validate({ body: UpdateRedirectRequestSchema })],
   }, async (request, reply) => {
     try {
       const { redirectId } = request.params;
@@ -405,6 +402,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'delete')],
   }, async (request, reply) => {
     try {
       const { redirectId } = request.params;
@@ -433,7 +431,6 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof ValidateSlugRequestSchema>;
   }>('/validate-slug', {
     schema: {
-      body: ValidateSlugRequestSchema,
       response: {
         200: {
           type: 'object',
@@ -445,6 +442,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read'), fastify.validate({ body: ValidateSlugRequestSchema })],
   }, async (request, reply) => {
     try {
       const { slug, pageId } = request.body;
@@ -464,7 +462,6 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof GenerateSlugRequestSchema>;
   }>('/generate-slug', {
     schema: {
-      body: GenerateSlugRequestSchema,
       response: {
         200: {
           type: 'object',
@@ -474,6 +471,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read'), fastify.validate({ body: GenerateSlugRequestSchema })],
   }, async (request, reply) => {
     try {
       const { title } = request.body;
@@ -493,7 +491,6 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof GenerateRobotsRequestSchema>;
   }>('/robots', {
     schema: {
-      body: GenerateRobotsRequestSchema,
       response: {
         200: {
           type: 'object',
@@ -503,6 +500,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read'), fastify.validate({ body: GenerateRobotsRequestSchema })],
   }, async (request, reply) => {
     try {
       const { baseUrl, allowAll, disallowPatterns, customRules } = request.body;
@@ -526,7 +524,6 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
     Body: z.infer<typeof GenerateSitemapRequestSchema>;
   }>('/sitemap', {
     schema: {
-      body: GenerateSitemapRequestSchema,
       response: {
         200: {
           type: 'object',
@@ -538,6 +535,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'update'), fastify.validate({ body: GenerateSitemapRequestSchema })],
   }, async (request, reply) => {
     try {
       const { baseUrl, includeLastModified, includePriority, includeChangeFreq, excludePatterns } = request.body;
@@ -588,6 +586,7 @@ const seoRoutes: FastifyPluginAsync = async (fastify) => {
         },
       },
     },
+    preHandler: [fastify.authenticate, fastify.requirePermission('seo', 'read')],
   }, async (_request, reply) => {
     try {
       const entries = await db
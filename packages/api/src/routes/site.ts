@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { PageDeliveryService, type DeliveredPage } from '../services/page-delivery-service';
+import { ABTestService } from '../services/ab-test-service';
+
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year in seconds
+
+const htmlResponse = {
+  type: 'string',
+  description: 'Rendered HTML document',
+};
+
+const slugParams = {
+  type: 'object',
+  required: ['slug'],
+  properties: {
+    // Not pattern-checked so that legacy slugs reach the redirect handler
+    slug: { type: 'string' },
+  },
+};
+
+/**
+ * Identify the visitor for A/B test assignment, reusing the id from an earlier visit
+ */
+function getVisitorId(request: FastifyRequest): string {
+  return request.cookies[ABTestService.VISITOR_COOKIE] || randomUUID();
+}
+
+/**
+ * Send a delivered page, answering conditional requests with 304 Not Modified.
+ * The path is the page's route path, without the query string or other spellings of the URL.
+ */
+function sendPage(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  page: DeliveredPage | null,
+  visitorId: string,
+  path: string
+) {
+  if (!page) {
+    return reply
+      .code(404)
+      .header('Cache-Control', 'no-store')
+      .type('text/html; charset=utf-8')
+      .send(PageDeliveryService.renderNotFound());
+  }
+
+  reply
+    .header('ETag', page.etag)
+    .header('Last-Modified', page.lastModified)
+    // Let browsers and proxies keep a copy but revalidate it on every request
+    .header('Cache-Control', 'public, max-age=0, must-revalidate')
+    .header('X-Cache', page.cacheHit ? 'HIT' : 'MISS');
+
+  // Visitors already in a test may have reached one of its goal pages
+  const knownVisitorId = request.cookies[ABTestService.VISITOR_COOKIE];
+  if (knownVisitorId) {
+    ABTestService.recordPageReached(path, knownVisitorId).catch(error =>
+      request.log.error(error, 'Failed to record page reached goal')
+    );
+  }
+
+  if (page.experiment) {
+    // The variant depends on the visitor, so shared caches must not store it
+    reply
+      .header('Cache-Control', 'private, no-cache')
+      .header('Vary', 'Cookie')
+      .setCookie(ABTestService.VISITOR_COOKIE, visitorId, {
+        path: '/',
+        maxAge: VISITOR_COOKIE_MAX_AGE,
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+      });
+  }
+
+  const notModified = PageDeliveryService.isNotModified(page, {
+    ifNoneMatch: request.headers['if-none-match'],
+    ifModifiedSince: request.headers['if-modified-since'],
+  });
+
+  if (notModified) {
+    return reply.code(304).send();
+  }
+
+  return reply.type('text/html; charset=utf-8').send(page.html);
+}
+
+export default async function siteRoutes(fastify: FastifyInstance) {
+  // Home page
+  fastify.get(
+    '/',
+    {
+      schema: {
+        tags: ['Site'],
+        summary: 'Render home page',
+        description: 'Render the published home page (slug "home" or "index")',
+        response: {
+          200: htmlResponse,
+          404: htmlResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const visitorId = getVisitorId(request);
+      const page = await PageDeliveryService.getHomePage(visitorId);
+      return sendPage(request, reply, page, visitorId, '/');
+    }
+  );
+
+  // Published blog post
+  fastify.get(
+    '/blog/:slug',
+    {
+      schema: {
+        tags: ['Site'],
+        summary: 'Render blog post',
+        description: 'Render a published blog post with its meta tags and structured data',
+        params: slugParams,
+        response: {
+          200: htmlResponse,
+          404: htmlResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug } = request.params as { slug: string };
+      const visitorId = getVisitorId(request);
+      const page = await PageDeliveryService.getPageForVisitor(slug, visitorId, { blog: true });
+      return sendPage(request, reply, page, visitorId, `/blog/${slug}`);
+    }
+  );
+
+  // Published page
+  fastify.get(
+    '/:slug',
+    {
+      schema: {
+        tags: ['Site'],
+        summary: 'Render page',
+        description:
+          'Render a published page with its meta tags and structured data. When an A/B test is running on the page, the visitor is assigned a variant (kept in a cookie) and served it.',
+        params: slugParams,
+        response: {
+          200: htmlResponse,
+          404: htmlResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug } = request.params as { slug: string };
+      const visitorId = getVisitorId(request);
+      const page = await PageDeliveryService.getPageForVisitor(slug, visitorId);
+      return sendPage(request, reply, page, visitorId, `/${slug}`);
+    }
+  );
+}
@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { SocialService } from '../services/social-service';
 import { BlogService } from '../services/blog-service';
+import { mediaService } from '../services/media-service';
 
 // Request schemas for social endpoints
 const RecordShareSchema = z.object({
@@ -49,7 +50,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  share: { type: 'object' },
+                  share: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -123,7 +124,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  shares: { type: 'object' },
+                  shares: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -183,7 +184,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  sharingUrls: { type: 'object' },
+                  sharingUrls: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -265,7 +266,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  metaTags: { type: 'object' },
+                  metaTags: { type: 'object', additionalProperties: true },
                   html: { type: 'string' },
                 },
               },
@@ -298,6 +299,9 @@ export default async function socialRoutes(fastify: FastifyInstance) {
         if (siteName) options.siteName = siteName;
         if (twitterSite) options.twitterSite = twitterSite;
         if (twitterCreator) options.twitterCreator = twitterCreator;
+        options.images = await mediaService.getSocialImages(
+          [blogPost.seoData?.ogImage, blogPost.seoData?.twitterImage, blogPost.featuredImage].filter((url): url is string => Boolean(url))
+        );
         
         const metaTags = SocialService.generateSocialMetaTags(blogPost, baseUrl, options);
 
@@ -338,7 +342,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  totalShares: { type: 'object' },
+                  totalShares: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -390,7 +394,7 @@ export default async function socialRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  mostShared: { type: 'array', items: { type: 'object' } },
+                  mostShared: { type: 'array', items: { type: 'object', additionalProperties: true } },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
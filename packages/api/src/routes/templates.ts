@@ -64,7 +64,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  template: { type: 'object' },
+                  template: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -75,7 +75,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: CreateTemplateSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'create'), fastify.validate({ body: CreateTemplateSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const templateData = request.body as z.infer<typeof CreateTemplateSchema>;
@@ -172,7 +172,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -186,7 +186,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: TemplateQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'read'), fastify.validate({ querystring: TemplateQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof TemplateQuerySchema>;
@@ -318,7 +318,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  template: { type: 'object' },
+                  template: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -328,7 +328,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -402,7 +402,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  template: { type: 'object' },
+                  template: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -413,7 +413,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -514,7 +514,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  template: { type: 'object' },
+                  template: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -525,7 +525,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: UpdateTemplateSchema.omit({ id: true }) })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'update'), fastify.validate({ body: UpdateTemplateSchema.omit({ id: true }) })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -630,7 +630,7 @@ export default async function templateRoutes(fastify: FastifyInstance) {
           403: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('templates', 'delete')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -2,27 +2,37 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { eq, desc, asc, and, like, sql } from 'drizzle-orm';
 import { db, themes } from '../db/index';
+import { PageDeliveryService } from '../services/page-delivery-service';
+import { ThemeService } from '../services/theme-service';
+import { PaletteService, type ContrastFix, type PaletteOptions } from '../services/palette-service';
+import { ThemeTokenService, type DesignTokenGroup, type ThemeExportFormat } from '../services/theme-token-service';
+import { ZodError } from 'zod';
 import {
+  ErrorHandler,
   ThemeColorsSchema,
+  ThemeColorSchemesSchema,
   ThemeTypographySchema,
 } from '@oldworldcharm/shared';
 
-// Request schemas for API endpoints
+// Request schemas for API endpoints. Themes with a parent only list the tokens they override.
 const CreateThemeSchema = z.object({
   name: z
     .string()
     .min(1, 'Theme name is required')
     .max(100, 'Theme name too long'),
-  colors: ThemeColorsSchema,
-  typography: ThemeTypographySchema,
+  parentId: z.string().uuid('Invalid parent theme ID').optional(),
+  colors: ThemeColorsSchema.partial().optional(),
+  typography: ThemeTypographySchema.partial().optional(),
   spacing: z.record(z.string()).default({}),
   borderRadius: z.record(z.string()).default({}),
   shadows: z.record(z.string()).default({}),
+  colorSchemes: ThemeColorSchemesSchema.optional(), // dark and high-contrast palettes
   isDefault: z.boolean().optional(),
 });
 
 const UpdateThemeSchema = CreateThemeSchema.partial().extend({
   id: z.string().min(1, 'Theme ID is required'),
+  parentId: z.string().uuid('Invalid parent theme ID').nullable().optional(), // null detaches the theme from its parent
 });
 
 const ThemeQuerySchema = z.object({
@@ -34,11 +44,55 @@ const ThemeQuerySchema = z.object({
   isDefault: z.coerce.boolean().optional(),
 });
 
+// Imported themes are standalone, so every token is required
 const ThemeImportSchema = z.object({
-  theme: CreateThemeSchema,
+  theme: CreateThemeSchema.omit({ parentId: true }).extend({
+    colors: ThemeColorsSchema,
+    typography: ThemeTypographySchema,
+  }),
   overwrite: z.boolean().default(false),
 });
 
+const ThemeExportQuerySchema = z.object({
+  format: z.enum(['json', 'tailwind', 'dtcg', 'scss', 'typescript']).default('json'),
+});
+
+const DesignTokensImportSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Theme name is required')
+    .max(100, 'Theme name too long'),
+  tokens: z.record(z.unknown()),
+  isDefault: z.boolean().optional(),
+  overwrite: z.boolean().default(false),
+});
+
+const PaletteRequestSchema = z.object({
+  primary: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid hex color'),
+  secondary: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid hex color').optional(),
+  level: z.enum(['AA', 'AAA']).default('AA'),
+});
+
+const FixContrastSchema = z.object({
+  level: z.enum(['AA', 'AAA']).default('AA'),
+  apply: z.boolean().default(false), // save the fixed colors to the theme instead of only previewing them
+});
+
+type ImportedThemeData = z.infer<typeof ThemeImportSchema>['theme'];
+
+// Response schema for color groups keyed by name, e.g. dark and high-contrast palettes
+const COLOR_SCHEMES_SCHEMA = {
+  type: 'object',
+  additionalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+};
+
+// Responses for errors from ThemeService.assertValidParent
+const PARENT_ERROR_CODES: Record<string, string> = {
+  'Parent theme not found': 'PARENT_THEME_NOT_FOUND',
+  'A theme cannot extend itself or one of its descendants': 'THEME_INHERITANCE_CYCLE',
+  'Theme inheritance is too deep': 'THEME_INHERITANCE_TOO_DEEP',
+};
+
 export default async function themeRoutes(fastify: FastifyInstance) {
   // Helper function to ensure only one default theme
   async function ensureOnlyOneDefault(excludeId?: string) {
@@ -57,6 +111,132 @@ export default async function themeRoutes(fastify: FastifyInstance) {
     }
   }
 
+  // Helper function to store an imported theme, creating it or replacing the theme with the same name
+  async function saveImportedTheme(reply: FastifyReply, themeData: ImportedThemeData, overwrite: boolean) {
+    // Check if theme name already exists
+    const [existingTheme] = await db
+      .select({ id: themes.id })
+      .from(themes)
+      .where(eq(themes.name, themeData.name))
+      .limit(1);
+
+    if (existingTheme && !overwrite) {
+      return reply.code(409).send({
+        success: false,
+        error: {
+          code: 'THEME_NAME_EXISTS',
+          message: 'A theme with this name already exists. Set overwrite to true to replace it.',
+          field: 'name',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // If this theme is set as default, ensure no other theme is default
+    if (themeData.isDefault) {
+      await ensureOnlyOneDefault(existingTheme?.id);
+    }
+
+    // Create the theme configuration object
+    const themeConfig = {
+      colors: themeData.colors,
+      typography: themeData.typography,
+      spacing: themeData.spacing,
+      borderRadius: themeData.borderRadius,
+      shadows: themeData.shadows,
+      ...(themeData.colorSchemes && { colorSchemes: themeData.colorSchemes }),
+    };
+
+    let newTheme;
+
+    if (existingTheme && overwrite) {
+      // Update existing theme
+      // Imported themes are complete, so a replaced theme no longer extends another
+      [newTheme] = await db
+        .update(themes)
+        .set({
+          config: themeConfig,
+          parentId: null,
+          isDefault: themeData.isDefault || false,
+          updatedAt: new Date(),
+        })
+        .where(eq(themes.id, existingTheme.id))
+        .returning();
+
+      await PageDeliveryService.purgeAll();
+    } else {
+      // Create new theme
+      [newTheme] = await db
+        .insert(themes)
+        .values({
+          name: themeData.name,
+          config: themeConfig,
+          isDefault: themeData.isDefault || false,
+        })
+        .returning();
+    }
+
+    reply.code(201);
+    fastify.sendSuccess(
+      reply,
+      { theme: newTheme },
+      `Theme ${overwrite && existingTheme ? 'updated' : 'imported'} successfully`
+    );
+  }
+
+  // Helper function to write contrast fixes into a theme's stored config, which only holds overrides when it has a parent
+  function withContrastFixes(storedConfig: unknown, fixes: ContrastFix[]) {
+    const config = { ...(storedConfig as Record<string, any>) };
+
+    fixes.forEach(({ scheme, token, to }) => {
+      if (scheme === 'light') {
+        config.colors = { ...config.colors, [token]: to };
+      } else {
+        config.colorSchemes = {
+          ...config.colorSchemes,
+          [scheme]: { ...config.colorSchemes?.[scheme], [token]: to },
+        };
+      }
+    });
+
+    return config;
+  }
+
+  // Helper function to validate a theme's parent, sending a 400 response when it is invalid
+  async function checkParent(reply: FastifyReply, themeId: string | null, parentId: string): Promise<boolean> {
+    try {
+      await ThemeService.assertValidParent(themeId, parentId);
+      return true;
+    } catch (error) {
+      const code = error instanceof Error ? PARENT_ERROR_CODES[error.message] : undefined;
+      if (!code) {
+        throw error;
+      }
+
+      reply.code(400).send({
+        success: false,
+        error: {
+          code,
+          message: (error as Error).message,
+          field: 'parentId',
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return false;
+    }
+  }
+
+  function sendIncompleteTheme(reply: FastifyReply) {
+    return reply.code(400).send({
+      success: false,
+      error: {
+        code: 'INCOMPLETE_THEME',
+        message: 'Themes without a parent must define every color and a font family',
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   // Create a new theme
   fastify.post(
     '/',
@@ -70,6 +250,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 100 },
+            parentId: { type: 'string', format: 'uuid' },
             colors: {
               type: 'object',
               properties: {
@@ -94,7 +275,6 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 input: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
                 ring: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
               },
-              required: ['primary', 'secondary', 'accent', 'neutral', 'base', 'info', 'success', 'warning', 'error', 'background', 'foreground', 'muted', 'muted-foreground', 'popover', 'popover-foreground', 'card', 'card-foreground', 'border', 'input', 'ring'],
             },
             typography: {
               type: 'object',
@@ -106,14 +286,14 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 lineHeight: { type: 'object' },
                 letterSpacing: { type: 'object' },
               },
-              required: ['fontFamily'],
             },
             spacing: { type: 'object' },
             borderRadius: { type: 'object' },
             shadows: { type: 'object' },
+            colorSchemes: { type: 'object' },
             isDefault: { type: 'boolean' },
           },
-          required: ['name', 'colors', 'typography'],
+          required: ['name'],
         },
         response: {
           201: {
@@ -123,7 +303,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -134,7 +314,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: CreateThemeSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'create'), fastify.validate({ body: CreateThemeSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const themeData = request.body as z.infer<typeof CreateThemeSchema>;
@@ -159,11 +339,6 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // If this theme is set as default, ensure no other theme is default
-        if (themeData.isDefault) {
-          await ensureOnlyOneDefault();
-        }
-
         // Create the theme configuration object
         const themeConfig = {
           colors: themeData.colors,
@@ -171,14 +346,27 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           spacing: themeData.spacing,
           borderRadius: themeData.borderRadius,
           shadows: themeData.shadows,
+          ...(themeData.colorSchemes && { colorSchemes: themeData.colorSchemes }),
         };
 
+        if (themeData.parentId) {
+          if (!(await checkParent(reply, null, themeData.parentId))) return;
+        } else if (!ThemeService.isCompleteConfig(themeConfig)) {
+          return sendIncompleteTheme(reply);
+        }
+
+        // If this theme is set as default, ensure no other theme is default
+        if (themeData.isDefault) {
+          await ensureOnlyOneDefault();
+        }
+
         // Create the theme
         const [newTheme] = await db
           .insert(themes)
           .values({
             name: themeData.name,
             config: themeConfig,
+            parentId: themeData.parentId || null,
             isDefault: themeData.isDefault || false,
           })
           .returning();
@@ -231,7 +419,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  items: { type: 'array', items: { type: 'object' } },
+                  items: { type: 'array', items: { type: 'object', additionalProperties: true } },
                   total: { type: 'integer' },
                   page: { type: 'integer' },
                   pageSize: { type: 'integer' },
@@ -245,7 +433,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ querystring: ThemeQuerySchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read'), fastify.validate({ querystring: ThemeQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as z.infer<typeof ThemeQuerySchema>;
@@ -346,7 +534,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -355,7 +543,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -413,6 +601,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 100 },
+            parentId: { type: 'string', format: 'uuid', nullable: true },
             colors: {
               type: 'object',
               properties: {
@@ -452,6 +641,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
             spacing: { type: 'object' },
             borderRadius: { type: 'object' },
             shadows: { type: 'object' },
+            colorSchemes: { type: 'object' },
             isDefault: { type: 'boolean' },
           },
         },
@@ -463,18 +653,19 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
               timestamp: { type: 'string', format: 'date-time' },
             },
           },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: UpdateThemeSchema.omit({ id: true }) })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'update'), fastify.validate({ body: UpdateThemeSchema.omit({ id: true }) })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -520,11 +711,6 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           }
         }
 
-        // If this theme is being set as default, ensure no other theme is default
-        if (updateData.isDefault) {
-          await ensureOnlyOneDefault(id);
-        }
-
         // Prepare update data
         const updateValues: any = {
           updatedAt: new Date(),
@@ -532,20 +718,35 @@ export default async function themeRoutes(fastify: FastifyInstance) {
 
         if (updateData.name !== undefined) updateValues.name = updateData.name;
         if (updateData.isDefault !== undefined) updateValues.isDefault = updateData.isDefault;
+        if (updateData.parentId !== undefined) updateValues.parentId = updateData.parentId;
 
         // Update theme config if any theme properties are provided
-        if (updateData.colors || updateData.typography || updateData.spacing || updateData.borderRadius || updateData.shadows) {
-          const currentConfig = existingTheme.config as any;
+        const currentConfig = existingTheme.config as any;
+        if (updateData.colors || updateData.typography || updateData.spacing || updateData.borderRadius || updateData.shadows || updateData.colorSchemes) {
           const newConfig = {
             colors: updateData.colors || currentConfig.colors,
             typography: updateData.typography || currentConfig.typography,
             spacing: updateData.spacing !== undefined ? updateData.spacing : currentConfig.spacing,
             borderRadius: updateData.borderRadius !== undefined ? updateData.borderRadius : currentConfig.borderRadius,
             shadows: updateData.shadows !== undefined ? updateData.shadows : currentConfig.shadows,
+            colorSchemes: updateData.colorSchemes !== undefined ? updateData.colorSchemes : currentConfig.colorSchemes,
           };
           updateValues.config = newConfig;
         }
 
+        // A theme keeps only its overrides while it has a parent, so it must be complete once it has none
+        const parentId = updateData.parentId !== undefined ? updateData.parentId : existingTheme.parentId;
+        if (parentId) {
+          if (parentId !== existingTheme.parentId && !(await checkParent(reply, id, parentId))) return;
+        } else if (!ThemeService.isCompleteConfig(updateValues.config || currentConfig)) {
+          return sendIncompleteTheme(reply);
+        }
+
+        // If this theme is being set as default, ensure no other theme is default
+        if (updateData.isDefault) {
+          await ensureOnlyOneDefault(id);
+        }
+
         // Update the theme
         const [updatedTheme] = await db
           .update(themes)
@@ -553,6 +754,9 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           .where(eq(themes.id, id))
           .returning();
 
+        // Delivered pages inline their theme's CSS, and themes extending this one change with it
+        await PageDeliveryService.purgeAll();
+
         fastify.sendSuccess(
           reply,
           { theme: updatedTheme },
@@ -599,9 +803,10 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           },
           400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'delete')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -637,9 +842,30 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // Themes extending this one only hold overrides, so they would lose their remaining tokens
+        const [childTheme] = await db
+          .select({ id: themes.id })
+          .from(themes)
+          .where(eq(themes.parentId, id))
+          .limit(1);
+
+        if (childTheme) {
+          return reply.code(409).send({
+            success: false,
+            error: {
+              code: 'THEME_HAS_CHILDREN',
+              message: 'Cannot delete a theme that other themes extend. Change or delete those themes first.',
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         // Delete the theme
         await db.delete(themes).where(eq(themes.id, id));
 
+        // Pages that used it fall back to the default theme
+        await PageDeliveryService.purgeAll();
+
         fastify.sendSuccess(reply, null, 'Theme deleted successfully');
       } catch (error) {
         fastify.log.error(error, 'Error deleting theme');
@@ -679,7 +905,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -689,7 +915,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'set-default')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -723,6 +949,8 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           .where(eq(themes.id, id))
           .returning();
 
+        await PageDeliveryService.purgeAll();
+
         fastify.sendSuccess(
           reply,
           { theme: updatedTheme },
@@ -749,7 +977,8 @@ export default async function themeRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Themes'],
         summary: 'Export theme',
-        description: 'Export a theme configuration as JSON',
+        description:
+          'Export a theme configuration as JSON, or as a file: a Tailwind CSS preset, W3C design tokens (DTCG), SCSS variables or a TypeScript module',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -758,6 +987,12 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           },
           required: ['id'],
         },
+        querystring: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['json', 'tailwind', 'dtcg', 'scss', 'typescript'], default: 'json' },
+          },
+        },
         response: {
           200: {
             type: 'object',
@@ -766,7 +1001,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -775,19 +1010,16 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read'), fastify.validate({ querystring: ThemeExportQuerySchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
+      const { format } = request.query as z.infer<typeof ThemeExportQuerySchema>;
 
       try {
-        const [theme] = await db
-          .select()
-          .from(themes)
-          .where(eq(themes.id, id))
-          .limit(1);
+        const result = await ThemeService.getThemeById(id);
 
-        if (!theme) {
+        if (!result) {
           return reply.code(404).send({
             success: false,
             error: {
@@ -798,10 +1030,18 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Create exportable theme object
+        if (format !== 'json') {
+          const exportFile = ThemeTokenService.exportTheme(result.theme.name, result.config, format as ThemeExportFormat);
+          return reply
+            .header('Content-Type', exportFile.mimeType)
+            .header('Content-Disposition', `attachment; filename="${exportFile.filename}"`)
+            .send(exportFile.data);
+        }
+
+        // Create exportable theme object, with inherited tokens included so it can be imported on its own
         const exportableTheme = {
-          name: theme.name,
-          ...(theme.config as Record<string, any>),
+          name: result.theme.name,
+          ...result.config,
         };
 
         fastify.sendSuccess(reply, { theme: exportableTheme });
@@ -876,6 +1116,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 spacing: { type: 'object' },
                 borderRadius: { type: 'object' },
                 shadows: { type: 'object' },
+                colorSchemes: { type: 'object' },
                 isDefault: { type: 'boolean' },
               },
               required: ['name', 'colors', 'typography'],
@@ -892,7 +1133,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
-                  theme: { type: 'object' },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               message: { type: 'string' },
@@ -903,83 +1144,253 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: [fastify.authenticate, fastify.validate({ body: ThemeImportSchema })],
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'create'), fastify.validate({ body: ThemeImportSchema })],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { theme: themeData, overwrite } = request.body as z.infer<typeof ThemeImportSchema>;
 
       try {
-        // Check if theme name already exists
-        const [existingTheme] = await db
-          .select({ id: themes.id })
-          .from(themes)
-          .where(eq(themes.name, themeData.name))
-          .limit(1);
+        return await saveImportedTheme(reply, themeData, overwrite);
+      } catch (error) {
+        fastify.log.error(error, 'Error importing theme');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to import theme',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
 
-        if (existingTheme && !overwrite) {
-          return reply.code(409).send({
+  // Import theme from W3C design tokens
+  fastify.post(
+    '/import/design-tokens',
+    {
+      schema: {
+        tags: ['Themes'],
+        summary: 'Import theme from design tokens',
+        description: 'Import a theme from a W3C design tokens (DTCG) document in the layout the dtcg export writes',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            tokens: { type: 'object' },
+            isDefault: { type: 'boolean' },
+            overwrite: { type: 'boolean', default: false },
+          },
+          required: ['name', 'tokens'],
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  theme: { type: 'object', additionalProperties: true },
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' }, details: { type: 'object', additionalProperties: true } } }, timestamp: { type: 'string', format: 'date-time' } } },
+          409: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'create'), fastify.validate({ body: DesignTokensImportSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { name, tokens, isDefault, overwrite } = request.body as z.infer<typeof DesignTokensImportSchema>;
+
+      let themeData: ImportedThemeData;
+      try {
+        themeData = { ...ThemeTokenService.fromDesignTokens(name, tokens as DesignTokenGroup), isDefault };
+      } catch (error) {
+        // Tokens that don't make a complete theme are reported like any other invalid request
+        if (error instanceof ZodError) {
+          throw ErrorHandler.fromZodError(error, 'Design tokens do not describe a valid theme');
+        }
+
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_DESIGN_TOKENS',
+            message: error instanceof Error ? error.message : 'Invalid design tokens',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        return await saveImportedTheme(reply, themeData, overwrite);
+      } catch (error) {
+        fastify.log.error(error, 'Error importing design tokens');
+        return reply.code(500).send({
+          success: false,
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to import design tokens',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+  );
+
+  // Generate a palette from brand colors
+  fastify.post(
+    '/palette',
+    {
+      schema: {
+        tags: ['Themes'],
+        summary: 'Generate a color palette',
+        description:
+          'Derive a complete set of theme colors and a dark color scheme from one or two brand colors, meeting WCAG AA or AAA contrast',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            primary: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            secondary: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            level: { type: 'string', enum: ['AA', 'AAA'], default: 'AA' },
+          },
+          required: ['primary'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  colors: { type: 'object', additionalProperties: { type: 'string' } },
+                  colorSchemes: COLOR_SCHEMES_SCHEMA,
+                  scales: COLOR_SCHEMES_SCHEMA,
+                },
+              },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read'), fastify.validate({ body: PaletteRequestSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const options = request.body as PaletteOptions;
+
+      fastify.sendSuccess(reply, PaletteService.generatePalette(options));
+    }
+  );
+
+  // Fix colors that fail contrast checks
+  fastify.post(
+    '/:id/fix-contrast',
+    {
+      schema: {
+        tags: ['Themes'],
+        summary: 'Fix theme contrast',
+        description:
+          'Adjust the lightness of text and button colors that fail WCAG AA or AAA contrast, in every color scheme. Previews the fixes unless apply is true.',
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            level: { type: 'string', enum: ['AA', 'AAA'], default: 'AA' },
+            apply: { type: 'boolean', default: false },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', example: true },
+              data: {
+                type: 'object',
+                properties: {
+                  applied: { type: 'boolean' },
+                  fixes: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        scheme: { type: 'string', enum: ['light', 'dark', 'high-contrast'] },
+                        context: { type: 'string' },
+                        token: { type: 'string' },
+                        from: { type: 'string' },
+                        to: { type: 'string' },
+                        ratioBefore: { type: 'number' },
+                        ratioAfter: { type: 'number' },
+                      },
+                    },
+                  },
+                  colors: { type: 'object', additionalProperties: { type: 'string' } },
+                  colorSchemes: COLOR_SCHEMES_SCHEMA,
+                },
+              },
+              message: { type: 'string' },
+              timestamp: { type: 'string', format: 'date-time' },
+            },
+          },
+          404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
+        },
+      },
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'update'), fastify.validate({ body: FixContrastSchema })],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { level, apply } = (request.body || FixContrastSchema.parse({})) as z.infer<typeof FixContrastSchema>;
+
+      try {
+        const result = await ThemeService.getThemeById(id);
+        if (!result) {
+          return reply.code(404).send({
             success: false,
             error: {
-              code: 'THEME_NAME_EXISTS',
-              message: 'A theme with this name already exists. Set overwrite to true to replace it.',
-              field: 'name',
+              code: 'THEME_NOT_FOUND',
+              message: 'Theme not found',
             },
             timestamp: new Date().toISOString(),
           });
         }
 
-        // If this theme is set as default, ensure no other theme is default
-        if (themeData.isDefault) {
-          await ensureOnlyOneDefault(existingTheme?.id);
-        }
-
-        // Create the theme configuration object
-        const themeConfig = {
-          colors: themeData.colors,
-          typography: themeData.typography,
-          spacing: themeData.spacing,
-          borderRadius: themeData.borderRadius,
-          shadows: themeData.shadows,
-        };
+        const { config, fixes } = PaletteService.fixContrast(result.config, level);
 
-        let newTheme;
-
-        if (existingTheme && overwrite) {
-          // Update existing theme
-          [newTheme] = await db
+        if (apply && fixes.length > 0) {
+          // Fixed colors are saved on this theme, overriding any it inherits
+          await db
             .update(themes)
-            .set({
-              config: themeConfig,
-              isDefault: themeData.isDefault || false,
-              updatedAt: new Date(),
-            })
-            .where(eq(themes.id, existingTheme.id))
-            .returning();
-        } else {
-          // Create new theme
-          [newTheme] = await db
-            .insert(themes)
-            .values({
-              name: themeData.name,
-              config: themeConfig,
-              isDefault: themeData.isDefault || false,
-            })
-            .returning();
+            .set({ config: withContrastFixes(result.theme.config, fixes), updatedAt: new Date() })
+            .where(eq(themes.id, id));
+
+          await PageDeliveryService.purgeAll();
         }
 
-        reply.code(201);
         fastify.sendSuccess(
           reply,
-          { theme: newTheme },
-          `Theme ${overwrite && existingTheme ? 'updated' : 'imported'} successfully`
+          { applied: apply && fixes.length > 0, fixes, colors: config.colors, colorSchemes: config.colorSchemes || {} },
+          fixes.length === 0 ? `Theme already meets WCAG ${level}` : `${fixes.length} color${fixes.length === 1 ? '' : 's'} ${apply ? 'fixed' : 'can be fixed'}`
         );
       } catch (error) {
-        fastify.log.error(error, 'Error importing theme');
+        fastify.log.error(error, 'Error fixing theme contrast');
         return reply.code(500).send({
           success: false,
           error: {
             code: 'INTERNAL_ERROR',
-            message: 'Failed to import theme',
+            message: 'Failed to fix theme contrast',
           },
           timestamp: new Date().toISOString(),
         });
@@ -994,7 +1405,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Themes'],
         summary: 'Generate CSS from theme',
-        description: 'Generate CSS custom properties and utility classes from theme configuration',
+        description: 'Generate CSS custom properties and utility classes from theme configuration, including dark and high-contrast color schemes',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -1019,7 +1430,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   css: { type: 'string' },
-                  customProperties: { type: 'object' },
+                  customProperties: { type: 'object', additionalProperties: { type: 'string' } },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -1028,7 +1439,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -1078,7 +1489,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Themes'],
         summary: 'Validate theme accessibility',
-        description: 'Check theme for accessibility issues including contrast ratios and color blindness',
+        description: 'Check theme for accessibility issues including contrast ratios and color blindness in every color scheme',
         security: [{ bearerAuth: [] }, { cookieAuth: [] }],
         params: {
           type: 'object',
@@ -1097,6 +1508,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 properties: {
                   isValid: { type: 'boolean' },
                   score: { type: 'number' },
+                  schemes: { type: 'array', items: { type: 'string' } },
                   issues: {
                     type: 'array',
                     items: {
@@ -1104,6 +1516,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                       properties: {
                         type: { type: 'string', enum: ['contrast', 'color-blindness', 'readability'] },
                         severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+                        scheme: { type: 'string', enum: ['light', 'dark', 'high-contrast'] },
                         message: { type: 'string' },
                         suggestion: { type: 'string' },
                         colors: {
@@ -1125,7 +1538,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -1203,7 +1616,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'update')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { id } = request.params as { id: string };
@@ -1270,8 +1683,8 @@ export default async function themeRoutes(fastify: FastifyInstance) {
                 type: 'object',
                 properties: {
                   css: { type: 'string' },
-                  customProperties: { type: 'object' },
-                  theme: { type: 'object' },
+                  customProperties: { type: 'object', additionalProperties: { type: 'string' } },
+                  theme: { type: 'object', additionalProperties: true },
                 },
               },
               timestamp: { type: 'string', format: 'date-time' },
@@ -1280,7 +1693,7 @@ export default async function themeRoutes(fastify: FastifyInstance) {
           404: { type: 'object', properties: { success: { type: 'boolean', example: false }, error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } }, timestamp: { type: 'string', format: 'date-time' } } },
         },
       },
-      preHandler: fastify.authenticate,
+      preHandler: [fastify.authenticate, fastify.requirePermission('themes', 'read')],
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { selector = ':root', preview = false } = request.query as { selector?: string; preview?: boolean };
@@ -0,0 +1,303 @@
+import { eq } from 'drizzle-orm';
+import { db, abTests } from '../db/index';
+import { LockManager } from '../db/redis';
+import { ABTestService } from './ab-test-service';
+import { ABTestStatistics } from '@oldworldcharm/shared';
+import type { ABTest, ABTestDecision, ABTestResults } from '@oldworldcharm/shared';
+
+export interface AutomationRunResult {
+  skipped: boolean;
+  stopped: string[];
+  reallocated: string[];
+}
+
+// A decision before it is logged on the test
+export type PlannedDecision = Omit<ABTestDecision, 'id' | 'testId' | 'createdAt'>;
+
+export interface Reallocation {
+  trafficSplit: Record<string, number>;
+  decision: PlannedDecision;
+}
+
+interface AutomationLogger {
+  info: (msg: string) => void;
+  error: (obj: unknown, msg?: string) => void;
+}
+
+export class ABTestAutomation {
+  private static readonly LOCK_NAME = 'ab-test-automation';
+  private static readonly LOCK_TTL = 5 * 60 * 1000; // 5 minutes
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly BANDIT_MIN_TRAFFIC = 5; // percent per variant
+  private static readonly BANDIT_MIN_SAMPLE = 100; // visitors per variant
+  private static readonly BANDIT_MIN_CHANGE = 1; // percentage points, smaller shifts are not worth a decision
+
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  /**
+   * Start checking running tests periodically
+   */
+  static start(intervalMs: number, logger: AutomationLogger = console): void {
+    if (this.timer) {
+      return;
+    }
+
+    const tick = async () => {
+      // Skip the tick if the previous run on this instance is still going
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        const result = await this.runOnce();
+        if (result.stopped.length > 0 || result.reallocated.length > 0) {
+          logger.info(
+            `A/B test automation: stopped ${result.stopped.length}, reallocated ${result.reallocated.length}`
+          );
+        }
+      } catch (error) {
+        logger.error(error, 'A/B test automation run failed');
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    void tick();
+  }
+
+  /**
+   * Stop checking
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Apply the stopping rules and bandit reallocation of every running test, logging each decision
+   * on its test. Holds a Redis lock so only one API instance processes a given run.
+   */
+  static async runOnce(now: Date = new Date()): Promise<AutomationRunResult> {
+    const token = await LockManager.acquire(this.LOCK_NAME, this.LOCK_TTL);
+    if (!token) {
+      return { skipped: true, stopped: [], reallocated: [] };
+    }
+
+    try {
+      const runningTests = await db
+        .select({ id: abTests.id })
+        .from(abTests)
+        .where(eq(abTests.status, 'running'));
+
+      const stopped: string[] = [];
+      const reallocated: string[] = [];
+
+      for (const { id } of runningTests) {
+        const test = await ABTestService.getTestById(id);
+        // The test may have been changed by hand since it was listed
+        if (!test || test.status !== 'running') {
+          continue;
+        }
+
+        const outcome = await this.processTest(test, now);
+        if (outcome === 'stopped') stopped.push(id);
+        if (outcome === 'reallocated') reallocated.push(id);
+      }
+
+      return { skipped: false, stopped, reallocated };
+    } finally {
+      await LockManager.release(this.LOCK_NAME, token);
+    }
+  }
+
+  /**
+   * Check a test's stopping rules against its results. Guardrail degradation is checked first,
+   * then a winner past the sequential boundary for the planned sample, then the maximum duration.
+   */
+  static evaluateStoppingRules(test: ABTest, results: ABTestResults, now: Date = new Date()): PlannedDecision | null {
+    const rules = test.stoppingRules;
+    if (!rules) {
+      return null;
+    }
+
+    if (rules.stopOnGuardrailDegradation) {
+      const tolerance = rules.guardrailTolerance ?? 0;
+
+      for (const goal of results.goals || []) {
+        if (goal.role !== 'guardrail') continue;
+
+        const degraded = goal.analysis.variants.find(
+          stat => stat.comparison?.significant && -stat.comparison.relativeLift > tolerance
+        );
+        if (degraded?.comparison) {
+          return {
+            action: 'stop',
+            rule: 'guardrail',
+            reason: `${this.getVariantName(test, degraded.variantId)} lowered guardrail "${goal.name}" by ${(
+              -degraded.comparison.relativeLift * 100
+            ).toFixed(1)}%`,
+            details: {
+              goalId: goal.goalId,
+              variantId: degraded.variantId,
+              relativeLift: degraded.comparison.relativeLift,
+              adjustedPValue: degraded.comparison.adjustedPValue,
+            },
+          };
+        }
+      }
+    }
+
+    // This runs on every tick, so a fixed-horizon test would find a false winner sooner or later.
+    // The winner has to pass a sequential boundary instead, strictest early in the planned sample.
+    const visitorsPerVariant = results.analysis?.sampleSize.currentPerVariant ?? 0;
+    const comparison = results.analysis?.variants.find(stat => stat.variantId === results.winner)?.comparison;
+    if (rules.minSamplePerVariant && results.winner && comparison) {
+      const boundary = ABTestStatistics.sequentialBoundary(
+        1 - results.analysis!.confidenceLevel,
+        visitorsPerVariant / rules.minSamplePerVariant
+      );
+
+      if (comparison.adjustedPValue < boundary) {
+        const confidence = (results.confidence * 100).toFixed(1);
+        return {
+          action: 'stop',
+          rule: 'significance',
+          reason: `${this.getVariantName(test, results.winner)} won with ${confidence}% confidence after ${visitorsPerVariant} visitors per variant`,
+          details: {
+            winner: results.winner,
+            confidence: results.confidence,
+            visitorsPerVariant,
+            adjustedPValue: comparison.adjustedPValue,
+            boundary,
+          },
+        };
+      }
+    }
+
+    if (
+      rules.maxDurationDays &&
+      test.startDate &&
+      now.getTime() - test.startDate.getTime() >= rules.maxDurationDays * this.DAY_MS
+    ) {
+      return {
+        action: 'stop',
+        rule: 'max_duration',
+        reason: `Reached the maximum duration of ${rules.maxDurationDays} days`,
+        details: {
+          startDate: test.startDate.toISOString(),
+          winner: results.winner ?? null,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Plan a bandit reallocation: every variant keeps the minimum share and the rest of the traffic is
+   * split by each variant's probability of being the best on the primary goal. Returns null until
+   * every variant has enough visitors or when the split would barely change.
+   */
+  static planReallocation(
+    test: ABTest,
+    results: ABTestResults,
+    random: () => number = Math.random
+  ): Reallocation | null {
+    const bandit = test.bandit;
+    const variants = results.analysis?.variants || [];
+    if (!bandit?.enabled || variants.length < 2) {
+      return null;
+    }
+
+    const minSample = bandit.minSamplePerVariant ?? this.BANDIT_MIN_SAMPLE;
+    if (variants.some(stat => stat.visitors < minSample)) {
+      return null;
+    }
+
+    const floor = Math.min(bandit.minTrafficPercentage ?? this.BANDIT_MIN_TRAFFIC, 100 / variants.length);
+    const shared = 100 - floor * variants.length;
+    const probabilities = ABTestStatistics.probabilityToBeBest(variants, { random });
+
+    const trafficSplit: Record<string, number> = {};
+    for (const stat of variants) {
+      const share = floor + shared * (probabilities[stat.variantId] || 0);
+      trafficSplit[stat.variantId] = Math.round(share * 100) / 100;
+    }
+
+    // Give the rounding remainder to the largest share so the split adds up to exactly 100%
+    const best = variants.reduce((a, b) => (trafficSplit[b.variantId]! > trafficSplit[a.variantId]! ? b : a));
+    const total = Object.values(trafficSplit).reduce((sum, value) => sum + value, 0);
+    trafficSplit[best.variantId] = Math.round((trafficSplit[best.variantId]! + 100 - total) * 100) / 100;
+
+    const largestChange = Math.max(
+      ...variants.map(stat => Math.abs(trafficSplit[stat.variantId]! - (test.trafficSplit[stat.variantId] ?? 0)))
+    );
+    if (largestChange < this.BANDIT_MIN_CHANGE) {
+      return null;
+    }
+
+    return {
+      trafficSplit,
+      decision: {
+        action: 'reallocate',
+        rule: 'bandit',
+        reason: `Shifted ${trafficSplit[best.variantId]}% of traffic to ${this.getVariantName(test, best.variantId)} (${(
+          (probabilities[best.variantId] || 0) * 100
+        ).toFixed(1)}% probability of being best)`,
+        details: {
+          previousSplit: test.trafficSplit,
+          trafficSplit,
+          probabilityToBeBest: probabilities,
+        },
+      },
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static async processTest(test: ABTest, now: Date): Promise<'stopped' | 'reallocated' | null> {
+    if (!test.stoppingRules && !test.bandit?.enabled) {
+      return null;
+    }
+
+    const confidenceLevel = test.stoppingRules?.confidenceLevel;
+    const results = await ABTestService.getTestResults(test.id, confidenceLevel ? { confidenceLevel } : {});
+    if (!results) {
+      return null;
+    }
+
+    const stopDecision = this.evaluateStoppingRules(test, results, now);
+    if (stopDecision) {
+      await ABTestService.completeTest(test.id);
+      await ABTestService.recordDecision(test.id, stopDecision);
+      return 'stopped';
+    }
+
+    const reallocation = this.planReallocation(test, results);
+    if (reallocation) {
+      // Only new visitors follow the new split; assigned visitors keep their variant
+      await ABTestService.updateTest(test.id, {
+        trafficSplit: reallocation.trafficSplit,
+        variants: test.variants.map(variant => ({
+          ...variant,
+          trafficPercentage: reallocation.trafficSplit[variant.id] ?? variant.trafficPercentage,
+        })),
+      });
+      await ABTestService.recordDecision(test.id, reallocation.decision);
+      return 'reallocated';
+    }
+
+    return null;
+  }
+
+  private static getVariantName(test: ABTest, variantId: string): string {
+    const variant = test.variants.find(candidate => candidate.id === variantId);
+    return `"${variant?.name || variantId}"`;
+  }
+}
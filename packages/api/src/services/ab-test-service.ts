@@ -1,11 +1,35 @@
-import { eq, and, desc, asc } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { eq, and, desc, asc, sql } from 'drizzle-orm';
 import { db } from '../db/connection';
-import { abTests, abTestResults, userSessions } from '../db/schema';
-import { ABTestManager } from '../db/redis';
-import type { ABTest, ABTestVariant, ABTestResults } from '@oldworldcharm/shared';
-
+import { abTests, abTestResults, abTestExposures, abTestDecisions, userSessions } from '../db/schema';
+import { ABTestManager, CacheManager } from '../db/redis';
+import { ABTestStatistics } from '@oldworldcharm/shared';
+import type {
+  ABTest,
+  ABTestDecision,
+  ABTestGoal,
+  ABTestGoalResults,
+  ABTestVariant,
+  ABTestResults,
+  AnalysisOptions,
+} from '@oldworldcharm/shared';
+
+export interface ConversionOptions {
+  goalId?: string | undefined; // defaults to the primary goal
+  revenue?: number | undefined; // required for revenue goals
+  conversionValue?: number | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+// Goal used by tests created before goals could be defined
+const DEFAULT_GOAL_ID = 'conversion';
 
 export class ABTestService {
+  // Cookie that identifies a visitor across page views for sticky variant assignment
+  static readonly VISITOR_COOKIE = 'ab_visitor';
+  private static readonly RUNNING_TEST_CACHE_TTL = 60; // seconds
+  private static readonly PAGE_GOALS_CACHE_KEY = 'ab-tests:page-goals';
+  private static readonly CONFIDENCE_LEVEL = parseFloat(process.env.AB_TEST_CONFIDENCE_LEVEL || '0.95');
   /**
    * Create a new A/B test
    */
@@ -22,6 +46,9 @@ export class ABTestService {
       throw new Error('At least one variant must be marked as control');
     }
 
+    this.validateHoldout(testData.holdoutPercentage);
+    this.validateGoals(testData.goals);
+
     const [test] = await db
       .insert(abTests)
       .values({
@@ -29,12 +56,19 @@ export class ABTestService {
         pageId: testData.pageId,
         variants: testData.variants,
         trafficSplit: testData.trafficSplit,
+        goals: testData.goals || [],
+        holdoutPercentage: testData.holdoutPercentage || 0,
+        exclusionGroup: testData.exclusionGroup || null,
+        stoppingRules: testData.stoppingRules || null,
+        bandit: testData.bandit || null,
         status: testData.status || 'draft',
         startDate: testData.startDate || null,
         endDate: testData.endDate || null,
       })
       .returning();
 
+    await this.invalidateRunningTest(testData.pageId);
+
     return this.mapDbTestToABTest(test);
   }
 
@@ -133,6 +167,10 @@ export class ABTestService {
       }
     }
 
+    this.validateHoldout(updates.holdoutPercentage);
+    this.validateGoals(updates.goals);
+
+    // Changing the traffic split only affects new visitors: existing assignments are stored
     const [test] = await db
       .update(abTests)
       .set({
@@ -144,6 +182,8 @@ export class ABTestService {
 
     if (!test) return null;
 
+    await this.invalidateRunningTest(test.pageId);
+
     return this.mapDbTestToABTest(test);
   }
 
@@ -153,11 +193,38 @@ export class ABTestService {
   static async deleteTest(testId: string): Promise<boolean> {
     const result = await db
       .delete(abTests)
-      .where(eq(abTests.id, testId));
+      .where(eq(abTests.id, testId))
+      .returning({ pageId: abTests.pageId });
+
+    await Promise.all(result.map(test => this.invalidateRunningTest(test.pageId)));
 
     return result.length > 0;
   }
 
+  /**
+   * Get the running A/B test for a page, if any. The most recently started test wins when
+   * several are running.
+   */
+  static async getRunningTestForPage(pageId: string): Promise<ABTest | null> {
+    const cacheKey = `ab-tests:page:${pageId}`;
+    const cached = (await CacheManager.get(cacheKey)) as { test: ABTest | null } | null;
+    if (cached) {
+      return cached.test && this.reviveTestDates(cached.test);
+    }
+
+    const [test] = await db
+      .select()
+      .from(abTests)
+      .where(and(eq(abTests.pageId, pageId), eq(abTests.status, 'running')))
+      .orderBy(desc(abTests.startDate))
+      .limit(1);
+
+    const runningTest = test ? this.mapDbTestToABTest(test) : null;
+    await CacheManager.set(cacheKey, { test: runningTest }, this.RUNNING_TEST_CACHE_TTL);
+
+    return runningTest;
+  }
+
   /**
    * Start an A/B test
    */
@@ -215,7 +282,10 @@ export class ABTestService {
   }
 
   /**
-   * Assign user to A/B test variant
+   * Assign user to A/B test variant. New visitors are bucketed deterministically from a hash of
+   * the test and session IDs; returning visitors keep their stored variant even if the traffic
+   * split has changed since. Returns null when the test is not running or the visitor is held
+   * out or allocated to another test in the same exclusion group.
    */
   static async assignUserToVariant(
     testId: string,
@@ -227,7 +297,7 @@ export class ABTestService {
     }
 
     // Check if user already has an assignment
-    const existingVariant = await ABTestManager.getUserVariant(testId, sessionId);
+    const existingVariant = await this.getStoredAssignment(testId, sessionId);
     if (existingVariant) {
       const variant = test.variants.find(v => v.id === existingVariant);
       if (variant) {
@@ -235,8 +305,16 @@ export class ABTestService {
       }
     }
 
+    if (this.isHeldOut(test, sessionId)) {
+      return null;
+    }
+
+    if (test.exclusionGroup && !(await this.isAllocatedToTest(test, sessionId))) {
+      return null;
+    }
+
     // Assign user to variant based on traffic split
-    const variantId = this.selectVariantByTrafficSplit(test.trafficSplit);
+    const variantId = this.selectVariantForBucket(test, this.getBucket(test.id, sessionId));
     const variant = test.variants.find(v => v.id === variantId);
     
     if (!variant) {
@@ -256,15 +334,105 @@ export class ABTestService {
   }
 
   /**
-   * Record conversion for A/B test
+   * Map a visitor to a stable position in [0, 1) for a seed such as a test ID. The same inputs
+   * always give the same bucket, so assignments can be reproduced and audited.
+   */
+  static getBucket(seed: string, sessionId: string): number {
+    const hash = createHash('sha256').update(`${seed}:${sessionId}`).digest();
+    return hash.readUInt32BE(0) / 0x100000000;
+  }
+
+  /**
+   * Pick the variant whose share of the traffic split covers a bucket. Variants are ordered by ID
+   * so that the bucket ranges do not depend on how the split was stored.
+   */
+  static selectVariantForBucket(test: ABTest, bucket: number): string {
+    const position = bucket * 100;
+    let cumulative = 0;
+
+    for (const variantId of Object.keys(test.trafficSplit).sort()) {
+      cumulative += test.trafficSplit[variantId] || 0;
+      if (position < cumulative) {
+        return variantId;
+      }
+    }
+
+    // Fallback to the control variant when the split does not cover the bucket
+    const control = test.variants.find(variant => variant.isControl);
+    return control?.id || Object.keys(test.trafficSplit)[0] || 'control';
+  }
+
+  /**
+   * Whether a visitor falls in the test's holdout. The holdout uses its own hash so it is
+   * independent of variant bucketing.
+   */
+  static isHeldOut(test: ABTest, sessionId: string): boolean {
+    const holdout = test.holdoutPercentage || 0;
+    return holdout > 0 && this.getBucket(`${test.id}:holdout`, sessionId) * 100 < holdout;
+  }
+
+  /**
+   * Check that goals have exactly one primary goal, unique IDs and a target for page reached goals
+   */
+  static validateGoals(goals?: ABTestGoal[]): void {
+    if (!goals?.length) return;
+
+    if (goals.filter(goal => goal.role === 'primary').length !== 1) {
+      throw new Error('Exactly one goal must be primary');
+    }
+    if (new Set(goals.map(goal => goal.id)).size !== goals.length) {
+      throw new Error('Goal IDs must be unique');
+    }
+    if (goals.some(goal => goal.type === 'page_reached' && !goal.target)) {
+      throw new Error('Page reached goals need a target path');
+    }
+  }
+
+  /**
+   * Record that a visitor was served a test variant; only the first view of each visitor is kept
+   */
+  static async recordExposure(
+    testId: string,
+    variantId: string,
+    sessionId: string,
+    pageId: string
+  ): Promise<void> {
+    await db
+      .insert(abTestExposures)
+      .values({
+        testId,
+        variantId,
+        sessionId,
+        pageId,
+      })
+      .onConflictDoNothing({ target: [abTestExposures.testId, abTestExposures.sessionId] });
+  }
+
+  /**
+   * Record conversion for A/B test on one of its goals
    */
   static async recordConversion(
     testId: string,
     sessionId: string,
-    conversionValue?: number,
-    metadata?: Record<string, unknown>
+    options: ConversionOptions = {}
   ): Promise<void> {
-    const variantId = await ABTestManager.getUserVariant(testId, sessionId);
+    const test = await this.getTestById(testId);
+    if (!test) {
+      throw new Error('Test not found');
+    }
+
+    const goals = test.goals || [];
+    const goal = options.goalId
+      ? goals.find(candidate => candidate.id === options.goalId)
+      : goals.find(candidate => candidate.role === 'primary');
+    if (!goal) {
+      throw new Error(`Unknown goal: ${options.goalId}`);
+    }
+    if (goal.type === 'revenue' && (options.revenue === undefined || options.revenue < 0)) {
+      throw new Error('Revenue is required for revenue goals');
+    }
+
+    const variantId = await this.getStoredAssignment(testId, sessionId);
     if (!variantId) {
       throw new Error('User not assigned to any variant');
     }
@@ -273,16 +441,90 @@ export class ABTestService {
       testId,
       variantId,
       sessionId,
+      goalId: goal.id,
       converted: true,
-      conversionValue: conversionValue || 0,
-      metadata,
+      conversionValue: options.conversionValue || 0,
+      revenue: goal.type === 'revenue' ? String(options.revenue) : null,
+      metadata: options.metadata,
     });
   }
 
+  /**
+   * Record "page reached" goals of running tests whose target is the given path, for a visitor
+   * assigned to those tests. Each goal converts once per visitor.
+   */
+  static async recordPageReached(path: string, sessionId: string): Promise<void> {
+    const normalizedPath = this.normalizePath(path);
+    const goals = (await this.getPageReachedGoals()).filter(
+      goal => this.normalizePath(goal.target) === normalizedPath
+    );
+
+    for (const goal of goals) {
+      const variantId = await this.getStoredAssignment(goal.testId, sessionId);
+      if (!variantId) continue;
+
+      const [existing] = await db
+        .select({ id: abTestResults.id })
+        .from(abTestResults)
+        .where(
+          and(
+            eq(abTestResults.testId, goal.testId),
+            eq(abTestResults.goalId, goal.goalId),
+            eq(abTestResults.sessionId, sessionId)
+          )
+        )
+        .limit(1);
+      if (existing) continue;
+
+      await db.insert(abTestResults).values({
+        testId: goal.testId,
+        variantId,
+        sessionId,
+        goalId: goal.goalId,
+        converted: true,
+        metadata: { path: normalizedPath },
+      });
+    }
+  }
+
+  /**
+   * Log an automatic decision taken on a test
+   */
+  static async recordDecision(
+    testId: string,
+    decision: Omit<ABTestDecision, 'id' | 'testId' | 'createdAt'>
+  ): Promise<ABTestDecision> {
+    const [row] = await db
+      .insert(abTestDecisions)
+      .values({
+        testId,
+        action: decision.action,
+        rule: decision.rule,
+        reason: decision.reason,
+        details: decision.details || null,
+      })
+      .returning();
+
+    return this.mapDbDecisionToABTestDecision(row);
+  }
+
+  /**
+   * Get the automatic decisions taken on a test, newest first
+   */
+  static async getDecisions(testId: string): Promise<ABTestDecision[]> {
+    const rows = await db
+      .select()
+      .from(abTestDecisions)
+      .where(eq(abTestDecisions.testId, testId))
+      .orderBy(desc(abTestDecisions.createdAt));
+
+    return rows.map(row => this.mapDbDecisionToABTestDecision(row));
+  }
+
   /**
    * Get detailed A/B test analytics
    */
-  static async getDetailedAnalytics(testId: string): Promise<{
+  static async getDetailedAnalytics(testId: string, options: AnalysisOptions = {}): Promise<{
     results: ABTestResults;
     timeline: Array<{ date: string; variantId: string; visitors: number; conversions: number }>;
     variantPerformance: Record<string, {
@@ -297,11 +539,12 @@ export class ABTestService {
     const test = await this.getTestById(testId);
     if (!test) return null;
 
-    // Get conversion data with timeline
+    // Get conversion data for the primary goal with timeline
+    const primaryGoalId = this.getPrimaryGoal(test).id;
     const results = await db
       .select()
       .from(abTestResults)
-      .where(eq(abTestResults.testId, testId))
+      .where(and(eq(abTestResults.testId, testId), eq(abTestResults.goalId, primaryGoalId)))
       .orderBy(asc(abTestResults.createdAt));
 
     // Build timeline data (daily aggregation)
@@ -353,11 +596,12 @@ export class ABTestService {
       confidence: number;
     }> = {};
 
+    const visitorCounts = await this.getVisitorCounts(testId);
     for (const variant of test.variants) {
       const variantResults = results.filter(r => r.variantId === variant.id);
-      const visitors = await ABTestManager.getVariantCount(testId, variant.id);
-      const conversions = variantResults.filter(r => r.converted).length;
-      const totalValue = variantResults.reduce((sum, r) => sum + (r.conversionValue || 0), 0);
+      const visitors = visitorCounts[variant.id] || 0;
+      const conversions = new Set(variantResults.filter(r => r.converted).map(r => r.sessionId)).size;
+      const totalValue = variantResults.reduce((sum, r) => sum + this.getResultValue(r), 0);
       
       variantPerformance[variant.id] = {
         visitors,
@@ -365,29 +609,21 @@ export class ABTestService {
         conversionRate: visitors > 0 ? conversions / visitors : 0,
         conversionValue: totalValue,
         averageValue: conversions > 0 ? totalValue / conversions : 0,
-        confidence: 0, // Will be calculated with statistical analysis
+        confidence: 0, // Set from the statistical analysis below
       };
     }
 
-    // Calculate statistical confidence for each variant
-    const baselineVariant = test.variants.find(v => v.isControl);
-    if (baselineVariant && variantPerformance[baselineVariant.id]) {
-      const baseline = variantPerformance[baselineVariant.id];
-      
-      for (const variant of test.variants) {
-        if (variant.id === baselineVariant.id) continue;
-        
-        const current = variantPerformance[variant.id];
-        if (current && baseline) {
-          const confidence = this.calculateVariantConfidence(baseline, current);
-          current.confidence = confidence;
-        }
+    const basicResults = await this.getTestResults(testId, options);
+    if (!basicResults) return null;
+
+    // Confidence that each variant differs from the control, corrected for multiple comparisons
+    for (const stat of basicResults.analysis?.variants || []) {
+      const performance = variantPerformance[stat.variantId];
+      if (performance && stat.comparison) {
+        performance.confidence = 1 - stat.comparison.adjustedPValue;
       }
     }
 
-    const basicResults = await this.getTestResults(testId);
-    if (!basicResults) return null;
-
     return {
       results: basicResults,
       timeline,
@@ -428,7 +664,7 @@ export class ABTestService {
         };
 
       case 'csv':
-        const csvData = this.convertToCSV(analytics);
+        const csvData = this.convertToCSV(test, analytics);
         return {
           data: csvData,
           filename: `${baseFilename}.csv`,
@@ -525,9 +761,10 @@ export class ABTestService {
   }
 
   /**
-   * Get A/B test results and analytics
+   * Get A/B test results and analytics. A winner is only declared when its comparison with the
+   * control is significant at the configured confidence level after multiple-comparison correction.
    */
-  static async getTestResults(testId: string): Promise<ABTestResults | null> {
+  static async getTestResults(testId: string, options: AnalysisOptions = {}): Promise<ABTestResults | null> {
     const test = await this.getTestById(testId);
     if (!test) return null;
 
@@ -537,65 +774,40 @@ export class ABTestService {
       .from(abTestResults)
       .where(eq(abTestResults.testId, testId));
 
-    // Calculate metrics per variant
-    const variantMetrics: Record<string, { visitors: number; conversions: number; conversionValue: number }> = {};
-    
+    const visitorCounts = await this.getVisitorCounts(testId);
+    const visitors: Record<string, number> = {};
     for (const variant of test.variants) {
-      variantMetrics[variant.id] = {
-        visitors: await ABTestManager.getVariantCount(testId, variant.id),
-        conversions: 0,
-        conversionValue: 0,
-      };
+      visitors[variant.id] = visitorCounts[variant.id] || 0;
     }
 
-    // Process results
-    for (const result of results) {
-      const metrics = variantMetrics[result.variantId];
-      if (metrics) {
-        if (result.converted) {
-          metrics.conversions++;
-          metrics.conversionValue += result.conversionValue || 0;
-        }
-      }
-    }
+    const analysisOptions = { confidenceLevel: this.CONFIDENCE_LEVEL, ...options };
+    const goals = (test.goals || []).map(goal => this.analyzeGoal(test, goal, results, visitors, analysisOptions));
 
-    // Calculate conversion rates and statistical significance
-    const totalVisitors = Object.values(variantMetrics).reduce((sum, metrics) => sum + metrics.visitors, 0);
-    const conversions: Record<string, number> = {};
-    const conversionRates: Record<string, number> = {};
+    // The primary goal decides the winner
+    const primary = goals.find(goal => goal.role === 'primary') || goals[0];
+    if (!primary) return null;
+    const { analysis } = primary;
 
-    for (const [variantId, metrics] of Object.entries(variantMetrics)) {
-      conversions[variantId] = metrics.conversions;
-      conversionRates[variantId] = metrics.visitors > 0 ? metrics.conversions / metrics.visitors : 0;
-    }
+    const totalVisitors = Object.values(visitors).reduce((sum, count) => sum + count, 0);
 
-    // Simple statistical significance calculation (chi-square test)
-    const significance = this.calculateStatisticalSignificance(variantMetrics);
-    
-    // Determine winner (highest conversion rate with sufficient significance)
-    let winner: string | undefined;
-    let confidence = 0;
-    
-    if (significance > 0.95) {
-      const sortedVariants = Object.entries(conversionRates)
-        .sort(([, a], [, b]) => b - a);
-      
-      if (sortedVariants.length > 1 && sortedVariants[0]) {
-        winner = sortedVariants[0][0];
-        confidence = significance;
-      }
-    }
+    // Significance of the strongest difference from the control
+    const adjustedPValues = analysis.variants
+      .filter(stat => stat.comparison)
+      .map(stat => stat.comparison!.adjustedPValue);
+    const significance = adjustedPValues.length > 0 ? 1 - Math.min(...adjustedPValues) : 0;
 
     const testResults: ABTestResults = {
       totalVisitors,
-      conversions,
-      conversionRates,
+      conversions: primary.conversions,
+      conversionRates: primary.conversionRates,
       statisticalSignificance: significance,
-      confidence,
+      confidence: analysis.winner ? this.getWinnerConfidence(analysis, analysis.winner) : 0,
+      analysis,
+      goals,
     };
     
-    if (winner) {
-      testResults.winner = winner;
+    if (analysis.winner) {
+      testResults.winner = analysis.winner;
     }
     
     return testResults;
@@ -616,128 +828,260 @@ export class ABTestService {
       startDate: dbTest.startDate,
       endDate: dbTest.endDate,
       conversionGoal: dbTest.conversionGoal || 'conversion',
+      goals: (dbTest.goals as ABTestGoal[] | null)?.length
+        ? (dbTest.goals as ABTestGoal[])
+        : [{ id: DEFAULT_GOAL_ID, name: dbTest.conversionGoal || 'Conversion', type: 'custom_event', role: 'primary' }],
+      holdoutPercentage: dbTest.holdoutPercentage || 0,
+      exclusionGroup: dbTest.exclusionGroup || undefined,
+      stoppingRules: dbTest.stoppingRules || undefined,
+      bandit: dbTest.bandit || undefined,
       createdAt: dbTest.createdAt,
       updatedAt: dbTest.updatedAt,
     };
   }
 
-  private static selectVariantByTrafficSplit(trafficSplit: Record<string, number>): string {
-    const random = Math.random() * 100;
-    let cumulative = 0;
+  private static mapDbDecisionToABTestDecision(dbDecision: any): ABTestDecision {
+    return {
+      id: dbDecision.id,
+      testId: dbDecision.testId,
+      action: dbDecision.action,
+      rule: dbDecision.rule,
+      reason: dbDecision.reason,
+      details: dbDecision.details || undefined,
+      createdAt: dbDecision.createdAt,
+    };
+  }
 
-    for (const [variantId, percentage] of Object.entries(trafficSplit)) {
-      cumulative += percentage;
-      if (random <= cumulative) {
-        return variantId;
-      }
+  // Dates come back from the cache as ISO strings
+  private static reviveTestDates(test: ABTest): ABTest {
+    const revived: ABTest = {
+      ...test,
+      createdAt: new Date(test.createdAt),
+      updatedAt: new Date(test.updatedAt),
+    };
+
+    if (test.startDate) revived.startDate = new Date(test.startDate);
+    if (test.endDate) revived.endDate = new Date(test.endDate);
+
+    return revived;
+  }
+
+  private static async invalidateRunningTest(pageId: string): Promise<void> {
+    await Promise.all([
+      CacheManager.del(`ab-tests:page:${pageId}`),
+      CacheManager.del(this.PAGE_GOALS_CACHE_KEY),
+    ]);
+  }
+
+  private static async isAllocatedToTest(test: ABTest, sessionId: string): Promise<boolean> {
+    const groupTests = await db
+      .select({ id: abTests.id })
+      .from(abTests)
+      .where(and(eq(abTests.exclusionGroup, test.exclusionGroup!), eq(abTests.status, 'running')))
+      .orderBy(asc(abTests.id));
+
+    // Visitors already in another test of the group stay there
+    const [session] = await db
+      .select({ testAssignments: userSessions.testAssignments })
+      .from(userSessions)
+      .where(eq(userSessions.sessionId, sessionId))
+      .limit(1);
+
+    const assignments = (session?.testAssignments as Record<string, string>) || {};
+    if (groupTests.some(groupTest => groupTest.id !== test.id && assignments[groupTest.id])) {
+      return false;
     }
 
-    // Fallback to first variant
-    const firstVariant = Object.keys(trafficSplit)[0];
-    return firstVariant || 'control';
+    const index = Math.floor(this.getBucket(test.exclusionGroup!, sessionId) * groupTests.length);
+    return groupTests[index]?.id === test.id;
   }
 
-  private static async storeSessionAssignment(
-    sessionId: string,
-    testId: string,
-    variantId: string
-  ): Promise<void> {
-    // Check if session exists
-    const [existingSession] = await db
-      .select()
+  // Redis holds the hot copy of assignments; the session table survives Redis flushes
+  private static async getStoredAssignment(testId: string, sessionId: string): Promise<string | null> {
+    const cached = await ABTestManager.getUserVariant(testId, sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const [session] = await db
+      .select({ testAssignments: userSessions.testAssignments })
       .from(userSessions)
       .where(eq(userSessions.sessionId, sessionId))
       .limit(1);
 
-    if (existingSession) {
-      // Update existing session with new test assignment
-      const assignments = existingSession.testAssignments as Record<string, string> || {};
-      assignments[testId] = variantId;
+    const variantId = (session?.testAssignments as Record<string, string> | undefined)?.[testId];
+    if (!variantId) {
+      return null;
+    }
 
-      await db
-        .update(userSessions)
-        .set({
-          testAssignments: assignments,
-          updatedAt: new Date(),
-        })
-        .where(eq(userSessions.sessionId, sessionId));
-    } else {
-      // Create new session
-      await db.insert(userSessions).values({
+    await ABTestManager.assignUserToVariant(testId, sessionId, variantId);
+    return variantId;
+  }
+
+  // Visitors per variant, counted from the exposures rather than Redis counters so the
+  // denominators stay correct after a Redis flush; each visitor has one exposure per test
+  private static async getVisitorCounts(testId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ variantId: abTestExposures.variantId, visitors: sql<number>`count(*)::int` })
+      .from(abTestExposures)
+      .where(eq(abTestExposures.testId, testId))
+      .groupBy(abTestExposures.variantId);
+
+    return Object.fromEntries(rows.map(row => [row.variantId, Number(row.visitors)]));
+  }
+
+  private static validateHoldout(holdoutPercentage?: number): void {
+    if (holdoutPercentage !== undefined && (holdoutPercentage < 0 || holdoutPercentage >= 100)) {
+      throw new Error('Holdout percentage must be at least 0 and less than 100');
+    }
+  }
+
+  // Merges the assignment into the session in one statement, so concurrent assignments to
+  // different tests for the same visitor do not overwrite each other
+  private static async storeSessionAssignment(
+    sessionId: string,
+    testId: string,
+    variantId: string
+  ): Promise<void> {
+    await db
+      .insert(userSessions)
+      .values({
         sessionId,
         testAssignments: { [testId]: variantId },
+      })
+      .onConflictDoUpdate({
+        target: userSessions.sessionId,
+        set: {
+          testAssignments: sql`${userSessions.testAssignments} || excluded.test_assignments`,
+          updatedAt: new Date(),
+        },
       });
-    }
   }
 
-  private static calculateStatisticalSignificance(
-    variantMetrics: Record<string, { visitors: number; conversions: number; conversionValue: number }>
-  ): number {
-    const variants = Object.values(variantMetrics);
-    if (variants.length < 2) return 0;
+  private static getPrimaryGoal(test: ABTest): ABTestGoal {
+    const goals = test.goals || [];
+    return (
+      goals.find(goal => goal.role === 'primary') ||
+      goals[0] || { id: DEFAULT_GOAL_ID, name: 'Conversion', type: 'custom_event', role: 'primary' }
+    );
+  }
 
-    // Simple chi-square test for statistical significance
-    // This is a basic implementation - in production, you might want to use a more sophisticated library
-    const totalVisitors = variants.reduce((sum, v) => sum + v.visitors, 0);
-    const totalConversions = variants.reduce((sum, v) => sum + v.conversions, 0);
-    
-    if (totalVisitors === 0 || totalConversions === 0) return 0;
+  // Revenue goals are valued by revenue, other goals by their optional conversion value
+  private static getResultValue(result: { revenue: string | null; conversionValue: number | null }): number {
+    return result.revenue !== null ? Number(result.revenue) : result.conversionValue || 0;
+  }
 
-    const expectedConversionRate = totalConversions / totalVisitors;
-    let chiSquare = 0;
+  // A goal converts once per session; revenue adds up across a session's purchases
+  private static analyzeGoal(
+    test: ABTest,
+    goal: ABTestGoal,
+    results: Array<typeof abTestResults.$inferSelect>,
+    visitors: Record<string, number>,
+    options: AnalysisOptions
+  ): ABTestGoalResults {
+    const sessionRevenue = new Map<string, Map<string, number>>(); // variant -> session -> revenue
+    for (const variant of test.variants) {
+      sessionRevenue.set(variant.id, new Map());
+    }
 
-    for (const variant of variants) {
-      if (variant.visitors === 0) continue;
-      
-      const expected = variant.visitors * expectedConversionRate;
-      const observed = variant.conversions;
-      
-      if (expected > 0) {
-        chiSquare += Math.pow(observed - expected, 2) / expected;
-      }
+    for (const result of results) {
+      const sessions = sessionRevenue.get(result.variantId);
+      if (!sessions || result.goalId !== goal.id || !result.converted) continue;
+      sessions.set(result.sessionId, (sessions.get(result.sessionId) || 0) + Number(result.revenue || 0));
     }
 
-    // Convert chi-square to p-value (simplified)
-    // For 1 degree of freedom (2 variants), critical value at 95% confidence is 3.841
-    const criticalValue = 3.841; // For 95% confidence with 1 df
-    
-    return chiSquare > criticalValue ? 0.95 : Math.max(0, 1 - (chiSquare / criticalValue));
+    const conversions: Record<string, number> = {};
+    const conversionRates: Record<string, number> = {};
+    for (const variant of test.variants) {
+      const count = sessionRevenue.get(variant.id)!.size;
+      const variantVisitors = visitors[variant.id] || 0;
+      conversions[variant.id] = count;
+      conversionRates[variant.id] = variantVisitors > 0 ? count / variantVisitors : 0;
+    }
+
+    const goalResults: ABTestGoalResults = {
+      goalId: goal.id,
+      name: goal.name,
+      type: goal.type,
+      role: goal.role,
+      conversions,
+      conversionRates,
+      analysis: ABTestStatistics.analyze(
+        test.variants.map(variant => ({
+          variantId: variant.id,
+          visitors: visitors[variant.id] || 0,
+          conversions: conversions[variant.id] || 0,
+          isControl: variant.isControl,
+        })),
+        options
+      ),
+    };
+
+    if (goal.type === 'revenue') {
+      const summaries = test.variants.map(variant => {
+        const amounts = [...sessionRevenue.get(variant.id)!.values()];
+        return {
+          variantId: variant.id,
+          visitors: visitors[variant.id] || 0,
+          sum: amounts.reduce((sum, amount) => sum + amount, 0),
+          sumOfSquares: amounts.reduce((sum, amount) => sum + amount * amount, 0),
+          isControl: variant.isControl,
+        };
+      });
+
+      goalResults.revenue = {
+        total: Object.fromEntries(summaries.map(summary => [summary.variantId, summary.sum])),
+        perVisitor: Object.fromEntries(
+          summaries.map(summary => [summary.variantId, summary.visitors > 0 ? summary.sum / summary.visitors : 0])
+        ),
+        comparisons: ABTestStatistics.compareMeans(summaries, options),
+      };
+    }
+
+    return goalResults;
   }
 
-  private static calculateVariantConfidence(
-    baseline: { visitors: number; conversions: number; conversionRate: number },
-    variant: { visitors: number; conversions: number; conversionRate: number }
-  ): number {
-    // Z-test for difference in proportions
-    if (baseline.visitors === 0 || variant.visitors === 0) return 0;
+  private static async getPageReachedGoals(): Promise<Array<{ testId: string; goalId: string; target: string }>> {
+    const cached = await CacheManager.get(this.PAGE_GOALS_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
 
-    const p1 = baseline.conversionRate;
-    const p2 = variant.conversionRate;
-    const n1 = baseline.visitors;
-    const n2 = variant.visitors;
+    const runningTests = await db
+      .select({ id: abTests.id, goals: abTests.goals })
+      .from(abTests)
+      .where(eq(abTests.status, 'running'));
 
-    // Pooled proportion
-    const pooledP = (baseline.conversions + variant.conversions) / (n1 + n2);
-    
-    // Standard error
-    const se = Math.sqrt(pooledP * (1 - pooledP) * (1/n1 + 1/n2));
-    
-    if (se === 0) return 0;
+    const goals = runningTests.flatMap(test =>
+      ((test.goals as ABTestGoal[]) || [])
+        .filter(goal => goal.type === 'page_reached' && goal.target)
+        .map(goal => ({ testId: test.id, goalId: goal.id, target: goal.target! }))
+    );
 
-    // Z-score
-    const z = Math.abs(p2 - p1) / se;
-    
-    // Convert to confidence level (simplified)
-    // Z > 1.96 corresponds to 95% confidence
-    if (z > 2.58) return 0.99; // 99% confidence
-    if (z > 1.96) return 0.95; // 95% confidence
-    if (z > 1.65) return 0.90; // 90% confidence
-    if (z > 1.28) return 0.80; // 80% confidence
-    
-    return Math.min(0.75, z / 1.28 * 0.75); // Scale linearly below 80%
+    await CacheManager.set(this.PAGE_GOALS_CACHE_KEY, goals, this.RUNNING_TEST_CACHE_TTL);
+    return goals;
   }
 
-  private static convertToCSV(analytics: any): string {
+  private static normalizePath(path: string): string {
+    const pathname = path.split(/[?#]/)[0] || '/';
+    const withSlash = pathname.startsWith('/') ? pathname : `/${pathname}`;
+    return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+  }
+
+  // A winning variant's confidence comes from its own comparison; a winning control's from its weakest win
+  private static getWinnerConfidence(analysis: NonNullable<ABTestResults['analysis']>, winner: string): number {
+    const winnerStats = analysis.variants.find(stat => stat.variantId === winner);
+    if (winnerStats?.comparison) {
+      return 1 - winnerStats.comparison.adjustedPValue;
+    }
+
+    const adjustedPValues = analysis.variants
+      .filter(stat => stat.comparison)
+      .map(stat => stat.comparison!.adjustedPValue);
+    return adjustedPValues.length > 0 ? 1 - Math.max(...adjustedPValues) : 0;
+  }
+
+  private static convertToCSV(test: ABTest, analytics: any): string {
     const headers = [
       'Variant ID',
       'Variant Name',
@@ -753,7 +1097,7 @@ export class ABTestService {
 
     for (const [variantId, performance] of Object.entries(analytics.variantPerformance)) {
       const perf = performance as any;
-      const variant = analytics.results.test?.variants?.find((v: any) => v.id === variantId);
+      const variant = test.variants.find(v => v.id === variantId);
       const row = [
         variantId,
         variant?.name || 'Unknown',
@@ -767,6 +1111,44 @@ export class ABTestService {
       rows.push(row.join(','));
     }
 
+    // One row per goal and variant
+    const goalResults: ABTestGoalResults[] = analytics.results.goals || [];
+    if (goalResults.length > 0) {
+      rows.push('');
+      rows.push(
+        [
+          'Goal',
+          'Role',
+          'Variant ID',
+          'Conversions',
+          'Conversion Rate',
+          'Relative Lift',
+          'Adjusted P-Value',
+          'Probability To Beat Control',
+          'Revenue',
+          'Revenue Per Visitor',
+        ].join(',')
+      );
+
+      for (const goal of goalResults) {
+        for (const stats of goal.analysis.variants) {
+          const row = [
+            `"${goal.name.replace(/"/g, '""')}"`,
+            goal.role,
+            stats.variantId,
+            goal.conversions[stats.variantId] ?? 0,
+            ((goal.conversionRates[stats.variantId] ?? 0) * 100).toFixed(2) + '%',
+            stats.comparison ? (stats.comparison.relativeLift * 100).toFixed(2) + '%' : '',
+            stats.comparison ? stats.comparison.adjustedPValue.toFixed(4) : '',
+            stats.comparison ? (stats.comparison.probabilityToBeatControl * 100).toFixed(1) + '%' : '',
+            goal.revenue ? (goal.revenue.total[stats.variantId] ?? 0).toFixed(2) : '',
+            goal.revenue ? (goal.revenue.perVisitor[stats.variantId] ?? 0).toFixed(2) : '',
+          ];
+          rows.push(row.join(','));
+        }
+      }
+    }
+
     return rows.join('\n');
   }
 
@@ -774,18 +1156,21 @@ export class ABTestService {
     const recommendations: string[] = [];
     const { results, variantPerformance } = analytics;
 
-    // Check if test has enough data
-    if (results.totalVisitors < 100) {
-      recommendations.push('Collect more data before making decisions. Aim for at least 100 visitors per variant.');
+    // Check if test has enough data to detect the planned effect
+    const sampleSize = results.analysis?.sampleSize;
+    if (sampleSize?.requiredPerVariant && sampleSize.currentPerVariant < sampleSize.requiredPerVariant) {
+      recommendations.push(
+        `Collect more data before making decisions. Aim for ${sampleSize.requiredPerVariant} visitors per variant to detect a ${(sampleSize.minimumDetectableEffect * 100).toFixed(0)}% lift.`
+      );
     }
 
     // Check statistical significance
-    if (results.statisticalSignificance < 0.95) {
+    if (!results.winner) {
       recommendations.push('Results are not statistically significant. Continue running the test or increase sample size.');
     }
 
     // Check for clear winner
-    if (results.winner && results.confidence > 0.95) {
+    if (results.winner) {
       const winner = test.variants.find(v => v.id === results.winner);
       const control = test.variants.find(v => v.isControl);
       
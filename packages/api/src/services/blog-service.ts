@@ -1,9 +1,9 @@
 import { eq, desc, asc, and, or, like, sql } from 'drizzle-orm';
 import { db, pages, blogPosts } from '../db/index';
-import type { BlogPost, ComponentInstance } from '@oldworldcharm/shared';
+import type { BlogPost, ComponentInstance, PageStatus } from '@oldworldcharm/shared';
 
 export interface BlogPostFilters {
-  status?: 'draft' | 'published' | 'archived';
+  status?: PageStatus;
   search?: string;
   categories?: string[];
   tags?: string[];
@@ -24,7 +24,7 @@ export interface BlogPostCreateData {
   content?: string;
   components: ComponentInstance[];
   seoData: any;
-  status: 'draft' | 'published' | 'archived';
+  status: PageStatus;
   publishedAt?: Date;
 }
 
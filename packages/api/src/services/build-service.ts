@@ -0,0 +1,534 @@
+import { mkdir, writeFile, rm, readdir, symlink, rename } from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { eq, desc, inArray, and, gt } from 'drizzle-orm';
+import { db, pages, blogPosts, deployments } from '../db/index';
+import { LockManager } from '../db/redis';
+import { ThemeService } from './theme-service';
+import { RSSService } from './rss-service';
+import { urlService } from './url-service';
+import { mediaService } from './media-service';
+import type { SocialImage } from './social-service';
+import {
+  HtmlRenderer,
+  BuildError,
+  CodeGenerationError,
+  BuildOptionsSchema,
+} from '@oldworldcharm/shared';
+import type {
+  BuildConfig,
+  BuildOptions,
+  ComponentInstance,
+  DeploymentResult,
+  DeploymentStatus,
+  ResponsiveImageSource,
+  SEOData,
+  Theme,
+  ThemeTokenOverrides,
+} from '@oldworldcharm/shared';
+
+// A page or blog post selected for the static build
+interface BuildPage {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  components: ComponentInstance[];
+  seoData: SEOData;
+  themeId: string | null;
+  themeOverrides: ThemeTokenOverrides | null;
+  updatedAt: Date;
+  isBlogPost: boolean;
+}
+
+// Build record with the counts stored alongside the DeploymentResult fields
+export interface BuildRecord extends DeploymentResult {
+  buildOptions: BuildOptions;
+  outputDir?: string;
+  pageCount: number;
+  fileCount: number;
+}
+
+const ACTIVE_STATUSES: DeploymentStatus[] = ['pending', 'building', 'deploying'];
+
+export class BuildService {
+  // Kept out of dist/, which a clean compile of the API wipes along with the live site
+  private static readonly OUTPUT_ROOT = path.resolve(process.env.BUILD_OUTPUT_DIR || './var/builds');
+  private static readonly BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+  private static readonly STALE_BUILD_AGE = 60 * 60 * 1000; // 1 hour
+  private static readonly LOCK_NAME = 'static-build';
+  // Previous builds kept next to the live one so a release can be rolled back by relinking
+  private static readonly PREVIOUS_BUILDS_KEPT = parseInt(process.env.BUILD_KEEP_PREVIOUS || '3', 10);
+
+  /**
+   * Queue a static site build and run it in the background.
+   * A Redis lock held until the build finishes keeps concurrent requests from starting a second one.
+   */
+  static async startBuild(options: Partial<BuildOptions> = {}, userId?: string): Promise<BuildRecord> {
+    // The lock expires with the stale build age, so a build interrupted by a restart doesn't hold it forever
+    const token = await LockManager.acquire(this.LOCK_NAME, this.STALE_BUILD_AGE);
+    if (!token) {
+      throw new Error('A build is already in progress');
+    }
+
+    try {
+      const { deployment, buildOptions } = await this.createBuild(options, userId);
+
+      // Run outside the request; progress is recorded on the deployment row
+      void this.runBuild(deployment.id, deployment.buildId, buildOptions).finally(() => this.releaseLock(token));
+
+      return this.mapDbDeploymentToRecord(deployment);
+    } catch (error) {
+      await this.releaseLock(token);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a build by ID
+   */
+  static async getBuild(id: string): Promise<BuildRecord | null> {
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.id, id))
+      .limit(1);
+
+    return deployment ? this.mapDbDeploymentToRecord(deployment) : null;
+  }
+
+  /**
+   * List recent builds, newest first
+   */
+  static async listBuilds(limit = 20): Promise<BuildRecord[]> {
+    const results = await db
+      .select()
+      .from(deployments)
+      .orderBy(desc(deployments.createdAt))
+      .limit(limit);
+
+    return results.map(deployment => this.mapDbDeploymentToRecord(deployment));
+  }
+
+  /**
+   * Render every published page and blog post into a static output directory,
+   * then point the live `current` link at it
+   */
+  static async runBuild(deploymentId: string, buildId: string, options: BuildOptions): Promise<void> {
+    const buildStart = Date.now();
+    const outputDir = path.join(this.OUTPUT_ROOT, buildId);
+    let published = false;
+
+    try {
+      await this.updateStatus(deploymentId, { status: 'building', outputDir });
+
+      const theme = await this.loadTheme(buildId);
+      const buildPages = await this.getPublishedPages();
+      const files = new Map<string, string>();
+
+      let css = ThemeService.generateCSS(theme);
+      if (options.customCSS) {
+        css += `\n/* Custom CSS */\n${options.customCSS}\n`;
+      }
+      files.set('assets/theme.css', css);
+
+      if (options.customJS) {
+        files.set('assets/custom.js', options.customJS);
+      }
+
+      for (const page of buildPages) {
+        const pageTheme = await this.resolvePageTheme(page, theme);
+        const config: BuildConfig = {
+          id: buildId,
+          pageId: page.id,
+          theme: pageTheme,
+          components: page.components,
+          seoData: page.seoData,
+          buildOptions: options,
+          createdAt: new Date(),
+        };
+
+        const images = options.optimizeImages
+          ? await mediaService.getResponsiveImages(HtmlRenderer.collectImageSources(page.components))
+          : {};
+        const socialImages = page.seoData.ogImage ? await mediaService.getSocialImages([page.seoData.ogImage]) : {};
+
+        let html: string;
+        try {
+          html = this.renderDocument(page, config, images, socialImages);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new CodeGenerationError(`page "${page.slug}": ${reason}`, buildId);
+        }
+
+        files.set(this.getOutputPath(page), options.minify ? HtmlRenderer.minify(html) : html);
+      }
+
+      if (options.generateSitemap) {
+        files.set('sitemap.xml', this.generateSitemapXml(buildPages));
+      }
+
+      files.set(
+        'robots.txt',
+        await urlService.generateRobotsTxt(this.BASE_URL, { disallowPatterns: ['/api/'] })
+      );
+
+      if (buildPages.some(page => page.isBlogPost)) {
+        files.set('rss.xml', await RSSService.generateDefaultRSSXML(this.BASE_URL));
+      }
+
+      if (options.enablePWA) {
+        files.set('manifest.webmanifest', this.generateManifest(theme));
+      }
+
+      await rm(outputDir, { recursive: true, force: true });
+      for (const [filePath, contents] of files) {
+        const target = path.join(outputDir, filePath);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, contents, 'utf8');
+      }
+
+      const buildTime = Date.now() - buildStart;
+      await this.updateStatus(deploymentId, {
+        status: 'deploying',
+        buildTime,
+        pageCount: buildPages.length,
+        fileCount: files.size,
+      });
+
+      const deployStart = Date.now();
+      const liveDir = await this.publish(buildId);
+      published = true;
+      // A failed cleanup is retried after the next publish rather than failing a build that is live
+      await this.pruneBuilds(buildId).catch(() => {});
+      await this.notifyDeploymentWebhook(liveDir, buildId);
+
+      await this.updateStatus(deploymentId, {
+        status: 'success',
+        url: this.BASE_URL,
+        deployTime: Date.now() - deployStart,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      // Output that never went live is removed; the live site keeps serving the previous build
+      if (!published) {
+        await rm(outputDir, { recursive: true, force: true }).catch(() => {});
+      }
+
+      await this.updateStatus(deploymentId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        ...(published ? {} : { outputDir: null }),
+        completedAt: new Date(),
+      }).catch(() => {
+        // The build already failed; nothing more to record
+      });
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static async createBuild(
+    options: Partial<BuildOptions>,
+    userId?: string
+  ): Promise<{ deployment: typeof deployments.$inferSelect; buildOptions: BuildOptions }> {
+    const activeBuilds = await db
+      .select({ id: deployments.id })
+      .from(deployments)
+      .where(
+        and(
+          inArray(deployments.status, ACTIVE_STATUSES),
+          // Builds interrupted by a restart never finish; don't let them block forever
+          gt(deployments.createdAt, new Date(Date.now() - this.STALE_BUILD_AGE))
+        )
+      )
+      .limit(1);
+
+    if (activeBuilds.length > 0) {
+      throw new Error('A build is already in progress');
+    }
+
+    const buildOptions = BuildOptionsSchema.parse(options) as BuildOptions;
+    const buildId = `build-${Date.now()}-${randomBytes(4).toString('hex')}`;
+
+    const [deployment] = await db
+      .insert(deployments)
+      .values({
+        buildId,
+        status: 'pending',
+        buildOptions,
+        triggeredBy: userId || null,
+      })
+      .returning();
+
+    if (!deployment) {
+      throw new Error('Failed to create build');
+    }
+
+    return { deployment, buildOptions };
+  }
+
+  private static async releaseLock(token: string): Promise<void> {
+    try {
+      await LockManager.release(this.LOCK_NAME, token);
+    } catch {
+      // Left to expire on its own
+    }
+  }
+
+  private static async loadTheme(buildId: string): Promise<Theme> {
+    const defaultTheme = await ThemeService.getDefaultTheme();
+    if (!defaultTheme) {
+      throw new BuildError('No default theme is configured', 'THEME_NOT_FOUND', 422, buildId, 'theme');
+    }
+
+    return {
+      ...defaultTheme.config,
+      id: defaultTheme.theme.id,
+      name: defaultTheme.theme.name,
+      isDefault: true,
+      createdAt: defaultTheme.theme.createdAt,
+      updatedAt: defaultTheme.theme.updatedAt,
+    } as Theme;
+  }
+
+  private static async getPublishedPages(): Promise<BuildPage[]> {
+    const results = await db
+      .select({
+        id: pages.id,
+        slug: pages.slug,
+        title: pages.title,
+        description: pages.description,
+        content: pages.content,
+        seoData: pages.seoData,
+        themeId: pages.themeId,
+        themeOverrides: pages.themeOverrides,
+        updatedAt: pages.updatedAt,
+        blogPostId: blogPosts.id,
+      })
+      .from(pages)
+      .leftJoin(blogPosts, eq(pages.id, blogPosts.pageId))
+      .where(eq(pages.status, 'published'))
+      .orderBy(desc(pages.updatedAt));
+
+    return results.map(page => ({
+      id: page.id,
+      slug: page.slug,
+      title: page.title,
+      description: page.description,
+      components: (page.content as ComponentInstance[]) || [],
+      seoData: (page.seoData as SEOData) || {},
+      themeId: page.themeId,
+      themeOverrides: (page.themeOverrides as ThemeTokenOverrides | null) || null,
+      updatedAt: page.updatedAt,
+      isBlogPost: page.blogPostId !== null,
+    }));
+  }
+
+  // Pages with their own theme or token overrides keep the site stylesheet and layer their tokens on top
+  private static async resolvePageTheme(page: BuildPage, siteTheme: Theme): Promise<Theme> {
+    if (!page.themeId && !page.themeOverrides) {
+      return siteTheme;
+    }
+
+    const config = await ThemeService.resolvePageTheme(page);
+    return config ? { ...siteTheme, ...config } : siteTheme;
+  }
+
+  private static getPagePath(page: BuildPage): string {
+    if (page.isBlogPost) {
+      return `/blog/${page.slug}/`;
+    }
+    return page.slug === 'home' || page.slug === 'index' ? '/' : `/${page.slug}/`;
+  }
+
+  private static getOutputPath(page: BuildPage): string {
+    return `${this.getPagePath(page).slice(1)}index.html`;
+  }
+
+  // Swaps a relative symlink into place with rename, so the live site is always one whole build
+  private static async publish(buildId: string): Promise<string> {
+    const liveDir = path.join(this.OUTPUT_ROOT, 'current');
+    const nextLink = path.join(this.OUTPUT_ROOT, `current-${buildId}`);
+
+    await rm(nextLink, { force: true });
+    await symlink(buildId, nextLink, 'dir');
+    await rename(nextLink, liveDir);
+    return liveDir;
+  }
+
+  // Removes builds older than the live one beyond the ones kept for rollback. Build IDs start
+  // with their creation time, so they sort by age; the `current` links are not directories.
+  private static async pruneBuilds(liveBuildId: string): Promise<void> {
+    const entries = await readdir(this.OUTPUT_ROOT, { withFileTypes: true });
+    const stale = entries
+      .filter(entry => entry.isDirectory() && entry.name < liveBuildId)
+      .map(entry => entry.name)
+      .sort()
+      .reverse()
+      .slice(this.PREVIOUS_BUILDS_KEPT);
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    for (const name of stale) {
+      await rm(path.join(this.OUTPUT_ROOT, name), { recursive: true, force: true });
+    }
+    await db.update(deployments).set({ outputDir: null }).where(inArray(deployments.buildId, stale));
+  }
+
+  private static async notifyDeploymentWebhook(liveDir: string, buildId: string): Promise<void> {
+    const webhookUrl = process.env.DEPLOYMENT_WEBHOOK_URL;
+    if (!webhookUrl) {
+      return;
+    }
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ buildId, outputDir: liveDir }),
+    });
+
+    if (!response.ok) {
+      throw new BuildError(
+        `Deployment webhook responded with ${response.status}`,
+        'DEPLOYMENT_WEBHOOK_FAILED',
+        502,
+        buildId,
+        'deploy'
+      );
+    }
+  }
+
+  private static renderDocument(
+    page: BuildPage,
+    config: BuildConfig,
+    images: Record<string, ResponsiveImageSource[]> = {},
+    socialImages: Record<string, SocialImage> = {}
+  ): string {
+    const { seoData, buildOptions } = config;
+    const escapeHtml = (value: string) => HtmlRenderer.escapeHtml(value);
+    const title = seoData.metaTitle || page.title;
+    const description = seoData.metaDescription || page.description || '';
+    const canonicalUrl = seoData.canonicalUrl || `${this.BASE_URL}${this.getPagePath(page)}`;
+
+    const robots = [seoData.noIndex ? 'noindex' : 'index', seoData.noFollow ? 'nofollow' : 'follow'];
+
+    const head = [
+      description ? `<meta name="description" content="${escapeHtml(description)}">` : '',
+      seoData.keywords?.length
+        ? `<meta name="keywords" content="${escapeHtml(seoData.keywords.join(', '))}">`
+        : '',
+      `<meta name="robots" content="${robots.join(', ')}">`,
+      `<link rel="canonical" href="${escapeHtml(canonicalUrl)}">`,
+      `<meta property="og:title" content="${escapeHtml(seoData.ogTitle || title)}">`,
+      `<meta property="og:description" content="${escapeHtml(seoData.ogDescription || description)}">`,
+      `<meta property="og:url" content="${escapeHtml(canonicalUrl)}">`,
+      `<meta property="og:type" content="${page.isBlogPost ? 'article' : 'website'}">`,
+      seoData.ogImage ? this.renderOgImage(socialImages[seoData.ogImage] || seoData.ogImage) : '',
+      `<meta name="twitter:card" content="${seoData.twitterCard || 'summary_large_image'}">`,
+      seoData.structuredData
+        ? `<script type="application/ld+json">${JSON.stringify(seoData.structuredData).replace(/</g, '\\u003c')}</script>`
+        : '',
+      buildOptions.enablePWA ? '<link rel="manifest" href="/manifest.webmanifest">' : '',
+      buildOptions.analyticsId ? this.renderAnalytics(buildOptions.analyticsId) : '',
+      // html:root outranks the :root rules in theme.css, which is linked after these tags
+      page.themeId || page.themeOverrides
+        ? `<style>\n${ThemeService.generateCustomPropertiesCSS(config.theme, 'html:root')}</style>`
+        : '',
+    ].filter(Boolean);
+
+    return HtmlRenderer.renderDocument({
+      title,
+      head,
+      stylesheets: ['/assets/theme.css'],
+      scripts: buildOptions.customJS ? ['/assets/custom.js'] : [],
+      body: HtmlRenderer.renderTree(config.components, {
+        theme: config.theme,
+        lazyImages: buildOptions.optimizeImages,
+        images,
+      }),
+    });
+  }
+
+  // The Open Graph crop of a media library image carries its size; other images are linked as they are
+  private static renderOgImage(image: SocialImage | string): string {
+    if (typeof image === 'string') {
+      return `<meta property="og:image" content="${HtmlRenderer.escapeHtml(image)}">`;
+    }
+    return [
+      `<meta property="og:image" content="${HtmlRenderer.escapeHtml(image.url)}">`,
+      `<meta property="og:image:width" content="${image.width}">`,
+      `<meta property="og:image:height" content="${image.height}">`,
+    ].join('\n');
+  }
+
+  private static renderAnalytics(analyticsId: string): string {
+    const id = HtmlRenderer.escapeHtml(analyticsId);
+    return `<script async src="https://www.googletagmanager.com/gtag/js?id=${id}"></script>
+<script>window.dataLayer=window.dataLayer||[];function gtag(){dataLayer.push(arguments);}gtag('js',new Date());gtag('config','${id}');</script>`;
+  }
+
+  private static generateSitemapXml(buildPages: BuildPage[]): string {
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+
+    for (const page of buildPages) {
+      if (page.seoData.noIndex) {
+        continue;
+      }
+
+      xml += '  <url>\n';
+      xml += `    <loc>${HtmlRenderer.escapeHtml(`${this.BASE_URL}${this.getPagePath(page)}`)}</loc>\n`;
+      xml += `    <lastmod>${page.updatedAt.toISOString().split('T')[0]}</lastmod>\n`;
+      xml += '  </url>\n';
+    }
+
+    xml += '</urlset>';
+    return xml;
+  }
+
+  private static generateManifest(theme: Theme): string {
+    return JSON.stringify(
+      {
+        name: process.env.SITE_NAME || 'Visual Website Builder',
+        start_url: '/',
+        display: 'standalone',
+        background_color: theme.colors.background,
+        theme_color: theme.colors.primary,
+      },
+      null,
+      2
+    );
+  }
+
+  private static async updateStatus(
+    deploymentId: string,
+    values: Partial<typeof deployments.$inferInsert>
+  ): Promise<void> {
+    await db.update(deployments).set(values).where(eq(deployments.id, deploymentId));
+  }
+
+  private static mapDbDeploymentToRecord(dbDeployment: any): BuildRecord {
+    const record: BuildRecord = {
+      id: dbDeployment.id,
+      buildId: dbDeployment.buildId,
+      status: dbDeployment.status as DeploymentStatus,
+      buildTime: dbDeployment.buildTime,
+      deployTime: dbDeployment.deployTime,
+      buildOptions: dbDeployment.buildOptions as BuildOptions,
+      pageCount: dbDeployment.pageCount,
+      fileCount: dbDeployment.fileCount,
+      createdAt: dbDeployment.createdAt,
+    };
+
+    if (dbDeployment.url) record.url = dbDeployment.url;
+    if (dbDeployment.error) record.error = dbDeployment.error;
+    if (dbDeployment.outputDir) record.outputDir = dbDeployment.outputDir;
+    if (dbDeployment.completedAt) record.completedAt = dbDeployment.completedAt;
+
+    return record;
+  }
+}
@@ -0,0 +1,106 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { and, sql } from 'drizzle-orm';
+import { db, comments } from '../db/index';
+import { Secrets } from './secrets';
+
+export interface VerificationLink {
+  email: string;
+  commentId: string; // the comment that triggered the email
+  expires: number; // seconds since the epoch
+  token: string;
+}
+
+// Commenters prove they own an email address with signed tokens, so no identity is stored server side
+export class CommenterIdentityService {
+  static readonly COOKIE = 'commenter_token';
+  static readonly TOKEN_TTL_SECONDS = parseInt(process.env.COMMENTER_TOKEN_TTL_DAYS || '180', 10) * 24 * 60 * 60;
+  private static readonly VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+  private static readonly SECRET = Secrets.get('commenterToken');
+
+  /**
+   * Create the signed parameters of an email verification link for the comment that triggered it
+   */
+  static createVerificationLink(email: string, commentId: string, now: number = Date.now()): VerificationLink {
+    const normalized = this.normalize(email);
+    const expires = Math.floor(now / 1000) + this.VERIFICATION_TTL_SECONDS;
+
+    return { email: normalized, commentId, expires, token: this.sign('verify', normalized, expires, commentId) };
+  }
+
+  /**
+   * Confirm a verification link: marks the comment it was sent for and the owner's later comments
+   * as verified, and returns a commenter token. Earlier comments under the same address may have
+   * been posted by someone else. Returns null when the link is invalid or expired.
+   */
+  static async verifyEmail(link: VerificationLink, now: number = Date.now()): Promise<string | null> {
+    const email = this.normalize(link.email);
+
+    if (
+      link.expires < Math.floor(now / 1000) ||
+      !this.matches(this.sign('verify', email, link.expires, link.commentId), link.token)
+    ) {
+      return null;
+    }
+
+    await db
+      .update(comments)
+      .set({ isVerified: true })
+      .where(
+        and(
+          sql`lower(${comments.authorEmail}) = ${email}`,
+          sql`${comments.createdAt} >= (select ${comments.createdAt} from ${comments} where ${comments.id} = ${link.commentId} and lower(${comments.authorEmail}) = ${email})`
+        )
+      );
+
+    return this.createCommenterToken(email, now);
+  }
+
+  /**
+   * Create a long-lived token proving the holder verified an email address
+   */
+  static createCommenterToken(email: string, now: number = Date.now()): string {
+    const normalized = this.normalize(email);
+    const expires = Math.floor(now / 1000) + this.TOKEN_TTL_SECONDS;
+    const encodedEmail = Buffer.from(normalized).toString('base64url');
+
+    return `${encodedEmail}.${expires}.${this.sign('commenter', normalized, expires)}`;
+  }
+
+  /**
+   * Get the verified email address from a commenter token, or null when it is missing, forged or expired
+   */
+  static readCommenterToken(token: string | undefined, now: number = Date.now()): string | null {
+    const [encodedEmail, expiresPart, signature] = (token || '').split('.');
+    if (!encodedEmail || !expiresPart || !signature) {
+      return null;
+    }
+
+    const email = Buffer.from(encodedEmail, 'base64url').toString('utf8');
+    const expires = parseInt(expiresPart, 10);
+
+    if (!Number.isFinite(expires) || expires < Math.floor(now / 1000)) {
+      return null;
+    }
+
+    return this.matches(this.sign('commenter', email, expires), signature) ? email : null;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  // The purpose is signed too, so a verification token cannot be used as a commenter token
+  private static sign(purpose: 'verify' | 'commenter', email: string, expires: number, commentId?: string): string {
+    const payload = [purpose, email, expires, ...(commentId ? [commentId] : [])].join('\n');
+    return createHmac('sha256', this.SECRET).update(payload).digest('base64url');
+  }
+
+  private static matches(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+}
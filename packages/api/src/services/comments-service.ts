@@ -1,5 +1,8 @@
-import { eq, desc, asc, and, or, like, sql } from 'drizzle-orm';
-import { db, comments, pages, blogPosts } from '../db/index';
+import { eq, desc, asc, and, or, like, ne, isNull, isNotNull, inArray, sql, type SQL } from 'drizzle-orm';
+import { db, comments, commentRevisions, pages, blogPosts } from '../db/index';
+import { SpamFilterService } from './spam-filter-service';
+import { NotificationService } from './notification-service';
+import { CommenterIdentityService } from './commenter-identity-service';
 
 export interface Comment {
   id: string;
@@ -13,11 +16,22 @@ export interface Comment {
   ipAddress?: string;
   userAgent?: string;
   isVerified: boolean;
+  spamScore?: number;
+  moderationReason?: string;
+  editedAt?: Date;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   replies?: Comment[];
 }
 
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  content: string;
+  editedAt: Date;
+}
+
 export interface CommentCreateData {
   blogPostId: string;
   parentId?: string;
@@ -27,6 +41,9 @@ export interface CommentCreateData {
   content: string;
   ipAddress?: string;
   userAgent?: string;
+  honeypot?: string;
+  renderedAt?: number;
+  commenterToken?: string; // Proves the commenter verified their email
 }
 
 export interface CommentFilters {
@@ -52,7 +69,37 @@ export interface PaginatedResult<T> {
   hasPrev: boolean;
 }
 
+export interface CommentTreeNode extends Comment {
+  depth: number;
+  edited: boolean;
+  deleted: boolean; // Deleted by its author; kept without content or author to hold its replies
+  replies: CommentTreeNode[];
+  replyCount: number; // Approved direct replies, including any not loaded
+  hasMoreReplies: boolean; // Replies exist below the depth limit; load them with getReplies
+}
+
+export interface CommentTreeOptions {
+  cursor?: string; // nextCursor from the previous page
+  limit?: number; // Threads per page
+  maxDepth?: number; // Levels of replies nested under each thread
+}
+
+export interface CommentTreePage {
+  comments: CommentTreeNode[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export class CommentsService {
+  // Deepest level a reply can be posted at; top-level comments are depth 0
+  private static readonly MAX_REPLY_DEPTH = parseInt(process.env.COMMENT_MAX_DEPTH || '5', 10);
+  // Levels of replies returned with each thread unless the client asks for fewer
+  private static readonly TREE_DEPTH = parseInt(process.env.COMMENT_TREE_DEPTH || '3', 10);
+  private static readonly THREAD_PAGE_SIZE = 20;
+  private static readonly MAX_THREAD_PAGE_SIZE = 100;
+  // How long verified commenters can edit or delete their own comments
+  private static readonly EDIT_WINDOW_MINUTES = parseInt(process.env.COMMENT_EDIT_WINDOW_MINUTES || '15', 10);
+
   /**
    * Create a new comment
    */
@@ -73,33 +120,51 @@ export class CommentsService {
       throw new Error('Comments are only allowed on published blog posts');
     }
 
-    // If parentId is provided, check if parent comment exists
+    // If parentId is provided, check the parent exists on the same post and can take another level of replies
+    let depth = 0;
     if (data.parentId) {
       const [parentComment] = await db
-        .select({ id: comments.id })
+        .select({ id: comments.id, blogPostId: comments.blogPostId, depth: comments.depth })
         .from(comments)
         .where(eq(comments.id, data.parentId))
         .limit(1);
 
-      if (!parentComment) {
+      if (!parentComment || parentComment.blogPostId !== data.blogPostId) {
         throw new Error('Parent comment not found');
       }
+
+      if (parentComment.depth >= this.MAX_REPLY_DEPTH) {
+        throw new Error('Maximum reply depth exceeded');
+      }
+
+      depth = parentComment.depth + 1;
     }
 
+    // Score the comment so obvious spam and clean comments skip the moderation queue
+    const verdict = await SpamFilterService.evaluate(data);
+
+    // Verified commenters skip the moderation queue, but not the spam filter
+    const isVerified =
+      CommenterIdentityService.readCommenterToken(data.commenterToken) === data.authorEmail.trim().toLowerCase();
+    const status = isVerified && verdict.status === 'pending' ? 'approved' : verdict.status;
+
     // Create the comment
     const [newComment] = await db
       .insert(comments)
       .values({
         blogPostId: data.blogPostId,
         parentId: data.parentId || null,
+        depth,
         authorName: data.authorName,
         authorEmail: data.authorEmail,
         authorWebsite: data.authorWebsite || null,
         content: data.content,
-        status: 'pending', // All comments start as pending
+        status,
         ipAddress: data.ipAddress || null,
         userAgent: data.userAgent || null,
-        isVerified: false,
+        isVerified,
+        spamScore: verdict.score,
+        moderationReason: verdict.reason,
       })
       .returning();
 
@@ -123,6 +188,19 @@ export class CommentsService {
     if (newComment.authorWebsite) result.authorWebsite = newComment.authorWebsite;
     if (newComment.ipAddress) result.ipAddress = newComment.ipAddress;
     if (newComment.userAgent) result.userAgent = newComment.userAgent;
+    if (newComment.spamScore !== null) result.spamScore = newComment.spamScore;
+    if (newComment.moderationReason) result.moderationReason = newComment.moderationReason;
+    if (newComment.editedAt) result.editedAt = newComment.editedAt;
+
+    // Emails go out in the background so a slow SMTP server never delays the response
+    if (result.status === 'pending') {
+      void NotificationService.notifyPendingComment(result);
+    } else if (result.status === 'approved' && result.parentId) {
+      void NotificationService.notifyApprovedReply(result);
+    }
+    if (!isVerified && result.status !== 'spam') {
+      void NotificationService.sendCommentVerification(result);
+    }
 
     return result;
   }
@@ -209,6 +287,10 @@ export class CommentsService {
       if (comment.authorWebsite) result.authorWebsite = comment.authorWebsite;
       if (comment.ipAddress) result.ipAddress = comment.ipAddress;
       if (comment.userAgent) result.userAgent = comment.userAgent;
+      if (comment.spamScore !== null) result.spamScore = comment.spamScore;
+      if (comment.moderationReason) result.moderationReason = comment.moderationReason;
+      if (comment.editedAt) result.editedAt = comment.editedAt;
+      if (comment.deletedAt) result.deletedAt = comment.deletedAt;
 
       return result;
     });
@@ -227,92 +309,28 @@ export class CommentsService {
   }
 
   /**
-   * Get comments for a specific blog post with nested structure
+   * Get a page of approved top-level comments for a blog post, each with its replies nested up to maxDepth levels
    */
-  static async getCommentsForBlogPost(
-    blogPostId: string,
-    includeReplies: boolean = true
-  ): Promise<Comment[]> {
-    // Get all approved comments for the blog post
-    const allComments = await db
-      .select()
-      .from(comments)
-      .where(
-        and(
-          eq(comments.blogPostId, blogPostId),
-          eq(comments.status, 'approved')
-        )
-      )
-      .orderBy(asc(comments.createdAt));
-
-    if (!includeReplies) {
-      return allComments
-        .filter(comment => !comment.parentId)
-        .map(comment => {
-          const result: Comment = {
-            id: comment.id,
-            blogPostId: comment.blogPostId,
-            authorName: comment.authorName,
-            authorEmail: comment.authorEmail,
-            content: comment.content,
-            status: comment.status as 'pending' | 'approved' | 'rejected' | 'spam',
-            isVerified: comment.isVerified,
-            createdAt: comment.createdAt,
-            updatedAt: comment.updatedAt,
-          };
-
-          if (comment.parentId) result.parentId = comment.parentId;
-          if (comment.authorWebsite) result.authorWebsite = comment.authorWebsite;
-          if (comment.ipAddress) result.ipAddress = comment.ipAddress;
-          if (comment.userAgent) result.userAgent = comment.userAgent;
-
-          return result;
-        });
-    }
-
-    // Build nested structure
-    const commentMap = new Map<string, Comment>();
-    const rootComments: Comment[] = [];
-
-    // First pass: create all comment objects
-    allComments.forEach(comment => {
-      const transformedComment: Comment = {
-        id: comment.id,
-        blogPostId: comment.blogPostId,
-        authorName: comment.authorName,
-        authorEmail: comment.authorEmail,
-        content: comment.content,
-        status: comment.status as 'pending' | 'approved' | 'rejected' | 'spam',
-        isVerified: comment.isVerified,
-        createdAt: comment.createdAt,
-        updatedAt: comment.updatedAt,
-        replies: [],
-      };
-
-      if (comment.parentId) transformedComment.parentId = comment.parentId;
-      if (comment.authorWebsite) transformedComment.authorWebsite = comment.authorWebsite;
-      if (comment.ipAddress) transformedComment.ipAddress = comment.ipAddress;
-      if (comment.userAgent) transformedComment.userAgent = comment.userAgent;
+  static async getCommentTree(blogPostId: string, options: CommentTreeOptions = {}): Promise<CommentTreePage> {
+    return this.getThreadPage(and(eq(comments.blogPostId, blogPostId), isNull(comments.parentId))!, options);
+  }
 
-      commentMap.set(comment.id, transformedComment);
-    });
+  /**
+   * Get a page of approved replies to a comment, nested the same way, for "load more replies".
+   * Returns null when the comment does not exist or is not approved.
+   */
+  static async getReplies(commentId: string, options: CommentTreeOptions = {}): Promise<CommentTreePage | null> {
+    const [parentComment] = await db
+      .select({ id: comments.id })
+      .from(comments)
+      .where(and(eq(comments.id, commentId), eq(comments.status, 'approved')))
+      .limit(1);
 
-    // Second pass: build the tree structure
-    allComments.forEach(comment => {
-      const transformedComment = commentMap.get(comment.id)!;
-      
-      if (comment.parentId) {
-        const parent = commentMap.get(comment.parentId);
-        if (parent) {
-          parent.replies = parent.replies || [];
-          parent.replies.push(transformedComment);
-        }
-      } else {
-        rootComments.push(transformedComment);
-      }
-    });
+    if (!parentComment) {
+      return null;
+    }
 
-    return rootComments;
+    return this.getThreadPage(eq(comments.parentId, commentId), options);
   }
 
   /**
@@ -322,6 +340,12 @@ export class CommentsService {
     commentId: string,
     status: 'pending' | 'approved' | 'rejected' | 'spam'
   ): Promise<Comment | null> {
+    const [previous] = await db
+      .select({ status: comments.status })
+      .from(comments)
+      .where(eq(comments.id, commentId))
+      .limit(1);
+
     const [updatedComment] = await db
       .update(comments)
       .set({
@@ -351,10 +375,145 @@ export class CommentsService {
     if (updatedComment.authorWebsite) result.authorWebsite = updatedComment.authorWebsite;
     if (updatedComment.ipAddress) result.ipAddress = updatedComment.ipAddress;
     if (updatedComment.userAgent) result.userAgent = updatedComment.userAgent;
+    if (updatedComment.spamScore !== null) result.spamScore = updatedComment.spamScore;
+    if (updatedComment.moderationReason) result.moderationReason = updatedComment.moderationReason;
+    if (updatedComment.editedAt) result.editedAt = updatedComment.editedAt;
+    if (updatedComment.deletedAt) result.deletedAt = updatedComment.deletedAt;
+
+    // Only the first approval of a reply notifies the parent comment's author
+    if (status === 'approved' && previous?.status !== 'approved' && result.parentId) {
+      void NotificationService.notifyApprovedReply(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Edit a comment as its verified author within the edit window, keeping the previous content.
+   * Returns null when the comment does not exist.
+   */
+  static async updateOwnComment(commentId: string, authorEmail: string, content: string): Promise<Comment | null> {
+    const [existingComment] = await db.select().from(comments).where(eq(comments.id, commentId)).limit(1);
+
+    if (!existingComment) {
+      return null;
+    }
+
+    this.assertCanModifyOwnComment(existingComment, authorEmail);
+
+    // Edits go through the spam filter again so approved comments cannot be turned into spam
+    const verdict = await SpamFilterService.evaluate({
+      authorName: existingComment.authorName,
+      authorEmail: existingComment.authorEmail,
+      content,
+    });
+    const now = new Date();
+
+    await db.insert(commentRevisions).values({
+      commentId,
+      content: existingComment.content,
+      editedAt: now,
+    });
+
+    const [updatedComment] = await db
+      .update(comments)
+      .set({
+        content,
+        editedAt: now,
+        updatedAt: now,
+        ...(verdict.status === 'spam' && {
+          status: 'spam',
+          spamScore: verdict.score,
+          moderationReason: verdict.reason,
+        }),
+      })
+      .where(eq(comments.id, commentId))
+      .returning();
+
+    if (!updatedComment) {
+      return null;
+    }
+
+    const result: Comment = {
+      id: updatedComment.id,
+      blogPostId: updatedComment.blogPostId,
+      authorName: updatedComment.authorName,
+      authorEmail: updatedComment.authorEmail,
+      content: updatedComment.content,
+      status: updatedComment.status as 'pending' | 'approved' | 'rejected' | 'spam',
+      isVerified: updatedComment.isVerified,
+      createdAt: updatedComment.createdAt,
+      updatedAt: updatedComment.updatedAt,
+    };
+
+    if (updatedComment.parentId) result.parentId = updatedComment.parentId;
+    if (updatedComment.authorWebsite) result.authorWebsite = updatedComment.authorWebsite;
+    if (updatedComment.ipAddress) result.ipAddress = updatedComment.ipAddress;
+    if (updatedComment.userAgent) result.userAgent = updatedComment.userAgent;
+    if (updatedComment.spamScore !== null) result.spamScore = updatedComment.spamScore;
+    if (updatedComment.moderationReason) result.moderationReason = updatedComment.moderationReason;
+    if (updatedComment.editedAt) result.editedAt = updatedComment.editedAt;
+    if (updatedComment.deletedAt) result.deletedAt = updatedComment.deletedAt;
 
     return result;
   }
 
+  /**
+   * Delete a comment as its verified author within the edit window. A comment with replies is kept
+   * as a tombstone without content or author so other people's replies stay in the thread.
+   * Returns false when the comment does not exist.
+   */
+  static async deleteOwnComment(commentId: string, authorEmail: string): Promise<boolean> {
+    const [existingComment] = await db.select().from(comments).where(eq(comments.id, commentId)).limit(1);
+
+    if (!existingComment) {
+      return false;
+    }
+
+    this.assertCanModifyOwnComment(existingComment, authorEmail);
+
+    const [reply] = await db
+      .select({ id: comments.id })
+      .from(comments)
+      .where(eq(comments.parentId, commentId))
+      .limit(1);
+
+    if (!reply) {
+      await db.delete(comments).where(eq(comments.id, commentId));
+      return true;
+    }
+
+    const now = new Date();
+    await db
+      .update(comments)
+      .set({
+        authorName: '',
+        authorEmail: '',
+        authorWebsite: null,
+        content: '',
+        ipAddress: null,
+        userAgent: null,
+        deletedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(comments.id, commentId));
+    // Earlier versions would still show the deleted content
+    await db.delete(commentRevisions).where(eq(commentRevisions.commentId, commentId));
+
+    return true;
+  }
+
+  /**
+   * Get the previous versions of a comment, newest first
+   */
+  static async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    return db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(desc(commentRevisions.editedAt));
+  }
+
   /**
    * Delete a comment and all its replies
    */
@@ -429,6 +588,28 @@ export class CommentsService {
       return 0;
     }
 
+    // Replies being approved for the first time, whose parent authors get notified
+    const newlyApprovedReplies =
+      status === 'approved'
+        ? await db
+            .select({
+              id: comments.id,
+              blogPostId: comments.blogPostId,
+              parentId: comments.parentId,
+              authorName: comments.authorName,
+              authorEmail: comments.authorEmail,
+              content: comments.content,
+            })
+            .from(comments)
+            .where(
+              and(
+                sql`${comments.id} = ANY(${commentIds})`,
+                ne(comments.status, 'approved'),
+                isNotNull(comments.parentId)
+              )
+            )
+        : [];
+
     const result = await db
       .update(comments)
       .set({
@@ -438,6 +619,144 @@ export class CommentsService {
       .where(sql`${comments.id} = ANY(${commentIds})`)
       .returning({ id: comments.id });
 
+    for (const reply of newlyApprovedReplies) {
+      void NotificationService.notifyApprovedReply({ ...reply, parentId: reply.parentId ?? undefined });
+    }
+
     return result.length;
   }
-}
\ No newline at end of file
+
+  /**
+   * Private helper methods
+   */
+  private static assertCanModifyOwnComment(comment: typeof comments.$inferSelect, authorEmail: string): void {
+    if (comment.authorEmail.trim().toLowerCase() !== authorEmail.trim().toLowerCase()) {
+      throw new Error('Only the author can change this comment');
+    }
+
+    if (Date.now() - comment.createdAt.getTime() > this.EDIT_WINDOW_MINUTES * 60 * 1000) {
+      throw new Error('Edit window has expired');
+    }
+  }
+
+  private static async getThreadPage(condition: SQL, options: CommentTreeOptions): Promise<CommentTreePage> {
+    const limit = Math.min(Math.max(options.limit ?? this.THREAD_PAGE_SIZE, 1), this.MAX_THREAD_PAGE_SIZE);
+    const maxDepth = Math.min(Math.max(options.maxDepth ?? this.TREE_DEPTH, 0), this.MAX_REPLY_DEPTH);
+
+    // Keyset on (created_at, id); timestamps are compared at the millisecond precision the cursor carries
+    const createdAt = sql`date_trunc('milliseconds', ${comments.createdAt})`;
+    const conditions = [condition, eq(comments.status, 'approved')];
+    if (options.cursor) {
+      const cursor = this.decodeCursor(options.cursor);
+      conditions.push(
+        sql`(${createdAt}, ${comments.id}) > (${sql.param(cursor.createdAt, comments.createdAt)}, ${cursor.id}::uuid)`
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(comments)
+      .where(and(...conditions))
+      .orderBy(asc(createdAt), asc(comments.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const threads = rows.slice(0, limit).map(row => this.mapDbCommentToTreeNode(row));
+    await this.attachReplies(threads, maxDepth);
+
+    const last = threads[threads.length - 1];
+    return {
+      comments: threads,
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+      hasMore,
+    };
+  }
+
+  // Loads replies one level at a time, then counts the replies hidden below the last level
+  private static async attachReplies(nodes: CommentTreeNode[], maxDepth: number): Promise<void> {
+    let level = nodes;
+
+    for (let depth = 0; depth < maxDepth && level.length > 0; depth++) {
+      const parents = new Map(level.map(node => [node.id, node]));
+      const rows = await db
+        .select()
+        .from(comments)
+        .where(and(inArray(comments.parentId, [...parents.keys()]), eq(comments.status, 'approved')))
+        .orderBy(asc(comments.createdAt), asc(comments.id));
+
+      const nextLevel: CommentTreeNode[] = [];
+      for (const row of rows) {
+        const node = this.mapDbCommentToTreeNode(row);
+        parents.get(row.parentId!)?.replies.push(node);
+        nextLevel.push(node);
+      }
+      level.forEach(node => (node.replyCount = node.replies.length));
+      level = nextLevel;
+    }
+
+    if (level.length === 0) {
+      return;
+    }
+
+    const frontier = new Map(level.map(node => [node.id, node]));
+    const counts = await db
+      .select({ parentId: comments.parentId, count: sql<number>`count(*)` })
+      .from(comments)
+      .where(and(inArray(comments.parentId, [...frontier.keys()]), eq(comments.status, 'approved')))
+      .groupBy(comments.parentId);
+
+    for (const { parentId, count } of counts) {
+      const node = frontier.get(parentId!);
+      if (node) {
+        node.replyCount = Number(count);
+        node.hasMoreReplies = node.replyCount > 0;
+      }
+    }
+  }
+
+  private static encodeCursor(node: CommentTreeNode): string {
+    return Buffer.from(`${node.createdAt.toISOString()}|${node.id}`).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const createdAt = new Date(timestamp || '');
+
+    if (!id || !/^[0-9a-f-]{36}$/i.test(id) || isNaN(createdAt.getTime())) {
+      throw new Error('Invalid cursor');
+    }
+
+    return { createdAt, id };
+  }
+
+  private static mapDbCommentToTreeNode(comment: typeof comments.$inferSelect): CommentTreeNode {
+    const result: CommentTreeNode = {
+      id: comment.id,
+      blogPostId: comment.blogPostId,
+      authorName: comment.authorName,
+      authorEmail: comment.authorEmail,
+      content: comment.content,
+      status: comment.status as 'pending' | 'approved' | 'rejected' | 'spam',
+      isVerified: comment.isVerified,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      depth: comment.depth,
+      edited: comment.editedAt !== null,
+      deleted: comment.deletedAt !== null,
+      replies: [],
+      replyCount: 0,
+      hasMoreReplies: false,
+    };
+
+    if (comment.parentId) result.parentId = comment.parentId;
+    if (comment.authorWebsite) result.authorWebsite = comment.authorWebsite;
+    if (comment.ipAddress) result.ipAddress = comment.ipAddress;
+    if (comment.userAgent) result.userAgent = comment.userAgent;
+    if (comment.spamScore !== null) result.spamScore = comment.spamScore;
+    if (comment.moderationReason) result.moderationReason = comment.moderationReason;
+    if (comment.editedAt) result.editedAt = comment.editedAt;
+    if (comment.deletedAt) result.deletedAt = comment.deletedAt;
+
+    return result;
+  }
+}
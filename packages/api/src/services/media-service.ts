@@ -1,8 +1,30 @@
-import { eq, sql, inArray, or } from 'drizzle-orm';
-import { db, mediaAssets, pages } from '../db/index';
+import { eq, sql, inArray, or, and } from 'drizzle-orm';
+import { db, mediaAssets, pages, blogPosts } from '../db/index';
 import path from 'path';
 import fs from 'fs/promises';
+import { createHash, randomUUID } from 'crypto';
 import sharp from 'sharp';
+import { MediaUtils } from '@oldworldcharm/shared';
+import type {
+  MediaCrop,
+  MediaCropPreset,
+  MediaFocalPoint,
+  MediaStorageBackend,
+  MediaVariant,
+  MediaVariantFormat,
+  MediaVisibility,
+  ResponsiveImageSource,
+} from '@oldworldcharm/shared';
+import {
+  LocalStorage,
+  S3Storage,
+  PRIVATE_PREFIX,
+  STORAGE_BACKENDS,
+  isPrivateKey,
+  type MediaStorage,
+} from './media-storage';
+import { PageDeliveryService } from './page-delivery-service';
+import type { SocialImage } from './social-service';
 
 export interface MediaUsage {
   pageId: string;
@@ -17,11 +39,222 @@ export interface MediaUsageResult {
   totalUsages: number;
 }
 
+type MediaAssetRecord = typeof mediaAssets.$inferSelect;
+
+// The fields needed to locate an asset's files
+export type StoredAsset = Pick<MediaAssetRecord, 'id' | 'filename' | 'mimeType' | 'storage' | 'visibility'> & {
+  thumbnailUrl?: string | null;
+  variants?: unknown; // MediaVariant[] as stored
+  focalPoint?: unknown; // MediaFocalPoint as stored
+  crops?: unknown; // crops set by hand, by preset
+};
+
+// A file of an asset: the original, its thumbnail or a variant such as "768w.webp" or "square-768w.webp"
+export type MediaFileName =
+  | 'original'
+  | 'thumbnail'
+  | `${number}w.${MediaVariantFormat}`
+  | `${MediaCropPreset}-${number}w.${MediaVariantFormat}`;
+
+export interface VariantOptions {
+  breakpoints?: number[]; // widths in pixels; the image's own width is always included
+  formats?: MediaVariantFormat[]; // the original's format (JPEG or PNG) is always included
+  presets?: MediaCropPreset[]; // cropped copies to make; defaults to every preset
+}
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'contain' | 'inside' | 'fill';
+  crop?: MediaCrop; // applied to the original before resizing
+  preset?: MediaCropPreset; // crop to a preset when no crop is given
+  format?: MediaVariantFormat; // defaults to the original's format
+  quality?: number;
+}
+
+export interface TransformedImage {
+  body: Buffer;
+  contentType: string;
+  etag: string;
+  cacheHit: boolean;
+}
+
+export interface GeneratedVariants {
+  width: number;
+  height: number;
+  variants: MediaVariant[];
+}
+
+export interface MediaUpload {
+  id: string;
+  filename: string;
+  mimeType: string;
+  body: Buffer;
+  visibility: MediaVisibility;
+}
+
+export interface StoredUpload {
+  storage: MediaStorageBackend;
+  url: string;
+  thumbnailUrl: string | null;
+  width?: number;
+  height?: number;
+}
+
+export interface MediaMigrationOptions {
+  from: MediaStorageBackend;
+  to: MediaStorageBackend;
+  dryRun?: boolean; // only count the assets that would move
+  deleteSource?: boolean; // remove the files from the old backend once copied
+  onAsset?: (asset: MediaAssetRecord, error?: Error) => void;
+}
+
+export interface MediaMigrationResult {
+  migrated: number;
+  failed: Array<{ id: string; filename: string; error: string }>;
+  rewrittenUrls: number;
+}
+
 export class MediaService {
-  private uploadDir: string;
+  static readonly SUPPORTED_IMAGE_FORMATS = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/tiff'];
+  static readonly SIGNED_URL_TTL = parseInt(process.env.MEDIA_SIGNED_URL_TTL || '900', 10); // seconds
+
+  static readonly BREAKPOINTS = (process.env.MEDIA_BREAKPOINTS || '320,768,1024,1920')
+    .split(',')
+    .map(width => parseInt(width, 10))
+    .filter(width => width > 0);
+  static readonly VARIANT_FORMATS = (process.env.MEDIA_VARIANT_FORMATS || 'webp,avif')
+    .split(',')
+    .map(format => format.trim()) as MediaVariantFormat[];
+
+  private static readonly THUMBNAIL_SIZE = 300;
+  private static readonly TRANSFORM_CACHE_DIR = process.env.MEDIA_TRANSFORM_CACHE_DIR || './var/media-transforms';
+  private static readonly TRANSFORM_CACHE_MAX_BYTES = parseFloat(process.env.MEDIA_TRANSFORM_CACHE_MAX_MB || '1024') * 1024 * 1024;
+  private static readonly TRANSFORM_QUALITY_STEPS = [50, 65, 80, 95];
+  private static readonly VARIANT_QUALITY: Record<MediaVariantFormat, number> = { jpeg: 82, png: 90, webp: 80, avif: 60 };
+
+  readonly defaultBackend: MediaStorageBackend;
+  private storages: Partial<Record<MediaStorageBackend, MediaStorage | null>>;
+  private transformCacheBytes: number | null = null; // estimate, measured on the first write
+
+  constructor(
+    storages: Partial<Record<MediaStorageBackend, MediaStorage | null>> = {},
+    defaultBackend: string = process.env.MEDIA_STORAGE || 'local'
+  ) {
+    this.storages = { ...storages };
+    this.defaultBackend = defaultBackend as MediaStorageBackend;
+  }
+
+  /**
+   * Storage adapter for a backend, created from the environment on first use
+   */
+  getStorage(backend: string = this.defaultBackend): MediaStorage {
+    if (!STORAGE_BACKENDS.includes(backend as MediaStorageBackend)) {
+      throw new Error(`Unknown storage backend: ${backend}`);
+    }
+
+    const name = backend as MediaStorageBackend;
+    if (this.storages[name] === undefined) {
+      this.storages[name] = name === 's3' ? S3Storage.fromEnv() : LocalStorage.fromEnv();
+    }
+
+    const storage = this.storages[name];
+    if (!storage) {
+      throw new Error(`Storage backend is not configured: ${backend}`);
+    }
+    return storage;
+  }
+
+  /**
+   * Store an uploaded file and, for images, its thumbnail in the default backend
+   */
+  async storeUpload(upload: MediaUpload): Promise<StoredUpload> {
+    const storage = this.getStorage();
+    const asset: StoredAsset = { ...upload, storage: storage.backend };
+
+    await storage.put(this.getObjectKey(asset), upload.body, upload.mimeType);
+
+    const image = await this.createThumbnail(storage, asset, upload.body);
+    const urls = this.getAssetUrls(asset, image.hasThumbnail);
+
+    const result: StoredUpload = { storage: storage.backend, ...urls };
+    if (image.width) result.width = image.width;
+    if (image.height) result.height = image.height;
+    return result;
+  }
+
+  /**
+   * The url and thumbnailUrl stored for an asset. Private assets point at the API, which hands out signed URLs.
+   */
+  getAssetUrls(asset: StoredAsset, hasThumbnail: boolean = Boolean(asset.thumbnailUrl)): { url: string; thumbnailUrl: string | null } {
+    if (asset.visibility === 'private') {
+      return {
+        url: `/api/media/${asset.id}/file`,
+        thumbnailUrl: hasThumbnail ? `/api/media/${asset.id}/file?variant=thumbnail` : null,
+      };
+    }
+
+    const storage = this.getStorage(asset.storage);
+    return {
+      url: storage.getPublicUrl(this.getObjectKey(asset)),
+      thumbnailUrl: hasThumbnail ? storage.getPublicUrl(this.getThumbnailKey(asset)) : null,
+    };
+  }
+
+  /**
+   * A URL the browser can load one of the asset's files from: public URLs as they are, private ones signed for a limited time
+   */
+  getSignedUrl(asset: StoredAsset, file: MediaFileName = 'original', expiresInSeconds: number = MediaService.SIGNED_URL_TTL): string {
+    const key = this.getFileKey(asset, file);
+    if (!key) {
+      throw new Error(`Media file not found: ${file}`);
+    }
+    return this.getObjectUrl(this.getStorage(asset.storage), key, expiresInSeconds);
+  }
+
+  /**
+   * Storage key of one of the asset's files, or null when the asset has no such thumbnail or variant
+   */
+  getFileKey(asset: StoredAsset, file: MediaFileName): string | null {
+    if (file === 'original') {
+      return this.getObjectKey(asset);
+    }
+    if (file === 'thumbnail') {
+      return asset.thumbnailUrl ? this.getThumbnailKey(asset) : null;
+    }
+    return this.getVariants(asset).find(variant => this.getVariantName(variant) === file)?.key ?? null;
+  }
+
+  /**
+   * The variant manifest stored on an asset
+   */
+  getVariants(asset: Pick<StoredAsset, 'variants'>): MediaVariant[] {
+    return Array.isArray(asset.variants) ? (asset.variants as MediaVariant[]) : [];
+  }
+
+  getObjectKey(asset: Pick<StoredAsset, 'filename' | 'visibility'>): string {
+    return `${this.getKeyPrefix(asset)}${asset.filename}`;
+  }
+
+  getThumbnailKey(asset: Pick<StoredAsset, 'filename' | 'visibility'>): string {
+    return `${this.getKeyPrefix(asset)}thumbnails/thumb_${asset.filename}`;
+  }
+
+  /**
+   * Remove an asset's file, thumbnail, variants and cached transforms
+   */
+  async deleteAssetFiles(asset: StoredAsset): Promise<void> {
+    const storage = this.getStorage(asset.storage);
+    await storage.delete(this.getObjectKey(asset));
+    await Promise.all(this.getDerivedKeys(asset).map(key => storage.delete(key)));
+    await this.purgeTransforms(asset.id);
+  }
 
-  constructor(uploadDir: string = process.env.UPLOAD_DIR || './uploads') {
-    this.uploadDir = uploadDir;
+  /**
+   * Drop cached transforms of an asset once its file changes
+   */
+  async purgeTransforms(assetId: string): Promise<void> {
+    await fs.rm(path.join(MediaService.TRANSFORM_CACHE_DIR, assetId), { recursive: true, force: true });
   }
 
   /**
@@ -88,132 +321,247 @@ export class MediaService {
   }
 
   /**
-   * Generate responsive image variants for different screen sizes
+   * Generate resized copies of an image at every breakpoint narrower than it, in each format, plus the same
+   * for each crop preset, and return the manifest to store on the asset. Variants left over from earlier
+   * breakpoints or crops are removed.
    */
-  async generateResponsiveVariants(filePath: string, filename: string): Promise<string[]> {
-    const variants: string[] = [];
-    const sizes = [
-      { width: 320, suffix: 'mobile' },
-      { width: 768, suffix: 'tablet' },
-      { width: 1024, suffix: 'desktop' },
-      { width: 1920, suffix: 'large' },
-    ];
+  async generateVariants(asset: StoredAsset, options: VariantOptions = {}): Promise<GeneratedVariants> {
+    const storage = this.getStorage(asset.storage);
+    const source = await storage.get(this.getObjectKey(asset));
+    const metadata = await sharp(source).metadata();
 
-    try {
-      const image = sharp(filePath);
-      const metadata = await image.metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Image dimensions could not be read');
+    }
 
-      if (!metadata.width || !metadata.height) {
-        return variants;
+    // EXIF orientations 5-8 are rotated by 90 degrees
+    const rotated = (metadata.orientation || 1) >= 5;
+    const imageWidth = rotated ? metadata.height : metadata.width;
+    const imageHeight = rotated ? metadata.width : metadata.height;
+    const fallbackFormat = this.getFallbackFormat(asset.mimeType);
+    const formats = [...new Set([...(options.formats || MediaService.VARIANT_FORMATS), fallbackFormat])];
+    const breakpoints = options.breakpoints || MediaService.BREAKPOINTS;
+
+    // Uncropped copies first, then one set per crop preset
+    const sets: Array<{ preset?: MediaCropPreset; crop?: MediaCrop; widths: number[]; formats: MediaVariantFormat[] }> = [
+      { widths: this.getVariantWidths(breakpoints, imageWidth), formats },
+    ];
+    for (const preset of options.presets || (Object.keys(MediaUtils.CROP_PRESETS) as MediaCropPreset[])) {
+      const crop = MediaUtils.getPresetCrop(this.getCropSettings(asset, imageWidth, imageHeight), preset);
+      if (!crop || !MediaUtils.isCropInside(crop, imageWidth, imageHeight)) {
+        continue; // a hand-set crop that no longer fits, e.g. after the file was replaced
       }
 
-      for (const size of sizes) {
-        // Only generate variant if original is larger
-        if (metadata.width > size.width) {
-          const ext = path.extname(filename);
-          const name = path.basename(filename, ext);
-          const variantFilename = `${name}-${size.suffix}${ext}`;
-          const variantPath = path.join(this.uploadDir, 'variants', variantFilename);
-
-          // Ensure variants directory exists
-          await fs.mkdir(path.join(this.uploadDir, 'variants'), { recursive: true });
-
-          await image
-            .resize(size.width, null, { 
-              withoutEnlargement: true,
-              fit: 'inside'
-            })
-            .jpeg({ quality: 85 })
-            .toFile(variantPath);
+      // Fixed-size presets such as the Open Graph image are made once, in a format every crawler reads
+      const { width } = MediaUtils.CROP_PRESETS[preset];
+      sets.push(
+        width
+          ? { preset, crop, widths: [Math.min(width, crop.width)], formats: [fallbackFormat] }
+          : { preset, crop, widths: this.getVariantWidths(breakpoints, crop.width), formats }
+      );
+    }
+
+    const variants: MediaVariant[] = [];
+    for (const set of sets) {
+      for (const format of set.formats) {
+        for (const width of set.widths) {
+          let image = sharp(source).rotate(); // apply EXIF orientation
+          if (set.crop) {
+            image = image.extract(set.crop);
+          }
+
+          const { data, info } = await image
+            .resize(width, null, { withoutEnlargement: true })
+            .toFormat(format, format === 'png' ? { compressionLevel: 9 } : { quality: MediaService.VARIANT_QUALITY[format] })
+            .toBuffer({ resolveWithObject: true });
 
-          variants.push(`/uploads/variants/${variantFilename}`);
+          const variant = { width: info.width, height: info.height, format, size: info.size, ...(set.preset && { preset: set.preset }) };
+          const key = this.getVariantKey(asset, variant);
+          await storage.put(key, data, `image/${format}`);
+          variants.push({ key, url: this.getVariantUrl(asset, { key, ...variant }), ...variant });
         }
       }
-    } catch (error) {
-      console.error('Error generating responsive variants:', error);
     }
 
-    return variants;
+    const keys = new Set(variants.map(variant => variant.key));
+    await Promise.all(this.getVariants(asset).filter(variant => !keys.has(variant.key)).map(variant => storage.delete(variant.key)));
+
+    return { width: imageWidth, height: imageHeight, variants };
   }
 
   /**
-   * Convert image to modern formats (WebP, AVIF)
+   * Resize, crop or convert an image on request. Sizes snap to the breakpoints and quality to a few
+   * steps so the number of copies stays bounded. Results are cached on disk until the asset changes
+   * or the cache outgrows its limit.
    */
-  async generateModernFormats(filePath: string, filename: string): Promise<{ webp?: string; avif?: string }> {
-    const formats: { webp?: string; avif?: string } = {};
+  async transformImage(asset: StoredAsset & { updatedAt: Date }, requested: ImageTransform): Promise<TransformedImage> {
+    const format = requested.format || this.getSourceFormat(asset.mimeType);
+    const transform = this.snapTransform(requested, format);
+    const version = String(asset.updatedAt.getTime());
+    const hash = createHash('sha256')
+      .update(JSON.stringify({ ...transform, format, version }))
+      .digest('hex')
+      .slice(0, 32);
+    const cachePath = path.join(MediaService.TRANSFORM_CACHE_DIR, asset.id, version, `${hash}.${format}`);
+    const result = { contentType: `image/${format}`, etag: `"${hash}"` };
 
     try {
-      const image = sharp(filePath);
-      const ext = path.extname(filename);
-      const name = path.basename(filename, ext);
-
-      // Ensure modern formats directory exists
-      await fs.mkdir(path.join(this.uploadDir, 'modern'), { recursive: true });
-
-      // Generate WebP
-      const webpFilename = `${name}.webp`;
-      const webpPath = path.join(this.uploadDir, 'modern', webpFilename);
-      await image.clone().webp({ quality: 85 }).toFile(webpPath);
-      formats.webp = `/uploads/modern/${webpFilename}`;
-
-      // Generate AVIF (more efficient but newer format)
-      const avifFilename = `${name}.avif`;
-      const avifPath = path.join(this.uploadDir, 'modern', avifFilename);
-      await image.clone().avif({ quality: 80 }).toFile(avifPath);
-      formats.avif = `/uploads/modern/${avifFilename}`;
+      const body = await fs.readFile(cachePath);
+      // The modification time orders eviction, so recently served copies stay
+      const now = new Date();
+      await fs.utimes(cachePath, now, now);
+      return { ...result, body, cacheHit: true };
     } catch (error) {
-      console.error('Error generating modern formats:', error);
+      if ((error as { code?: string }).code !== 'ENOENT') throw error;
+    }
+
+    const source = await this.getStorage(asset.storage).get(this.getObjectKey(asset));
+    const { width = 0, height = 0, orientation = 1 } = await sharp(source).metadata();
+    const [imageWidth, imageHeight] = orientation >= 5 ? [height, width] : [width, height];
+    const settings = this.getCropSettings(asset, imageWidth, imageHeight);
+
+    let crop = transform.crop;
+    if (!crop && transform.preset) {
+      crop = MediaUtils.getPresetCrop(settings, transform.preset) ?? undefined;
+    } else if (!crop && settings.focalPoint && transform.width && transform.height && (transform.fit || 'cover') === 'cover') {
+      // Keep the focal point in frame instead of cutting around the center
+      crop = MediaUtils.getFocalCrop(imageWidth, imageHeight, transform.width / transform.height, settings.focalPoint);
+    }
+
+    let image = sharp(source).rotate(); // apply EXIF orientation before cropping
+    if (crop) {
+      if (!MediaUtils.isCropInside(crop, imageWidth, imageHeight)) {
+        throw new Error('Crop area is outside the image');
+      }
+      image = image.extract(crop);
+    }
+
+    if (transform.width || transform.height) {
+      image = image.resize(transform.width || null, transform.height || null, {
+        fit: transform.fit || 'cover',
+        withoutEnlargement: true,
+      });
+    }
+
+    const quality = transform.quality || MediaService.VARIANT_QUALITY[format];
+    const body = await image.toFormat(format, format === 'png' ? { compressionLevel: 9 } : { quality }).toBuffer();
+
+    // Write to a temporary file first so concurrent requests never read a partial image
+    const tempPath = `${cachePath}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, cachePath);
+
+    await this.pruneTransformVersions(asset.id, version);
+    await this.trimTransformCache(body.length, cachePath);
+
+    return { ...result, body, cacheHit: false };
+  }
+
+  /**
+   * Resized copies of the public images with the given URLs, keyed by URL, for rendering `<picture>` elements
+   */
+  async getResponsiveImages(urls: string[]): Promise<Record<string, ResponsiveImageSource[]>> {
+    if (urls.length === 0) {
+      return {};
+    }
+
+    const assets = await db
+      .select({ url: mediaAssets.url, variants: mediaAssets.variants })
+      .from(mediaAssets)
+      .where(and(inArray(mediaAssets.url, urls), eq(mediaAssets.visibility, 'public')));
+
+    const images: Record<string, ResponsiveImageSource[]> = {};
+    for (const asset of assets) {
+      const variants = this.getVariants(asset);
+      if (variants.length > 0) {
+        images[asset.url] = variants.map(({ url, width, format, preset }) => ({ url, width, format, ...(preset && { preset }) }));
+      }
+    }
+    return images;
+  }
+
+  /**
+   * Open Graph crops of the public images with the given URLs, keyed by URL
+   */
+  async getSocialImages(urls: string[]): Promise<Record<string, SocialImage>> {
+    if (urls.length === 0) {
+      return {};
     }
 
-    return formats;
+    const assets = await db
+      .select({ url: mediaAssets.url, variants: mediaAssets.variants })
+      .from(mediaAssets)
+      .where(and(inArray(mediaAssets.url, urls), eq(mediaAssets.visibility, 'public')));
+
+    const images: Record<string, SocialImage> = {};
+    for (const asset of assets) {
+      const og = this.getVariants(asset).find(variant => variant.preset === 'og');
+      if (og) {
+        images[asset.url] = { url: og.url, width: og.width, height: og.height };
+      }
+    }
+    return images;
   }
 
   /**
-   * Optimize image by reducing file size while maintaining quality
+   * The breakpoints and formats an asset's variants were made with, to regenerate them after its crops change
    */
-  async optimizeImage(filePath: string, mimeType: string): Promise<void> {
+  getVariantOptions(asset: Pick<StoredAsset, 'variants'>): VariantOptions {
+    const uncropped = this.getVariants(asset).filter(variant => !variant.preset);
+    return {
+      breakpoints: [...new Set(uncropped.map(variant => variant.width))],
+      formats: [...new Set(uncropped.map(variant => variant.format))],
+    };
+  }
+
+  /**
+   * Optimize image by reducing file size while maintaining quality. Returns the new size in bytes, or null when unchanged.
+   */
+  async optimizeImage(asset: StoredAsset): Promise<number | null> {
     try {
-      const image = sharp(filePath);
-      
-      switch (mimeType) {
+      const storage = this.getStorage(asset.storage);
+      const key = this.getObjectKey(asset);
+      const image = sharp(await storage.get(key));
+      let optimized: Buffer;
+
+      switch (asset.mimeType) {
         case 'image/jpeg':
-          await image
-            .jpeg({ 
+          optimized = await image
+            .jpeg({
               quality: 85,
               progressive: true,
-              mozjpeg: true 
+              mozjpeg: true
             })
-            .toFile(filePath + '.optimized');
+            .toBuffer();
           break;
         case 'image/png':
-          await image
-            .png({ 
+          optimized = await image
+            .png({
               quality: 85,
               compressionLevel: 9,
-              progressive: true 
+              progressive: true
             })
-            .toFile(filePath + '.optimized');
+            .toBuffer();
           break;
         case 'image/webp':
-          await image
-            .webp({ 
+          optimized = await image
+            .webp({
               quality: 85,
-              effort: 6 
+              effort: 6
             })
-            .toFile(filePath + '.optimized');
+            .toBuffer();
           break;
         default:
-          return; // No optimization for unsupported formats
+          return null; // No optimization for unsupported formats
       }
 
       // Replace original with optimized version
-      await fs.rename(filePath + '.optimized', filePath);
+      await storage.put(key, optimized, asset.mimeType);
+      return optimized.length;
     } catch (error) {
       console.error('Error optimizing image:', error);
-      // Clean up optimized file if it exists
-      try {
-        await fs.unlink(filePath + '.optimized');
-      } catch {}
+      return null;
     }
   }
 
@@ -288,19 +636,11 @@ export class MediaService {
       // Delete unused assets
       if (unusedAssets.length > 0) {
         const unusedIds = unusedAssets.map(asset => asset.id);
-        
-        // Delete files from disk
+
+        // Delete files from storage
         for (const asset of unusedAssets) {
           try {
-            const filePath = path.join(this.uploadDir, asset.filename);
-            await fs.unlink(filePath);
-
-            // Delete thumbnail if it exists
-            if (asset.thumbnailUrl) {
-              const thumbnailFilename = path.basename(asset.thumbnailUrl);
-              const thumbnailPath = path.join(this.uploadDir, 'thumbnails', thumbnailFilename);
-              await fs.unlink(thumbnailPath).catch(() => {});
-            }
+            await this.deleteAssetFiles(asset);
           } catch (error) {
             console.error(`Error deleting file for asset ${asset.id}:`, error);
           }
@@ -319,6 +659,285 @@ export class MediaService {
       return { deletedCount: 0, freedSpace: 0 };
     }
   }
+
+  /**
+   * Copy assets from one storage backend to another, then point their url, thumbnailUrl and variants, and any page
+   * content or featured image that used the old public URLs, at the new backend. Assets that fail keep
+   * their old backend, so the migration can be run again.
+   */
+  async migrateAssets(options: MediaMigrationOptions): Promise<MediaMigrationResult> {
+    if (options.from === options.to) {
+      throw new Error('Source and target storage backends must differ');
+    }
+
+    const source = this.getStorage(options.from);
+    const target = this.getStorage(options.to);
+    const result: MediaMigrationResult = { migrated: 0, failed: [], rewrittenUrls: 0 };
+
+    const assets = await db.select().from(mediaAssets).where(eq(mediaAssets.storage, options.from));
+
+    for (const asset of assets) {
+      if (options.dryRun) {
+        result.migrated++;
+        options.onAsset?.(asset);
+        continue;
+      }
+
+      try {
+        const keys = [this.getObjectKey(asset), ...this.getDerivedKeys(asset)];
+        const copied: string[] = [];
+
+        for (const key of keys) {
+          // The original must exist; thumbnails and variants only when they were generated
+          if (key !== keys[0] && !(await source.exists(key))) continue;
+          await target.put(key, await source.get(key), key === keys[0] ? asset.mimeType : this.getContentType(key, asset));
+          copied.push(key);
+        }
+
+        const migrated = { ...asset, storage: options.to };
+        const urls = this.getAssetUrls(migrated);
+        const variants = this.getVariants(asset).map(variant => ({ ...variant, url: this.getVariantUrl(migrated, variant) }));
+        await db
+          .update(mediaAssets)
+          .set({ storage: options.to, ...urls, variants, updatedAt: new Date() })
+          .where(eq(mediaAssets.id, asset.id));
+
+        // Private assets are addressed through the API, so only public URLs change
+        for (const key of copied.filter(key => !isPrivateKey(key))) {
+          result.rewrittenUrls += await this.rewriteReferences(source.getPublicUrl(key), target.getPublicUrl(key));
+        }
+
+        if (options.deleteSource) {
+          await Promise.all(copied.map(key => source.delete(key)));
+        }
+
+        result.migrated++;
+        options.onAsset?.(asset);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        result.failed.push({ id: asset.id, filename: asset.filename, error: failure.message });
+        options.onAsset?.(asset, failure);
+      }
+    }
+
+    if (result.rewrittenUrls > 0) {
+      await PageDeliveryService.purgeAll();
+    }
+
+    return result;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private async createThumbnail(
+    storage: MediaStorage,
+    asset: StoredAsset,
+    body: Buffer
+  ): Promise<{ hasThumbnail: boolean; width?: number; height?: number }> {
+    if (!MediaService.SUPPORTED_IMAGE_FORMATS.includes(asset.mimeType)) {
+      return { hasThumbnail: false };
+    }
+
+    try {
+      const image = sharp(body);
+      const metadata = await image.metadata();
+
+      const thumbnail = await image
+        .resize(MediaService.THUMBNAIL_SIZE, MediaService.THUMBNAIL_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true
+        })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      await storage.put(this.getThumbnailKey(asset), thumbnail, 'image/jpeg');
+
+      const result: { hasThumbnail: boolean; width?: number; height?: number } = { hasThumbnail: true };
+      if (metadata.width) result.width = metadata.width;
+      if (metadata.height) result.height = metadata.height;
+      return result;
+    } catch (error) {
+      console.error('Error processing image:', error);
+      return { hasThumbnail: false };
+    }
+  }
+
+  private getKeyPrefix(asset: Pick<StoredAsset, 'visibility'>): string {
+    return asset.visibility === 'private' ? PRIVATE_PREFIX : '';
+  }
+
+  private getVariantName(variant: Pick<MediaVariant, 'width' | 'format' | 'preset'>): MediaFileName {
+    return variant.preset ? `${variant.preset}-${variant.width}w.${variant.format}` : `${variant.width}w.${variant.format}`;
+  }
+
+  private getVariantKey(asset: StoredAsset, variant: Pick<MediaVariant, 'width' | 'format' | 'preset'>): string {
+    const name = path.basename(asset.filename, path.extname(asset.filename));
+    const ext = variant.format === 'jpeg' ? 'jpg' : variant.format;
+    return `${this.getKeyPrefix(asset)}variants/${name}-${variant.preset ? `${variant.preset}-` : ''}${variant.width}w.${ext}`;
+  }
+
+  private getVariantWidths(breakpoints: number[], width: number): number[] {
+    return [...new Set([...breakpoints.filter(breakpoint => breakpoint < width), width])].sort((a, b) => a - b);
+  }
+
+  // Widths and heights round up to the next breakpoint, keeping the requested aspect ratio
+  private snapTransform(transform: ImageTransform, format: MediaVariantFormat): ImageTransform {
+    const breakpoints = [...MediaService.BREAKPOINTS].sort((a, b) => a - b);
+    const snap = (size: number) => breakpoints.find(breakpoint => breakpoint >= size) ?? breakpoints[breakpoints.length - 1] ?? size;
+    const snapped: ImageTransform = { ...transform };
+
+    if (transform.width) {
+      snapped.width = snap(transform.width);
+      if (transform.height) {
+        snapped.height = Math.max(1, Math.round((transform.height * snapped.width) / transform.width));
+      }
+    } else if (transform.height) {
+      snapped.height = snap(transform.height);
+    }
+
+    if (format === 'png' || !transform.quality) {
+      delete snapped.quality;
+    } else {
+      const quality = transform.quality;
+      snapped.quality = MediaService.TRANSFORM_QUALITY_STEPS.reduce((closest, step) =>
+        Math.abs(step - quality) < Math.abs(closest - quality) ? step : closest
+      );
+    }
+
+    return snapped;
+  }
+
+  // Copies made for earlier versions of the asset can no longer be requested
+  private async pruneTransformVersions(assetId: string, version: string): Promise<void> {
+    const assetDir = path.join(MediaService.TRANSFORM_CACHE_DIR, assetId);
+    const entries = await fs.readdir(assetDir, { withFileTypes: true });
+
+    await Promise.all(
+      entries
+        .filter(entry => entry.name !== version)
+        .map(entry => fs.rm(path.join(assetDir, entry.name), { recursive: true, force: true }))
+    );
+  }
+
+  // Removes the least recently served copies once the cache outgrows its limit, down to 90% of it
+  private async trimTransformCache(added: number, keep: string): Promise<void> {
+    if (this.transformCacheBytes !== null) {
+      this.transformCacheBytes += added;
+      if (this.transformCacheBytes <= MediaService.TRANSFORM_CACHE_MAX_BYTES) {
+        return;
+      }
+    }
+
+    // Other processes may share the directory, so the estimate is corrected from the files
+    const files = await this.listTransformFiles();
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+
+    if (total > MediaService.TRANSFORM_CACHE_MAX_BYTES) {
+      const target = MediaService.TRANSFORM_CACHE_MAX_BYTES * 0.9;
+      for (const file of files.sort((a, b) => a.modifiedAt - b.modifiedAt)) {
+        if (total <= target) break;
+        if (file.path === keep) continue;
+
+        await fs.rm(file.path, { force: true });
+        total -= file.size;
+      }
+    }
+
+    this.transformCacheBytes = total;
+  }
+
+  private async listTransformFiles(): Promise<Array<{ path: string; size: number; modifiedAt: number }>> {
+    const files: Array<{ path: string; size: number; modifiedAt: number }> = [];
+    const list = async (dir: string, depth: number): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory() && depth < 2) {
+          await list(entryPath, depth + 1);
+        } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+          const stats = await fs.stat(entryPath).catch(() => null);
+          if (stats) files.push({ path: entryPath, size: stats.size, modifiedAt: stats.mtimeMs });
+        }
+      }
+    };
+
+    // <asset id>/<version>/<hash>.<format>
+    await list(MediaService.TRANSFORM_CACHE_DIR, 0);
+    return files;
+  }
+
+  private getCropSettings(asset: StoredAsset, width: number, height: number) {
+    return {
+      width,
+      height,
+      focalPoint: (asset.focalPoint as MediaFocalPoint | null) ?? undefined,
+      crops: (asset.crops as Partial<Record<MediaCropPreset, MediaCrop>> | null) ?? undefined,
+    };
+  }
+
+  // Like the asset's own url, private variants are addressed through the API
+  private getVariantUrl(asset: StoredAsset, variant: Pick<MediaVariant, 'key' | 'width' | 'format' | 'preset'>): string {
+    if (asset.visibility === 'private') {
+      return `/api/media/${asset.id}/file?variant=${this.getVariantName(variant)}`;
+    }
+    return this.getStorage(asset.storage).getPublicUrl(variant.key);
+  }
+
+  // Variants keep the original's format when browsers can show it
+  private getFallbackFormat(mimeType: string): MediaVariantFormat {
+    return mimeType === 'image/png' ? 'png' : 'jpeg';
+  }
+
+  private getSourceFormat(mimeType: string): MediaVariantFormat {
+    const format = mimeType.replace('image/', '');
+    return ['webp', 'avif'].includes(format) ? (format as MediaVariantFormat) : this.getFallbackFormat(mimeType);
+  }
+
+  // Thumbnail (whether or not one was generated) and the variants in the manifest
+  private getDerivedKeys(asset: StoredAsset): string[] {
+    return [this.getThumbnailKey(asset), ...this.getVariants(asset).map(variant => variant.key)];
+  }
+
+  private getContentType(key: string, asset: StoredAsset): string {
+    const variant = this.getVariants(asset).find(candidate => candidate.key === key);
+    return variant ? `image/${variant.format}` : 'image/jpeg'; // thumbnails are JPEGs
+  }
+
+  private getObjectUrl(storage: MediaStorage, key: string, expiresInSeconds: number = MediaService.SIGNED_URL_TTL): string {
+    return isPrivateKey(key) ? storage.getSignedUrl(key, expiresInSeconds) : storage.getPublicUrl(key);
+  }
+
+  // Replace a URL in page content, SEO data and blog featured images; returns the number of rows changed
+  private async rewriteReferences(from: string, to: string): Promise<number> {
+    if (from === to) {
+      return 0;
+    }
+
+    const pattern = `%${from}%`;
+    const updatedPages = await db
+      .update(pages)
+      .set({
+        content: sql`replace(${pages.content}::text, ${from}, ${to})::jsonb`,
+        seoData: sql`replace(${pages.seoData}::text, ${from}, ${to})::jsonb`,
+      })
+      .where(or(sql`${pages.content}::text LIKE ${pattern}`, sql`${pages.seoData}::text LIKE ${pattern}`))
+      .returning({ id: pages.id });
+
+    const updatedPosts = await db
+      .update(blogPosts)
+      .set({ featuredImage: to })
+      .where(eq(blogPosts.featuredImage, from))
+      .returning({ id: blogPosts.id });
+
+    return updatedPages.length + updatedPosts.length;
+  }
 }
 
-export const mediaService = new MediaService();
\ No newline at end of file
+export const mediaService = new MediaService();
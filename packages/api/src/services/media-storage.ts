@@ -0,0 +1,319 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { MediaStorageBackend } from '@oldworldcharm/shared';
+import { Secrets } from './secrets';
+
+export const STORAGE_BACKENDS: MediaStorageBackend[] = ['local', 's3'];
+
+// Objects under this prefix are never publicly readable and are only served through signed URLs
+export const PRIVATE_PREFIX = 'private/';
+
+// Where media files live, e.g. a local directory or an S3 bucket. Keys are relative paths such as "thumbnails/thumb_a.jpg".
+export interface MediaStorage {
+  readonly backend: MediaStorageBackend;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>; // succeeds when the object does not exist
+  exists(key: string): Promise<boolean>;
+  getPublicUrl(key: string): string;
+  getSignedUrl(key: string, expiresInSeconds: number): string;
+}
+
+export const isPrivateKey = (key: string): boolean => key.startsWith(PRIVATE_PREFIX);
+
+export interface LocalStorageOptions {
+  root: string;
+  privateRoot: string; // kept outside the statically served root
+  publicPath: string; // URL path the root is served under
+  signedUrlBase: string; // URL of the route that serves signed private files
+  signingSecret: string;
+}
+
+/**
+ * Stores media on the local filesystem. Public files are served statically; private files
+ * are served by the API when the URL carries a valid signature.
+ */
+export class LocalStorage implements MediaStorage {
+  readonly backend = 'local' as const;
+
+  constructor(private readonly options: LocalStorageOptions) {}
+
+  /**
+   * Create local storage from UPLOAD_DIR and related environment variables
+   */
+  static fromEnv(): LocalStorage {
+    const root = process.env.UPLOAD_DIR || './uploads';
+    return new LocalStorage({
+      root,
+      privateRoot: process.env.UPLOAD_PRIVATE_DIR || './var/uploads-private',
+      publicPath: '/uploads',
+      signedUrlBase: `${process.env.API_URL || 'http://localhost:3001'}/api/media/files`,
+      signingSecret: Secrets.get('mediaSigning'),
+    });
+  }
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.getFilePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.getFilePath(key));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        throw new Error(`Media object not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getFilePath(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.getFilePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    if (isPrivateKey(key)) {
+      throw new Error('Private media has no public URL');
+    }
+    return `${this.options.publicPath}/${encodeKey(key)}`;
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): string {
+    if (!isPrivateKey(key)) {
+      return this.getPublicUrl(key);
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const query = new URLSearchParams({ expires: String(expires), signature: this.sign(key, expires) });
+    return `${this.options.signedUrlBase}/${encodeKey(key)}?${query}`;
+  }
+
+  /**
+   * Check a signed URL's key, expiry and signature
+   */
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    if (!isPrivateKey(key) || !Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Absolute path of an object on disk. Rejects keys that would escape the storage directories.
+   */
+  getFilePath(key: string): string {
+    const root = path.resolve(isPrivateKey(key) ? this.options.privateRoot : this.options.root);
+    const relative = isPrivateKey(key) ? key.slice(PRIVATE_PREFIX.length) : key;
+    const filePath = path.resolve(root, relative);
+
+    if (!relative || !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.options.signingSecret).update(`${key}\n${expires}`).digest('hex');
+  }
+}
+
+export interface S3StorageOptions {
+  endpoint: string; // e.g. https://s3.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean; // bucket in the path instead of the host name; MinIO needs this
+  publicUrl?: string; // base URL public objects are served from, e.g. a CDN
+}
+
+/**
+ * Stores media in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2), signing requests with AWS Signature Version 4.
+ * The bucket must allow public reads of everything outside the private/ prefix.
+ */
+export class S3Storage implements MediaStorage {
+  readonly backend = 's3' as const;
+
+  private static readonly MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60; // SigV4 limit
+
+  constructor(private readonly options: S3StorageOptions) {}
+
+  /**
+   * Create S3 storage from the S3_* environment variables, or null when no bucket is configured
+   */
+  static fromEnv(): S3Storage | null {
+    if (!process.env.S3_BUCKET) {
+      return null;
+    }
+
+    const options: S3StorageOptions = {
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    };
+    if (process.env.S3_PUBLIC_URL) options.publicUrl = process.env.S3_PUBLIC_URL;
+
+    return new S3Storage(options);
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType });
+    await this.expectOk(response, key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new Error(`Media object not found: ${key}`);
+    }
+    await this.expectOk(response, key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (response.status !== 404) {
+      await this.expectOk(response, key);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return false;
+    }
+    await this.expectOk(response, key);
+    return true;
+  }
+
+  getPublicUrl(key: string): string {
+    if (isPrivateKey(key)) {
+      throw new Error('Private media has no public URL');
+    }
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/$/, '')}/${encodeKey(key)}`;
+    }
+    return this.getObjectUrl(key).toString();
+  }
+
+  /**
+   * Presigned GET URL, valid for at most seven days
+   */
+  getSignedUrl(key: string, expiresInSeconds: number, date: Date = new Date()): string {
+    const url = this.getObjectUrl(key);
+    const { amzDate, scope, credential } = this.getCredentialScope(date);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': credential,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), S3Storage.MAX_PRESIGN_SECONDS)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = this.canonicalQuery(query);
+    const canonicalRequest = ['GET', url.pathname, canonicalQuery, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+
+    url.search = `${canonicalQuery}&X-Amz-Signature=${this.signature(canonicalRequest, amzDate, scope)}`;
+    return url.toString();
+  }
+
+  /**
+   * Private helper methods
+   */
+  private async request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const url = this.getObjectUrl(key);
+    const date = new Date();
+    const { amzDate, scope, credential } = this.getCredentialScope(date);
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': sha256(body || ''),
+      'x-amz-date': amzDate,
+    };
+    // fetch sets the host header from the URL itself, but it must be signed
+    const signed: Record<string, string> = { ...headers, host: url.host };
+    const names = Object.keys(signed).sort();
+    const canonicalHeaders = names.map(name => `${name}:${signed[name]!.trim()}\n`).join('');
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, headers['x-amz-content-sha256']].join('\n');
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${this.signature(canonicalRequest, amzDate, scope)}`,
+      },
+      ...(body && { body: new Uint8Array(body) }),
+    });
+  }
+
+  private async expectOk(response: Response, key: string): Promise<void> {
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).match(/<Message>([^<]*)<\/Message>/)?.[1];
+      throw new Error(`S3 request for ${key} failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+  }
+
+  private getObjectUrl(key: string): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const basePath = endpoint.pathname.replace(/\/$/, '');
+
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${this.options.bucket}/${encodeKey(key)}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}${basePath}/${encodeKey(key)}`);
+  }
+
+  private getCredentialScope(date: Date): { amzDate: string; scope: string; credential: string } {
+    const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const scope = `${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+    return { amzDate, scope, credential: `${this.options.accessKeyId}/${scope}` };
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name]!)}`)
+      .join('&');
+  }
+
+  private signature(canonicalRequest: string, amzDate: string, scope: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = Buffer.from(`AWS4${this.options.secretAccessKey}`);
+    for (const part of [amzDate.slice(0, 8), this.options.region, 's3', 'aws4_request']) {
+      signingKey = createHmac('sha256', signingKey).update(part).digest();
+    }
+
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+}
+
+// encodeURIComponent leaves !'()* alone, which SigV4 requires to be escaped
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
+
+const sha256 = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
@@ -0,0 +1,272 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, comments, pages, blogPosts, users, notificationUnsubscribes } from '../db/index';
+import { RateLimiter } from '../db/redis';
+import { Secrets } from './secrets';
+import { SmtpTransport, type MailTransport } from './smtp-transport';
+import { CommenterIdentityService } from './commenter-identity-service';
+import { NotificationTemplates, type EmailContent } from './notification-templates';
+import type { Comment } from './comments-service';
+import type { UserPreferences } from '@oldworldcharm/shared';
+
+// What a recipient can unsubscribe from: everything, new-comment emails (authors), or replies to one comment
+export type NotificationScope = 'all' | 'pending-comments' | `thread:${string}`;
+
+export type NotifiableComment = Pick<Comment, 'id' | 'blogPostId' | 'parentId' | 'authorName' | 'authorEmail' | 'content'>;
+
+export class NotificationService {
+  private static readonly ENABLED = process.env.NOTIFICATIONS_ENABLED !== 'false';
+  private static readonly BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+  private static readonly API_URL = process.env.API_URL || 'http://localhost:3001';
+  private static readonly EDITOR_URL = process.env.EDITOR_URL || 'http://localhost:5173';
+  private static readonly SITE_NAME = process.env.SITE_NAME || 'Visual Website Builder';
+  private static readonly MAIL_FROM = process.env.MAIL_FROM || 'Visual Website Builder <no-reply@localhost>';
+  private static readonly UNSUBSCRIBE_SECRET = Secrets.get('unsubscribe');
+
+  private static readonly VERIFICATION_EMAIL_WINDOW = 60 * 60; // at most one verification email per address per hour
+
+  // Null when SMTP is not configured, in which case notifications are skipped
+  private static transport: MailTransport | null = SmtpTransport.fromEnv();
+
+  /**
+   * Replace the mail transport, e.g. with an outbox in tests
+   */
+  static setTransport(transport: MailTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Email the post's author about a comment waiting for moderation. Never throws: failures are logged.
+   */
+  static async notifyPendingComment(comment: NotifiableComment): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    try {
+      const [post] = await db
+        .select({
+          title: pages.title,
+          authorEmail: users.email,
+          authorActive: users.isActive,
+          authorPreferences: users.preferences,
+        })
+        .from(pages)
+        .innerJoin(blogPosts, eq(pages.id, blogPosts.pageId))
+        .innerJoin(users, eq(blogPosts.authorId, users.id))
+        .where(eq(pages.id, comment.blogPostId))
+        .limit(1);
+
+      if (!post || !post.authorActive || !this.wantsCommentEmails(post.authorPreferences as UserPreferences | null)) {
+        return;
+      }
+      // Authors replying on their own posts don't need to be told about it
+      if (post.authorEmail.toLowerCase() === comment.authorEmail.toLowerCase()) {
+        return;
+      }
+      if (await this.isUnsubscribed(post.authorEmail, ['all', 'pending-comments'])) {
+        return;
+      }
+
+      const unsubscribeUrl = this.getUnsubscribeUrl(post.authorEmail, 'pending-comments');
+      const content = NotificationTemplates.pendingComment({
+        siteName: this.SITE_NAME,
+        postTitle: post.title,
+        commenterName: comment.authorName,
+        content: comment.content,
+        moderationUrl: `${this.EDITOR_URL}/comments?status=pending`,
+        unsubscribeUrl,
+      });
+
+      await this.send(post.authorEmail, content, unsubscribeUrl);
+    } catch (error) {
+      console.error('Failed to send pending comment notification:', error);
+    }
+  }
+
+  /**
+   * Email the author of the parent comment about an approved reply. Never throws: failures are logged.
+   */
+  static async notifyApprovedReply(reply: NotifiableComment): Promise<void> {
+    if (!this.isEnabled() || !reply.parentId) return;
+
+    try {
+      const [parent] = await db
+        .select({
+          id: comments.id,
+          authorName: comments.authorName,
+          authorEmail: comments.authorEmail,
+          status: comments.status,
+          postTitle: pages.title,
+          postSlug: pages.slug,
+        })
+        .from(comments)
+        .innerJoin(pages, eq(comments.blogPostId, pages.id))
+        .where(eq(comments.id, reply.parentId))
+        .limit(1);
+
+      if (!parent || parent.status !== 'approved') {
+        return;
+      }
+      if (parent.authorEmail.toLowerCase() === reply.authorEmail.toLowerCase()) {
+        return;
+      }
+
+      const threadScope: NotificationScope = `thread:${parent.id}`;
+      if (await this.isUnsubscribed(parent.authorEmail, ['all', threadScope])) {
+        return;
+      }
+
+      const threadUnsubscribeUrl = this.getUnsubscribeUrl(parent.authorEmail, threadScope);
+      const content = NotificationTemplates.approvedReply({
+        siteName: this.SITE_NAME,
+        postTitle: parent.postTitle,
+        postUrl: `${this.BASE_URL}/blog/${parent.postSlug}#comment-${reply.id}`,
+        recipientName: parent.authorName,
+        replierName: reply.authorName,
+        content: reply.content,
+        threadUnsubscribeUrl,
+        unsubscribeAllUrl: this.getUnsubscribeUrl(parent.authorEmail, 'all'),
+      });
+
+      await this.send(parent.authorEmail, content, threadUnsubscribeUrl);
+    } catch (error) {
+      console.error('Failed to send reply notification:', error);
+    }
+  }
+
+  /**
+   * Email a commenter a link to verify their address. Never throws: failures are logged.
+   */
+  static async sendCommentVerification(comment: NotifiableComment): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    try {
+      const email = comment.authorEmail.trim().toLowerCase();
+      if (await this.isUnsubscribed(email, ['all'])) {
+        return;
+      }
+      // Commenters who post several times before verifying get one email, not one per comment
+      if ((await RateLimiter.hit(`comment-verification:${email}`, this.VERIFICATION_EMAIL_WINDOW)) > 1) {
+        return;
+      }
+
+      const [post] = await db
+        .select({ title: pages.title })
+        .from(pages)
+        .where(eq(pages.id, comment.blogPostId))
+        .limit(1);
+
+      const link = CommenterIdentityService.createVerificationLink(email, comment.id);
+      const params = new URLSearchParams({
+        email: link.email,
+        comment: link.commentId,
+        expires: String(link.expires),
+        token: link.token,
+      });
+      const content = NotificationTemplates.verifyEmail({
+        siteName: this.SITE_NAME,
+        postTitle: post?.title || this.SITE_NAME,
+        commenterName: comment.authorName,
+        verifyUrl: `${this.API_URL}/api/comments/verify?${params.toString()}`,
+      });
+
+      await this.send(email, content);
+    } catch (error) {
+      console.error('Failed to send comment verification email:', error);
+    }
+  }
+
+  /**
+   * Sign an email address and scope for an unsubscribe link
+   */
+  static createUnsubscribeToken(email: string, scope: string): string {
+    return createHmac('sha256', this.UNSUBSCRIBE_SECRET)
+      .update(`${email.trim().toLowerCase()}\n${scope}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Check an unsubscribe link's signature
+   */
+  static verifyUnsubscribeToken(email: string, scope: string, token: string): boolean {
+    const expected = Buffer.from(this.createUnsubscribeToken(email, scope));
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Unsubscribe an email address from a scope. Returns false when the link's signature is invalid.
+   */
+  static async unsubscribe(email: string, scope: string, token: string): Promise<boolean> {
+    if (!this.isValidScope(scope) || !this.verifyUnsubscribeToken(email, scope, token)) {
+      return false;
+    }
+
+    await db
+      .insert(notificationUnsubscribes)
+      .values({ email: email.trim().toLowerCase(), scope })
+      .onConflictDoNothing();
+
+    return true;
+  }
+
+  /**
+   * Determine if an email address unsubscribed from any of the given scopes
+   */
+  static async isUnsubscribed(email: string, scopes: NotificationScope[]): Promise<boolean> {
+    const [row] = await db
+      .select({ id: notificationUnsubscribes.id })
+      .from(notificationUnsubscribes)
+      .where(
+        and(
+          eq(notificationUnsubscribes.email, email.trim().toLowerCase()),
+          inArray(notificationUnsubscribes.scope, scopes)
+        )
+      )
+      .limit(1);
+
+    return !!row;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static isEnabled(): boolean {
+    return this.ENABLED && this.transport !== null;
+  }
+
+  // Missing settings count as opted in, as they are for new accounts
+  private static wantsCommentEmails(preferences: UserPreferences | null): boolean {
+    const notifications = preferences?.notifications;
+    return notifications?.email !== false && notifications?.comments !== false;
+  }
+
+  private static isValidScope(scope: string): scope is NotificationScope {
+    return scope === 'all' || scope === 'pending-comments' || /^thread:[0-9a-f-]{36}$/i.test(scope);
+  }
+
+  private static getUnsubscribeUrl(email: string, scope: NotificationScope): string {
+    const params = new URLSearchParams({
+      email: email.trim().toLowerCase(),
+      scope,
+      token: this.createUnsubscribeToken(email, scope),
+    });
+    return `${this.API_URL}/api/comments/unsubscribe?${params.toString()}`;
+  }
+
+  private static async send(to: string, content: EmailContent, unsubscribeUrl?: string): Promise<void> {
+    await this.transport!.send({
+      from: this.MAIL_FROM,
+      to,
+      subject: content.subject,
+      text: content.text,
+      html: content.html,
+      // One-click unsubscribe for mail clients (RFC 8058)
+      ...(unsubscribeUrl && {
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      }),
+    });
+  }
+}
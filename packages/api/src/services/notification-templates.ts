@@ -0,0 +1,186 @@
+import { HtmlRenderer } from '@oldworldcharm/shared';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface PendingCommentEmailData {
+  siteName: string;
+  postTitle: string;
+  commenterName: string;
+  content: string;
+  moderationUrl: string;
+  unsubscribeUrl: string;
+}
+
+export interface ApprovedReplyEmailData {
+  siteName: string;
+  postTitle: string;
+  postUrl: string;
+  recipientName: string;
+  replierName: string;
+  content: string;
+  threadUnsubscribeUrl: string;
+  unsubscribeAllUrl: string;
+}
+
+export interface VerifyEmailData {
+  siteName: string;
+  postTitle: string;
+  commenterName: string;
+  verifyUrl: string;
+}
+
+interface UnsubscribeLink {
+  label: string;
+  url: string;
+}
+
+// Email bodies for comment notifications, as plain text with an HTML alternative
+export class NotificationTemplates {
+  private static readonly EXCERPT_LENGTH = 500;
+
+  /**
+   * Tell a post's author that a comment is waiting for moderation
+   */
+  static pendingComment(data: PendingCommentEmailData): EmailContent {
+    const excerpt = this.excerpt(data.content);
+
+    return {
+      subject: `New comment awaiting moderation on "${data.postTitle}"`,
+      text: [
+        `${data.commenterName} commented on "${data.postTitle}":`,
+        '',
+        this.quote(excerpt),
+        '',
+        `Review it: ${data.moderationUrl}`,
+        '',
+        this.textFooter(data.siteName, [{ label: 'Stop emails about new comments', url: data.unsubscribeUrl }]),
+      ].join('\n'),
+      html: this.layout(
+        data.siteName,
+        `New comment on "${data.postTitle}"`,
+        [
+          `<p><strong>${this.escape(data.commenterName)}</strong> commented on <em>${this.escape(data.postTitle)}</em>:</p>`,
+          this.htmlQuote(excerpt),
+          `<p><a href="${this.escape(data.moderationUrl)}">Review the comment</a></p>`,
+        ],
+        [{ label: 'Stop emails about new comments', url: data.unsubscribeUrl }]
+      ),
+    };
+  }
+
+  /**
+   * Tell a commenter that someone replied to their comment
+   */
+  static approvedReply(data: ApprovedReplyEmailData): EmailContent {
+    const excerpt = this.excerpt(data.content);
+    const links = [
+      { label: 'Stop emails about replies to this comment', url: data.threadUnsubscribeUrl },
+      { label: `Unsubscribe from all emails from ${data.siteName}`, url: data.unsubscribeAllUrl },
+    ];
+
+    return {
+      subject: `${data.replierName} replied to your comment on "${data.postTitle}"`,
+      text: [
+        `Hi ${data.recipientName},`,
+        '',
+        `${data.replierName} replied to your comment on "${data.postTitle}":`,
+        '',
+        this.quote(excerpt),
+        '',
+        `Read the conversation: ${data.postUrl}`,
+        '',
+        this.textFooter(data.siteName, links),
+      ].join('\n'),
+      html: this.layout(
+        data.siteName,
+        `New reply on "${data.postTitle}"`,
+        [
+          `<p>Hi ${this.escape(data.recipientName)},</p>`,
+          `<p><strong>${this.escape(data.replierName)}</strong> replied to your comment on <em>${this.escape(data.postTitle)}</em>:</p>`,
+          this.htmlQuote(excerpt),
+          `<p><a href="${this.escape(data.postUrl)}">Read the conversation</a></p>`,
+        ],
+        links
+      ),
+    };
+  }
+
+  /**
+   * Ask a commenter to confirm their email address
+   */
+  static verifyEmail(data: VerifyEmailData): EmailContent {
+    return {
+      subject: `Confirm your email address for comments on ${data.siteName}`,
+      text: [
+        `Hi ${data.commenterName},`,
+        '',
+        `Thanks for commenting on "${data.postTitle}". Confirm your email address so your future comments are published straight away and you can edit them:`,
+        '',
+        data.verifyUrl,
+        '',
+        'The link expires in 24 hours. If you did not comment, you can ignore this email.',
+        '',
+        this.textFooter(data.siteName, []),
+      ].join('\n'),
+      html: this.layout(
+        data.siteName,
+        'Confirm your email address',
+        [
+          `<p>Hi ${this.escape(data.commenterName)},</p>`,
+          `<p>Thanks for commenting on <em>${this.escape(data.postTitle)}</em>. Confirm your email address so your future comments are published straight away and you can edit them.</p>`,
+          `<p><a href="${this.escape(data.verifyUrl)}">Confirm my email address</a></p>`,
+          '<p>The link expires in 24 hours. If you did not comment, you can ignore this email.</p>',
+        ],
+        []
+      ),
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static layout(siteName: string, title: string, paragraphs: string[], links: UnsubscribeLink[]): string {
+    const footer = links
+      .map(link => `<a href="${this.escape(link.url)}" style="color:#666">${this.escape(link.label)}</a>`)
+      .join(' &middot; ');
+
+    return HtmlRenderer.renderDocument({
+      title,
+      body: [
+        ...paragraphs,
+        '<hr style="border:none;border-top:1px solid #ddd">',
+        `<p style="font-size:12px;color:#666">You are receiving this email from ${this.escape(siteName)}.${footer ? `<br>${footer}` : ''}</p>`,
+      ].join('\n'),
+    });
+  }
+
+  private static textFooter(siteName: string, links: UnsubscribeLink[]): string {
+    const lines = links.map(link => `${link.label}: ${link.url}`);
+    return ['--', `You are receiving this email from ${siteName}.`, ...lines].join('\n');
+  }
+
+  private static excerpt(content: string): string {
+    const trimmed = content.trim();
+    return trimmed.length > this.EXCERPT_LENGTH ? `${trimmed.slice(0, this.EXCERPT_LENGTH).trimEnd()}…` : trimmed;
+  }
+
+  private static quote(content: string): string {
+    return content
+      .split('\n')
+      .map(line => `> ${line}`)
+      .join('\n');
+  }
+
+  private static htmlQuote(content: string): string {
+    const body = this.escape(content).replace(/\n/g, '<br>');
+    return `<blockquote style="margin:0;padding-left:12px;border-left:3px solid #ddd;color:#333">${body}</blockquote>`;
+  }
+
+  private static escape(value: string): string {
+    return HtmlRenderer.escapeHtml(value);
+  }
+}
@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, pages, blogPosts } from '../db/index';
+import { CacheManager } from '../db/redis';
+import { ThemeService } from './theme-service';
+import { SocialService } from './social-service';
+import { seoService } from './seo-service';
+import { ABTestService } from './ab-test-service';
+import { mediaService } from './media-service';
+import { HtmlRenderer } from '@oldworldcharm/shared';
+import type { BlogPost, ComponentInstance, SEOData } from '@oldworldcharm/shared';
+
+// A rendered page as stored in the cache and served to visitors
+export interface DeliveredPage {
+  pageId: string;
+  slug: string;
+  html: string;
+  etag: string;
+  lastModified: string; // HTTP date
+  cacheHit?: boolean;
+  experiment?: {
+    testId: string;
+    variantId: string;
+  };
+}
+
+// An A/B test variant to render in place of the page's own components
+export interface PageVariant {
+  testId: string;
+  variantId: string;
+  components: ComponentInstance[];
+  version: number; // test updatedAt, so edited variants are not served from a stale cache entry
+}
+
+export interface DeliveryOptions {
+  blog?: boolean;
+  variant?: PageVariant;
+}
+
+export interface ConditionalHeaders {
+  ifNoneMatch?: string | undefined;
+  ifModifiedSince?: string | undefined;
+}
+
+export class PageDeliveryService {
+  private static readonly BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+  private static readonly SITE_NAME = process.env.SITE_NAME || 'Visual Website Builder';
+  private static readonly CACHE_TTL = parseInt(process.env.PAGE_CACHE_TTL || '3600', 10); // seconds
+  private static readonly HOME_SLUGS = ['home', 'index'];
+
+  /**
+   * Get the rendered HTML of a published page or blog post, from the cache when possible
+   */
+  static async getPage(slug: string, options: DeliveryOptions = {}): Promise<DeliveredPage | null> {
+    const { variant } = options;
+    // A page and a blog post can share a slug, so each kind has its own entry
+    const kind = options.blog ? 'blog' : 'page';
+    const cacheKey = variant
+      ? `${kind}:${slug}:ab:${variant.testId}:${variant.variantId}:${variant.version}`
+      : `${kind}:${slug}`;
+    const cached = (await CacheManager.get(cacheKey)) as DeliveredPage | null;
+    if (cached) {
+      return { ...cached, cacheHit: true };
+    }
+
+    const [row] = await db
+      .select({
+        id: pages.id,
+        slug: pages.slug,
+        title: pages.title,
+        description: pages.description,
+        content: pages.content,
+        seoData: pages.seoData,
+        themeId: pages.themeId,
+        themeOverrides: pages.themeOverrides,
+        publishedAt: pages.publishedAt,
+        createdAt: pages.createdAt,
+        updatedAt: pages.updatedAt,
+        blogPostId: blogPosts.id,
+        excerpt: blogPosts.excerpt,
+        featuredImage: blogPosts.featuredImage,
+        categories: blogPosts.categories,
+        tags: blogPosts.tags,
+        author: blogPosts.author,
+        readingTime: blogPosts.readingTime,
+      })
+      .from(pages)
+      .leftJoin(blogPosts, eq(pages.id, blogPosts.pageId))
+      .where(and(eq(pages.slug, slug), eq(pages.status, 'published')))
+      .limit(1);
+
+    // Blog posts are only served under /blog and pages only outside it
+    if (!row || !!row.blogPostId !== !!options.blog) {
+      return null;
+    }
+
+    // Variants without components of their own (usually the control) show the page as is
+    const html = await this.renderPage(row, variant?.components.length ? variant.components : undefined);
+    const page: DeliveredPage = {
+      pageId: row.id,
+      slug: row.slug,
+      html,
+      etag: `"${createHash('sha1').update(html).digest('hex')}"`,
+      lastModified: row.updatedAt.toUTCString(),
+    };
+
+    await CacheManager.set(cacheKey, page, this.CACHE_TTL);
+
+    return { ...page, cacheHit: false };
+  }
+
+  /**
+   * Get the page a visitor should see: the published page, or the variant of a running A/B test
+   * the visitor is assigned to, in which case the exposure is recorded
+   */
+  static async getPageForVisitor(
+    slug: string,
+    visitorId: string,
+    options: { blog?: boolean } = {}
+  ): Promise<DeliveredPage | null> {
+    const page = await this.getPage(slug, options);
+    if (!page) {
+      return null;
+    }
+
+    const test = await ABTestService.getRunningTestForPage(page.pageId);
+    if (!test) {
+      return page;
+    }
+
+    const assignment = await ABTestService.assignUserToVariant(test.id, visitorId);
+    if (!assignment) {
+      return page;
+    }
+
+    const variantPage = await this.getPage(slug, {
+      ...options,
+      variant: {
+        testId: test.id,
+        variantId: assignment.variantId,
+        components: assignment.variant.components || [],
+        version: test.updatedAt.getTime(),
+      },
+    });
+    if (!variantPage) {
+      return page;
+    }
+
+    await ABTestService.recordExposure(test.id, assignment.variantId, visitorId, page.pageId);
+
+    return { ...variantPage, experiment: { testId: test.id, variantId: assignment.variantId } };
+  }
+
+  /**
+   * Get the rendered home page (the published page with slug "home" or "index")
+   */
+  static async getHomePage(visitorId: string): Promise<DeliveredPage | null> {
+    const candidates = await db
+      .select({ slug: pages.slug })
+      .from(pages)
+      .where(and(inArray(pages.slug, this.HOME_SLUGS), eq(pages.status, 'published')));
+
+    const slug = this.HOME_SLUGS.find(homeSlug => candidates.some(candidate => candidate.slug === homeSlug));
+    return slug ? this.getPageForVisitor(slug, visitorId) : null;
+  }
+
+  /**
+   * Determine if the client's cached copy is still current
+   */
+  static isNotModified(page: DeliveredPage, headers: ConditionalHeaders): boolean {
+    // If-None-Match takes precedence over If-Modified-Since
+    if (headers.ifNoneMatch) {
+      return headers.ifNoneMatch
+        .split(',')
+        .map(tag => tag.trim().replace(/^W\//, ''))
+        .some(tag => tag === '*' || tag === page.etag);
+    }
+
+    if (headers.ifModifiedSince) {
+      const since = Date.parse(headers.ifModifiedSince);
+      return !Number.isNaN(since) && Date.parse(page.lastModified) <= since;
+    }
+
+    return false;
+  }
+
+  /**
+   * Drop the cached copy of a page and the listings that include it
+   */
+  static async purge(...slugs: string[]): Promise<void> {
+    await Promise.all([...new Set(slugs)].map(slug => CacheManager.invalidateContent(slug)));
+  }
+
+  /**
+   * Drop every delivered page, e.g. after the default theme changes
+   */
+  static async purgeAll(): Promise<void> {
+    await Promise.all([CacheManager.invalidatePattern('page:*'), CacheManager.invalidatePattern('blog:*')]);
+  }
+
+  /**
+   * Render a "not found" document for unknown or unpublished slugs
+   */
+  static renderNotFound(): string {
+    return HtmlRenderer.renderDocument({
+      title: 'Page not found',
+      head: ['<meta name="robots" content="noindex, nofollow">'],
+      body: '<h1>Page not found</h1>\n<p>The page you are looking for does not exist or is no longer available.</p>',
+    });
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static async renderPage(row: any, componentsOverride?: ComponentInstance[]): Promise<string> {
+    const seoData = (row.seoData as SEOData) || {};
+    const components = componentsOverride || (row.content as ComponentInstance[]) || [];
+    const isBlogPost = !!row.blogPostId;
+    const title = seoData.metaTitle || row.title;
+    const description = seoData.metaDescription || row.description || '';
+
+    // Structured data comes from the page's SEO data, or is generated the same way as the SEO routes
+    const jsonLd =
+      seoData.structuredData ||
+      seoService.generateStructuredData(
+        { ...row, slug: isBlogPost ? `blog/${row.slug}` : row.slug },
+        isBlogPost ? 'BlogPosting' : 'WebPage'
+      );
+
+    // Social cards use the Open Graph crop of images from the media library
+    const socialImages = await mediaService.getSocialImages(
+      [seoData.ogImage, seoData.twitterImage, row.featuredImage].filter((url): url is string => Boolean(url))
+    );
+
+    const socialTags = isBlogPost
+      ? SocialService.generateSocialMetaTags(this.toBlogPost(row, components), this.BASE_URL, {
+          siteName: this.SITE_NAME,
+          images: socialImages,
+        })
+      : SocialService.generatePageSocialMetaTags(
+          { slug: row.slug, title: row.title, description: row.description ?? undefined, seoData },
+          this.BASE_URL,
+          { siteName: this.SITE_NAME, images: socialImages }
+        );
+    socialTags.jsonLd = jsonLd;
+    if (seoData.canonicalUrl) {
+      socialTags.canonical = seoData.canonicalUrl;
+    }
+
+    const robots = [seoData.noIndex ? 'noindex' : 'index', seoData.noFollow ? 'nofollow' : 'follow'];
+    const head = [
+      description ? `<meta name="description" content="${HtmlRenderer.escapeHtml(description)}">` : '',
+      seoData.keywords?.length
+        ? `<meta name="keywords" content="${HtmlRenderer.escapeHtml(seoData.keywords.join(', '))}">`
+        : '',
+      `<meta name="robots" content="${robots.join(', ')}">`,
+      SocialService.generateMetaTagsHtml(socialTags).trim(),
+    ].filter(Boolean);
+
+    const themeConfig = await ThemeService.resolvePageTheme(row);
+    if (themeConfig) {
+      head.push(`<style>\n${ThemeService.generateCSS(themeConfig)}</style>`);
+    }
+
+    // Images with generated variants render as <picture> elements
+    const images = await mediaService.getResponsiveImages(HtmlRenderer.collectImageSources(components));
+
+    return HtmlRenderer.renderDocument({
+      title,
+      head,
+      body: HtmlRenderer.renderTree(components, { lazyImages: true, images }),
+    });
+  }
+
+  private static toBlogPost(row: any, components: ComponentInstance[]): BlogPost {
+    const blogPost: BlogPost = {
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      components,
+      seoData: (row.seoData as SEOData) || {},
+      status: 'published',
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      version: 1,
+      categories: row.categories || [],
+      tags: row.tags || [],
+      author: row.author,
+      readingTime: row.readingTime || 1,
+    };
+
+    if (row.description) blogPost.description = row.description;
+    if (row.publishedAt) blogPost.publishedAt = row.publishedAt;
+    if (row.excerpt) blogPost.excerpt = row.excerpt;
+    if (row.featuredImage) blogPost.featuredImage = row.featuredImage;
+
+    return blogPost;
+  }
+}
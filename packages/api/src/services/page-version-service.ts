@@ -0,0 +1,209 @@
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, pages, pageVersions } from '../db/index';
+import { ComponentUtils, isEqual } from '@oldworldcharm/shared';
+import type {
+  ComponentInstance,
+  ComponentTreeDiff,
+  PageStatus,
+  PageVersion,
+  SEOData,
+  ValueChange,
+} from '@oldworldcharm/shared';
+
+// Version listing entry without the component tree
+export type PageVersionSummary = Omit<PageVersion, 'components' | 'seoData'>;
+
+export interface PageVersionDiff {
+  pageId: string;
+  from: number;
+  to: number | 'current';
+  fields: ValueChange[];
+  components: ComponentTreeDiff;
+}
+
+// Snapshot source: a row from the pages table
+interface PageSnapshot {
+  id: string;
+  title: string;
+  description: string | null;
+  content: unknown;
+  seoData: unknown;
+  status: string;
+  publishedAt: Date | null;
+}
+
+export class PageVersionService {
+  /**
+   * Snapshot the current state of a page as the next version
+   */
+  static async createVersion(page: PageSnapshot, userId?: string, changeNote?: string): Promise<number> {
+    const [result] = await db
+      .select({ nextVersion: sql<number>`COALESCE(MAX(${pageVersions.version}), 0) + 1` })
+      .from(pageVersions)
+      .where(eq(pageVersions.pageId, page.id));
+
+    const nextVersion = Number(result?.nextVersion) || 1;
+
+    await db.insert(pageVersions).values({
+      pageId: page.id,
+      version: nextVersion,
+      title: page.title,
+      description: page.description,
+      content: page.content,
+      seoData: page.seoData,
+      status: page.status,
+      publishedAt: page.publishedAt,
+      createdBy: userId || null,
+      changeNote: changeNote || null,
+    });
+
+    return nextVersion;
+  }
+
+  /**
+   * List versions of a page, newest first
+   */
+  static async listVersions(pageId: string): Promise<PageVersionSummary[]> {
+    const results = await db
+      .select({
+        id: pageVersions.id,
+        pageId: pageVersions.pageId,
+        version: pageVersions.version,
+        title: pageVersions.title,
+        description: pageVersions.description,
+        status: pageVersions.status,
+        publishedAt: pageVersions.publishedAt,
+        createdBy: pageVersions.createdBy,
+        changeNote: pageVersions.changeNote,
+        createdAt: pageVersions.createdAt,
+      })
+      .from(pageVersions)
+      .where(eq(pageVersions.pageId, pageId))
+      .orderBy(desc(pageVersions.version));
+
+    return results.map(version => {
+      const summary: PageVersionSummary = {
+        id: version.id,
+        pageId: version.pageId,
+        version: version.version,
+        title: version.title,
+        status: version.status as PageStatus,
+        createdAt: version.createdAt,
+      };
+
+      if (version.description) summary.description = version.description;
+      if (version.publishedAt) summary.publishedAt = version.publishedAt;
+      if (version.createdBy) summary.createdBy = version.createdBy;
+      if (version.changeNote) summary.changeNote = version.changeNote;
+
+      return summary;
+    });
+  }
+
+  /**
+   * Get a single version of a page
+   */
+  static async getVersion(pageId: string, version: number): Promise<PageVersion | null> {
+    const [result] = await db
+      .select()
+      .from(pageVersions)
+      .where(and(eq(pageVersions.pageId, pageId), eq(pageVersions.version, version)))
+      .limit(1);
+
+    return result ? this.mapDbVersionToVersion(result) : null;
+  }
+
+  /**
+   * Diff two versions of a page, or a version against the current page when `to` is omitted
+   */
+  static async diffVersions(pageId: string, from: number, to?: number): Promise<PageVersionDiff> {
+    const fromVersion = await this.getVersion(pageId, from);
+    if (!fromVersion) {
+      throw new Error(`Version ${from} not found`);
+    }
+
+    let target: Pick<PageVersion, 'title' | 'description' | 'status' | 'seoData' | 'components'>;
+    if (to !== undefined) {
+      const toVersion = await this.getVersion(pageId, to);
+      if (!toVersion) {
+        throw new Error(`Version ${to} not found`);
+      }
+      target = toVersion;
+    } else {
+      const [page] = await db.select().from(pages).where(eq(pages.id, pageId)).limit(1);
+      if (!page) {
+        throw new Error('Page not found');
+      }
+      target = this.mapDbVersionToVersion({ ...page, pageId: page.id, version: 0 });
+    }
+
+    const fields: ValueChange[] = [];
+    for (const key of ['title', 'description', 'status', 'seoData'] as const) {
+      if (!isEqual(fromVersion[key] ?? null, target[key] ?? null)) {
+        fields.push({ key, before: fromVersion[key] ?? null, after: target[key] ?? null });
+      }
+    }
+
+    return {
+      pageId,
+      from,
+      to: to ?? 'current',
+      fields,
+      components: ComponentUtils.diffComponentTrees(fromVersion.components, target.components),
+    };
+  }
+
+  /**
+   * Restore a page's content, title, description and SEO data from an earlier version.
+   * The page keeps its current status; the restore is recorded as a new version.
+   */
+  static async restoreVersion(pageId: string, version: number, userId?: string) {
+    const snapshot = await this.getVersion(pageId, version);
+    if (!snapshot) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    const [restoredPage] = await db
+      .update(pages)
+      .set({
+        title: snapshot.title,
+        description: snapshot.description ?? null,
+        content: snapshot.components,
+        seoData: snapshot.seoData,
+        updatedAt: new Date(),
+      })
+      .where(eq(pages.id, pageId))
+      .returning();
+
+    if (!restoredPage) {
+      throw new Error('Page not found');
+    }
+
+    await this.createVersion(restoredPage, userId, `Restored from version ${version}`);
+
+    return restoredPage;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static mapDbVersionToVersion(dbVersion: any): PageVersion {
+    const version: PageVersion = {
+      id: dbVersion.id,
+      pageId: dbVersion.pageId,
+      version: dbVersion.version,
+      title: dbVersion.title,
+      components: (dbVersion.content as ComponentInstance[]) || [],
+      seoData: (dbVersion.seoData as SEOData) || {},
+      status: dbVersion.status as PageStatus,
+      createdAt: dbVersion.createdAt,
+    };
+
+    if (dbVersion.description) version.description = dbVersion.description;
+    if (dbVersion.publishedAt) version.publishedAt = dbVersion.publishedAt;
+    if (dbVersion.createdBy) version.createdBy = dbVersion.createdBy;
+    if (dbVersion.changeNote) version.changeNote = dbVersion.changeNote;
+
+    return version;
+  }
+}
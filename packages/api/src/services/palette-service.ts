@@ -0,0 +1,312 @@
+import { ThemeService, type ThemeConfig } from './theme-service';
+import type { ColorScheme, ThemeColorSchemes } from '@oldworldcharm/shared';
+
+type ThemeColors = ThemeConfig['colors'];
+
+export type ContrastLevel = keyof typeof ThemeService.CONTRAST_LEVELS;
+
+// Tints (50-400) and shades (600-950) of one color, 500 being closest to it
+export type ColorScale = Record<string, string>;
+
+export interface PaletteOptions {
+  primary: string;
+  secondary?: string; // derived from the primary color when omitted
+  level?: ContrastLevel;
+}
+
+export interface GeneratedPalette {
+  colors: ThemeColors;
+  colorSchemes: ThemeColorSchemes;
+  scales: {
+    primary: ColorScale;
+    secondary: ColorScale;
+    neutral: ColorScale;
+  };
+}
+
+export interface ContrastFix {
+  scheme: ColorScheme;
+  context: string;
+  token: keyof ThemeColors;
+  from: string;
+  to: string;
+  ratioBefore: number;
+  ratioAfter: number;
+}
+
+export interface ContrastFixResult {
+  config: ThemeConfig;
+  fixes: ContrastFix[];
+}
+
+interface Hsl {
+  h: number; // 0-360
+  s: number; // 0-100
+  l: number; // 0-100
+}
+
+// Derives theme palettes from brand colors and repairs colors that fail WCAG contrast
+export class PaletteService {
+  private static readonly SCALE_LIGHTNESS: Record<string, number> = {
+    '50': 97,
+    '100': 94,
+    '200': 86,
+    '300': 77,
+    '400': 66,
+    '500': 55,
+    '600': 45,
+    '700': 37,
+    '800': 29,
+    '900': 21,
+    '950': 13,
+  };
+
+  // Hues for status colors, so they read the same whatever the brand colors are
+  private static readonly STATUS_HUES = { info: 200, success: 142, warning: 38, error: 0 } as const;
+
+  // Lightness steps searched when fixing contrast; finer than the rounding of hex colors
+  private static readonly LIGHTNESS_PRECISION = 0.1;
+
+  /**
+   * Generate light colors and a dark scheme from one or two brand colors. Every text pair meets the contrast level.
+   */
+  static generatePalette(options: PaletteOptions): GeneratedPalette {
+    const primary = this.hexToHsl(options.primary);
+    const secondary = options.secondary
+      ? this.hexToHsl(options.secondary)
+      : { h: (primary.h + 150) % 360, s: primary.s * 0.6, l: 40 };
+    const neutral = { h: primary.h, s: Math.min(primary.s, 12), l: 50 };
+
+    const scales = {
+      primary: this.buildScale(primary),
+      secondary: this.buildScale(secondary),
+      neutral: this.buildScale(neutral),
+    };
+
+    const tone = (hsl: Hsl, l: number, s: number = hsl.s) => this.hslToHex({ h: hsl.h, s, l });
+    const status = (l: number) => ({
+      info: tone({ h: this.STATUS_HUES.info, s: 80, l }, l),
+      success: tone({ h: this.STATUS_HUES.success, s: 70, l }, l),
+      warning: tone({ h: this.STATUS_HUES.warning, s: 90, l }, l),
+      error: tone({ h: this.STATUS_HUES.error, s: 75, l }, l),
+    });
+
+    const colors: ThemeColors = {
+      primary: this.hslToHex(primary),
+      secondary: this.hslToHex(secondary),
+      accent: tone({ ...primary, h: (primary.h + 180) % 360 }, 50),
+      neutral: scales.neutral['700']!,
+      base: scales.neutral['50']!,
+      ...status(40),
+      background: tone(neutral, 99, 20),
+      foreground: scales.neutral['950']!,
+      muted: scales.neutral['100']!,
+      'muted-foreground': scales.neutral['700']!,
+      popover: tone(neutral, 99, 20),
+      'popover-foreground': scales.neutral['950']!,
+      card: tone(neutral, 99, 20),
+      'card-foreground': scales.neutral['950']!,
+      border: scales.neutral['200']!,
+      input: scales.neutral['200']!,
+      ring: this.hslToHex(primary),
+    };
+
+    // Lighter brand colors on a dark background; text stays dark on buttons via the background token
+    const dark: Partial<ThemeColors> = {
+      primary: scales.primary['300']!,
+      secondary: scales.secondary['300']!,
+      neutral: scales.neutral['300']!,
+      base: scales.neutral['950']!,
+      ...status(65),
+      background: tone(neutral, 8),
+      foreground: scales.neutral['50']!,
+      muted: tone(neutral, 16),
+      'muted-foreground': scales.neutral['300']!,
+      popover: tone(neutral, 10),
+      'popover-foreground': scales.neutral['50']!,
+      card: tone(neutral, 10),
+      'card-foreground': scales.neutral['50']!,
+      border: tone(neutral, 22),
+      input: tone(neutral, 22),
+      ring: scales.primary['300']!,
+    };
+
+    const { config } = this.fixContrast(
+      {
+        colors,
+        colorSchemes: { dark },
+        typography: { fontFamily: 'system-ui', fontSize: {}, fontWeight: {}, lineHeight: {} },
+        spacing: {},
+        borderRadius: {},
+        shadows: {},
+      },
+      options.level || 'AA'
+    );
+
+    return { colors: config.colors, colorSchemes: config.colorSchemes || {}, scales };
+  }
+
+  /**
+   * Generate tints and shades of a color at fixed lightness steps
+   */
+  static generateScale(color: string): ColorScale {
+    return this.buildScale(this.hexToHsl(color));
+  }
+
+  /**
+   * Change the lightness of colors that fail the contrast level, as little as possible, in every color scheme.
+   * The high-contrast scheme is always held to AAA.
+   */
+  static fixContrast(config: ThemeConfig, level: ContrastLevel = 'AA'): ContrastFixResult {
+    const fixes: ContrastFix[] = [];
+    const colorSchemes: ThemeColorSchemes = { ...config.colorSchemes };
+    let colors = { ...config.colors };
+
+    const schemes: ColorScheme[] = [
+      'light',
+      ...(['dark', 'high-contrast'] as const).filter(scheme => config.colorSchemes?.[scheme]),
+    ];
+
+    for (const scheme of schemes) {
+      const palette = { ...ThemeService.getSchemeColors({ ...config, colors }, scheme) };
+      const minimumRatio = ThemeService.CONTRAST_LEVELS[scheme === 'high-contrast' ? 'AAA' : level];
+      const changed: Partial<ThemeColors> = {};
+
+      for (const pair of ThemeService.CONTRAST_PAIRS) {
+        const token = pair[pair.adjust];
+        const against = palette[pair.adjust === 'foreground' ? pair.background : pair.foreground];
+        const ratioBefore = ThemeService.calculateContrastRatio(palette[pair.foreground], palette[pair.background]);
+        if (ratioBefore >= minimumRatio) continue;
+
+        const fixed = this.findCompliantColor(palette[token], against, minimumRatio);
+        fixes.push({
+          scheme,
+          context: pair.context,
+          token,
+          from: palette[token],
+          to: fixed,
+          ratioBefore: this.round(ratioBefore),
+          ratioAfter: this.round(ThemeService.calculateContrastRatio(fixed, against)),
+        });
+        palette[token] = fixed;
+        changed[token] = fixed;
+      }
+
+      if (Object.keys(changed).length === 0) continue;
+
+      if (scheme === 'light') {
+        colors = { ...colors, ...changed };
+      } else {
+        colorSchemes[scheme] = { ...colorSchemes[scheme], ...changed };
+      }
+    }
+
+    return {
+      config: { ...config, colors, ...(config.colorSchemes && { colorSchemes }) },
+      fixes,
+    };
+  }
+
+  /**
+   * Find the color closest in lightness to the given one, keeping its hue and saturation, that
+   * reaches the contrast ratio against another color. Falls back to black or white.
+   */
+  static findCompliantColor(color: string, against: string, minimumRatio: number): string {
+    const hsl = this.hexToHsl(color);
+    const candidates: string[] = [];
+
+    for (const target of [0, 100]) {
+      const candidate = (l: number) => this.hslToHex({ ...hsl, l });
+      if (ThemeService.calculateContrastRatio(candidate(target), against) < minimumRatio) continue;
+
+      // Contrast grows steadily as the color moves away from the other color's lightness
+      let passing = target;
+      let failing = hsl.l;
+      while (Math.abs(passing - failing) > this.LIGHTNESS_PRECISION) {
+        const middle = (passing + failing) / 2;
+        if (ThemeService.calculateContrastRatio(candidate(middle), against) >= minimumRatio) {
+          passing = middle;
+        } else {
+          failing = middle;
+        }
+      }
+      candidates.push(candidate(passing));
+    }
+
+    if (candidates.length === 0) {
+      const black = ThemeService.calculateContrastRatio('#000000', against);
+      const white = ThemeService.calculateContrastRatio('#ffffff', against);
+      return black >= white ? '#000000' : '#ffffff';
+    }
+
+    return candidates.reduce((best, candidate) =>
+      Math.abs(this.hexToHsl(candidate).l - hsl.l) < Math.abs(this.hexToHsl(best).l - hsl.l) ? candidate : best
+    );
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static buildScale(hsl: Hsl): ColorScale {
+    const scale: ColorScale = {};
+
+    Object.entries(this.SCALE_LIGHTNESS).forEach(([step, lightness]) => {
+      // Very light and very dark steps look washed out at full saturation
+      const saturation = lightness > 90 || lightness < 20 ? hsl.s * 0.8 : hsl.s;
+      scale[step] = this.hslToHex({ h: hsl.h, s: saturation, l: lightness });
+    });
+
+    return scale;
+  }
+
+  private static hexToHsl(hex: string): Hsl {
+    const value = parseInt(hex.slice(1), 16);
+    const r = ((value >> 16) & 255) / 255;
+    const g = ((value >> 8) & 255) / 255;
+    const b = (value & 255) / 255;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    let h = 0;
+    let s = 0;
+
+    if (max !== min) {
+      const d = max - min;
+      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+      switch (max) {
+        case r:
+          h = (g - b) / d + (g < b ? 6 : 0);
+          break;
+        case g:
+          h = (b - r) / d + 2;
+          break;
+        default:
+          h = (r - g) / d + 4;
+      }
+      h *= 60;
+    }
+
+    return { h, s: s * 100, l: l * 100 };
+  }
+
+  private static hslToHex({ h, s, l }: Hsl): string {
+    const saturation = Math.max(0, Math.min(100, s)) / 100;
+    const lightness = Math.max(0, Math.min(100, l)) / 100;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+
+    const channel = (n: number) => {
+      const k = (n + h / 30) % 12;
+      const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      return Math.round(value * 255)
+        .toString(16)
+        .padStart(2, '0');
+    };
+
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+  }
+
+  private static round(ratio: number): number {
+    return Math.round(ratio * 100) / 100;
+  }
+}
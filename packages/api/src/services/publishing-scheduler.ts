@@ -0,0 +1,199 @@
+import { and, eq, lte, isNotNull, sql } from 'drizzle-orm';
+import { db, pages } from '../db/index';
+import { CacheManager, LockManager } from '../db/redis';
+import { PageVersionService } from './page-version-service';
+import { WorkflowService } from './workflow-service';
+import { urlService } from './url-service';
+
+export interface SchedulerRunResult {
+  skipped: boolean;
+  published: string[];
+  unpublished: string[];
+}
+
+interface SchedulerLogger {
+  info: (msg: string) => void;
+  error: (obj: unknown, msg?: string) => void;
+}
+
+export class PublishingScheduler {
+  private static readonly LOCK_NAME = 'publishing-scheduler';
+  private static readonly LOCK_TTL = 5 * 60 * 1000; // 5 minutes
+  private static readonly BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  /**
+   * Start polling for due and expired content
+   */
+  static start(intervalMs: number, logger: SchedulerLogger = console): void {
+    if (this.timer) {
+      return;
+    }
+
+    const tick = async () => {
+      // Skip the tick if the previous run on this instance is still going
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        const result = await this.runOnce();
+        if (result.published.length > 0 || result.unpublished.length > 0) {
+          logger.info(
+            `Publishing scheduler: published ${result.published.length}, unpublished ${result.unpublished.length}`
+          );
+        }
+      } catch (error) {
+        logger.error(error, 'Publishing scheduler run failed');
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    void tick();
+  }
+
+  /**
+   * Stop polling
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish content whose scheduled time has passed and unpublish expired content.
+   * Holds a Redis lock so only one API instance processes a given run.
+   */
+  static async runOnce(now: Date = new Date()): Promise<SchedulerRunResult> {
+    const token = await LockManager.acquire(this.LOCK_NAME, this.LOCK_TTL);
+    if (!token) {
+      return { skipped: true, published: [], unpublished: [] };
+    }
+
+    try {
+      const published = await this.publishDueContent(now);
+      const unpublished = await this.unpublishExpiredContent(now);
+      return { skipped: false, published, unpublished };
+    } finally {
+      await LockManager.release(this.LOCK_NAME, token);
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static async publishDueContent(now: Date): Promise<string[]> {
+    const duePages = await db
+      .select({ id: pages.id })
+      .from(pages)
+      .where(
+        and(
+          isNotNull(pages.scheduledAt),
+          lte(pages.scheduledAt, now),
+          // Only approved content is published; anything sent back for changes waits for re-approval
+          eq(pages.status, 'approved')
+        )
+      );
+
+    const published: string[] = [];
+
+    for (const { id } of duePages) {
+      const [page] = await db
+        .update(pages)
+        .set({
+          status: 'published',
+          publishedAt: sql`${pages.scheduledAt}`,
+          scheduledAt: null,
+          updatedAt: now,
+        })
+        // Re-check the condition so a page rescheduled or unapproved mid-run isn't published early
+        .where(
+          and(
+            eq(pages.id, id),
+            isNotNull(pages.scheduledAt),
+            lte(pages.scheduledAt, now),
+            eq(pages.status, 'approved')
+          )
+        )
+        .returning();
+
+      if (!page) {
+        continue;
+      }
+
+      await PageVersionService.createVersion(page, undefined, 'Published on schedule');
+      await WorkflowService.recordTransition({
+        pageId: page.id,
+        action: 'publish',
+        fromStatus: 'approved',
+        toStatus: 'published',
+        comment: 'Published on schedule',
+      });
+      await urlService.upsertPageSitemapEntry(this.BASE_URL, page);
+      await CacheManager.invalidateContent(page.slug);
+      published.push(page.id);
+    }
+
+    return published;
+  }
+
+  private static async unpublishExpiredContent(now: Date): Promise<string[]> {
+    const expiredPages = await db
+      .select({ id: pages.id })
+      .from(pages)
+      .where(
+        and(
+          isNotNull(pages.expiresAt),
+          lte(pages.expiresAt, now),
+          eq(pages.status, 'published')
+        )
+      );
+
+    const unpublished: string[] = [];
+
+    for (const { id } of expiredPages) {
+      const [page] = await db
+        .update(pages)
+        .set({
+          status: 'archived',
+          publishedAt: null,
+          expiresAt: null,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(pages.id, id),
+            isNotNull(pages.expiresAt),
+            lte(pages.expiresAt, now),
+            eq(pages.status, 'published')
+          )
+        )
+        .returning();
+
+      if (!page) {
+        continue;
+      }
+
+      await PageVersionService.createVersion(page, undefined, 'Unpublished on expiry');
+      await WorkflowService.recordTransition({
+        pageId: page.id,
+        action: 'archive',
+        fromStatus: 'published',
+        toStatus: 'archived',
+        comment: 'Unpublished on expiry',
+      });
+      await urlService.removePageSitemapEntries(page.id);
+      await CacheManager.invalidateContent(page.slug);
+      unpublished.push(page.id);
+    }
+
+    return unpublished;
+  }
+}
@@ -1,5 +1,6 @@
 import { eq, desc, and, sql } from 'drizzle-orm';
 import { db, rssFeeds, pages, blogPosts } from '../db/index';
+import { HtmlRenderer } from '@oldworldcharm/shared';
 import type { BlogPost } from '@oldworldcharm/shared';
 
 export interface RSSFeed {
@@ -427,8 +428,8 @@ export class RSSService {
     const link = `${baseUrl}/blog/${blogPost.slug}`;
     const pubDate = (blogPost.publishedAt || blogPost.createdAt).toUTCString();
     
-    // Generate description from excerpt or description
-    const description = blogPost.excerpt || blogPost.description || '';
+    // Generate description from excerpt or description, falling back to the post's text
+    const description = blogPost.excerpt || blogPost.description || this.summarize(blogPost.components);
     
     // Generate content (optional, for full-text feeds)
     const content = this.generateContentFromComponents(blogPost.components);
@@ -445,7 +446,8 @@ export class RSSService {
 
     // Only include content if it has a value
     if (content && content.trim()) {
-      item.content = this.escapeXml(content);
+      // Content is wrapped in CDATA, so only the CDATA terminator needs escaping
+      item.content = content.replace(/]]>/g, ']]]]><![CDATA[>');
     }
 
     // Add enclosure for featured image
@@ -510,32 +512,18 @@ export class RSSService {
   }
 
   /**
-   * Generate content from component tree (simplified)
+   * Render the component tree to HTML for full-text feeds
    */
   private static generateContentFromComponents(components: any[]): string {
-    // This is a simplified implementation
-    // In a real scenario, you'd want to render the components to HTML
-    let content = '';
-    
-    const extractText = (comps: any[]): string => {
-      let text = '';
-      for (const comp of comps) {
-        if (comp.props) {
-          Object.values(comp.props).forEach(prop => {
-            if (typeof prop === 'string') {
-              text += prop + ' ';
-            }
-          });
-        }
-        if (comp.children) {
-          text += extractText(comp.children);
-        }
-      }
-      return text;
-    };
+    return HtmlRenderer.renderTree(components || [], { componentIds: false });
+  }
 
-    content = extractText(components);
-    return content.trim();
+  /**
+   * Summarize the visible text of a component tree
+   */
+  private static summarize(components: any[], maxLength = 300): string {
+    const text = HtmlRenderer.renderText(components || []);
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
   }
 
   /**
@@ -0,0 +1,39 @@
+// Secrets that sign tokens, cookies and URLs, each with the environment variables tried in turn
+const SECRET_VARIABLES = {
+  jwt: ['JWT_SECRET'],
+  cookie: ['COOKIE_SECRET'],
+  session: ['SESSION_SECRET'],
+  mediaSigning: ['MEDIA_SIGNING_SECRET', 'JWT_SECRET'],
+  unsubscribe: ['UNSUBSCRIBE_SECRET', 'JWT_SECRET'],
+  commenterToken: ['COMMENTER_TOKEN_SECRET', 'JWT_SECRET'],
+} as const;
+
+export type SecretName = keyof typeof SECRET_VARIABLES;
+
+export class Secrets {
+  /**
+   * Get a secret from the environment. Outside production a fixed development value stands in
+   * for a missing secret; in production a missing secret is an error.
+   */
+  static get(name: SecretName): string {
+    const variables = SECRET_VARIABLES[name];
+    const value = variables.map(variable => process.env[variable]).find(Boolean);
+    if (value) {
+      return value;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`${variables.join(' or ')} must be set in production`);
+    }
+    return `dev-${name}-secret-change-in-production`;
+  }
+
+  /**
+   * Check every secret when the app starts, rather than on the first request that needs one
+   */
+  static assertConfigured(): void {
+    for (const name of Object.keys(SECRET_VARIABLES) as SecretName[]) {
+      this.get(name);
+    }
+  }
+}
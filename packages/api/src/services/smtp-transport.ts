@@ -0,0 +1,82 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+// Anything that can deliver a message, e.g. SMTP or an in-memory outbox in tests
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  requireTls?: boolean; // fail instead of sending without TLS; defaults to on when a user is set so credentials never go out in cleartext
+  user?: string;
+  password?: string;
+  clientName?: string; // name sent with EHLO
+  timeoutMs?: number;
+}
+
+/**
+ * SMTP delivery through nodemailer, one message per connection.
+ * Works with local SMTP catchers (MailHog, Mailpit) as well as real relays.
+ */
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    const timeoutMs = options.timeoutMs ?? 10000;
+
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? false,
+      requireTLS: !options.secure && (options.requireTls ?? Boolean(options.user)),
+      name: options.clientName || 'localhost',
+      auth: options.user ? { user: options.user, pass: options.password || '' } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  /**
+   * Create a transport from the SMTP_* environment variables, or null when SMTP is not configured
+   */
+  static fromEnv(): SmtpTransport | null {
+    if (!process.env.SMTP_HOST) {
+      return null;
+    }
+
+    const options: SmtpOptions = {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000', 10),
+    };
+    if (process.env.SMTP_REQUIRE_TLS) options.requireTls = process.env.SMTP_REQUIRE_TLS === 'true';
+    if (process.env.SMTP_USER) options.user = process.env.SMTP_USER;
+    if (process.env.SMTP_PASSWORD) options.password = process.env.SMTP_PASSWORD;
+
+    return new SmtpTransport(options);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers,
+    });
+  }
+}
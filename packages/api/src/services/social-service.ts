@@ -1,6 +1,6 @@
 import { eq, desc, sql } from 'drizzle-orm';
 import { db, socialShares, pages, blogPosts } from '../db/index';
-import type { BlogPost } from '@oldworldcharm/shared';
+import type { BlogPost, Page } from '@oldworldcharm/shared';
 
 export interface SocialShare {
   id: string;
@@ -10,10 +10,19 @@ export interface SocialShare {
   lastUpdated: Date;
 }
 
+// An image cropped for social cards, such as the Open Graph crop of a media asset
+export interface SocialImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
 export interface OpenGraphData {
   title: string;
   description: string;
   image?: string;
+  imageWidth?: number;
+  imageHeight?: number;
   url: string;
   type: 'article' | 'website';
   siteName: string;
@@ -45,12 +54,13 @@ export interface SocialMetaTags {
 
 export class SocialService {
   /**
-   * Generate Open Graph meta tags for a blog post
+   * Generate Open Graph meta tags for a blog post. Images with a social crop in `images` use the crop.
    */
   static generateOpenGraphData(
     blogPost: BlogPost,
     baseUrl: string,
-    siteName: string = 'Visual Website Builder'
+    siteName: string = 'Visual Website Builder',
+    images: Record<string, SocialImage> = {}
   ): OpenGraphData {
     const url = `${baseUrl}/blog/${blogPost.slug}`;
     const title = blogPost.seoData?.ogTitle || blogPost.title;
@@ -74,7 +84,7 @@ export class SocialService {
     };
 
     if (image) {
-      result.image = image;
+      Object.assign(result, this.getOpenGraphImage(image, images));
     }
 
     return result;
@@ -86,7 +96,8 @@ export class SocialService {
   static generateTwitterCardData(
     blogPost: BlogPost,
     twitterSite?: string,
-    twitterCreator?: string
+    twitterCreator?: string,
+    images: Record<string, SocialImage> = {}
   ): TwitterCardData {
     const title = blogPost.seoData?.twitterTitle || blogPost.seoData?.ogTitle || blogPost.title;
     const description = blogPost.seoData?.twitterDescription || blogPost.seoData?.ogDescription || blogPost.excerpt || blogPost.description || '';
@@ -99,7 +110,7 @@ export class SocialService {
       description,
     };
 
-    if (image) result.image = image;
+    if (image) result.image = images[image]?.url || image;
     if (twitterSite) result.site = twitterSite;
     if (twitterCreator) result.creator = twitterCreator;
 
@@ -159,19 +170,72 @@ export class SocialService {
       siteName?: string;
       twitterSite?: string;
       twitterCreator?: string;
+      images?: Record<string, SocialImage>;
     } = {}
   ): SocialMetaTags {
-    const { siteName = 'Visual Website Builder', twitterSite, twitterCreator } = options;
+    const { siteName = 'Visual Website Builder', twitterSite, twitterCreator, images } = options;
     const canonical = `${baseUrl}/blog/${blogPost.slug}`;
 
     return {
-      openGraph: this.generateOpenGraphData(blogPost, baseUrl, siteName),
-      twitter: this.generateTwitterCardData(blogPost, twitterSite, twitterCreator),
+      openGraph: this.generateOpenGraphData(blogPost, baseUrl, siteName, images),
+      twitter: this.generateTwitterCardData(blogPost, twitterSite, twitterCreator, images),
       canonical,
       jsonLd: this.generateJsonLd(blogPost, baseUrl, siteName),
     };
   }
 
+  /**
+   * Generate social meta tags for a regular page
+   */
+  static generatePageSocialMetaTags(
+    page: Pick<Page, 'slug' | 'title' | 'description' | 'seoData'>,
+    baseUrl: string,
+    options: {
+      siteName?: string;
+      twitterSite?: string;
+      jsonLd?: any;
+      images?: Record<string, SocialImage>;
+    } = {}
+  ): SocialMetaTags {
+    const { siteName = 'Visual Website Builder', twitterSite, jsonLd, images = {} } = options;
+    const seoData = page.seoData || {};
+    const url = `${baseUrl}/${page.slug}`;
+    const title = seoData.ogTitle || seoData.metaTitle || page.title;
+    const description = seoData.ogDescription || seoData.metaDescription || page.description || '';
+
+    const openGraph: OpenGraphData = {
+      title,
+      description,
+      url,
+      type: 'website',
+      siteName,
+      locale: 'en_US',
+    };
+    if (seoData.ogImage) Object.assign(openGraph, this.getOpenGraphImage(seoData.ogImage, images));
+
+    const twitterImage = seoData.twitterImage || seoData.ogImage;
+    const twitter: TwitterCardData = {
+      card: twitterImage ? 'summary_large_image' : 'summary',
+      title: seoData.twitterTitle || title,
+      description: seoData.twitterDescription || description,
+    };
+    if (twitterImage) twitter.image = images[twitterImage]?.url || twitterImage;
+    if (twitterSite) twitter.site = twitterSite;
+
+    return {
+      openGraph,
+      twitter,
+      canonical: seoData.canonicalUrl || url,
+      jsonLd: jsonLd ?? {
+        '@context': 'https://schema.org',
+        '@type': 'WebPage',
+        name: page.title,
+        description,
+        url,
+      },
+    };
+  }
+
   /**
    * Generate HTML meta tags string
    */
@@ -181,18 +245,22 @@ export class SocialService {
     let html = '';
 
     // Canonical URL
-    html += `<link rel="canonical" href="${canonical}" />\n`;
+    html += `<link rel="canonical" href="${this.escapeHtml(canonical)}" />\n`;
 
     // Open Graph tags
     html += `<meta property="og:title" content="${this.escapeHtml(openGraph.title)}" />\n`;
     html += `<meta property="og:description" content="${this.escapeHtml(openGraph.description || '')}" />\n`;
     html += `<meta property="og:type" content="${openGraph.type}" />\n`;
-    html += `<meta property="og:url" content="${openGraph.url}" />\n`;
+    html += `<meta property="og:url" content="${this.escapeHtml(openGraph.url)}" />\n`;
     html += `<meta property="og:site_name" content="${this.escapeHtml(openGraph.siteName)}" />\n`;
     html += `<meta property="og:locale" content="${openGraph.locale}" />\n`;
     
     if (openGraph.image) {
-      html += `<meta property="og:image" content="${openGraph.image}" />\n`;
+      html += `<meta property="og:image" content="${this.escapeHtml(openGraph.image)}" />\n`;
+    }
+    if (openGraph.imageWidth && openGraph.imageHeight) {
+      html += `<meta property="og:image:width" content="${openGraph.imageWidth}" />\n`;
+      html += `<meta property="og:image:height" content="${openGraph.imageHeight}" />\n`;
     }
 
     if (openGraph.article) {
@@ -212,19 +280,19 @@ export class SocialService {
     html += `<meta name="twitter:description" content="${this.escapeHtml(twitter.description || '')}" />\n`;
     
     if (twitter.image) {
-      html += `<meta name="twitter:image" content="${twitter.image}" />\n`;
+      html += `<meta name="twitter:image" content="${this.escapeHtml(twitter.image)}" />\n`;
     }
     
     if (twitter.site) {
-      html += `<meta name="twitter:site" content="${twitter.site}" />\n`;
+      html += `<meta name="twitter:site" content="${this.escapeHtml(twitter.site)}" />\n`;
     }
     
     if (twitter.creator) {
-      html += `<meta name="twitter:creator" content="${twitter.creator}" />\n`;
+      html += `<meta name="twitter:creator" content="${this.escapeHtml(twitter.creator)}" />\n`;
     }
 
-    // JSON-LD structured data
-    html += `<script type="application/ld+json">\n${JSON.stringify(jsonLd, null, 2)}\n</script>\n`;
+    // JSON-LD structured data; escape "<" so the payload can't close the script element
+    html += `<script type="application/ld+json">\n${JSON.stringify(jsonLd, null, 2).replace(/</g, '\\u003c')}\n</script>\n`;
 
     return html;
   }
@@ -408,6 +476,17 @@ export class SocialService {
     };
   }
 
+  /**
+   * Open Graph image fields, using the image's social crop when there is one
+   */
+  private static getOpenGraphImage(
+    image: string,
+    images: Record<string, SocialImage>
+  ): Pick<OpenGraphData, 'image' | 'imageWidth' | 'imageHeight'> {
+    const crop = images[image];
+    return crop ? { image: crop.url, imageWidth: crop.width, imageHeight: crop.height } : { image };
+  }
+
   /**
    * Escape HTML characters for safe output
    */
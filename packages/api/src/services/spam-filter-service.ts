@@ -0,0 +1,291 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db, commentBlocklist } from '../db/index';
+import { CacheManager, RateLimiter } from '../db/redis';
+
+// What the spam pipeline knows about a submitted comment
+export interface SpamCheckInput {
+  authorName: string;
+  authorEmail: string;
+  authorWebsite?: string;
+  content: string;
+  ipAddress?: string;
+  userAgent?: string;
+  honeypot?: string; // hidden form field that only bots fill in
+  renderedAt?: number; // when the comment form was rendered, in ms since the epoch
+}
+
+// A finding of a check. Blocking findings mark the comment as spam whatever the score.
+export interface SpamSignal {
+  check: string;
+  score: number;
+  reason: string;
+  block?: boolean;
+}
+
+export interface SpamCheck {
+  name: string;
+  run(input: SpamCheckInput): Promise<SpamSignal[]> | SpamSignal[];
+}
+
+export interface SpamVerdict {
+  status: 'approved' | 'pending' | 'spam';
+  score: number;
+  reason: string;
+  signals: SpamSignal[];
+}
+
+export type BlocklistType = 'email' | 'domain' | 'ip';
+
+export interface BlocklistEntry {
+  id: string;
+  type: BlocklistType;
+  value: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export class SpamFilterService {
+  private static readonly SPAM_SCORE = parseInt(process.env.COMMENT_SPAM_SCORE || '5', 10);
+  private static readonly AUTO_APPROVE = process.env.COMMENT_AUTO_APPROVE !== 'false';
+  private static readonly MAX_LINKS = parseInt(process.env.COMMENT_MAX_LINKS || '2', 10);
+  private static readonly MIN_SUBMIT_SECONDS = parseInt(process.env.COMMENT_MIN_SUBMIT_SECONDS || '3', 10);
+  private static readonly RATE_LIMIT = parseInt(process.env.COMMENT_RATE_LIMIT || '5', 10); // comments per window
+  private static readonly RATE_LIMIT_WINDOW = parseInt(process.env.COMMENT_RATE_LIMIT_WINDOW || '600', 10); // seconds
+  private static readonly BLOCKLIST_CACHE_KEY = 'comments:blocklist';
+  private static readonly SPAM_KEYWORDS = (
+    process.env.COMMENT_SPAM_KEYWORDS ||
+    'viagra,cialis,casino,poker,payday loan,crypto giveaway,forex signals,buy followers,seo services,replica watches,porn,xxx'
+  )
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+
+  // Cheap checks run first; the rate limit runs last so rejected submissions still count
+  private static checks: SpamCheck[] = [
+    { name: 'honeypot', run: input => SpamFilterService.checkHoneypot(input) },
+    { name: 'submit-time', run: input => SpamFilterService.checkSubmitTime(input) },
+    { name: 'blocklist', run: input => SpamFilterService.checkBlocklist(input) },
+    { name: 'links', run: input => SpamFilterService.checkLinks(input) },
+    { name: 'keywords', run: input => SpamFilterService.checkKeywords(input) },
+    { name: 'rate-limit', run: input => SpamFilterService.checkRateLimit(input) },
+  ];
+
+  /**
+   * Add a check to the pipeline, e.g. an external spam service. A check with the same name
+   * replaces the existing one.
+   */
+  static registerCheck(check: SpamCheck): void {
+    this.checks = [...this.checks.filter(existing => existing.name !== check.name), check];
+  }
+
+  /**
+   * Remove a check from the pipeline
+   */
+  static unregisterCheck(name: string): void {
+    this.checks = this.checks.filter(check => check.name !== name);
+  }
+
+  /**
+   * Run a comment through every check. Comments with a blocking signal or a score at or above the
+   * spam threshold are spam; comments without any signal are approved (unless auto-approval is
+   * turned off) and everything in between is left for moderators.
+   */
+  static async evaluate(input: SpamCheckInput): Promise<SpamVerdict> {
+    const signals: SpamSignal[] = [];
+    for (const check of this.checks) {
+      signals.push(...(await check.run(input)));
+    }
+
+    const score = signals.reduce((total, signal) => total + signal.score, 0);
+    const blocking = signals.filter(signal => signal.block);
+    const reasons = (blocking.length > 0 ? blocking : signals).map(signal => signal.reason);
+
+    if (blocking.length > 0 || score >= this.SPAM_SCORE) {
+      return { status: 'spam', score, reason: reasons.join('; '), signals };
+    }
+
+    if (signals.length === 0) {
+      return this.AUTO_APPROVE
+        ? { status: 'approved', score, reason: 'Passed all spam checks', signals }
+        : { status: 'pending', score, reason: 'Passed all spam checks; auto-approval is disabled', signals };
+    }
+
+    return { status: 'pending', score, reason: reasons.join('; '), signals };
+  }
+
+  /**
+   * Get every blocklist entry, newest first
+   */
+  static async getBlocklist(): Promise<BlocklistEntry[]> {
+    const rows = await db.select().from(commentBlocklist).orderBy(desc(commentBlocklist.createdAt));
+    return rows.map(row => this.mapDbBlocklistEntry(row));
+  }
+
+  /**
+   * Block an email address, email domain or IP address
+   */
+  static async addToBlocklist(type: BlocklistType, value: string, reason?: string): Promise<BlocklistEntry> {
+    const normalized = this.normalizeBlocklistValue(type, value);
+    if (!normalized) {
+      throw new Error('Blocklist value is required');
+    }
+
+    const [existing] = await db
+      .select({ id: commentBlocklist.id })
+      .from(commentBlocklist)
+      .where(and(eq(commentBlocklist.type, type), eq(commentBlocklist.value, normalized)))
+      .limit(1);
+    if (existing) {
+      throw new Error('Blocklist entry already exists');
+    }
+
+    const [row] = await db
+      .insert(commentBlocklist)
+      .values({ type, value: normalized, reason: reason || null })
+      .returning();
+
+    await CacheManager.del(this.BLOCKLIST_CACHE_KEY);
+    return this.mapDbBlocklistEntry(row);
+  }
+
+  /**
+   * Remove a blocklist entry
+   */
+  static async removeFromBlocklist(id: string): Promise<boolean> {
+    const result = await db
+      .delete(commentBlocklist)
+      .where(eq(commentBlocklist.id, id))
+      .returning({ id: commentBlocklist.id });
+
+    await CacheManager.del(this.BLOCKLIST_CACHE_KEY);
+    return result.length > 0;
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static checkHoneypot(input: SpamCheckInput): SpamSignal[] {
+    return input.honeypot?.trim()
+      ? [{ check: 'honeypot', score: 0, reason: 'Hidden honeypot field was filled in', block: true }]
+      : [];
+  }
+
+  // Clients that do not send the render time are not penalized
+  private static checkSubmitTime(input: SpamCheckInput): SpamSignal[] {
+    if (input.renderedAt === undefined) {
+      return [];
+    }
+
+    const seconds = (Date.now() - input.renderedAt) / 1000;
+    if (seconds < this.MIN_SUBMIT_SECONDS) {
+      return [
+        {
+          check: 'submit-time',
+          score: 0,
+          reason: `Submitted ${Math.max(0, seconds).toFixed(1)}s after the form was shown`,
+          block: true,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  private static async checkBlocklist(input: SpamCheckInput): Promise<SpamSignal[]> {
+    const blocklist = await this.getCachedBlocklist();
+    const email = input.authorEmail.trim().toLowerCase();
+    const domain = email.split('@')[1] || '';
+    const ip = input.ipAddress?.trim().toLowerCase();
+
+    const match = blocklist.find(
+      entry =>
+        (entry.type === 'email' && entry.value === email) ||
+        // Blocking a domain also blocks its subdomains
+        (entry.type === 'domain' && (domain === entry.value || domain.endsWith(`.${entry.value}`))) ||
+        (entry.type === 'ip' && entry.value === ip)
+    );
+
+    return match
+      ? [{ check: 'blocklist', score: 0, reason: `Blocklisted ${match.type}: ${match.value}`, block: true }]
+      : [];
+  }
+
+  // Every link adds a point; more than the allowed number adds enough to reach the spam score
+  private static checkLinks(input: SpamCheckInput): SpamSignal[] {
+    const links = (input.content.match(/https?:\/\/|www\.|\[url=/gi) || []).length;
+    if (links === 0) {
+      return [];
+    }
+
+    return [
+      {
+        check: 'links',
+        score: links > this.MAX_LINKS ? this.SPAM_SCORE : links,
+        reason: `Contains ${links} link${links === 1 ? '' : 's'}`,
+      },
+    ];
+  }
+
+  private static checkKeywords(input: SpamCheckInput): SpamSignal[] {
+    const text = `${input.authorName} ${input.authorWebsite || ''} ${input.content}`.toLowerCase();
+
+    return this.SPAM_KEYWORDS.filter(keyword => text.includes(keyword)).map(keyword => ({
+      check: 'keywords',
+      score: 3,
+      reason: `Contains spam keyword "${keyword}"`,
+    }));
+  }
+
+  private static async checkRateLimit(input: SpamCheckInput): Promise<SpamSignal[]> {
+    if (!input.ipAddress) {
+      return [];
+    }
+
+    const count = await RateLimiter.hit(`comments:${input.ipAddress}`, this.RATE_LIMIT_WINDOW);
+    if (count > this.RATE_LIMIT) {
+      return [
+        {
+          check: 'rate-limit',
+          score: 0,
+          reason: `More than ${this.RATE_LIMIT} comments from ${input.ipAddress} in ${this.RATE_LIMIT_WINDOW / 60} minutes`,
+          block: true,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  private static async getCachedBlocklist(): Promise<Array<{ type: BlocklistType; value: string }>> {
+    const cached = await CacheManager.get(this.BLOCKLIST_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const entries = await db
+      .select({ type: commentBlocklist.type, value: commentBlocklist.value })
+      .from(commentBlocklist);
+
+    await CacheManager.set(this.BLOCKLIST_CACHE_KEY, entries);
+    return entries as Array<{ type: BlocklistType; value: string }>;
+  }
+
+  private static normalizeBlocklistValue(type: BlocklistType, value: string): string {
+    const normalized = value.trim().toLowerCase();
+    // Accept "@example.com" for domains
+    return type === 'domain' ? normalized.replace(/^@/, '') : normalized;
+  }
+
+  private static mapDbBlocklistEntry(row: any): BlocklistEntry {
+    const entry: BlocklistEntry = {
+      id: row.id,
+      type: row.type as BlocklistType,
+      value: row.value,
+      createdAt: row.createdAt,
+    };
+
+    if (row.reason) entry.reason = row.reason;
+
+    return entry;
+  }
+}
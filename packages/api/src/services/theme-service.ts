@@ -1,9 +1,13 @@
 import { z } from 'zod';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 import { db, themes } from '../db/index';
 import {
   ThemeColorsSchema,
   ThemeTypographySchema,
+  ThemeUtils,
+  type ColorScheme,
+  type ThemeColorSchemes,
+  type ThemeTokenOverrides,
 } from '@oldworldcharm/shared';
 
 // CSS generation types
@@ -11,12 +15,13 @@ interface CSSCustomProperties {
   [key: string]: string;
 }
 
-interface ThemeConfig {
+export interface ThemeConfig {
   colors: z.infer<typeof ThemeColorsSchema>;
   typography: z.infer<typeof ThemeTypographySchema>;
   spacing: Record<string, string>;
   borderRadius: Record<string, string>;
   shadows: Record<string, string>;
+  colorSchemes?: ThemeColorSchemes;
 }
 
 // Accessibility validation result
@@ -24,11 +29,13 @@ interface AccessibilityValidationResult {
   isValid: boolean;
   issues: AccessibilityIssue[];
   score: number;
+  schemes: ColorScheme[]; // color schemes that were checked
 }
 
 interface AccessibilityIssue {
   type: 'contrast' | 'color-blindness' | 'readability';
   severity: 'error' | 'warning' | 'info';
+  scheme?: ColorScheme; // set for color issues
   message: string;
   suggestion?: string;
   colors?: {
@@ -38,7 +45,32 @@ interface AccessibilityIssue {
   };
 }
 
+// A foreground/background pair that text is drawn with. `adjust` is the token to change when
+// fixing contrast: text colors for text pairs, the button color for buttons, so the shared page
+// background is never changed.
+export interface ContrastPair {
+  foreground: keyof ThemeConfig['colors'];
+  background: keyof ThemeConfig['colors'];
+  adjust: 'foreground' | 'background';
+  context: string;
+}
+
 export class ThemeService {
+  // Longest chain of parent themes, which also bounds the cost of resolving a theme
+  static readonly MAX_INHERITANCE_DEPTH = 5;
+
+  // Minimum contrast ratios for normal text
+  static readonly CONTRAST_LEVELS = { AA: 4.5, AAA: 7 } as const;
+
+  static readonly CONTRAST_PAIRS: readonly ContrastPair[] = [
+    { foreground: 'foreground', background: 'background', adjust: 'foreground', context: 'main text' },
+    { foreground: 'muted-foreground', background: 'muted', adjust: 'foreground', context: 'muted text' },
+    { foreground: 'card-foreground', background: 'card', adjust: 'foreground', context: 'card text' },
+    { foreground: 'popover-foreground', background: 'popover', adjust: 'foreground', context: 'popover text' },
+    { foreground: 'background', background: 'primary', adjust: 'background', context: 'primary button text' },
+    { foreground: 'background', background: 'secondary', adjust: 'background', context: 'secondary button text' },
+  ];
+
   /**
    * Generate CSS custom properties from theme configuration
    */
@@ -46,17 +78,7 @@ export class ThemeService {
     const cssProperties: CSSCustomProperties = {};
 
     // Generate color custom properties
-    Object.entries(themeConfig.colors).forEach(([key, value]) => {
-      cssProperties[`--color-${key}`] = value;
-      
-      // Generate HSL values for better manipulation
-      const hsl = this.hexToHsl(value);
-      if (hsl) {
-        cssProperties[`--color-${key}-h`] = hsl.h.toString();
-        cssProperties[`--color-${key}-s`] = `${hsl.s}%`;
-        cssProperties[`--color-${key}-l`] = `${hsl.l}%`;
-      }
-    });
+    Object.assign(cssProperties, this.generateColorProperties(themeConfig.colors));
 
     // Generate typography custom properties
     cssProperties['--font-family'] = themeConfig.typography.fontFamily;
@@ -104,13 +126,8 @@ export class ThemeService {
    * Generate complete CSS from theme configuration
    */
   static generateCSS(themeConfig: ThemeConfig, selector: string = ':root'): string {
-    const customProperties = this.generateCSSCustomProperties(themeConfig);
-    
-    let css = `${selector} {\n`;
-    Object.entries(customProperties).forEach(([property, value]) => {
-      css += `  ${property}: ${value};\n`;
-    });
-    css += '}\n\n';
+    let css = this.generateCustomPropertiesCSS(themeConfig, selector);
+    css += '\n';
 
     // Add utility classes for common patterns
     css += this.generateUtilityClasses();
@@ -118,6 +135,149 @@ export class ThemeService {
     return css;
   }
 
+  /**
+   * Generate only the custom property block, e.g. to override the site theme on one page
+   */
+  static generateCustomPropertiesCSS(themeConfig: ThemeConfig, selector: string = ':root'): string {
+    let css = this.generatePropertyBlock(selector, this.generateCSSCustomProperties(themeConfig));
+
+    // Other color schemes follow the visitor's system preference, or a class or data-color-scheme attribute
+    Object.entries(themeConfig.colorSchemes || {}).forEach(([scheme, colors]) => {
+      if (!colors || Object.keys(colors).length === 0) return;
+
+      const { toggle, media, mediaSelector } = ThemeUtils.getColorSchemeSelectors(scheme as ColorScheme, selector);
+      const properties = this.generateColorProperties(colors);
+      const block = this.generatePropertyBlock(mediaSelector, properties).replace(/^(?=.)/gm, '  ');
+
+      css += `\n@media ${media} {\n${block}}\n`;
+      css += `\n${this.generatePropertyBlock(toggle, properties)}`;
+    });
+
+    return css;
+  }
+
+  /**
+   * Get the complete palette of a color scheme: the light colors with the scheme's overrides applied
+   */
+  static getSchemeColors(themeConfig: ThemeConfig, scheme: ColorScheme): ThemeConfig['colors'] {
+    if (scheme === 'light') {
+      return themeConfig.colors;
+    }
+    return { ...themeConfig.colors, ...themeConfig.colorSchemes?.[scheme] };
+  }
+
+  /**
+   * Apply token overrides to a theme configuration. Token groups are merged key by key.
+   */
+  static mergeConfig(base: ThemeConfig, overrides?: ThemeTokenOverrides | null): ThemeConfig {
+    if (!overrides) {
+      return base;
+    }
+
+    const typography: ThemeConfig['typography'] = {
+      ...base.typography,
+      ...overrides.typography,
+      fontSize: { ...base.typography.fontSize, ...overrides.typography?.fontSize },
+      fontWeight: { ...base.typography.fontWeight, ...overrides.typography?.fontWeight },
+      lineHeight: { ...base.typography.lineHeight, ...overrides.typography?.lineHeight },
+    };
+    if (base.typography.letterSpacing || overrides.typography?.letterSpacing) {
+      typography.letterSpacing = { ...base.typography.letterSpacing, ...overrides.typography?.letterSpacing };
+    }
+
+    const merged: ThemeConfig = {
+      colors: { ...base.colors, ...overrides.colors },
+      typography,
+      spacing: { ...base.spacing, ...overrides.spacing },
+      borderRadius: { ...base.borderRadius, ...overrides.borderRadius },
+      shadows: { ...base.shadows, ...overrides.shadows },
+    };
+
+    if (base.colorSchemes || overrides.colorSchemes) {
+      merged.colorSchemes = {};
+      for (const scheme of ['dark', 'high-contrast'] as const) {
+        const colors = { ...base.colorSchemes?.[scheme], ...overrides.colorSchemes?.[scheme] };
+        if (Object.keys(colors).length > 0) {
+          merged.colorSchemes[scheme] = colors;
+        }
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Determine if a configuration defines every required token, as themes without a parent must
+   */
+  static isCompleteConfig(config: ThemeTokenOverrides): boolean {
+    return ThemeColorsSchema.safeParse(config.colors).success && ThemeTypographySchema.safeParse(config.typography).success;
+  }
+
+  /**
+   * Check that a theme can extend the given parent: the parent exists, and the chain has no cycle and is not too deep
+   */
+  static async assertValidParent(themeId: string | null, parentId: string): Promise<void> {
+    const chain = await this.getThemeChain(parentId);
+
+    if (!chain) {
+      throw new Error('Parent theme not found');
+    }
+
+    if (themeId && chain.some(theme => theme.id === themeId)) {
+      throw new Error('A theme cannot extend itself or one of its descendants');
+    }
+
+    // Themes extending this one count towards the depth too
+    const descendantDepth = themeId ? await this.getDescendantDepth(themeId) : 0;
+    if (chain.length + 1 + descendantDepth > this.MAX_INHERITANCE_DEPTH) {
+      throw new Error('Theme inheritance is too deep');
+    }
+  }
+
+  /**
+   * Resolve the theme for a page: its own theme (or the default theme) with the page's token overrides applied
+   */
+  static async resolvePageTheme(page: {
+    themeId?: string | null;
+    themeOverrides?: unknown;
+  }): Promise<ThemeConfig | null> {
+    const base = (page.themeId && (await this.getThemeById(page.themeId))) || (await this.getDefaultTheme());
+    if (!base) {
+      return null;
+    }
+
+    return this.mergeConfig(base.config, page.themeOverrides as ThemeTokenOverrides | null);
+  }
+
+  // Color properties, with HSL components for manipulating colors in CSS
+  private static generateColorProperties(colors: Partial<ThemeConfig['colors']>): CSSCustomProperties {
+    const cssProperties: CSSCustomProperties = {};
+
+    Object.entries(colors).forEach(([key, value]) => {
+      if (!value) return;
+      cssProperties[`--color-${key}`] = value;
+
+      const hsl = this.hexToHsl(value);
+      if (hsl) {
+        cssProperties[`--color-${key}-h`] = hsl.h.toString();
+        cssProperties[`--color-${key}-s`] = `${hsl.s}%`;
+        cssProperties[`--color-${key}-l`] = `${hsl.l}%`;
+      }
+    });
+
+    return cssProperties;
+  }
+
+  private static generatePropertyBlock(selector: string, properties: CSSCustomProperties): string {
+    let css = `${selector} {\n`;
+    Object.entries(properties).forEach(([property, value]) => {
+      css += `  ${property}: ${value};\n`;
+    });
+    css += '}\n';
+
+    return css;
+  }
+
   /**
    * Generate utility CSS classes
    */
@@ -178,35 +338,47 @@ export class ThemeService {
     const issues: AccessibilityIssue[] = [];
     let score = 100;
 
-    // Check color contrast ratios
-    const contrastChecks = [
-      { fg: themeConfig.colors.foreground, bg: themeConfig.colors.background, context: 'main text' },
-      { fg: themeConfig.colors['muted-foreground'], bg: themeConfig.colors.muted, context: 'muted text' },
-      { fg: themeConfig.colors['card-foreground'], bg: themeConfig.colors.card, context: 'card text' },
-      { fg: themeConfig.colors['popover-foreground'], bg: themeConfig.colors.popover, context: 'popover text' },
-      { fg: themeConfig.colors.background, bg: themeConfig.colors.primary, context: 'primary button text' },
-      { fg: themeConfig.colors.background, bg: themeConfig.colors.secondary, context: 'secondary button text' },
+    const schemes: ColorScheme[] = [
+      'light',
+      ...(['dark', 'high-contrast'] as const).filter(scheme => themeConfig.colorSchemes?.[scheme]),
     ];
 
-    contrastChecks.forEach(({ fg, bg, context }) => {
-      const ratio = this.calculateContrastRatio(fg, bg);
-      
-      if (ratio < 4.5) {
-        issues.push({
-          type: 'contrast',
-          severity: ratio < 3 ? 'error' : 'warning',
-          message: `Low contrast ratio for ${context}`,
-          suggestion: `Consider using darker/lighter colors to improve readability`,
-          colors: { foreground: fg, background: bg, ratio },
-        });
-        score -= ratio < 3 ? 20 : 10;
-      }
-    });
+    schemes.forEach(scheme => {
+      const colors = this.getSchemeColors(themeConfig, scheme);
+      const label = scheme === 'light' ? '' : ` (${scheme} scheme)`;
+
+      // The high-contrast scheme aims for WCAG AAA rather than AA
+      const minimumRatio = scheme === 'high-contrast' ? this.CONTRAST_LEVELS.AAA : this.CONTRAST_LEVELS.AA;
+      const errorRatio = scheme === 'high-contrast' ? this.CONTRAST_LEVELS.AA : 3;
+
+      // Check color contrast ratios
+      this.CONTRAST_PAIRS.forEach(({ foreground, background, context }) => {
+        const fg = colors[foreground];
+        const bg = colors[background];
+        const ratio = this.calculateContrastRatio(fg, bg);
+
+        if (ratio < minimumRatio) {
+          issues.push({
+            type: 'contrast',
+            severity: ratio < errorRatio ? 'error' : 'warning',
+            scheme,
+            message: `Low contrast ratio for ${context}${label}`,
+            suggestion: `Consider using darker/lighter colors to improve readability`,
+            colors: { foreground: fg, background: bg, ratio },
+          });
+          score -= ratio < errorRatio ? 20 : 10;
+        }
+      });
 
-    // Check for color blindness accessibility
-    const colorBlindnessIssues = this.checkColorBlindnessAccessibility(themeConfig.colors);
-    issues.push(...colorBlindnessIssues);
-    score -= colorBlindnessIssues.length * 5;
+      // Check for color blindness accessibility
+      const colorBlindnessIssues = this.checkColorBlindnessAccessibility(colors).map(issue => ({
+        ...issue,
+        scheme,
+        message: `${issue.message}${label}`,
+      }));
+      issues.push(...colorBlindnessIssues);
+      score -= colorBlindnessIssues.length * 5;
+    });
 
     // Check typography readability
     const typographyIssues = this.checkTypographyReadability(themeConfig.typography);
@@ -217,13 +389,14 @@ export class ThemeService {
       isValid: issues.filter(issue => issue.severity === 'error').length === 0,
       issues,
       score: Math.max(0, score),
+      schemes,
     };
   }
 
   /**
    * Calculate contrast ratio between two colors
    */
-  private static calculateContrastRatio(color1: string, color2: string): number {
+  static calculateContrastRatio(color1: string, color2: string): number {
     const luminance1 = this.getLuminance(color1);
     const luminance2 = this.getLuminance(color2);
     
@@ -493,27 +666,21 @@ ${previewSelector} .preview-muted {
   }
 
   /**
-   * Get theme by ID with config parsing
+   * Get theme by ID, with the config resolved through its parent themes
    */
   static async getThemeById(themeId: string): Promise<{ theme: any; config: ThemeConfig } | null> {
     try {
-      const [theme] = await db
-        .select()
-        .from(themes)
-        .where(eq(themes.id, themeId))
-        .limit(1);
-
-      if (!theme) return null;
+      const chain = await this.getThemeChain(themeId);
+      if (!chain) return null;
 
-      const config = theme.config as ThemeConfig;
-      return { theme, config };
+      return { theme: chain[0], config: this.mergeChain(chain) };
     } catch (error) {
       throw new Error(`Failed to get theme: ${error}`);
     }
   }
 
   /**
-   * Get default theme
+   * Get default theme, with the config resolved through its parent themes
    */
   static async getDefaultTheme(): Promise<{ theme: any; config: ThemeConfig } | null> {
     try {
@@ -525,10 +692,59 @@ ${previewSelector} .preview-muted {
 
       if (!theme) return null;
 
-      const config = theme.config as ThemeConfig;
-      return { theme, config };
+      const chain = theme.parentId ? await this.getThemeChain(theme.parentId) : [];
+      return { theme, config: this.mergeChain([theme, ...(chain || [])]) };
     } catch (error) {
       throw new Error(`Failed to get default theme: ${error}`);
     }
   }
+
+  /**
+   * Load a theme and its ancestors, the theme itself first. Returns null when the theme does not exist.
+   */
+  private static async getThemeChain(themeId: string): Promise<Array<typeof themes.$inferSelect> | null> {
+    const chain: Array<typeof themes.$inferSelect> = [];
+    let nextId: string | null = themeId;
+
+    while (nextId) {
+      if (chain.length >= this.MAX_INHERITANCE_DEPTH || chain.some(theme => theme.id === nextId)) {
+        throw new Error('Theme inheritance cycle or chain too deep');
+      }
+
+      const [theme] = await db.select().from(themes).where(eq(themes.id, nextId)).limit(1);
+      if (!theme) {
+        return chain.length === 0 ? null : chain;
+      }
+
+      chain.push(theme);
+      nextId = theme.parentId;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Number of generations of themes extending the given theme
+   */
+  private static async getDescendantDepth(themeId: string): Promise<number> {
+    let depth = 0;
+    let level = [themeId];
+
+    while (level.length > 0 && depth < this.MAX_INHERITANCE_DEPTH) {
+      const children = await db.select({ id: themes.id }).from(themes).where(inArray(themes.parentId, level));
+      level = children.map(child => child.id);
+      if (level.length > 0) depth++;
+    }
+
+    return depth;
+  }
+
+  // The root theme holds the complete config; each descendant overrides some of its tokens
+  private static mergeChain(chain: Array<typeof themes.$inferSelect>): ThemeConfig {
+    const [root, ...descendants] = [...chain].reverse();
+    return descendants.reduce(
+      (config, theme) => this.mergeConfig(config, theme.config as ThemeTokenOverrides),
+      root!.config as ThemeConfig
+    );
+  }
 }
\ No newline at end of file
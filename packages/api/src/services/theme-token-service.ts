@@ -0,0 +1,437 @@
+import { z } from 'zod';
+import { ThemeSchema } from '@oldworldcharm/shared';
+import type { ThemeConfig } from './theme-service';
+
+export type ThemeExportFormat = 'tailwind' | 'dtcg' | 'scss' | 'typescript';
+
+export interface ThemeExportFile {
+  data: string;
+  filename: string;
+  mimeType: string;
+}
+
+// W3C Design Tokens Community Group (DTCG) format: groups of tokens with $type and $value
+export interface DesignToken {
+  $type?: string;
+  $value: unknown;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+export interface DesignTokenGroup {
+  [key: string]: DesignToken | DesignTokenGroup | string | undefined;
+}
+
+interface DesignTokenShadow {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+// A theme read from design tokens, validated like a stored theme
+export type ImportedTheme = z.infer<typeof ImportedThemeSchema>;
+
+const ImportedThemeSchema = ThemeSchema.omit({ id: true, parentId: true, createdAt: true, updatedAt: true });
+
+// Converts resolved theme configurations to and from the formats front-end tooling reads
+export class ThemeTokenService {
+  private static readonly CSS_EXTENSION = 'com.oldworldcharm.css';
+  private static readonly MAX_ALIAS_DEPTH = 10;
+  private static readonly FONT_WEIGHT_NAMES: Record<string, number> = {
+    thin: 100,
+    hairline: 100,
+    'extra-light': 200,
+    'ultra-light': 200,
+    light: 300,
+    normal: 400,
+    regular: 400,
+    book: 400,
+    medium: 500,
+    'semi-bold': 600,
+    'demi-bold': 600,
+    bold: 700,
+    'extra-bold': 800,
+    'ultra-bold': 800,
+    black: 900,
+    heavy: 900,
+  };
+
+  /**
+   * Export a theme as a file in the given format
+   */
+  static exportTheme(name: string, config: ThemeConfig, format: ThemeExportFormat): ThemeExportFile {
+    const baseFilename = this.slugify(name);
+
+    switch (format) {
+      case 'tailwind':
+        return {
+          data: this.toTailwindPreset(name, config),
+          filename: `${baseFilename}.tailwind-preset.js`,
+          mimeType: 'text/javascript',
+        };
+
+      case 'dtcg':
+        return {
+          data: JSON.stringify(this.toDesignTokens(name, config), null, 2),
+          filename: `${baseFilename}.tokens.json`,
+          mimeType: 'application/design-tokens+json',
+        };
+
+      case 'scss':
+        return {
+          data: this.toScss(name, config),
+          filename: `_${baseFilename}.scss`,
+          mimeType: 'text/x-scss',
+        };
+
+      case 'typescript':
+        return {
+          data: this.toTypeScript(name, config),
+          filename: `${baseFilename}.tokens.ts`,
+          mimeType: 'text/typescript',
+        };
+
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Generate a Tailwind CSS preset. Dark and high-contrast palettes become color groups, e.g. bg-dark-background.
+   */
+  static toTailwindPreset(name: string, config: ThemeConfig): string {
+    const { typography } = config;
+    const colors: Record<string, unknown> = { ...config.colors };
+    Object.entries(config.colorSchemes || {}).forEach(([scheme, palette]) => {
+      if (palette && Object.keys(palette).length > 0) {
+        colors[scheme] = palette;
+      }
+    });
+
+    const fontFamily: Record<string, string[]> = { sans: this.splitFontFamily(typography.fontFamily) };
+    if (typography.headingFont) {
+      fontFamily.heading = this.splitFontFamily(typography.headingFont);
+    }
+
+    const extend = this.withoutEmpty({
+      colors,
+      fontFamily,
+      fontSize: typography.fontSize,
+      fontWeight: this.mapValues(typography.fontWeight || {}, String),
+      lineHeight: typography.lineHeight,
+      letterSpacing: typography.letterSpacing,
+      spacing: config.spacing,
+      borderRadius: config.borderRadius,
+      boxShadow: config.shadows,
+    });
+
+    return [
+      `// Tailwind CSS preset generated from the ${JSON.stringify(name)} theme`,
+      "/** @type {import('tailwindcss').Config} */",
+      `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Generate a W3C design tokens (DTCG) document
+   */
+  static toDesignTokens(name: string, config: ThemeConfig): DesignTokenGroup {
+    const { typography } = config;
+
+    const fontFamily: DesignTokenGroup = {
+      base: { $type: 'fontFamily', $value: this.splitFontFamily(typography.fontFamily) },
+    };
+    if (typography.headingFont) {
+      fontFamily.heading = { $type: 'fontFamily', $value: this.splitFontFamily(typography.headingFont) };
+    }
+
+    const colorScheme: DesignTokenGroup = {};
+    Object.entries(config.colorSchemes || {}).forEach(([scheme, palette]) => {
+      if (palette && Object.keys(palette).length > 0) {
+        colorScheme[scheme] = this.tokenGroup(palette, 'color');
+      }
+    });
+
+    const tokens: DesignTokenGroup = {
+      $description: `Design tokens for the ${name} theme`,
+      color: this.tokenGroup(config.colors, 'color'),
+      colorScheme,
+      typography: this.withoutEmpty({
+        fontFamily,
+        fontSize: this.tokenGroup(typography.fontSize || {}, 'dimension'),
+        fontWeight: this.tokenGroup(typography.fontWeight || {}, 'fontWeight'),
+        lineHeight: this.mapValues(typography.lineHeight || {}, value =>
+          // Unitless line heights are numbers; anything else is a dimension
+          /^\d*\.?\d+$/.test(value) ? { $type: 'number', $value: Number(value) } : { $type: 'dimension', $value: value }
+        ),
+        letterSpacing: this.tokenGroup(typography.letterSpacing || {}, 'dimension'),
+      }) as DesignTokenGroup,
+      spacing: this.tokenGroup(config.spacing || {}, 'dimension'),
+      borderRadius: this.tokenGroup(config.borderRadius || {}, 'dimension'),
+      shadow: this.mapValues(config.shadows || {}, value => this.shadowToken(value)),
+    };
+
+    return this.withoutEmpty(tokens) as DesignTokenGroup;
+  }
+
+  /**
+   * Generate SCSS variables, plus a map of the colors for loops
+   */
+  static toScss(name: string, config: ThemeConfig): string {
+    const { typography } = config;
+    const lines = [`// SCSS variables generated from the ${JSON.stringify(name)} theme`, ''];
+    const section = (title: string, prefix: string, values: Record<string, string | number> | undefined) => {
+      const entries = Object.entries(values || {});
+      if (entries.length === 0) return;
+
+      lines.push(`// ${title}`);
+      entries.forEach(([key, value]) => lines.push(`$${prefix}-${this.identifier(key)}: ${value};`));
+      lines.push('');
+    };
+
+    section('Colors', 'color', config.colors);
+    Object.entries(config.colorSchemes || {}).forEach(([scheme, palette]) => {
+      section(`Colors (${scheme} scheme)`, `color-${scheme}`, palette as Record<string, string> | undefined);
+    });
+
+    lines.push('// Typography', `$font-family: ${typography.fontFamily};`);
+    if (typography.headingFont) {
+      lines.push(`$font-family-heading: ${typography.headingFont};`);
+    }
+    lines.push('');
+    section('Font sizes', 'font-size', typography.fontSize);
+    section('Font weights', 'font-weight', typography.fontWeight);
+    section('Line heights', 'line-height', typography.lineHeight);
+    section('Letter spacing', 'letter-spacing', typography.letterSpacing);
+    section('Spacing', 'spacing', config.spacing);
+    section('Border radius', 'border-radius', config.borderRadius);
+    section('Shadows', 'shadow', config.shadows);
+
+    lines.push('$colors: (');
+    Object.keys(config.colors).forEach(key => lines.push(`  '${key}': $color-${this.identifier(key)},`));
+    lines.push(');', '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate a TypeScript module of token constants
+   */
+  static toTypeScript(name: string, config: ThemeConfig): string {
+    const constant = (exportName: string, value: unknown) =>
+      `export const ${exportName} = ${JSON.stringify(value, null, 2)} as const;\n`;
+
+    return [
+      `// Design tokens generated from the ${JSON.stringify(name)} theme\n`,
+      constant('colors', config.colors),
+      constant('colorSchemes', config.colorSchemes || {}),
+      constant('typography', config.typography),
+      constant('spacing', config.spacing || {}),
+      constant('borderRadius', config.borderRadius || {}),
+      constant('shadows', config.shadows || {}),
+      'export const theme = { colors, colorSchemes, typography, spacing, borderRadius, shadows } as const;\n',
+      'export type ColorToken = keyof typeof colors;',
+      'export type SpacingToken = keyof typeof spacing;',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Read a theme from a DTCG document in the layout toDesignTokens writes. Aliases such as
+   * "{color.primary}" are resolved. Throws a ZodError when the tokens do not make a complete theme.
+   */
+  static fromDesignTokens(name: string, tokens: DesignTokenGroup): ImportedTheme {
+    const read = (path: string[]): Record<string, unknown> => {
+      const group = this.getPath(tokens, path);
+      if (!this.isGroup(group)) return {};
+
+      const values: Record<string, unknown> = {};
+      Object.entries(group).forEach(([key, token]) => {
+        if (!key.startsWith('$') && this.isToken(token)) {
+          values[key] = this.resolveValue(tokens, token.$value);
+        }
+      });
+      return values;
+    };
+
+    const strings = (values: Record<string, unknown>) =>
+      this.mapValues(values, value => this.toCssValue(value));
+
+    const fontFamily = read(['typography', 'fontFamily']);
+    const colorSchemes: Record<string, Record<string, string>> = {};
+    for (const scheme of ['dark', 'high-contrast']) {
+      const palette = strings(read(['colorScheme', scheme]));
+      if (Object.keys(palette).length > 0) {
+        colorSchemes[scheme] = palette;
+      }
+    }
+
+    return ImportedThemeSchema.parse({
+      name,
+      colors: strings(read(['color'])),
+      typography: {
+        fontFamily: this.joinFontFamily(fontFamily.base),
+        headingFont: fontFamily.heading !== undefined ? this.joinFontFamily(fontFamily.heading) : undefined,
+        fontSize: strings(read(['typography', 'fontSize'])),
+        fontWeight: this.mapValues(read(['typography', 'fontWeight']), value =>
+          typeof value === 'string' ? (this.FONT_WEIGHT_NAMES[value] ?? Number(value)) : value
+        ),
+        lineHeight: strings(read(['typography', 'lineHeight'])),
+        letterSpacing: this.getPath(tokens, ['typography', 'letterSpacing'])
+          ? strings(read(['typography', 'letterSpacing']))
+          : undefined,
+      },
+      spacing: strings(read(['spacing'])),
+      borderRadius: strings(read(['borderRadius'])),
+      shadows: this.mapValues(read(['shadow']), value => this.shadowToCss(value)),
+      colorSchemes: Object.keys(colorSchemes).length > 0 ? colorSchemes : undefined,
+    });
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static tokenGroup(values: Record<string, string | number>, type: string): DesignTokenGroup {
+    return this.mapValues(values, value => ({ $type: type, $value: value }));
+  }
+
+  // DTCG shadows are structured; shadows that are not plain lengths and a color keep their CSS in an extension
+  private static shadowToken(css: string): DesignToken {
+    const layers = this.parseShadow(css);
+    if (!layers) {
+      return { $value: css, $extensions: { [this.CSS_EXTENSION]: css } };
+    }
+    return { $type: 'shadow', $value: layers.length === 1 ? layers[0] : layers };
+  }
+
+  private static parseShadow(css: string): DesignTokenShadow[] | null {
+    const layers = css.split(/,(?![^(]*\))/).map(layer => layer.trim());
+    const parsed: DesignTokenShadow[] = [];
+
+    for (const layer of layers) {
+      const parts = layer.split(/\s+(?![^(]*\))/).filter(Boolean);
+      const inset = parts.includes('inset');
+      const rest = parts.filter(part => part !== 'inset');
+      const color = rest.find(part => !/^-?\d*\.?\d+[a-z%]*$/i.test(part));
+      const lengths = rest.filter(part => part !== color);
+
+      if (!color || rest.length !== lengths.length + 1 || lengths.length < 2 || lengths.length > 4) {
+        return null;
+      }
+
+      parsed.push({
+        color,
+        offsetX: lengths[0]!,
+        offsetY: lengths[1]!,
+        blur: lengths[2] || '0',
+        spread: lengths[3] || '0',
+        ...(inset && { inset: true }),
+      });
+    }
+
+    return parsed;
+  }
+
+  private static shadowToCss(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    const layers = (Array.isArray(value) ? value : [value]) as Array<Partial<DesignTokenShadow>>;
+    return layers
+      .map(layer =>
+        [
+          layer.inset ? 'inset' : '',
+          this.toCssValue(layer.offsetX),
+          this.toCssValue(layer.offsetY),
+          this.toCssValue(layer.blur),
+          this.toCssValue(layer.spread),
+          this.toCssValue(layer.color),
+        ]
+          .filter(Boolean)
+          .join(' ')
+      )
+      .join(', ');
+  }
+
+  // Newer DTCG drafts write dimensions as { value, unit } and colors as objects with a hex fallback
+  private static toCssValue(value: unknown): string {
+    if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      if (typeof object.hex === 'string') return object.hex;
+      if ('value' in object && 'unit' in object) return `${object.value}${object.unit}`;
+    }
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  private static resolveValue(tokens: DesignTokenGroup, value: unknown, depth = 0): unknown {
+    const alias = typeof value === 'string' ? /^\{([^}]+)\}$/.exec(value) : null;
+    if (!alias) {
+      return value;
+    }
+    if (depth >= this.MAX_ALIAS_DEPTH) {
+      throw new Error(`Design token alias is too deep: ${value}`);
+    }
+
+    const target = this.getPath(tokens, alias[1]!.split('.'));
+    if (!this.isToken(target)) {
+      throw new Error(`Unknown design token alias: ${value}`);
+    }
+    return this.resolveValue(tokens, target.$value, depth + 1);
+  }
+
+  private static getPath(tokens: DesignTokenGroup, path: string[]): unknown {
+    return path.reduce<unknown>((node, key) => (this.isGroup(node) ? node[key] : undefined), tokens);
+  }
+
+  private static isGroup(node: unknown): node is DesignTokenGroup {
+    return !!node && typeof node === 'object' && !Array.isArray(node) && !('$value' in node);
+  }
+
+  private static isToken(node: unknown): node is DesignToken {
+    return !!node && typeof node === 'object' && '$value' in node;
+  }
+
+  private static splitFontFamily(fontFamily: string): string[] {
+    return fontFamily
+      .split(',')
+      .map(family => family.trim().replace(/^(['"])(.*)\1$/, '$2'))
+      .filter(Boolean);
+  }
+
+  private static joinFontFamily(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+      return value.map(family => (/\s/.test(String(family)) ? `"${family}"` : String(family))).join(', ');
+    }
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private static mapValues<T, U>(values: Record<string, T>, map: (value: T) => U): Record<string, U> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, map(value)]));
+  }
+
+  // Leave out empty groups, so exports only list the tokens a theme has
+  private static withoutEmpty<T extends Record<string, unknown>>(values: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => {
+        if (value === undefined) return false;
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          return Object.keys(value).length > 0;
+        }
+        return true;
+      })
+    ) as Partial<T>;
+  }
+
+  private static identifier(key: string): string {
+    return key.replace(/[^a-zA-Z0-9_-]/g, '-');
+  }
+
+  private static slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'theme';
+  }
+}
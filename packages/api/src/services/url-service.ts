@@ -1,5 +1,5 @@
 import { db } from '../db/connection';
-import { pages, seoRedirects, sitemapEntries } from '../db/schema';
+import { pages, blogPosts, seoRedirects, sitemapEntries } from '../db/schema';
 import { eq, and, or, desc, ne } from 'drizzle-orm';
 import type { URLRedirect, SitemapEntry } from '@oldworldcharm/shared';
 
@@ -290,12 +290,14 @@ export class URLService {
       customEntries = [],
     } = options;
 
-    // Get all published pages
+    // Get all published pages, noting which ones are blog posts
     const publishedPages = await db
-      .select()
+      .select({ page: pages, blogPostId: blogPosts.id })
       .from(pages)
+      .leftJoin(blogPosts, eq(pages.id, blogPosts.pageId))
       .where(eq(pages.status, 'published'))
-      .orderBy(desc(pages.updatedAt));
+      .orderBy(desc(pages.updatedAt))
+      .then(rows => rows.map(row => ({ ...row.page, isBlogPost: row.blogPostId !== null })));
 
     // Filter out excluded patterns
     const filteredPages = publishedPages.filter(page => {
@@ -312,7 +314,7 @@ export class URLService {
     // Add pages
     for (const page of filteredPages) {
       xml += '  <url>\n';
-      xml += `    <loc>${baseUrl}/${page.slug}</loc>\n`;
+      xml += `    <loc>${baseUrl}${this.getPagePath(page.slug, page.isBlogPost)}</loc>\n`;
       
       if (includeLastModified) {
         const lastMod = page.updatedAt.toISOString().split('T')[0];
@@ -361,6 +363,46 @@ export class URLService {
     return xml;
   }
 
+  /**
+   * Add or refresh the sitemap entry for a single published page, replacing the entry it had
+   * under a previous slug
+   */
+  async upsertPageSitemapEntry(baseUrl: string, page: any): Promise<void> {
+    const [blogPost] = await db
+      .select({ id: blogPosts.id })
+      .from(blogPosts)
+      .where(eq(blogPosts.pageId, page.id))
+      .limit(1);
+
+    const values = {
+      url: `${baseUrl}${this.getPagePath(page.slug, Boolean(blogPost))}`,
+      lastModified: page.updatedAt,
+      changeFrequency: this.determineChangeFrequency(page),
+      priority: Math.round(parseFloat(this.determinePriority(page)) * 100), // Store as 0-100
+      pageId: page.id,
+      isActive: true,
+    };
+
+    await db
+      .delete(sitemapEntries)
+      .where(and(eq(sitemapEntries.pageId, page.id), ne(sitemapEntries.url, values.url)));
+
+    await db
+      .insert(sitemapEntries)
+      .values(values)
+      .onConflictDoUpdate({
+        target: sitemapEntries.url,
+        set: { ...values, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Remove a page from the sitemap
+   */
+  async removePageSitemapEntries(pageId: string): Promise<void> {
+    await db.delete(sitemapEntries).where(eq(sitemapEntries.pageId, pageId));
+  }
+
   /**
    * Generate robots.txt content
    */
@@ -436,6 +478,16 @@ export class URLService {
     return normalized;
   }
 
+  /**
+   * Public path of a page, matching the site routes and the static build
+   */
+  private getPagePath(slug: string, isBlogPost: boolean): string {
+    if (isBlogPost) {
+      return `/blog/${slug}`;
+    }
+    return slug === 'home' || slug === 'index' ? '/' : `/${slug}`;
+  }
+
   /**
    * Determine change frequency for sitemap
    */
@@ -493,7 +545,7 @@ export class URLService {
     const entries = [
       // Page entries
       ...pages.map(page => ({
-        url: `${baseUrl}/${page.slug}`,
+        url: `${baseUrl}${this.getPagePath(page.slug, page.isBlogPost)}`,
         lastModified: page.updatedAt,
         changeFrequency: this.determineChangeFrequency(page),
         priority: Math.round(parseFloat(this.determinePriority(page)) * 100), // Store as 0-100
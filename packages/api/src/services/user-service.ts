@@ -0,0 +1,271 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { db, users, refreshTokens } from '../db/index';
+import type { User, UserRole, UserPreferences } from '@oldworldcharm/shared';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export interface UserCreateData {
+  email: string;
+  password: string;
+  name: string;
+  role?: UserRole;
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  language: 'en',
+  timezone: 'UTC',
+  notifications: {
+    email: true,
+    push: true,
+    comments: true,
+    mentions: true,
+    updates: false,
+  },
+};
+
+export class UserService {
+  private static readonly KEY_LENGTH = 64;
+  private static readonly SALT_LENGTH = 16;
+  private static readonly REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+  /**
+   * Hash a password with a random salt using scrypt
+   */
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(this.SALT_LENGTH);
+    const derivedKey = await scryptAsync(password, salt, this.KEY_LENGTH);
+    return `${salt.toString('hex')}:${derivedKey.toString('hex')}`;
+  }
+
+  /**
+   * Verify a password against a stored salt:hash string
+   */
+  static async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [saltHex, keyHex] = storedHash.split(':');
+    if (!saltHex || !keyHex) {
+      return false;
+    }
+
+    const storedKey = Buffer.from(keyHex, 'hex');
+    const derivedKey = await scryptAsync(password, Buffer.from(saltHex, 'hex'), storedKey.length);
+
+    return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+  }
+
+  /**
+   * Create a new user account
+   */
+  static async createUser(data: UserCreateData): Promise<User> {
+    const email = data.email.trim().toLowerCase();
+
+    const existingUser = await this.getUserRecordByEmail(email);
+    if (existingUser) {
+      throw new Error('User with this email already exists');
+    }
+
+    const passwordHash = await this.hashPassword(data.password);
+
+    let newUser: typeof users.$inferSelect | undefined;
+    try {
+      [newUser] = await db
+        .insert(users)
+        .values({
+          email,
+          passwordHash,
+          name: data.name,
+          role: data.role || 'viewer',
+          preferences: DEFAULT_PREFERENCES,
+        })
+        .returning();
+    } catch (error) {
+      // Another request registered the email after the check above
+      if (this.isUniqueViolation(error)) {
+        throw new Error('User with this email already exists');
+      }
+      throw error;
+    }
+
+    if (!newUser) {
+      throw new Error('Failed to create user');
+    }
+
+    return this.mapDbUserToUser(newUser);
+  }
+
+  /**
+   * Get a user by ID
+   */
+  static async getUserById(id: string): Promise<User | null> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+
+    return user ? this.mapDbUserToUser(user) : null;
+  }
+
+  /**
+   * Change a user's role; refreshed tokens carry the new role
+   */
+  static async updateRole(id: string, role: UserRole): Promise<User | null> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    return user ? this.mapDbUserToUser(user) : null;
+  }
+
+  /**
+   * Get a user by email address
+   */
+  static async getUserByEmail(email: string): Promise<User | null> {
+    const user = await this.getUserRecordByEmail(email.trim().toLowerCase());
+    return user ? this.mapDbUserToUser(user) : null;
+  }
+
+  /**
+   * Verify credentials and record the login time
+   */
+  static async authenticate(email: string, password: string): Promise<User | null> {
+    const user = await this.getUserRecordByEmail(email.trim().toLowerCase());
+
+    // Hash anyway when the user is unknown so response timing doesn't reveal registered emails
+    if (!user) {
+      await this.hashPassword(password);
+      return null;
+    }
+
+    const isValid = await this.verifyPassword(password, user.passwordHash);
+    if (!isValid) {
+      return null;
+    }
+
+    if (!user.isActive) {
+      throw new Error('Account is disabled');
+    }
+
+    const [updatedUser] = await db
+      .update(users)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return this.mapDbUserToUser(updatedUser || user);
+  }
+
+  /**
+   * Issue a new refresh token for a user. Only the token hash is stored.
+   */
+  static async issueRefreshToken(userId: string): Promise<string> {
+    const token = randomBytes(48).toString('base64url');
+
+    await db.insert(refreshTokens).values({
+      userId,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.REFRESH_TOKEN_TTL),
+    });
+
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one, revoking the old token
+   */
+  static async rotateRefreshToken(token: string): Promise<{ user: User; refreshToken: string } | null> {
+    // Revoking in the same statement that finds the token lets only one of two concurrent requests use it
+    const [storedToken] = await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(refreshTokens.tokenHash, this.hashToken(token)),
+          isNull(refreshTokens.revokedAt),
+          gt(refreshTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+
+    if (!storedToken) {
+      return null;
+    }
+
+    const [dbUser] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, storedToken.userId))
+      .limit(1);
+
+    if (!dbUser || !dbUser.isActive) {
+      return null;
+    }
+
+    const user = this.mapDbUserToUser(dbUser);
+    const refreshToken = await this.issueRefreshToken(user.id);
+
+    return { user, refreshToken };
+  }
+
+  /**
+   * Revoke all outstanding refresh tokens for a user
+   */
+  static async revokeRefreshTokens(userId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static async getUserRecordByEmail(email: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    return user || null;
+  }
+
+  // Postgres unique_violation; drizzle wraps driver errors and keeps the original as the cause
+  private static isUniqueViolation(error: unknown): boolean {
+    const { code, cause } = (error || {}) as { code?: string; cause?: { code?: string } };
+    return code === '23505' || cause?.code === '23505';
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private static mapDbUserToUser(dbUser: any): User {
+    const user: User = {
+      id: dbUser.id,
+      email: dbUser.email,
+      name: dbUser.name,
+      role: dbUser.role as UserRole,
+      preferences: { ...DEFAULT_PREFERENCES, ...(dbUser.preferences as Partial<UserPreferences>) },
+      createdAt: dbUser.createdAt,
+      updatedAt: dbUser.updatedAt,
+    };
+
+    if (dbUser.avatar) {
+      user.avatar = dbUser.avatar;
+    }
+    if (dbUser.lastLoginAt) {
+      user.lastLoginAt = dbUser.lastLoginAt;
+    }
+
+    return user;
+  }
+}
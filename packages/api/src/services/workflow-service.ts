@@ -0,0 +1,258 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db, pages, workflowTransitions } from '../db/index';
+import { CacheManager } from '../db/redis';
+import { urlService } from './url-service';
+import { PermissionUtils, WORKFLOW_TRANSITIONS, WorkflowUtils } from '@oldworldcharm/shared';
+import type {
+  PageStatus,
+  PermissionResource,
+  UserRole,
+  WorkflowAction,
+  WorkflowTransition,
+} from '@oldworldcharm/shared';
+
+export interface WorkflowTransitionOptions {
+  userId?: string | undefined;
+  comment?: string | undefined;
+}
+
+export interface RecordTransitionData extends WorkflowTransitionOptions {
+  pageId: string;
+  action: WorkflowAction;
+  fromStatus: PageStatus;
+  toStatus: PageStatus;
+}
+
+export interface ContentUpdateContext {
+  resource: PermissionResource;
+  role: UserRole | string;
+  isOwner?: boolean;
+  currentStatus: PageStatus;
+  requestedStatus?: PageStatus | undefined;
+  contentChanged: boolean;
+}
+
+export interface ResolvedTransition {
+  action: WorkflowAction;
+  fromStatus: PageStatus;
+  toStatus: PageStatus;
+}
+
+// Column values that accompany a status change on the pages table
+export interface WorkflowStatusValues {
+  status: PageStatus;
+  publishedAt?: Date | null;
+  scheduledAt?: null;
+}
+
+export interface WorkflowErrorResponse {
+  statusCode: 400 | 403 | 404 | 409;
+  error: { code: string; message: string };
+}
+
+/**
+ * Map an error thrown by the workflow service to an HTTP status and error code
+ */
+export function mapWorkflowError(error: unknown): WorkflowErrorResponse | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  const { message } = error;
+  if (message === 'Page not found') {
+    return { statusCode: 404, error: { code: 'PAGE_NOT_FOUND', message } };
+  }
+  if (message.startsWith('A comment is required')) {
+    return { statusCode: 400, error: { code: 'COMMENT_REQUIRED', message } };
+  }
+  if (message.startsWith('Access denied')) {
+    return { statusCode: 403, error: { code: 'FORBIDDEN', message } };
+  }
+  if (message.startsWith('Cannot ') || message === 'Content status changed during the transition') {
+    return { statusCode: 409, error: { code: 'INVALID_STATUS_TRANSITION', message } };
+  }
+
+  return null;
+}
+
+export class WorkflowService {
+  private static readonly BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+  /**
+   * Apply a workflow action to a page or blog post and record it in the audit trail
+   */
+  static async transition(pageId: string, action: WorkflowAction, options: WorkflowTransitionOptions = {}) {
+    const rule = WORKFLOW_TRANSITIONS[action];
+    const comment = options.comment?.trim() || undefined;
+
+    if (rule.requiresComment && !comment) {
+      throw new Error(`A comment is required to ${action.replace('_', ' ')}`);
+    }
+
+    const [existingPage] = await db
+      .select({ id: pages.id, status: pages.status })
+      .from(pages)
+      .where(eq(pages.id, pageId))
+      .limit(1);
+
+    if (!existingPage) {
+      throw new Error('Page not found');
+    }
+
+    const fromStatus = existingPage.status as PageStatus;
+    if (!WorkflowUtils.canApply(action, fromStatus)) {
+      throw new Error(`Cannot ${action.replace('_', ' ')} content that is ${fromStatus.replace('_', ' ')}`);
+    }
+
+    const [page] = await db
+      .update(pages)
+      .set({ ...this.getStatusValues(fromStatus, rule.to), updatedAt: new Date() })
+      // Guard against a concurrent transition changing the status since it was read
+      .where(and(eq(pages.id, pageId), eq(pages.status, fromStatus)))
+      .returning();
+
+    if (!page) {
+      throw new Error('Content status changed during the transition');
+    }
+
+    const transition = await this.recordTransition({
+      pageId,
+      action,
+      fromStatus,
+      toStatus: rule.to,
+      userId: options.userId,
+      comment,
+    });
+
+    await this.syncPublicContent(page, fromStatus);
+
+    return { page, transition };
+  }
+
+  /**
+   * Resolve the status change caused by a content update. A requested status must follow the
+   * transition rules and the user's permissions; approved content edited by a non-reviewer and
+   * published content edited by someone who can't publish go back to review.
+   */
+  static resolveUpdateTransition(context: ContentUpdateContext): ResolvedTransition | null {
+    const { resource, role, isOwner = false, currentStatus, requestedStatus } = context;
+
+    if (requestedStatus !== undefined && requestedStatus !== currentStatus) {
+      const action = WorkflowUtils.getAction(currentStatus, requestedStatus);
+      if (!action) {
+        throw new Error(
+          `Cannot move content from ${currentStatus.replace('_', ' ')} to ${requestedStatus.replace('_', ' ')}`
+        );
+      }
+
+      const rule = WORKFLOW_TRANSITIONS[action];
+      if (rule.requiresComment) {
+        throw new Error(`A comment is required to ${action.replace('_', ' ')}`);
+      }
+      if (!PermissionUtils.can(role, resource, rule.permission, isOwner)) {
+        throw new Error(`Access denied. Role '${role}' cannot ${action.replace('_', ' ')} ${resource}`);
+      }
+
+      return { action, fromStatus: currentStatus, toStatus: requestedStatus };
+    }
+
+    // Otherwise the edit would be published without anyone allowed to publish it seeing it
+    const needsReview =
+      (currentStatus === 'approved' && !PermissionUtils.can(role, resource, 'review')) ||
+      (currentStatus === 'published' && !PermissionUtils.can(role, resource, 'publish', isOwner));
+    if (context.contentChanged && needsReview) {
+      return { action: 'submit', fromStatus: currentStatus, toStatus: 'in_review' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Record a status change in the audit trail
+   */
+  static async recordTransition(data: RecordTransitionData): Promise<WorkflowTransition> {
+    const [transition] = await db
+      .insert(workflowTransitions)
+      .values({
+        pageId: data.pageId,
+        action: data.action,
+        fromStatus: data.fromStatus,
+        toStatus: data.toStatus,
+        comment: data.comment || null,
+        userId: data.userId || null,
+      })
+      .returning();
+
+    return this.mapDbTransitionToTransition(transition);
+  }
+
+  /**
+   * Get the workflow history of a page or blog post, newest first
+   */
+  static async getHistory(pageId: string): Promise<WorkflowTransition[]> {
+    const results = await db
+      .select()
+      .from(workflowTransitions)
+      .where(eq(workflowTransitions.pageId, pageId))
+      .orderBy(desc(workflowTransitions.createdAt));
+
+    return results.map(transition => this.mapDbTransitionToTransition(transition));
+  }
+
+  /**
+   * Column values for moving content between two statuses: sets publishedAt on publication,
+   * clears it on unpublication and drops a pending schedule once content is no longer approved
+   */
+  static getStatusValues(from: PageStatus, to: PageStatus, publishedAt: Date = new Date()): WorkflowStatusValues {
+    const values: WorkflowStatusValues = { status: to };
+
+    if (to === 'published' && from !== 'published') {
+      values.publishedAt = publishedAt;
+    }
+    if (to !== 'published' && from === 'published') {
+      values.publishedAt = null;
+    }
+    if (to !== 'approved') {
+      values.scheduledAt = null;
+    }
+
+    return values;
+  }
+
+  /**
+   * Update the sitemap and public caches after content enters or leaves the published state
+   */
+  static async syncPublicContent(
+    page: { id: string; slug: string; status: string; updatedAt: Date },
+    fromStatus: PageStatus
+  ): Promise<void> {
+    if (page.status === 'published') {
+      await urlService.upsertPageSitemapEntry(this.BASE_URL, page);
+    } else if (fromStatus === 'published') {
+      await urlService.removePageSitemapEntries(page.id);
+    } else {
+      return;
+    }
+
+    await CacheManager.invalidateContent(page.slug);
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static mapDbTransitionToTransition(dbTransition: any): WorkflowTransition {
+    const transition: WorkflowTransition = {
+      id: dbTransition.id,
+      pageId: dbTransition.pageId,
+      action: dbTransition.action as WorkflowAction,
+      fromStatus: dbTransition.fromStatus as PageStatus,
+      toStatus: dbTransition.toStatus as PageStatus,
+      createdAt: dbTransition.createdAt,
+    };
+
+    if (dbTransition.comment) transition.comment = dbTransition.comment;
+    if (dbTransition.userId) transition.userId = dbTransition.userId;
+
+    return transition;
+  }
+}
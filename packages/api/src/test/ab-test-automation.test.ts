@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ABTestAutomation } from '../services/ab-test-automation';
+import { ABTestStatistics } from '@oldworldcharm/shared';
+import type { ABTest, ABTestResults, VariantCounts } from '@oldworldcharm/shared';
+
+// Mock the database and Redis dependencies
+vi.mock('../db/index', () => ({
+  db: { select: vi.fn() },
+  abTests: {},
+}));
+
+vi.mock('../db/connection.js', () => ({
+  db: { insert: vi.fn(), select: vi.fn(), update: vi.fn(), delete: vi.fn() },
+}));
+
+vi.mock('../db/redis', () => ({
+  CacheManager: { get: vi.fn(), set: vi.fn(), del: vi.fn() },
+  ABTestManager: { getVariantCount: vi.fn() },
+  LockManager: { acquire: vi.fn(), release: vi.fn() },
+}));
+
+// Deterministic uniform generator (mulberry32)
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('ABTestAutomation', () => {
+  const baseTest: ABTest = {
+    id: 'test-1',
+    name: 'Hero test',
+    pageId: 'page-1',
+    variants: [
+      { id: 'control', name: 'Control', components: [], trafficPercentage: 50, isControl: true },
+      { id: 'variant-a', name: 'Variant A', components: [], trafficPercentage: 50, isControl: false },
+    ],
+    trafficSplit: { control: 50, 'variant-a': 50 },
+    status: 'running',
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    conversionGoal: 'signup',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  const resultsFor = (counts: VariantCounts[], guardrail?: VariantCounts[]): ABTestResults => {
+    const analysis = ABTestStatistics.analyze(counts);
+    const results: ABTestResults = {
+      totalVisitors: counts.reduce((sum, count) => sum + count.visitors, 0),
+      conversions: {},
+      conversionRates: {},
+      statisticalSignificance: 0,
+      confidence: analysis.winner ? 0.99 : 0,
+      analysis,
+      goals: [],
+    };
+    if (analysis.winner) results.winner = analysis.winner;
+    if (guardrail) {
+      results.goals!.push({
+        goalId: 'retention',
+        name: 'Retention',
+        type: 'custom_event',
+        role: 'guardrail',
+        conversions: {},
+        conversionRates: {},
+        analysis: ABTestStatistics.analyze(guardrail),
+      });
+    }
+    return results;
+  };
+
+  const even = resultsFor([
+    { variantId: 'control', visitors: 1000, conversions: 100, isControl: true },
+    { variantId: 'variant-a', visitors: 1000, conversions: 101 },
+  ]);
+  const winning = resultsFor([
+    { variantId: 'control', visitors: 1000, conversions: 100, isControl: true },
+    { variantId: 'variant-a', visitors: 1000, conversions: 150 },
+  ]);
+
+  it('should stop on a winner only past the sequential boundary for the planned sample', () => {
+    const test = { ...baseTest, stoppingRules: { minSamplePerVariant: 1000 } };
+
+    const decision = ABTestAutomation.evaluateStoppingRules(test, winning);
+    expect(decision).toMatchObject({ action: 'stop', rule: 'significance', details: { winner: 'variant-a' } });
+    expect(decision?.reason).toContain('"Variant A"');
+
+    // z = 3.4 is significant on its own, but not at a fifth of the planned sample
+    expect(ABTestAutomation.evaluateStoppingRules({ ...test, stoppingRules: { minSamplePerVariant: 5000 } }, winning))
+      .toBeNull();
+    expect(ABTestAutomation.evaluateStoppingRules(test, even)).toBeNull();
+
+    // Significant at 95% (p = 0.049) but short of the boundary that allows for repeated checks
+    const borderline = resultsFor([
+      { variantId: 'control', visitors: 1000, conversions: 100, isControl: true },
+      { variantId: 'variant-a', visitors: 1000, conversions: 128 },
+    ]);
+    expect(borderline.winner).toBe('variant-a');
+    expect(ABTestAutomation.evaluateStoppingRules(test, borderline)).toBeNull();
+  });
+
+  it('should keep false winners near alpha when checked on every tick', () => {
+    const random = seededRandom(7);
+    const simulations = 400;
+    let peekingWinners = 0;
+    let sequentialWinners = 0;
+
+    // A/A tests checked after every 100 visitors per variant, up to the planned 2000
+    for (let i = 0; i < simulations; i++) {
+      const test = { ...baseTest, stoppingRules: { minSamplePerVariant: 2000 } };
+      const conversions = { control: 0, 'variant-a': 0 };
+      let peeked = false;
+      let stopped = false;
+
+      for (let visitors = 100; visitors <= 2000; visitors += 100) {
+        for (let j = 0; j < 100; j++) {
+          if (random() < 0.1) conversions.control++;
+          if (random() < 0.1) conversions['variant-a']++;
+        }
+        const results = resultsFor([
+          { variantId: 'control', visitors, conversions: conversions.control, isControl: true },
+          { variantId: 'variant-a', visitors, conversions: conversions['variant-a'] },
+        ]);
+
+        peeked ||= results.winner !== undefined;
+        stopped ||= ABTestAutomation.evaluateStoppingRules(test, results) !== null;
+      }
+
+      if (peeked) peekingWinners++;
+      if (stopped) sequentialWinners++;
+    }
+
+    expect(peekingWinners / simulations).toBeGreaterThan(0.1);
+    expect(sequentialWinners / simulations).toBeLessThanOrEqual(0.05);
+  });
+
+  it('should stop when a guardrail degrades beyond the tolerance', () => {
+    const results = resultsFor(even.analysis!.variants, [
+      { variantId: 'control', visitors: 1000, conversions: 500, isControl: true },
+      { variantId: 'variant-a', visitors: 1000, conversions: 400 },
+    ]);
+
+    const decision = ABTestAutomation.evaluateStoppingRules(
+      { ...baseTest, stoppingRules: { stopOnGuardrailDegradation: true, guardrailTolerance: 0.05 } },
+      results
+    );
+    expect(decision).toMatchObject({ rule: 'guardrail', details: { goalId: 'retention', variantId: 'variant-a' } });
+
+    // A 20% drop is within a 25% tolerance
+    expect(
+      ABTestAutomation.evaluateStoppingRules(
+        { ...baseTest, stoppingRules: { stopOnGuardrailDegradation: true, guardrailTolerance: 0.25 } },
+        results
+      )
+    ).toBeNull();
+  });
+
+  it('should stop after the maximum duration', () => {
+    const test = { ...baseTest, stoppingRules: { maxDurationDays: 14 } };
+
+    expect(ABTestAutomation.evaluateStoppingRules(test, even, new Date('2025-01-10T00:00:00Z'))).toBeNull();
+    expect(ABTestAutomation.evaluateStoppingRules(test, even, new Date('2025-01-15T00:00:00Z'))).toMatchObject({
+      rule: 'max_duration',
+    });
+  });
+
+  it('should shift traffic toward the better variant and keep the minimum share', () => {
+    const test = { ...baseTest, bandit: { enabled: true, minTrafficPercentage: 10 } };
+
+    const reallocation = ABTestAutomation.planReallocation(test, winning, seededRandom(42));
+    expect(reallocation).not.toBeNull();
+
+    const split = reallocation!.trafficSplit;
+    expect(split['variant-a']).toBeGreaterThan(85);
+    expect(split.control).toBeGreaterThanOrEqual(10);
+    expect(split.control! + split['variant-a']!).toBeCloseTo(100, 10);
+    expect(reallocation!.decision).toMatchObject({ action: 'reallocate', rule: 'bandit' });
+  });
+
+  it('should not reallocate before every variant has the minimum sample', () => {
+    const test = { ...baseTest, bandit: { enabled: true, minSamplePerVariant: 2000 } };
+
+    expect(ABTestAutomation.planReallocation(test, winning, seededRandom(42))).toBeNull();
+    expect(ABTestAutomation.planReallocation({ ...baseTest, bandit: { enabled: false } }, winning)).toBeNull();
+  });
+});
@@ -1,18 +1,28 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ABTestService } from '../services/ab-test-service';
-import type { ABTest, ABTestVariant } from '@oldworldcharm/shared';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { abTestExposures, userSessions } from '../db/schema';
+import { ABTestManager } from '../db/redis';
+import type { ABTest, ABTestGoal, ABTestVariant } from '@oldworldcharm/shared';
+import { queryReturning } from './query-chain';
 
 // Mock the database and Redis dependencies
-vi.mock('../db/connection.js', () => ({
-  db: {
-    insert: vi.fn(),
-    select: vi.fn(),
-    update: vi.fn(),
-    delete: vi.fn(),
-  },
+const db = vi.hoisted(() => ({
+  insert: vi.fn(),
+  select: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
 }));
 
+vi.mock('../db/connection.js', () => ({ db }));
+
 vi.mock('../db/redis.js', () => ({
+  CacheManager: {
+    get: vi.fn(),
+    set: vi.fn(),
+    del: vi.fn(),
+  },
   ABTestManager: {
     assignUserToVariant: vi.fn(),
     getUserVariant: vi.fn(),
@@ -98,123 +108,127 @@ describe('ABTestService', () => {
     });
   });
 
-  describe('selectVariantByTrafficSplit', () => {
-    it('should select variant based on traffic split', () => {
-      // Test the private method logic
-      const selectVariantByTrafficSplit = (trafficSplit: Record<string, number>): string => {
-        const random = Math.random() * 100;
-        let cumulative = 0;
-
-        for (const [variantId, percentage] of Object.entries(trafficSplit)) {
-          cumulative += percentage;
-          if (random <= cumulative) {
-            return variantId;
-          }
-        }
-
-        return Object.keys(trafficSplit)[0];
-      };
-
-      // Mock Math.random to return predictable values
-      const originalRandom = Math.random;
-      
-      // Test first variant selection (0-50%)
-      Math.random = () => 0.25; // 25%
-      expect(selectVariantByTrafficSplit({ control: 50, 'variant-a': 50 })).toBe('control');
+  describe('deterministic bucketing', () => {
+    const runningTest: ABTest = {
+      ...mockTestData,
+      id: 'test-123',
+      status: 'running',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should give the same bucket for the same test and visitor', () => {
+      const bucket = ABTestService.getBucket('test-123', 'visitor-1');
+
+      expect(ABTestService.getBucket('test-123', 'visitor-1')).toBe(bucket);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(1);
+      expect(ABTestService.getBucket('test-456', 'visitor-1')).not.toBe(bucket);
+    });
 
-      // Test second variant selection (50-100%)
-      Math.random = () => 0.75; // 75%
-      expect(selectVariantByTrafficSplit({ control: 50, 'variant-a': 50 })).toBe('variant-a');
+    it('should select variants by bucket regardless of traffic split key order', () => {
+      const reordered = { ...runningTest, trafficSplit: { 'variant-a': 50, control: 50 } };
 
-      // Restore original Math.random
-      Math.random = originalRandom;
+      expect(ABTestService.selectVariantForBucket(runningTest, 0.25)).toBe('control');
+      expect(ABTestService.selectVariantForBucket(runningTest, 0.75)).toBe('variant-a');
+      expect(ABTestService.selectVariantForBucket(reordered, 0.25)).toBe('control');
+      expect(ABTestService.selectVariantForBucket(reordered, 0.75)).toBe('variant-a');
     });
-  });
 
-  describe('calculateStatisticalSignificance', () => {
-    it('should calculate statistical significance correctly', () => {
-      // Test the private method logic
-      const calculateStatisticalSignificance = (
-        variantMetrics: Record<string, { visitors: number; conversions: number; conversionValue: number }>
-      ): number => {
-        const variants = Object.values(variantMetrics);
-        if (variants.length < 2) return 0;
-
-        const totalVisitors = variants.reduce((sum, v) => sum + v.visitors, 0);
-        const totalConversions = variants.reduce((sum, v) => sum + v.conversions, 0);
-        
-        if (totalVisitors === 0 || totalConversions === 0) return 0;
-
-        const expectedConversionRate = totalConversions / totalVisitors;
-        let chiSquare = 0;
-
-        for (const variant of variants) {
-          if (variant.visitors === 0) continue;
-          
-          const expected = variant.visitors * expectedConversionRate;
-          const observed = variant.conversions;
-          
-          if (expected > 0) {
-            chiSquare += Math.pow(observed - expected, 2) / expected;
-          }
-        }
+    it('should follow the traffic split across many visitors', () => {
+      const test = { ...runningTest, trafficSplit: { control: 80, 'variant-a': 20 } };
+      const counts: Record<string, number> = { control: 0, 'variant-a': 0 };
 
-        const criticalValue = 3.841; // For 95% confidence with 1 df
-        return chiSquare > criticalValue ? 0.95 : Math.max(0, chiSquare / criticalValue);
-      };
+      for (let i = 0; i < 2000; i++) {
+        const variantId = ABTestService.selectVariantForBucket(test, ABTestService.getBucket(test.id, `visitor-${i}`));
+        counts[variantId] = (counts[variantId] || 0) + 1;
+      }
 
-      // Test with no significant difference
-      const noSignificanceMetrics = {
-        control: { visitors: 100, conversions: 10, conversionValue: 0 },
-        'variant-a': { visitors: 100, conversions: 10, conversionValue: 0 },
-      };
-      
-      const noSignificance = calculateStatisticalSignificance(noSignificanceMetrics);
-      expect(noSignificance).toBeLessThan(0.95);
+      expect(counts['variant-a']! / 2000).toBeGreaterThan(0.15);
+      expect(counts['variant-a']! / 2000).toBeLessThan(0.25);
+    });
 
-      // Test with significant difference
-      const significanceMetrics = {
-        control: { visitors: 1000, conversions: 50, conversionValue: 0 },
-        'variant-a': { visitors: 1000, conversions: 100, conversionValue: 0 },
-      };
-      
-      const significance = calculateStatisticalSignificance(significanceMetrics);
-      expect(significance).toBeGreaterThan(0);
+    it('should hold out the configured share of visitors', () => {
+      const visitors = Array.from({ length: 2000 }, (_, i) => `visitor-${i}`);
+      const heldOut = visitors.filter(visitor => ABTestService.isHeldOut({ ...runningTest, holdoutPercentage: 10 }, visitor));
+
+      expect(visitors.some(visitor => ABTestService.isHeldOut(runningTest, visitor))).toBe(false);
+      expect(heldOut.length / visitors.length).toBeGreaterThan(0.07);
+      expect(heldOut.length / visitors.length).toBeLessThan(0.13);
     });
+  });
 
-    it('should return 0 for insufficient data', () => {
-      const calculateStatisticalSignificance = (
-        variantMetrics: Record<string, { visitors: number; conversions: number; conversionValue: number }>
-      ): number => {
-        const variants = Object.values(variantMetrics);
-        if (variants.length < 2) return 0;
+  describe('results', () => {
+    it('should count visitors from the exposures after a Redis flush', async () => {
+      vi.mocked(ABTestManager.getVariantCount).mockResolvedValue(0);
+      const conversions = Array.from({ length: 30 }, (_, i) => ({
+        variantId: i < 10 ? 'control' : 'variant-a',
+        sessionId: `visitor-${i}`,
+        goalId: 'conversion',
+        converted: true,
+      }));
+      const visitorCounts = queryReturning([{ variantId: 'control', visitors: 100 }, { variantId: 'variant-a', visitors: 100 }]);
+      const from = vi.spyOn(visitorCounts, 'from');
+      db.select
+        .mockReturnValueOnce(queryReturning([{ ...mockTestData, id: 'test-123', status: 'running', goals: null }]))
+        .mockReturnValueOnce(queryReturning(conversions))
+        .mockReturnValueOnce(visitorCounts);
+
+      const results = await ABTestService.getTestResults('test-123');
+
+      expect(from).toHaveBeenCalledWith(abTestExposures);
+      expect(results?.totalVisitors).toBe(200);
+      expect(results?.conversions).toEqual({ control: 10, 'variant-a': 20 });
+      expect(results?.conversionRates).toEqual({ control: 0.1, 'variant-a': 0.2 });
+    });
+  });
 
-        const totalVisitors = variants.reduce((sum, v) => sum + v.visitors, 0);
-        const totalConversions = variants.reduce((sum, v) => sum + v.conversions, 0);
-        
-        if (totalVisitors === 0 || totalConversions === 0) return 0;
+  describe('exposures', () => {
+    it('should keep only the first exposure of each visitor', async () => {
+      const onConflictDoNothing = vi.fn().mockResolvedValue(undefined);
+      db.insert.mockReturnValue({ values: () => ({ onConflictDoNothing }) });
 
-        return 0.5; // Simplified for test
-      };
+      await ABTestService.recordExposure('test-123', 'control', 'visitor-1', 'page-123');
 
-      // Test with no visitors
-      const noVisitorsMetrics = {
-        control: { visitors: 0, conversions: 0, conversionValue: 0 },
-        'variant-a': { visitors: 0, conversions: 0, conversionValue: 0 },
-      };
-      
-      expect(calculateStatisticalSignificance(noVisitorsMetrics)).toBe(0);
+      expect(onConflictDoNothing).toHaveBeenCalledWith({ target: [abTestExposures.testId, abTestExposures.sessionId] });
+    });
+  });
 
-      // Test with single variant
-      const singleVariantMetrics = {
-        control: { visitors: 100, conversions: 10, conversionValue: 0 },
-      };
-      
-      expect(calculateStatisticalSignificance(singleVariantMetrics)).toBe(0);
+  describe('assignments', () => {
+    it('should merge a new assignment into the stored session in one statement', async () => {
+      const values = vi.fn();
+      const onConflictDoUpdate = vi.fn(async (_config: { target: unknown; set: { testAssignments: SQL } }) => {});
+      // A running test and a visitor with no stored assignment yet
+      db.select
+        .mockReturnValueOnce(queryReturning([{ ...mockTestData, id: 'test-123', status: 'running', goals: null }]))
+        .mockReturnValueOnce(queryReturning([]));
+      db.insert.mockReturnValueOnce({ values: (row: unknown) => (values(row), { onConflictDoUpdate }) });
+
+      const assignment = await ABTestService.assignUserToVariant('test-123', 'visitor-1');
+
+      expect(db.insert).toHaveBeenCalledWith(userSessions);
+      expect(values).toHaveBeenCalledWith({ sessionId: 'visitor-1', testAssignments: { 'test-123': assignment!.variantId } });
+      const { target, set } = onConflictDoUpdate.mock.calls[0]![0];
+      expect(target).toBe(userSessions.sessionId);
+      expect(new PgDialect().sqlToQuery(set.testAssignments).sql).toBe(
+        '"user_sessions"."test_assignments" || excluded.test_assignments'
+      );
     });
   });
 
   describe('validation helpers', () => {
+    it('should require exactly one primary goal with unique IDs', () => {
+      const primary: ABTestGoal = { id: 'signup', name: 'Signup', type: 'form_submit', role: 'primary' };
+      const revenue: ABTestGoal = { id: 'purchase', name: 'Purchase', type: 'revenue', role: 'secondary' };
+
+      expect(() => ABTestService.validateGoals([primary, revenue])).not.toThrow();
+      expect(() => ABTestService.validateGoals([revenue])).toThrow('Exactly one goal must be primary');
+      expect(() => ABTestService.validateGoals([primary, { ...primary, role: 'guardrail' }])).toThrow('Goal IDs must be unique');
+      expect(() =>
+        ABTestService.validateGoals([primary, { id: 'pricing', name: 'Pricing', type: 'page_reached', role: 'secondary' }])
+      ).toThrow('Page reached goals need a target path');
+    });
+
     it('should validate traffic split correctly', () => {
       const validateTrafficSplit = (trafficSplit: Record<string, number>): boolean => {
         const totalTraffic = Object.values(trafficSplit).reduce((sum, val) => sum + val, 0);
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ABTestStatistics } from '@oldworldcharm/shared';
+
+describe('ABTestStatistics', () => {
+  it('should compute normal quantiles and sample sizes', () => {
+    expect(ABTestStatistics.normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+    // 10% baseline, 10% relative lift, alpha 0.05, power 0.8
+    expect(ABTestStatistics.sampleSize({ baselineRate: 0.1, minimumDetectableEffect: 0.1 })).toBe(14751);
+    expect(
+      ABTestStatistics.minimumDetectableEffect({ baselineRate: 0.1, sampleSize: 14751 })
+    ).toBeCloseTo(0.1, 3);
+  });
+
+  it('should adjust p-values with the Holm-Bonferroni method', () => {
+    const adjusted = ABTestStatistics.holmAdjust([0.01, 0.04, 0.03]);
+
+    expect(adjusted[0]).toBeCloseTo(0.03);
+    expect(adjusted[1]).toBeCloseTo(0.06);
+    expect(adjusted[2]).toBeCloseTo(0.06);
+  });
+
+  it('should give the probability to beat control', () => {
+    const control = { variantId: 'control', visitors: 1000, conversions: 100 };
+
+    expect(ABTestStatistics.probabilityToBeatControl(control, { variantId: 'a', visitors: 1000, conversions: 120 }))
+      .toBeCloseTo(0.92, 2);
+    expect(ABTestStatistics.probabilityToBeatControl(control, control)).toBeCloseTo(0.5, 2);
+  });
+
+  it('should only declare significant improvements as winners', () => {
+    const analysis = ABTestStatistics.analyze([
+      { variantId: 'control', visitors: 1000, conversions: 100, isControl: true },
+      { variantId: 'a', visitors: 1000, conversions: 140 },
+      { variantId: 'b', visitors: 1000, conversions: 95 },
+    ]);
+
+    const a = analysis.variants.find(variant => variant.variantId === 'a');
+    const b = analysis.variants.find(variant => variant.variantId === 'b');
+
+    expect(analysis.winner).toBe('a');
+    expect(a?.comparison?.significant).toBe(true);
+    expect(a?.comparison?.adjustedPValue).toBeGreaterThan(a!.comparison!.pValue);
+    expect(b?.comparison?.significant).toBe(false);
+    expect(a?.confidenceInterval.lower).toBeLessThan(0.14);
+    expect(a?.confidenceInterval.upper).toBeGreaterThan(0.14);
+  });
+
+  it('should not declare a winner without enough evidence', () => {
+    const analysis = ABTestStatistics.analyze([
+      { variantId: 'control', visitors: 100, conversions: 10, isControl: true },
+      { variantId: 'a', visitors: 100, conversions: 12 },
+    ]);
+
+    expect(analysis.winner).toBeUndefined();
+    expect(analysis.sampleSize.requiredPerVariant).toBeGreaterThan(100);
+  });
+
+  it('should compare revenue per visitor between variants', () => {
+    // 100 of 1000 visitors buy for 50 in the control and for 70 in the variant
+    const comparisons = ABTestStatistics.compareMeans([
+      { variantId: 'control', visitors: 1000, sum: 5000, sumOfSquares: 250000, isControl: true },
+      { variantId: 'a', visitors: 1000, sum: 7000, sumOfSquares: 490000 },
+      { variantId: 'b', visitors: 0, sum: 0, sumOfSquares: 0 },
+    ]);
+
+    expect(comparisons.a?.difference).toBeCloseTo(2);
+    expect(comparisons.a?.relativeLift).toBeCloseTo(0.4);
+    expect(comparisons.a?.zScore).toBeCloseTo(2.45, 2);
+    expect(comparisons.a?.significant).toBe(true);
+    expect(comparisons.b?.pValue).toBe(1);
+    expect(comparisons.control).toBeUndefined();
+  });
+});
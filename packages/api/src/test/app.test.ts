@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../app';
+import { PageVersionService } from '../services/page-version-service';
+import { PageDeliveryService } from '../services/page-delivery-service';
+import { mediaService } from '../services/media-service';
+import { queryReturning } from './query-chain';
+
+// Mock the database; the app and every route plugin are real
+vi.hoisted(() => {
+  process.env.MEDIA_TRANSFORM_RATE_LIMIT = '2';
+});
+
+const db = vi.hoisted(() => ({ select: vi.fn(), update: vi.fn() }));
+
+vi.mock('../db/index', async importOriginal => ({
+  ...(await importOriginal<typeof import('../db/index')>()),
+  db,
+}));
+
+describe('API app', () => {
+  let app: FastifyInstance;
+  let token: string;
+
+  const page = {
+    id: 'page-1',
+    slug: 'about',
+    title: 'About',
+    description: null,
+    content: [],
+    seoData: {},
+    status: 'draft',
+    themeId: null,
+    updatedAt: new Date('2026-01-01T12:00:00.000Z'),
+  };
+
+  beforeAll(async () => {
+    app = await buildApp({ logger: false });
+    await app.ready();
+    token = app.generateToken({ userId: 'user-1', email: 'editor@example.com', role: 'editor' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(PageVersionService, 'createVersion').mockResolvedValue(2);
+    vi.spyOn(PageDeliveryService, 'purge').mockResolvedValue();
+  });
+
+  it('should serve a page through the registered page routes', async () => {
+    db.select.mockReturnValueOnce(queryReturning([page]));
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/pages/page-1',
+      headers: { authorization: `Bearer ${token}` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.page).toMatchObject({ id: 'page-1', slug: 'about', updatedAt: '2026-01-01T12:00:00.000Z' });
+
+    const unauthenticated = await app.inject({ method: 'GET', url: '/api/pages/page-1' });
+    expect(unauthenticated.statusCode).toBe(401);
+  });
+
+  it('should save a page and refuse a save based on a stale copy', async () => {
+    const saved = { ...page, title: 'About us', updatedAt: new Date('2026-01-01T12:05:00.000Z') };
+    db.select.mockReturnValueOnce(queryReturning([page]));
+    db.update.mockReturnValueOnce(queryReturning([saved]));
+
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/pages/page-1',
+      headers: { authorization: `Bearer ${token}` },
+      payload: { title: 'About us', expectedUpdatedAt: '2026-01-01T12:00:00.000Z' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.page).toMatchObject({ title: 'About us', updatedAt: '2026-01-01T12:05:00.000Z' });
+    expect(PageVersionService.createVersion).toHaveBeenCalledWith(saved, 'user-1', 'Page updated');
+    expect(PageDeliveryService.purge).toHaveBeenCalledWith('about', 'about');
+
+    // Another tab still holds the copy from before that save
+    db.select.mockReturnValueOnce(queryReturning([saved]));
+    const stale = await app.inject({
+      method: 'PUT',
+      url: '/api/pages/page-1',
+      headers: { authorization: `Bearer ${token}` },
+      payload: { title: 'About the shop', expectedUpdatedAt: '2026-01-01T12:00:00.000Z' },
+    });
+
+    expect(stale.statusCode).toBe(409);
+    expect(stale.json().error.code).toBe('PAGE_CONFLICT');
+    expect(db.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should crop transforms only to the asset\'s presets and rate-limit them', async () => {
+    const asset = { id: 'asset-1', mimeType: 'image/jpeg', visibility: 'public', updatedAt: page.updatedAt };
+    db.select.mockReturnValueOnce(queryReturning([asset])).mockReturnValueOnce(queryReturning([asset]));
+    const transformImage = vi.spyOn(mediaService, 'transformImage').mockResolvedValue({
+      body: Buffer.from('image'),
+      contentType: 'image/webp',
+      etag: '"asset-1"',
+      cacheHit: false,
+    });
+
+    const cropped = await app.inject({ method: 'GET', url: '/api/media/asset-1/transform?w=320&crop=0,0,10,10&preset=square' });
+    expect(cropped.statusCode).toBe(200);
+    expect(transformImage.mock.calls[0]![1]).toEqual(expect.objectContaining({ width: 320, preset: 'square' }));
+    expect(transformImage.mock.calls[0]![1]).not.toHaveProperty('crop');
+
+    await app.inject({ method: 'GET', url: '/api/media/asset-1/transform?w=640' });
+    const limited = await app.inject({ method: 'GET', url: '/api/media/asset-1/transform?w=1024' });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json().error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(transformImage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs/promises';
+import { BuildOptionsSchema } from '@oldworldcharm/shared';
+import type { BuildOptions } from '@oldworldcharm/shared';
+import { BuildService } from '../services/build-service';
+import { LockManager } from '../db/redis';
+import { queryReturning } from './query-chain';
+
+const outputRoot = vi.hoisted(() => {
+  process.env.BUILD_OUTPUT_DIR = `${process.env.TMPDIR || '/tmp'}/builds-${process.pid}`;
+  process.env.BUILD_KEEP_PREVIOUS = '1';
+  return process.env.BUILD_OUTPUT_DIR;
+});
+
+// Mock the database and Redis dependencies
+const db = vi.hoisted(() => ({ select: vi.fn(), insert: vi.fn(), update: vi.fn() }));
+
+vi.mock('../db/index', () => ({
+  db,
+  pages: {},
+  blogPosts: {},
+  deployments: {},
+}));
+
+vi.mock('../db/redis', () => ({
+  LockManager: { acquire: vi.fn(), release: vi.fn(async () => true) },
+}));
+
+vi.mock('../services/theme-service', () => ({
+  ThemeService: {
+    getDefaultTheme: async () => ({
+      theme: { id: 'theme-1', name: 'Default', createdAt: new Date(), updatedAt: new Date() },
+      config: { colors: { background: '#ffffff', primary: '#336699' } },
+    }),
+    generateCSS: () => ':root {}',
+  },
+}));
+
+vi.mock('../services/rss-service', () => ({
+  RSSService: { generateDefaultRSSXML: async () => '<rss />' },
+}));
+
+vi.mock('../services/url-service', () => ({
+  urlService: { generateRobotsTxt: async () => 'User-agent: *' },
+}));
+
+vi.mock('../services/media-service', () => ({
+  mediaService: { getSocialImages: async () => ({}), getResponsiveImages: async () => ({}) },
+}));
+
+const page = (slug: string, text: string) => ({
+  id: `page-${slug}`,
+  slug,
+  title: text,
+  description: null,
+  content: [{ id: 'title', type: 'heading', props: { text }, children: [] }],
+  seoData: {},
+  themeId: null,
+  themeOverrides: null,
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  blogPostId: null,
+});
+
+describe('BuildService', () => {
+  const options = BuildOptionsSchema.parse({}) as BuildOptions;
+  let statusUpdates: Array<Record<string, unknown>>;
+
+  // Serves the published pages and records the status updates from here on, failing the given status if asked
+  function mockDatabase(rows: unknown[], failStatus?: string) {
+    statusUpdates = [];
+    db.select.mockImplementation(() => queryReturning(rows));
+    db.update.mockImplementation(() => ({
+      set: (values: Record<string, unknown>) => {
+        statusUpdates.push(values);
+        return queryReturning(values.status === failStatus ? new Error('Connection terminated') : []);
+      },
+    }));
+  }
+
+  const liveFile = (file: string) => fs.readFile(path.join(outputRoot, 'current', file), 'utf8');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputRoot, { recursive: true, force: true });
+  });
+
+  it('should render published pages and point the live site at the build', async () => {
+    mockDatabase([page('home', 'Welcome'), page('about', 'About us')]);
+
+    await BuildService.runBuild('deployment-1', 'build-1', options);
+
+    expect(statusUpdates.map(update => update.status)).toEqual(['building', 'deploying', 'success']);
+    expect(statusUpdates[1]).toMatchObject({ pageCount: 2, fileCount: 5 });
+    expect(await liveFile('index.html')).toContain('Welcome');
+    expect(await liveFile('about/index.html')).toContain('About us');
+    expect(await liveFile('sitemap.xml')).toContain('/about/');
+    expect(await fs.readlink(path.join(outputRoot, 'current'))).toBe('build-1');
+  });
+
+  it('should switch the live site to the next build in one step and prune old builds', async () => {
+    mockDatabase([page('home', 'First')]);
+    await BuildService.runBuild('deployment-1', 'build-1', options);
+
+    mockDatabase([page('home', 'Second')]);
+    await BuildService.runBuild('deployment-2', 'build-2', options);
+    expect(await liveFile('index.html')).toContain('Second');
+    expect(statusUpdates).not.toContainEqual({ outputDir: null });
+
+    mockDatabase([page('home', 'Third')]);
+    await BuildService.runBuild('deployment-3', 'build-3', options);
+
+    expect(await fs.readlink(path.join(outputRoot, 'current'))).toBe('build-3');
+    expect(await liveFile('index.html')).toContain('Third');
+    // The live build and one previous build are kept for rollback
+    expect((await fs.readdir(outputRoot)).sort()).toEqual(['build-2', 'build-3', 'current']);
+    expect(statusUpdates).toContainEqual({ outputDir: null });
+  });
+
+  it('should remove a failed build and keep serving the previous one', async () => {
+    mockDatabase([page('home', 'Live')]);
+    await BuildService.runBuild('deployment-1', 'build-1', options);
+
+    mockDatabase([page('home', 'Broken')], 'deploying');
+    await BuildService.runBuild('deployment-2', 'build-2', options);
+
+    expect(statusUpdates.map(update => update.status)).toEqual(['building', 'deploying', 'failed']);
+    expect(statusUpdates[2]).toMatchObject({ error: 'Connection terminated', outputDir: null });
+    expect(await fs.readdir(outputRoot)).not.toContain('build-2');
+    expect(await liveFile('index.html')).toContain('Live');
+  });
+
+  it('should start only one build at a time', async () => {
+    vi.mocked(LockManager.acquire).mockResolvedValueOnce(null);
+
+    await expect(BuildService.startBuild()).rejects.toThrow('A build is already in progress');
+    expect(db.insert).not.toHaveBeenCalled();
+
+    // The lock is released once the build has finished
+    vi.mocked(LockManager.acquire).mockResolvedValueOnce('token-1');
+    mockDatabase([]);
+    db.insert.mockImplementation(() =>
+      queryReturning([{ id: 'deployment-1', buildId: 'build-1', status: 'pending', buildOptions: options, createdAt: new Date() }])
+    );
+
+    const build = await BuildService.startBuild();
+    expect(build).toMatchObject({ id: 'deployment-1', status: 'pending' });
+    await vi.waitFor(() => expect(LockManager.release).toHaveBeenCalledWith('static-build', 'token-1'));
+    expect(statusUpdates.map(update => update.status)).toEqual(['building', 'deploying', 'success']);
+  });
+});
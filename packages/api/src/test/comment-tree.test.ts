@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CommentsService } from '../services/comments-service';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency
+const db = vi.hoisted(() => ({ select: vi.fn() }));
+
+vi.mock('../db/index', () => ({
+  db,
+  comments: {},
+  pages: {},
+  blogPosts: {},
+}));
+
+function commentRow(id: string, parentId: string | null, depth: number, minute: number) {
+  return {
+    id,
+    blogPostId: 'post-1',
+    parentId,
+    depth,
+    authorName: `Author ${id}`,
+    authorEmail: `${id}@example.com`,
+    authorWebsite: null,
+    content: `Comment ${id}`,
+    status: 'approved',
+    ipAddress: null,
+    userAgent: null,
+    isVerified: false,
+    spamScore: 0,
+    moderationReason: null,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+    updatedAt: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  };
+}
+
+const ids = {
+  first: '00000000-0000-4000-8000-000000000001',
+  second: '00000000-0000-4000-8000-000000000002',
+  third: '00000000-0000-4000-8000-000000000003',
+  reply: '00000000-0000-4000-8000-000000000004',
+};
+
+describe('CommentsService comment tree', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should nest replies up to the depth limit and count the hidden ones', async () => {
+    db.select
+      .mockReturnValueOnce(
+        queryReturning([
+          commentRow(ids.first, null, 0, 1),
+          commentRow(ids.second, null, 0, 2),
+          commentRow(ids.third, null, 0, 3),
+        ])
+      )
+      .mockReturnValueOnce(queryReturning([commentRow(ids.reply, ids.first, 1, 4)]))
+      .mockReturnValueOnce(queryReturning([{ parentId: ids.reply, count: '2' }]));
+
+    const page = await CommentsService.getCommentTree('post-1', { limit: 2, maxDepth: 1 });
+
+    expect(page.comments.map(comment => comment.id)).toEqual([ids.first, ids.second]);
+    expect(page.hasMore).toBe(true);
+    expect(page.nextCursor).toEqual(expect.any(String));
+
+    const [first, second] = page.comments;
+    expect(first).toMatchObject({ replyCount: 1, hasMoreReplies: false });
+    expect(first!.replies[0]).toMatchObject({ id: ids.reply, depth: 1, replyCount: 2, hasMoreReplies: true, replies: [] });
+    expect(second).toMatchObject({ replyCount: 0, hasMoreReplies: false, replies: [] });
+  });
+
+  it('should accept its own cursors and reject malformed ones', async () => {
+    db.select.mockReturnValue(queryReturning([commentRow(ids.first, null, 0, 1), commentRow(ids.second, null, 0, 2)]));
+    const { nextCursor } = await CommentsService.getCommentTree('post-1', { limit: 1, maxDepth: 0 });
+
+    db.select.mockReturnValue(queryReturning([]));
+    await expect(CommentsService.getCommentTree('post-1', { cursor: nextCursor! })).resolves.toMatchObject({
+      comments: [],
+      nextCursor: null,
+      hasMore: false,
+    });
+    await expect(CommentsService.getCommentTree('post-1', { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should reject replies nested deeper than the maximum depth', async () => {
+    db.select
+      .mockReturnValueOnce(queryReturning([{ id: 'post-1', status: 'published' }]))
+      .mockReturnValueOnce(queryReturning([{ id: ids.reply, blogPostId: 'post-1', depth: 5 }]));
+
+    await expect(
+      CommentsService.createComment({
+        blogPostId: 'post-1',
+        parentId: ids.reply,
+        authorName: 'Jane Reader',
+        authorEmail: 'jane@example.com',
+        content: 'Deep reply',
+      })
+    ).rejects.toThrow('Maximum reply depth exceeded');
+  });
+});
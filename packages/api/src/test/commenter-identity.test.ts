@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { CommenterIdentityService } from '../services/commenter-identity-service';
+import { CommentsService } from '../services/comments-service';
+import { comments, commentRevisions } from '../db/index';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency; the real comment tables let the queries be rendered
+const db = vi.hoisted(() => ({ select: vi.fn(), update: vi.fn(), insert: vi.fn(), delete: vi.fn() }));
+
+vi.mock('../db/index', async () => {
+  const schema = await vi.importActual<typeof import('../db/schema')>('../db/schema');
+  return {
+    db,
+    comments: schema.comments,
+    commentRevisions: schema.commentRevisions,
+    pages: {},
+    blogPosts: {},
+  };
+});
+
+describe('CommenterIdentityService', () => {
+  const now = Date.UTC(2026, 0, 1);
+  let updateConditions: SQL[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateConditions = [];
+    db.update.mockImplementation(() => queryReturning([], updateConditions));
+  });
+
+  it('should exchange a valid verification link for a commenter token', async () => {
+    const link = CommenterIdentityService.createVerificationLink(' Jane@Example.com ', 'comment-1', now);
+    expect(link).toMatchObject({ email: 'jane@example.com', commentId: 'comment-1' });
+
+    const token = await CommenterIdentityService.verifyEmail(link, now + 60_000);
+    expect(CommenterIdentityService.readCommenterToken(token!, now + 60_000)).toBe('jane@example.com');
+    expect(db.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should verify only the comment the link was sent for and later ones from the same address', async () => {
+    const link = CommenterIdentityService.createVerificationLink('jane@example.com', 'comment-2', now);
+    await CommenterIdentityService.verifyEmail(link, now);
+
+    const { sql, params } = new PgDialect().sqlToQuery(updateConditions[0]!);
+    expect(sql).toBe(
+      '(lower("comments"."author_email") = $1 and "comments"."created_at" >= (select "comments"."created_at" from "comments" where "comments"."id" = $2 and lower("comments"."author_email") = $3))'
+    );
+    expect(params).toEqual(['jane@example.com', 'comment-2', 'jane@example.com']);
+  });
+
+  it('should reject forged, expired and misused tokens', async () => {
+    const link = CommenterIdentityService.createVerificationLink('jane@example.com', 'comment-1', now);
+
+    expect(await CommenterIdentityService.verifyEmail({ ...link, email: 'other@example.com' }, now)).toBeNull();
+    // A link cannot be moved to another comment, such as one posted earlier by someone else
+    expect(await CommenterIdentityService.verifyEmail({ ...link, commentId: 'comment-0' }, now)).toBeNull();
+    expect(await CommenterIdentityService.verifyEmail(link, now + 2 * 24 * 60 * 60 * 1000)).toBeNull();
+    expect(db.update).not.toHaveBeenCalled();
+
+    // A verification token is not a commenter token
+    const encodedEmail = Buffer.from('jane@example.com').toString('base64url');
+    expect(CommenterIdentityService.readCommenterToken(`${encodedEmail}.${link.expires}.${link.token}`, now)).toBeNull();
+
+    const token = CommenterIdentityService.createCommenterToken('jane@example.com', now);
+    const expiredAt = now + (CommenterIdentityService.TOKEN_TTL_SECONDS + 1) * 1000;
+    expect(CommenterIdentityService.readCommenterToken(token, expiredAt)).toBeNull();
+    expect(CommenterIdentityService.readCommenterToken(undefined, now)).toBeNull();
+  });
+});
+
+describe('CommentsService own comments', () => {
+  const comment = {
+    id: 'comment-1',
+    blogPostId: 'post-1',
+    parentId: null,
+    authorName: 'Jane Reader',
+    authorEmail: 'Jane@example.com',
+    content: 'Original',
+    status: 'approved',
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only let the author change a comment within the edit window', async () => {
+    db.select.mockReturnValue(queryReturning([comment]));
+    await expect(CommentsService.deleteOwnComment('comment-1', 'other@example.com')).rejects.toThrow(
+      'Only the author can change this comment'
+    );
+
+    db.select.mockReturnValue(queryReturning([{ ...comment, createdAt: new Date(Date.now() - 60 * 60 * 1000) }]));
+    await expect(CommentsService.updateOwnComment('comment-1', 'jane@example.com', 'Edited')).rejects.toThrow(
+      'Edit window has expired'
+    );
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(db.delete).not.toHaveBeenCalled();
+  });
+
+  it('should keep a deleted comment with replies as a tombstone', async () => {
+    const update = queryReturning([]);
+    const set = vi.spyOn(update, 'set');
+    db.update.mockReturnValue(update);
+    db.delete.mockReturnValue(queryReturning([]));
+    db.select
+      .mockReturnValueOnce(queryReturning([comment]))
+      .mockReturnValueOnce(queryReturning([{ id: 'reply-1' }]));
+
+    expect(await CommentsService.deleteOwnComment('comment-1', 'jane@example.com')).toBe(true);
+
+    // Deleting the row would take the replies with it
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({ authorName: '', authorEmail: '', content: '', deletedAt: expect.any(Date) })
+    );
+    expect(db.delete).toHaveBeenCalledTimes(1);
+    expect(db.delete).toHaveBeenCalledWith(commentRevisions);
+
+    // Without replies the comment is removed
+    vi.clearAllMocks();
+    db.delete.mockReturnValue(queryReturning([]));
+    db.select
+      .mockReturnValueOnce(queryReturning([comment]))
+      .mockReturnValueOnce(queryReturning([]));
+
+    expect(await CommentsService.deleteOwnComment('comment-1', 'jane@example.com')).toBe(true);
+    expect(db.update).not.toHaveBeenCalled();
+    expect(db.delete).toHaveBeenCalledWith(comments);
+  });
+});
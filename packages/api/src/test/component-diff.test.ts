@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ComponentUtils } from '@oldworldcharm/shared';
+import type { ComponentInstance } from '@oldworldcharm/shared';
+
+const component = (
+  id: string,
+  type: string,
+  props: Record<string, unknown> = {},
+  children: ComponentInstance[] = []
+): ComponentInstance => ({ id, type, props, children });
+
+describe('ComponentUtils.diffComponentTrees', () => {
+  const before = [
+    component('hero', 'section', {}, [
+      component('title', 'heading', { text: 'Welcome', level: 1 }),
+      component('intro', 'text', { text: 'Hello' }),
+    ]),
+    component('footer', 'container'),
+  ];
+
+  it('should report no changes for identical trees', () => {
+    const diff = ComponentUtils.diffComponentTrees(before, JSON.parse(JSON.stringify(before)));
+
+    expect(diff.changes).toHaveLength(0);
+    expect(diff.summary).toEqual({ added: 0, removed: 0, updated: 0, moved: 0 });
+  });
+
+  it('should detect added, removed and updated components', () => {
+    const after = [
+      component('hero', 'section', {}, [
+        component('title', 'heading', { text: 'Welcome back', level: 1 }),
+        component('cta', 'button', { text: 'Sign up' }),
+      ]),
+      component('footer', 'container'),
+    ];
+
+    const diff = ComponentUtils.diffComponentTrees(before, after);
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, updated: 1, moved: 0 });
+    expect(diff.changes.find(change => change.type === 'updated')?.propChanges).toEqual([
+      { key: 'text', before: 'Welcome', after: 'Welcome back' },
+    ]);
+    expect(diff.changes.find(change => change.type === 'added')).toMatchObject({
+      componentId: 'cta',
+      parentId: 'hero',
+    });
+  });
+
+  it('should detect components moved to a new parent', () => {
+    const after = [
+      component('hero', 'section', {}, [component('title', 'heading', { text: 'Welcome', level: 1 })]),
+      component('footer', 'container', {}, [component('intro', 'text', { text: 'Hello' })]),
+    ];
+
+    const diff = ComponentUtils.diffComponentTrees(before, after);
+
+    expect(diff.summary.moved).toBe(1);
+    expect(diff.changes[0]).toMatchObject({
+      type: 'moved',
+      componentId: 'intro',
+      parentId: 'footer',
+      previousParentId: 'hero',
+    });
+  });
+
+  it('should not treat siblings shifted by an insertion as moved', () => {
+    const after = [component('banner', 'alert'), ...before];
+
+    const diff = ComponentUtils.diffComponentTrees(before, after);
+
+    expect(diff.summary).toEqual({ added: 1, removed: 0, updated: 0, moved: 0 });
+  });
+});
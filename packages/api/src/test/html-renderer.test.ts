@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { ComponentRegistry, HtmlRenderer, z } from '@oldworldcharm/shared';
+import type { ComponentInstance, Theme } from '@oldworldcharm/shared';
+
+const component = (
+  id: string,
+  type: string,
+  props: Record<string, unknown> = {},
+  children: ComponentInstance[] = []
+): ComponentInstance => ({ id, type, props, children });
+
+describe('HtmlRenderer', () => {
+  it('should render components to semantic HTML', () => {
+    const html = HtmlRenderer.renderTree(
+      [
+        component('hero', 'section', {}, [
+          component('title', 'heading', { text: 'Welcome', level: 2 }),
+          component('intro', 'text', { text: 'Hello' }),
+        ]),
+      ],
+      { componentIds: false }
+    );
+
+    expect(html).toBe(
+      '<section class="component-section"><h2 class="component-heading theme-font-heading">Welcome</h2><p class="component-text">Hello</p></section>'
+    );
+  });
+
+  it('should escape text and drop script URLs', () => {
+    const html = HtmlRenderer.renderTree([
+      component('cta', 'button', { text: '<b>Go</b>', href: 'javascript:alert(1)' }),
+    ]);
+
+    expect(html).toContain('&lt;b&gt;Go&lt;/b&gt;');
+    expect(html).toContain('href="#"');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('should only keep web, mail, phone and relative URLs', () => {
+    const href = (url: string) =>
+      /href="([^"]*)"/.exec(HtmlRenderer.renderTree([component('link', 'link', { text: 'Go', href: url })]))?.[1];
+
+    // Browsers ignore these control characters and spaces, so the links would still run script
+    expect(href('java\tscript:alert(1)')).toBe('#');
+    expect(href('java\nscript:alert(1)')).toBe('#');
+    expect(href('\u0001 javascript:alert(1)')).toBe('#');
+    expect(href('JaVaScRiPt\u0000:alert(1)')).toBe('#');
+    expect(href('vbscript:msgbox(1)')).toBe('#');
+    expect(href('data:text/html,<script>alert(1)</script>')).toBe('#');
+    expect(href('data:image/svg+xml,<svg onload=alert(1)>')).toBe('#');
+
+    expect(href(' https://example.com/a?b=c:d ')).toBe('https://example.com/a?b=c:d');
+    expect(href('mailto:hello@example.com')).toBe('mailto:hello@example.com');
+    expect(href('tel:+15551234')).toBe('tel:+15551234');
+    expect(href('/about#team')).toBe('/about#team');
+    expect(href('../docs/page:2')).toBe('../docs/page:2');
+  });
+
+  it('should merge registry default props', () => {
+    const registry = new ComponentRegistry();
+    registry.register({
+      id: 'heading',
+      type: 'heading',
+      displayName: 'Heading',
+      category: 'typography',
+      component: () => null,
+      defaultProps: { text: 'Default heading', level: 3 },
+      propSchema: z.any(),
+      metadata: { description: 'Heading', tags: [], isContainer: false },
+    });
+
+    const html = HtmlRenderer.renderTree([component('title', 'heading')], { registry, componentIds: false });
+
+    expect(html).toBe('<h3 class="component-heading theme-font-heading">Default heading</h3>');
+  });
+
+  it('should resolve theme colors and inline theme variables', () => {
+    const theme = { colors: { primary: '#3B82F6' }, typography: { fontFamily: 'Inter', fontSize: {}, fontWeight: {}, lineHeight: {} }, spacing: {}, borderRadius: {}, shadows: {} } as unknown as Theme;
+
+    const body = HtmlRenderer.renderTree([component('box', 'container', { background: 'primary' })], { theme });
+    const document = HtmlRenderer.renderDocument({ title: 'Home', body, theme });
+
+    expect(body).toContain('style="background-color: var(--color-primary)"');
+    expect(document).toContain('--color-primary: #3B82F6;');
+    expect(document).toContain('<title>Home</title>');
+  });
+
+  it('should render images with variants as picture elements', () => {
+    const components = [
+      component('hero', 'image', { src: '/uploads/photo.png', alt: 'Photo', width: 800 }),
+      component('logo', 'image', { src: '/uploads/logo.svg', alt: 'Logo' }),
+    ];
+    const images = {
+      '/uploads/photo.png': [
+        { url: '/uploads/variants/photo-768w.png', width: 768, format: 'png' as const },
+        { url: '/uploads/variants/photo-768w.webp', width: 768, format: 'webp' as const },
+        { url: '/uploads/variants/photo-320w.webp', width: 320, format: 'webp' as const },
+      ],
+    };
+
+    expect(HtmlRenderer.collectImageSources(components)).toEqual(['/uploads/photo.png', '/uploads/logo.svg']);
+
+    const html = HtmlRenderer.renderTree(components, { images, componentIds: false });
+    const sizes = 'sizes="(max-width: 800px) 100vw, 800px"';
+
+    expect(html).toContain(
+      `<picture><source type="image/webp" srcset="/uploads/variants/photo-320w.webp 320w, /uploads/variants/photo-768w.webp 768w" ${sizes}>` +
+        `<source type="image/png" srcset="/uploads/variants/photo-768w.png 768w" ${sizes}><img`
+    );
+    // Images without variants stay plain
+    expect(html.match(/<picture>/g)).toHaveLength(1);
+    expect(html).toContain('src="/uploads/logo.svg"');
+  });
+
+  it('should render the crop preset an image asks for', () => {
+    const images = {
+      '/uploads/photo.png': [
+        { url: '/uploads/variants/photo-768w.webp', width: 768, format: 'webp' as const },
+        { url: '/uploads/variants/photo-square-320w.webp', width: 320, format: 'webp' as const, preset: 'square' as const },
+        { url: '/uploads/variants/photo-square-320w.png', width: 320, format: 'png' as const, preset: 'square' as const },
+      ],
+    };
+
+    const html = HtmlRenderer.renderTree([component('avatar', 'image', { src: '/uploads/photo.png', crop: 'square' })], {
+      images,
+      componentIds: false,
+    });
+
+    expect(html).toContain('srcset="/uploads/variants/photo-square-320w.webp 320w"');
+    expect(html).not.toContain('photo-768w.webp');
+    // Browsers without <picture> still get the crop
+    expect(html).toContain('src="/uploads/variants/photo-square-320w.png"');
+  });
+
+  it('should extract plain text', () => {
+    const text = HtmlRenderer.renderText([
+      component('card', 'card', { title: 'Card', description: 'Details' }, [component('t', 'text', { text: 'More' })]),
+    ]);
+
+    expect(text).toBe('Card Details More');
+  });
+});
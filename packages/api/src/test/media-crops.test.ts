@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { MediaUtils } from '@oldworldcharm/shared';
+import { LocalStorage } from '../services/media-storage';
+import { MediaService } from '../services/media-service';
+import { SocialService } from '../services/social-service';
+
+const cacheDir = vi.hoisted(() => {
+  process.env.MEDIA_TRANSFORM_CACHE_DIR = `${process.env.TMPDIR || '/tmp'}/media-crops-${process.pid}`;
+  return process.env.MEDIA_TRANSFORM_CACHE_DIR;
+});
+
+// Mock the database dependency
+vi.mock('../db/index', () => ({
+  db: {},
+  mediaAssets: {},
+  pages: {},
+  blogPosts: {},
+  socialShares: {},
+}));
+
+vi.mock('../services/page-delivery-service', () => ({
+  PageDeliveryService: { purgeAll: vi.fn() },
+}));
+
+// Color of the top left pixel
+const cornerColor = async (image: Buffer) => [...(await sharp(image).extract({ left: 0, top: 0, width: 1, height: 1 }).removeAlpha().raw().toBuffer())];
+
+describe('Media crops', () => {
+  let tempDir: string;
+  let storage: LocalStorage;
+  let service: MediaService;
+
+  // The subject sits on the right; the left 600 pixels are red
+  const asset = {
+    id: 'photo-1',
+    filename: 'photo.png',
+    mimeType: 'image/png',
+    storage: 'local',
+    visibility: 'public' as const,
+    focalPoint: { x: 0.9, y: 0.5 },
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-crops-'));
+    storage = new LocalStorage({
+      root: path.join(tempDir, 'uploads'),
+      privateRoot: path.join(tempDir, 'uploads-private'),
+      publicPath: '/uploads',
+      signedUrlBase: 'http://localhost:3001/api/media/files',
+      signingSecret: 'test-secret',
+    });
+    service = new MediaService({ local: storage }, 'local');
+
+    const red = await sharp({ create: { width: 600, height: 900, channels: 3, background: '#ff0000' } }).png().toBuffer();
+    const image = await sharp({ create: { width: 1600, height: 900, channels: 3, background: '#0000ff' } })
+      .composite([{ input: red, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+    await storage.put('photo.png', image, 'image/png');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should center crops on the focal point within the image edges', () => {
+    expect(MediaUtils.getFocalCrop(1600, 900, 1)).toEqual({ left: 350, top: 0, width: 900, height: 900 });
+    expect(MediaUtils.getFocalCrop(1600, 900, 1, { x: 0.9, y: 0.5 })).toEqual({ left: 700, top: 0, width: 900, height: 900 });
+    expect(MediaUtils.getFocalCrop(1600, 900, 16 / 9, { x: 0, y: 0 })).toEqual({ left: 0, top: 0, width: 1600, height: 900 });
+    expect(MediaUtils.getFocalCrop(900, 1600, 16 / 9, { x: 0.5, y: 0.1 })).toEqual({ left: 0, top: 0, width: 900, height: 506 });
+
+    const crops = { og: { left: 0, top: 0, width: 1600, height: 840 } };
+    expect(MediaUtils.getPresetCrop({ width: 1600, height: 900, crops }, 'og')).toEqual(crops.og);
+    expect(MediaUtils.getPresetCrop({ focalPoint: { x: 0.9, y: 0.5 } }, 'square')).toBeNull();
+    expect(MediaUtils.isCropInside({ left: 800, top: 0, width: 900, height: 900 }, 1600, 900)).toBe(false);
+  });
+
+  it('should generate cropped variants from the focal point and hand-set crops', async () => {
+    const crops = { og: { left: 0, top: 30, width: 1600, height: 840 } };
+    const result = await service.generateVariants({ ...asset, crops }, { breakpoints: [320], formats: ['webp'], presets: ['square', 'og'] });
+
+    expect(result.variants.map(variant => `${variant.preset ?? 'original'} ${variant.width}x${variant.height}.${variant.format}`)).toEqual([
+      'original 320x180.webp',
+      'original 1600x900.webp',
+      'original 320x180.png',
+      'original 1600x900.png',
+      'square 320x320.webp',
+      'square 900x900.webp',
+      'square 320x320.png',
+      'square 900x900.png',
+      // A single Open Graph image, in a format every crawler reads
+      'og 1200x630.png',
+    ]);
+    expect(service.getFileKey({ ...asset, variants: result.variants }, 'square-900w.png')).toBe('variants/photo-square-900w.png');
+
+    // The square follows the subject instead of cutting at the center, where it would show red
+    expect(await cornerColor(await storage.get('variants/photo-square-900w.png'))).toEqual([0, 0, 255]);
+    expect(await cornerColor(await storage.get('variants/photo-og-1200w.png'))).toEqual([255, 0, 0]);
+
+    // Transforms use the same crops
+    const square = await service.transformImage({ ...asset, updatedAt: new Date() }, { preset: 'square', width: 320, format: 'png' });
+    expect(await sharp(square.body).metadata()).toMatchObject({ width: 320, height: 320 });
+    const cover = await service.transformImage({ ...asset, updatedAt: new Date() }, { width: 200, height: 200, format: 'png' });
+    expect(await cornerColor(cover.body)).toEqual([0, 0, 255]);
+  });
+
+  it('should use the Open Graph crop in social meta tags', () => {
+    const images = { '/uploads/photo.png': { url: '/uploads/variants/photo-og-1200w.png', width: 1200, height: 630 } };
+    const tags = SocialService.generatePageSocialMetaTags(
+      { slug: 'about', title: 'About', seoData: { ogImage: '/uploads/photo.png', twitterImage: '/uploads/other.png' } },
+      'https://example.com',
+      { images }
+    );
+
+    expect(tags.openGraph).toMatchObject({ image: '/uploads/variants/photo-og-1200w.png', imageWidth: 1200, imageHeight: 630 });
+    expect(tags.twitter.image).toBe('/uploads/other.png');
+
+    const html = SocialService.generateMetaTagsHtml(tags);
+    expect(html).toContain('<meta property="og:image" content="/uploads/variants/photo-og-1200w.png" />');
+    expect(html).toContain('<meta property="og:image:width" content="1200" />');
+    expect(html).toContain('<meta property="og:image:height" content="630" />');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { LocalStorage } from '../services/media-storage';
+import { MediaService } from '../services/media-service';
+
+const cacheDir = vi.hoisted(() => {
+  process.env.MEDIA_TRANSFORM_CACHE_DIR = `${process.env.TMPDIR || '/tmp'}/media-transforms-${process.pid}`;
+  process.env.MEDIA_TRANSFORM_CACHE_MAX_MB = '0.001'; // about four small transforms
+  return process.env.MEDIA_TRANSFORM_CACHE_DIR;
+});
+
+// Mock the database dependency
+vi.mock('../db/index', () => ({
+  db: {},
+  mediaAssets: {},
+  pages: {},
+  blogPosts: {},
+}));
+
+vi.mock('../services/page-delivery-service', () => ({
+  PageDeliveryService: { purgeAll: vi.fn() },
+}));
+
+describe('Media variants', () => {
+  let tempDir: string;
+  let storage: LocalStorage;
+  let service: MediaService;
+
+  const asset = { id: 'photo-1', filename: 'photo.png', mimeType: 'image/png', storage: 'local', visibility: 'public' as const };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-variants-'));
+    storage = new LocalStorage({
+      root: path.join(tempDir, 'uploads'),
+      privateRoot: path.join(tempDir, 'uploads-private'),
+      publicPath: '/uploads',
+      signedUrlBase: 'http://localhost:3001/api/media/files',
+      signingSecret: 'test-secret',
+    });
+    service = new MediaService({ local: storage }, 'local');
+
+    const image = await sharp({ create: { width: 1200, height: 800, channels: 3, background: '#336699' } }).png().toBuffer();
+    await storage.put('photo.png', image, 'image/png');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should generate a variant per breakpoint and format and record it in the manifest', async () => {
+    const result = await service.generateVariants(asset, { breakpoints: [320, 768, 1920], formats: ['webp'], presets: [] });
+
+    expect(result.width).toBe(1200);
+    expect(result.height).toBe(800);
+    // Breakpoints wider than the image are replaced by its own width; PNGs fall back to PNG
+    expect(result.variants.map(variant => `${variant.width}x${variant.height}.${variant.format}`)).toEqual([
+      '320x213.webp',
+      '768x512.webp',
+      '1200x800.webp',
+      '320x213.png',
+      '768x512.png',
+      '1200x800.png',
+    ]);
+
+    for (const variant of result.variants) {
+      const file = await storage.get(variant.key);
+      expect(variant.size).toBe(file.length);
+      expect((await sharp(file).metadata()).format).toBe(variant.format);
+    }
+    expect(result.variants[1]).toMatchObject({
+      key: 'variants/photo-768w.webp',
+      url: '/uploads/variants/photo-768w.webp',
+    });
+    expect(service.getFileKey({ ...asset, variants: result.variants }, '768w.webp')).toBe('variants/photo-768w.webp');
+    expect(service.getFileKey({ ...asset, variants: result.variants }, '480w.webp')).toBeNull();
+
+    // Regenerating with other breakpoints removes the variants that are no longer listed
+    const regenerated = await service.generateVariants({ ...asset, variants: result.variants }, { breakpoints: [768], formats: ['webp'], presets: [] });
+
+    expect(regenerated.variants.map(variant => variant.key)).toEqual([
+      'variants/photo-768w.webp',
+      'variants/photo-1200w.webp',
+      'variants/photo-768w.png',
+      'variants/photo-1200w.png',
+    ]);
+    expect(await storage.exists('variants/photo-320w.webp')).toBe(false);
+    expect(await storage.exists('variants/photo-320w.png')).toBe(false);
+  });
+
+  it('should cache transforms on disk until the asset changes', async () => {
+    const updatedAt = new Date('2026-01-01T00:00:00Z');
+    const transform = { width: 320, height: 320, crop: { left: 100, top: 0, width: 800, height: 800 }, format: 'webp' as const };
+
+    const first = await service.transformImage({ ...asset, updatedAt }, transform);
+    expect(first.cacheHit).toBe(false);
+    expect(first.contentType).toBe('image/webp');
+    expect(await sharp(first.body).metadata()).toMatchObject({ width: 320, height: 320, format: 'webp' });
+
+    const second = await service.transformImage({ ...asset, updatedAt }, transform);
+    expect(second).toEqual({ ...first, cacheHit: true });
+
+    const changedAt = new Date();
+    const changed = await service.transformImage({ ...asset, updatedAt: changedAt }, transform);
+    expect(changed.cacheHit).toBe(false);
+    expect(changed.etag).not.toBe(first.etag);
+
+    await expect(
+      service.transformImage({ ...asset, updatedAt }, { crop: { left: 600, top: 0, width: 800, height: 800 } })
+    ).rejects.toThrow('Crop area is outside the image');
+
+    // Copies of the earlier version are pruned
+    expect(await fs.readdir(path.join(cacheDir, asset.id))).toEqual([String(changedAt.getTime())]);
+
+    await service.purgeTransforms(asset.id);
+    expect((await service.transformImage({ ...asset, updatedAt }, transform)).cacheHit).toBe(false);
+  });
+
+  it('should snap transform sizes and quality so the cache stays bounded', async () => {
+    const updatedAt = new Date('2026-01-01T00:00:00Z');
+    const crop = (left: number) => ({ left, top: 0, width: 400, height: 400 });
+
+    // Sizes round up to the next breakpoint and quality to the nearest step
+    const snapped = await service.transformImage({ ...asset, updatedAt }, { width: 300, height: 150, format: 'webp', quality: 78 });
+    expect(await sharp(snapped.body).metadata()).toMatchObject({ width: 320, height: 160 });
+    expect((await service.transformImage({ ...asset, updatedAt }, { width: 320, height: 160, format: 'webp', quality: 80 })).cacheHit).toBe(true);
+
+    // The least recently served copies are removed once the cache outgrows its limit
+    const transforms = [];
+    for (let left = 0; left <= 100; left += 10) {
+      transforms.push(await service.transformImage({ ...asset, updatedAt }, { crop: crop(left), width: 320, format: 'webp' }));
+    }
+
+    const versionDir = path.join(cacheDir, asset.id, String(updatedAt.getTime()));
+    const files = await fs.readdir(versionDir);
+    const sizes = await Promise.all(files.map(async file => (await fs.stat(path.join(versionDir, file))).size));
+    const fileName = (image: { etag: string }) => `${image.etag.slice(1, -1)}.webp`;
+
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBeLessThanOrEqual(0.001 * 1024 * 1024);
+    expect(files).not.toContain(fileName(transforms[0]!));
+    expect(files).toContain(fileName(transforms[transforms.length - 1]!));
+  });
+});
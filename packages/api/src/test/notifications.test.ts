@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import net from 'net';
+import { SmtpTransport, type MailMessage, type MailTransport } from '../services/smtp-transport';
+import { NotificationService } from '../services/notification-service';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency
+const db = vi.hoisted(() => ({ select: vi.fn(), insert: vi.fn() }));
+
+vi.mock('../db/index', () => ({
+  db,
+  comments: {},
+  pages: {},
+  blogPosts: {},
+  users: {},
+  notificationUnsubscribes: {},
+}));
+
+// Minimal SMTP catcher that records the commands and message it receives
+function startSmtpCatcher(): Promise<{ port: number; commands: string[]; data: string[]; close: () => Promise<void> }> {
+  const commands: string[] = [];
+  const data: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let message = '';
+
+    socket.write('220 catcher ready\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            data.push(message);
+            socket.write('250 queued\r\n');
+          } else {
+            message += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-catcher\r\n250 AUTH PLAIN\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+        else if (line === 'STARTTLS') socket.write('502 not implemented\r\n');
+        else if (line === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, commands, data, close: () => new Promise(done => server.close(() => done())) });
+    });
+  });
+}
+
+describe('SmtpTransport', () => {
+  it('should deliver a multipart message to an SMTP server', async () => {
+    const catcher = await startSmtpCatcher();
+
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: catcher.port });
+      await transport.send({
+        from: 'Blog <no-reply@example.com>',
+        to: 'reader@example.com',
+        subject: 'Café news',
+        text: '.leading dot\nsecond line',
+        html: '<p>Hello</p>',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+      });
+
+      expect(catcher.commands).toEqual([
+        'EHLO localhost',
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<reader@example.com>',
+        'DATA',
+      ]);
+
+      const raw = catcher.data[0]!;
+      expect(raw).toContain('Subject: =?UTF-8?');
+      expect(raw).toContain('List-Unsubscribe: <https://example.com/unsubscribe>');
+      expect(raw).toContain('multipart/alternative');
+      expect(raw).toContain('<p>Hello</p>');
+    } finally {
+      await catcher.close();
+    }
+  });
+
+  it('should not send credentials without TLS unless told to', async () => {
+    const catcher = await startSmtpCatcher();
+
+    try {
+      const message = { from: 'no-reply@example.com', to: 'reader@example.com', subject: 'Hi', text: 'Hello' };
+
+      // The catcher does not offer STARTTLS
+      await expect(
+        new SmtpTransport({ host: '127.0.0.1', port: catcher.port, user: 'mailer', password: 'secret' }).send(message)
+      ).rejects.toThrow('STARTTLS');
+      expect(catcher.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+      expect(catcher.data).toHaveLength(0);
+
+      // For local catchers
+      await new SmtpTransport({
+        host: '127.0.0.1',
+        port: catcher.port,
+        user: 'mailer',
+        password: 'secret',
+        requireTls: false,
+      }).send(message);
+      expect(catcher.commands).toContain(`AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`);
+      expect(catcher.data).toHaveLength(1);
+    } finally {
+      await catcher.close();
+    }
+  });
+});
+
+describe('NotificationService', () => {
+  const sent: MailMessage[] = [];
+  const outbox: MailTransport = {
+    send: async message => {
+      sent.push(message);
+    },
+  };
+
+  const reply = {
+    id: '22222222-2222-2222-2222-222222222222',
+    blogPostId: 'post-1',
+    parentId: '11111111-1111-1111-1111-111111111111',
+    authorName: 'Sam Replier',
+    authorEmail: 'sam@example.com',
+    content: 'Good point about the varnish.',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    NotificationService.setTransport(outbox);
+  });
+
+  afterEach(() => {
+    NotificationService.setTransport(null);
+  });
+
+  it('should sign and verify unsubscribe tokens', () => {
+    const token = NotificationService.createUnsubscribeToken('Jane@Example.com', 'all');
+
+    expect(NotificationService.verifyUnsubscribeToken('jane@example.com', 'all', token)).toBe(true);
+    expect(NotificationService.verifyUnsubscribeToken('jane@example.com', 'pending-comments', token)).toBe(false);
+    expect(NotificationService.verifyUnsubscribeToken('other@example.com', 'all', token)).toBe(false);
+    expect(NotificationService.verifyUnsubscribeToken('jane@example.com', 'all', 'forged')).toBe(false);
+  });
+
+  it('should email the parent commenter about an approved reply with unsubscribe links', async () => {
+    db.select
+      .mockReturnValueOnce(
+        queryReturning([
+          {
+            id: reply.parentId,
+            authorName: 'Jane Reader',
+            authorEmail: 'jane@example.com',
+            status: 'approved',
+            postTitle: 'Restoring Oak',
+            postSlug: 'restoring-oak',
+          },
+        ])
+      )
+      .mockReturnValueOnce(queryReturning([]));
+
+    await NotificationService.notifyApprovedReply(reply);
+
+    expect(sent).toHaveLength(1);
+    const message = sent[0]!;
+    expect(message.to).toBe('jane@example.com');
+    expect(message.subject).toBe('Sam Replier replied to your comment on "Restoring Oak"');
+    expect(message.text).toContain('/blog/restoring-oak#comment-');
+
+    const unsubscribeUrl = new URL(message.headers!['List-Unsubscribe']!.slice(1, -1));
+    expect(unsubscribeUrl.pathname).toBe('/api/comments/unsubscribe');
+    expect(unsubscribeUrl.searchParams.get('scope')).toBe(`thread:${reply.parentId}`);
+    expect(
+      NotificationService.verifyUnsubscribeToken(
+        unsubscribeUrl.searchParams.get('email')!,
+        unsubscribeUrl.searchParams.get('scope')!,
+        unsubscribeUrl.searchParams.get('token')!
+      )
+    ).toBe(true);
+  });
+
+  it('should not email commenters who unsubscribed or replied to themselves', async () => {
+    const parent = {
+      id: reply.parentId,
+      authorName: 'Jane Reader',
+      authorEmail: 'jane@example.com',
+      status: 'approved',
+      postTitle: 'Restoring Oak',
+      postSlug: 'restoring-oak',
+    };
+
+    db.select
+      .mockReturnValueOnce(queryReturning([parent]))
+      .mockReturnValueOnce(queryReturning([{ id: 'unsubscribe-1' }]));
+    await NotificationService.notifyApprovedReply(reply);
+
+    db.select.mockReturnValueOnce(queryReturning([parent]));
+    await NotificationService.notifyApprovedReply({ ...reply, authorEmail: 'JANE@example.com' });
+
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should email post authors about pending comments unless they opted out', async () => {
+    const comment = { ...reply, parentId: undefined, authorName: 'Jane Reader', authorEmail: 'jane@example.com' };
+    const post = {
+      title: 'Restoring Oak',
+      authorEmail: 'author@example.com',
+      authorActive: true,
+      authorPreferences: { theme: 'light', language: 'en', notifications: { email: true, browser: true, comments: true, mentions: true } },
+    };
+
+    db.select.mockReturnValueOnce(queryReturning([post])).mockReturnValueOnce(queryReturning([]));
+    await NotificationService.notifyPendingComment(comment);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.to).toBe('author@example.com');
+    expect(sent[0]!.headers!['List-Unsubscribe']).toContain('scope=pending-comments');
+
+    db.select.mockReturnValueOnce(
+      queryReturning([
+        { ...post, authorPreferences: { ...post.authorPreferences, notifications: { ...post.authorPreferences.notifications, comments: false } } },
+      ])
+    );
+    await NotificationService.notifyPendingComment(comment);
+
+    expect(sent).toHaveLength(1);
+  });
+});
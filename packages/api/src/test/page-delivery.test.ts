@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PageDeliveryService, type DeliveredPage } from '../services/page-delivery-service';
+import { db } from '../db/index';
+import { CacheManager } from '../db/redis';
+
+// Mock the database and Redis dependencies
+vi.mock('../db/index', () => ({
+  db: { select: vi.fn() },
+  pages: {},
+  blogPosts: {},
+}));
+
+vi.mock('../db/redis', () => ({
+  CacheManager: {
+    get: vi.fn(),
+    set: vi.fn(),
+    invalidatePattern: vi.fn(),
+    invalidateContent: vi.fn(),
+  },
+}));
+
+vi.mock('../services/media-service', () => ({
+  mediaService: { getSocialImages: async () => ({}), getResponsiveImages: async () => ({}) },
+}));
+
+vi.mock('../services/theme-service', () => ({
+  ThemeService: { resolvePageTheme: async () => null },
+}));
+
+vi.mock('../services/ab-test-service', () => ({
+  ABTestService: {},
+}));
+
+describe('PageDeliveryService', () => {
+  const page: DeliveredPage = {
+    pageId: 'page-1',
+    slug: 'about',
+    html: '<!DOCTYPE html>',
+    etag: '"abc123"',
+    lastModified: 'Wed, 01 Jan 2025 12:00:00 GMT',
+  };
+
+  it('should match the ETag, including weak and listed tags', () => {
+    expect(PageDeliveryService.isNotModified(page, { ifNoneMatch: '"abc123"' })).toBe(true);
+    expect(PageDeliveryService.isNotModified(page, { ifNoneMatch: 'W/"abc123"' })).toBe(true);
+    expect(PageDeliveryService.isNotModified(page, { ifNoneMatch: '"old", "abc123"' })).toBe(true);
+    expect(PageDeliveryService.isNotModified(page, { ifNoneMatch: '"old"' })).toBe(false);
+  });
+
+  it('should prefer If-None-Match over If-Modified-Since', () => {
+    expect(
+      PageDeliveryService.isNotModified(page, {
+        ifNoneMatch: '"old"',
+        ifModifiedSince: 'Thu, 02 Jan 2025 12:00:00 GMT',
+      })
+    ).toBe(false);
+  });
+
+  it('should compare If-Modified-Since with the last modification', () => {
+    expect(PageDeliveryService.isNotModified(page, { ifModifiedSince: page.lastModified })).toBe(true);
+    expect(PageDeliveryService.isNotModified(page, { ifModifiedSince: 'Tue, 31 Dec 2024 12:00:00 GMT' })).toBe(false);
+    expect(PageDeliveryService.isNotModified(page, { ifModifiedSince: 'not a date' })).toBe(false);
+    expect(PageDeliveryService.isNotModified(page, {})).toBe(false);
+  });
+
+  it('should cache a page and a blog post with the same slug separately', async () => {
+    const cache = new Map<string, unknown>();
+    vi.mocked(CacheManager.get).mockImplementation(async key => cache.get(key) ?? null);
+    vi.mocked(CacheManager.set).mockImplementation(async (key, value) => {
+      cache.set(key, value);
+    });
+
+    const post = {
+      id: 'page-2',
+      slug: 'news',
+      title: 'News',
+      content: [],
+      seoData: {},
+      publishedAt: new Date('2025-01-01T12:00:00Z'),
+      createdAt: new Date('2025-01-01T12:00:00Z'),
+      updatedAt: new Date('2025-01-01T12:00:00Z'),
+      blogPostId: 'post-1',
+      categories: [],
+      tags: [],
+    };
+    const chain = { from: () => chain, leftJoin: () => chain, where: () => chain, limit: async () => [post] };
+    vi.mocked(db.select).mockReturnValue(chain as unknown as ReturnType<typeof db.select>);
+
+    expect(await PageDeliveryService.getPage('news', { blog: true })).toMatchObject({ pageId: 'page-2', cacheHit: false });
+    expect([...cache.keys()]).toEqual(['blog:news']);
+
+    // The cached post is not served as a page
+    expect(await PageDeliveryService.getPage('news')).toBeNull();
+    expect(db.select).toHaveBeenCalledTimes(2);
+
+    expect(await PageDeliveryService.getPage('news', { blog: true })).toMatchObject({ cacheHit: true });
+  });
+});
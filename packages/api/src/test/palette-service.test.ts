@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PaletteService } from '../services/palette-service';
+import { ThemeService } from '../services/theme-service';
+
+// Mock the database dependency
+vi.mock('../db/index', () => ({
+  db: {},
+  themes: {},
+}));
+
+const contrastIssues = (result: ReturnType<typeof ThemeService.validateAccessibility>) =>
+  result.issues.filter(issue => issue.type === 'contrast');
+
+describe('PaletteService', () => {
+  it('should generate light and dark palettes that meet the contrast level', () => {
+    for (const level of ['AA', 'AAA'] as const) {
+      const palette = PaletteService.generatePalette({ primary: '#3b82f6', secondary: '#f97316', level });
+
+      expect(Object.keys(palette.colors)).toHaveLength(20);
+      expect(palette.scales.primary['500']).toMatch(/^#[0-9a-f]{6}$/);
+
+      const dark = { ...palette.colors, ...palette.colorSchemes.dark };
+      for (const pair of ThemeService.CONTRAST_PAIRS) {
+        for (const scheme of [palette.colors, dark]) {
+          const ratio = ThemeService.calculateContrastRatio(scheme[pair.foreground], scheme[pair.background]);
+          expect(ratio, `${pair.context} at ${level}`).toBeGreaterThanOrEqual(ThemeService.CONTRAST_LEVELS[level]);
+        }
+      }
+    }
+  });
+
+  it('should nudge failing colors to the nearest compliant lightness', () => {
+    const palette = PaletteService.generatePalette({ primary: '#2563eb' });
+    const config = {
+      colors: { ...palette.colors, 'muted-foreground': '#9ca3af', primary: '#60a5fa' },
+      colorSchemes: { dark: { ...palette.colorSchemes.dark, foreground: '#475569' } },
+      typography: { fontFamily: 'Inter', fontSize: {}, fontWeight: {}, lineHeight: {} },
+      spacing: {},
+      borderRadius: {},
+      shadows: {},
+    };
+    expect(contrastIssues(ThemeService.validateAccessibility(config))).toHaveLength(3);
+
+    const { config: fixed, fixes } = PaletteService.fixContrast(config, 'AA');
+
+    expect(fixes.map(fix => [fix.scheme, fix.token])).toEqual([
+      ['light', 'muted-foreground'],
+      ['light', 'primary'],
+      ['dark', 'foreground'],
+    ]);
+    expect(contrastIssues(ThemeService.validateAccessibility(fixed))).toHaveLength(0);
+    // Just past the threshold, not all the way to black or white
+    fixes.forEach(fix => {
+      expect(fix.ratioAfter).toBeGreaterThanOrEqual(4.5);
+      expect(fix.ratioAfter).toBeLessThan(4.8);
+    });
+    expect(fixed.colors.background).toBe(config.colors.background);
+    expect(fixed.colorSchemes?.dark?.background).toBe(config.colorSchemes.dark.background);
+  });
+
+  it('should find the lightest gray that passes on white and fall back to black or white', () => {
+    expect(PaletteService.findCompliantColor('#999999', '#ffffff', 4.5)).toBe('#767676');
+    expect(PaletteService.findCompliantColor('#ff0000', '#808080', 7)).toBe('#000000');
+  });
+});
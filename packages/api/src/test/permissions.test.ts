@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { PermissionUtils } from '@oldworldcharm/shared';
+
+describe('PermissionUtils', () => {
+  it('should grant admins every action', () => {
+    expect(PermissionUtils.can('admin', 'themes', 'set-default')).toBe(true);
+    expect(PermissionUtils.can('admin', 'media', 'delete')).toBe(true);
+  });
+
+  it('should let editors publish but not delete media', () => {
+    expect(PermissionUtils.can('editor', 'pages', 'publish')).toBe(true);
+    expect(PermissionUtils.can('editor', 'media', 'delete')).toBe(false);
+  });
+
+  it('should limit authors to their own blog posts', () => {
+    expect(PermissionUtils.check('author', 'blog', 'update')).toBe('own');
+    expect(PermissionUtils.can('author', 'blog', 'update')).toBe(false);
+    expect(PermissionUtils.can('author', 'blog', 'update', true)).toBe(true);
+    expect(PermissionUtils.can('author', 'blog', 'publish', true)).toBe(false);
+  });
+
+  it('should keep viewers read-only', () => {
+    expect(PermissionUtils.can('viewer', 'pages', 'read')).toBe(true);
+    expect(PermissionUtils.can('viewer', 'pages', 'create')).toBe(false);
+  });
+
+  it('should leave changing roles to admins', () => {
+    expect(PermissionUtils.can('admin', 'users', 'update')).toBe(true);
+    for (const role of ['editor', 'author', 'viewer']) {
+      expect(PermissionUtils.check(role, 'users', 'update')).toBe('denied');
+      expect(PermissionUtils.check(role, 'users', 'read')).toBe('denied');
+    }
+  });
+
+  it('should deny unknown roles', () => {
+    expect(PermissionUtils.check('guest', 'pages', 'read')).toBe('denied');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { PublishingScheduler } from '../services/publishing-scheduler';
+import { CacheManager, LockManager } from '../db/redis';
+import { PageVersionService } from '../services/page-version-service';
+import { WorkflowService } from '../services/workflow-service';
+import { urlService } from '../services/url-service';
+import { queryReturning } from './query-chain';
+
+vi.hoisted(() => {
+  process.env.BASE_URL = 'https://example.com';
+});
+
+// Mock the database and Redis dependencies; the real pages table lets the queries be rendered
+const db = vi.hoisted(() => ({ select: vi.fn(), update: vi.fn() }));
+
+vi.mock('../db/index', async () => ({
+  db,
+  pages: (await vi.importActual<typeof import('../db/schema')>('../db/schema')).pages,
+}));
+
+vi.mock('../db/redis', () => ({
+  CacheManager: { invalidateContent: vi.fn() },
+  LockManager: { acquire: vi.fn(), release: vi.fn() },
+}));
+
+vi.mock('../services/page-version-service', () => ({
+  PageVersionService: { createVersion: vi.fn() },
+}));
+
+vi.mock('../services/workflow-service', () => ({
+  WorkflowService: { recordTransition: vi.fn() },
+}));
+
+vi.mock('../services/url-service', () => ({
+  urlService: { upsertPageSitemapEntry: vi.fn(), removePageSitemapEntries: vi.fn() },
+}));
+
+describe('PublishingScheduler', () => {
+  const now = new Date('2026-03-01T09:00:00Z');
+  let updates: Array<Record<string, unknown>>;
+  let selectConditions: SQL[];
+
+  // Serves the due and expired page IDs, then the rows each conditional UPDATE changes
+  function mockDatabase(due: string[], expired: string[], changed: Record<string, unknown> = {}) {
+    db.select
+      .mockImplementationOnce(() => queryReturning(due.map(id => ({ id })), selectConditions))
+      .mockImplementationOnce(() => queryReturning(expired.map(id => ({ id })), selectConditions));
+
+    const rows = [...due, ...expired].map(id => changed[id]);
+    db.update.mockImplementation(() => {
+      const row = rows.shift();
+      return {
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          return queryReturning(row ? [row] : []);
+        },
+      };
+    });
+  }
+
+  const page = (id: string, slug: string) => ({ id, slug, title: slug, status: 'published' });
+  const render = (condition: SQL) => new PgDialect().sqlToQuery(condition);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updates = [];
+    selectConditions = [];
+    vi.mocked(LockManager.acquire).mockResolvedValue('token-1');
+  });
+
+  afterEach(() => {
+    PublishingScheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('should publish approved content once its scheduled time has passed', async () => {
+    mockDatabase(['page-1'], [], { 'page-1': page('page-1', 'launch') });
+
+    const result = await PublishingScheduler.runOnce(now);
+
+    expect(result).toEqual({ skipped: false, published: ['page-1'], unpublished: [] });
+    expect(updates[0]).toMatchObject({ status: 'published', scheduledAt: null, updatedAt: now });
+    expect(PageVersionService.createVersion).toHaveBeenCalledWith(page('page-1', 'launch'), undefined, 'Published on schedule');
+    expect(WorkflowService.recordTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ pageId: 'page-1', action: 'publish', fromStatus: 'approved', toStatus: 'published' })
+    );
+    expect(urlService.upsertPageSitemapEntry).toHaveBeenCalledWith('https://example.com', page('page-1', 'launch'));
+    expect(CacheManager.invalidateContent).toHaveBeenCalledWith('launch');
+
+    // Only approved content whose time has come is selected
+    const { sql, params } = render(selectConditions[0]!);
+    expect(sql).toContain('"pages"."scheduled_at" <= $1');
+    expect(sql).toContain('"pages"."status" = $2');
+    expect(params).toEqual([now.toISOString(), 'approved']);
+  });
+
+  it('should archive published content once it expires', async () => {
+    mockDatabase([], ['page-2'], { 'page-2': page('page-2', 'offer') });
+
+    const result = await PublishingScheduler.runOnce(now);
+
+    expect(result).toEqual({ skipped: false, published: [], unpublished: ['page-2'] });
+    expect(updates[0]).toMatchObject({ status: 'archived', publishedAt: null, expiresAt: null });
+    expect(WorkflowService.recordTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ pageId: 'page-2', action: 'archive', fromStatus: 'published', toStatus: 'archived' })
+    );
+    expect(urlService.removePageSitemapEntries).toHaveBeenCalledWith('page-2');
+    expect(CacheManager.invalidateContent).toHaveBeenCalledWith('offer');
+    expect(render(selectConditions[1]!).sql).toContain('"pages"."expires_at" <= $1');
+  });
+
+  it('should skip content that was rescheduled or unapproved during the run', async () => {
+    // The conditional UPDATE matches no row
+    mockDatabase(['page-1'], []);
+
+    const result = await PublishingScheduler.runOnce(now);
+
+    expect(result.published).toEqual([]);
+    expect(PageVersionService.createVersion).not.toHaveBeenCalled();
+    expect(CacheManager.invalidateContent).not.toHaveBeenCalled();
+  });
+
+  it('should leave the run to the instance holding the lock', async () => {
+    vi.mocked(LockManager.acquire).mockResolvedValueOnce(null);
+
+    expect(await PublishingScheduler.runOnce(now)).toEqual({ skipped: true, published: [], unpublished: [] });
+    expect(db.select).not.toHaveBeenCalled();
+    expect(LockManager.release).not.toHaveBeenCalled();
+
+    // A failed run still gives the lock up
+    db.select.mockImplementationOnce(() => {
+      throw new Error('Connection terminated');
+    });
+    await expect(PublishingScheduler.runOnce(now)).rejects.toThrow('Connection terminated');
+    expect(LockManager.release).toHaveBeenCalledWith('publishing-scheduler', 'token-1');
+  });
+
+  it('should publish content that fell due while the server was down as soon as it starts', async () => {
+    vi.useFakeTimers({ now });
+    const logger = { info: vi.fn(), error: vi.fn() };
+    // Scheduled for the night before, when no instance was running
+    mockDatabase(['page-1'], ['page-2'], { 'page-1': page('page-1', 'launch'), 'page-2': page('page-2', 'offer') });
+
+    PublishingScheduler.start(60 * 1000, logger);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(logger.info).toHaveBeenCalledWith('Publishing scheduler: published 1, unpublished 1');
+    expect(render(selectConditions[0]!).params[0]).toBe(now.toISOString());
+
+    // Later ticks keep polling
+    mockDatabase([], []);
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(db.select).toHaveBeenCalledTimes(4);
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import type { SQL } from 'drizzle-orm';
+
+type SettledRows = PromiseLike<unknown[]>;
+
+/**
+ * Stand-in for a drizzle query builder: every builder method returns the chain,
+ * so awaiting the query resolves however it ends
+ */
+export interface QueryChain extends SettledRows {
+  from: () => QueryChain;
+  innerJoin: () => QueryChain;
+  leftJoin: () => QueryChain;
+  where: (condition?: SQL) => QueryChain;
+  groupBy: () => QueryChain;
+  orderBy: () => QueryChain;
+  limit: () => QueryChain;
+  offset: () => QueryChain;
+  set: () => QueryChain;
+  values: () => QueryChain;
+  onConflictDoNothing: () => QueryChain;
+  onConflictDoUpdate: () => QueryChain;
+  returning: () => QueryChain;
+}
+
+/**
+ * A query chain that resolves to the given rows, or rejects with the given error.
+ * WHERE conditions are collected into `conditions` so tests can render them.
+ */
+export function queryReturning(rows: unknown[] | Error, conditions: SQL[] = []): QueryChain {
+  const settle = () => (rows instanceof Error ? Promise.reject(rows) : Promise.resolve(rows));
+  const next = () => chain;
+
+  const chain: QueryChain = {
+    then: (onfulfilled, onrejected) => settle().then(onfulfilled, onrejected),
+    from: next,
+    innerJoin: next,
+    leftJoin: next,
+    where: condition => {
+      if (condition) {
+        conditions.push(condition);
+      }
+      return chain;
+    },
+    groupBy: next,
+    orderBy: next,
+    limit: next,
+    offset: next,
+    set: next,
+    values: next,
+    onConflictDoNothing: next,
+    onConflictDoUpdate: next,
+    returning: next,
+  };
+
+  return chain;
+}
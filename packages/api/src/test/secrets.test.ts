@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Secrets } from '../services/secrets';
+
+describe('Secrets', () => {
+  beforeEach(() => {
+    for (const variable of ['JWT_SECRET', 'COOKIE_SECRET', 'SESSION_SECRET', 'MEDIA_SIGNING_SECRET', 'UNSUBSCRIBE_SECRET', 'COMMENTER_TOKEN_SECRET']) {
+      vi.stubEnv(variable, '');
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should fall back to JWT_SECRET and then to a development secret', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(Secrets.get('unsubscribe')).toBe('dev-unsubscribe-secret-change-in-production');
+
+    vi.stubEnv('JWT_SECRET', 'jwt-secret');
+    expect(Secrets.get('unsubscribe')).toBe('jwt-secret');
+
+    vi.stubEnv('UNSUBSCRIBE_SECRET', 'unsubscribe-secret');
+    expect(Secrets.get('unsubscribe')).toBe('unsubscribe-secret');
+  });
+
+  it('should refuse to start in production while a secret is missing', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('JWT_SECRET', 'jwt-secret');
+    expect(() => Secrets.assertConfigured()).toThrow('COOKIE_SECRET must be set in production');
+
+    vi.stubEnv('COOKIE_SECRET', 'cookie-secret');
+    vi.stubEnv('SESSION_SECRET', 'session-secret');
+    expect(() => Secrets.assertConfigured()).not.toThrow();
+    expect(Secrets.get('commenterToken')).toBe('jwt-secret');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import cookie from '@fastify/cookie';
+import siteRoutes from '../routes/site';
+import { PageDeliveryService, type DeliveredPage } from '../services/page-delivery-service';
+import { ABTestService } from '../services/ab-test-service';
+import type { ABTest, ABTestVariant } from '@oldworldcharm/shared';
+
+// Mock the database and Redis dependencies
+vi.mock('../db/index', () => ({
+  db: {},
+  pages: {},
+  blogPosts: {},
+}));
+
+vi.mock('../db/redis', () => ({
+  CacheManager: {},
+}));
+
+vi.mock('../services/media-service', () => ({
+  mediaService: {},
+}));
+
+vi.mock('../services/theme-service', () => ({
+  ThemeService: {},
+}));
+
+vi.mock('../services/ab-test-service', () => ({
+  ABTestService: {
+    VISITOR_COOKIE: 'ab_visitor',
+    getRunningTestForPage: vi.fn(),
+    assignUserToVariant: vi.fn(),
+    recordExposure: vi.fn(),
+    recordPageReached: vi.fn(async () => {}),
+  },
+}));
+
+describe('Site routes', () => {
+  let app: FastifyInstance;
+
+  const rendered = (slug: string, html: string): DeliveredPage => ({
+    pageId: `page-${slug}`,
+    slug,
+    html,
+    etag: `"${slug}"`,
+    lastModified: 'Wed, 01 Jan 2025 12:00:00 GMT',
+  });
+
+  const variants: ABTestVariant[] = [
+    { id: 'a', name: 'Control', components: [], trafficPercentage: 50, isControl: true },
+    { id: 'b', name: 'New pricing table', components: [], trafficPercentage: 50, isControl: false },
+  ];
+
+  const pricingTest: ABTest = {
+    id: 'test-1',
+    name: 'Pricing table',
+    pageId: 'page-pricing',
+    variants,
+    trafficSplit: { a: 50, b: 50 },
+    status: 'running',
+    conversionGoal: 'signup',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(ABTestService.getRunningTestForPage).mockResolvedValue(null);
+
+    // A page at /pricing and a blog post at /blog/launch; a variant replaces the page's content
+    vi.spyOn(PageDeliveryService, 'getPage').mockImplementation(async (slug, options = {}) => {
+      if (options.blog) {
+        return slug === 'launch' ? rendered('launch', '<h1>Launch post</h1>') : null;
+      }
+      if (slug !== 'pricing') {
+        return null;
+      }
+      return options.variant
+        ? rendered('pricing', `<h1>Pricing ${options.variant.variantId}</h1>`)
+        : rendered('pricing', '<h1>Pricing</h1>');
+    });
+
+    app = Fastify({ logger: false });
+    await app.register(cookie);
+    await app.register(siteRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should serve blog posts only under /blog and pages only at the top level', async () => {
+    const post = await app.inject({ method: 'GET', url: '/blog/launch' });
+    expect(post.statusCode).toBe(200);
+    expect(post.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(post.body).toBe('<h1>Launch post</h1>');
+    expect(PageDeliveryService.getPage).toHaveBeenCalledWith('launch', { blog: true });
+
+    const page = await app.inject({ method: 'GET', url: '/pricing' });
+    expect(page.statusCode).toBe(200);
+    expect(page.headers['cache-control']).toBe('public, max-age=0, must-revalidate');
+    expect(page.headers.etag).toBe('"pricing"');
+
+    for (const url of ['/launch', '/blog/pricing', '/missing']) {
+      const notFound = await app.inject({ method: 'GET', url });
+      expect(notFound.statusCode).toBe(404);
+      expect(notFound.headers['cache-control']).toBe('no-store');
+      expect(notFound.body).toContain('Page not found');
+    }
+  });
+
+  it('should answer a matching ETag with 304 Not Modified', async () => {
+    const response = await app.inject({ method: 'GET', url: '/pricing', headers: { 'if-none-match': '"pricing"' } });
+
+    expect(response.statusCode).toBe(304);
+    expect(response.body).toBe('');
+  });
+
+  it('should serve the assigned variant and keep the visitor in it', async () => {
+    vi.mocked(ABTestService.getRunningTestForPage).mockResolvedValue(pricingTest);
+    vi.mocked(ABTestService.assignUserToVariant).mockResolvedValue({ variantId: 'b', variant: variants[1]! });
+
+    const first = await app.inject({ method: 'GET', url: '/pricing' });
+    const visitorCookie = first.cookies.find(cookie => cookie.name === 'ab_visitor');
+
+    expect(first.body).toBe('<h1>Pricing b</h1>');
+    expect(first.headers['cache-control']).toBe('private, no-cache');
+    expect(first.headers.vary).toBe('Cookie');
+    expect(visitorCookie).toMatchObject({ httpOnly: true, sameSite: 'Lax', path: '/' });
+    expect(ABTestService.recordExposure).toHaveBeenCalledWith('test-1', 'b', visitorCookie!.value, 'page-pricing');
+
+    // The returning visitor is assigned with the id from the cookie
+    await app.inject({ method: 'GET', url: '/pricing', cookies: { ab_visitor: visitorCookie!.value } });
+    expect(ABTestService.assignUserToVariant).toHaveBeenLastCalledWith('test-1', visitorCookie!.value);
+  });
+
+  it('should record goal pages by their route path', async () => {
+    await app.inject({ method: 'GET', url: '/pricing?utm_source=newsletter', cookies: { ab_visitor: 'visitor-1' } });
+    await app.inject({ method: 'GET', url: '/blog/launch?ref=home', cookies: { ab_visitor: 'visitor-1' } });
+    // Visitors who were never in a test have no goals to reach
+    await app.inject({ method: 'GET', url: '/pricing' });
+
+    expect(vi.mocked(ABTestService.recordPageReached).mock.calls).toEqual([
+      ['/pricing', 'visitor-1'],
+      ['/blog/launch', 'visitor-1'],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SpamFilterService, type SpamCheckInput } from '../services/spam-filter-service';
+import { CacheManager, RateLimiter } from '../db/redis';
+
+// Mock the database and Redis dependencies
+vi.mock('../db/index', () => ({
+  db: { select: vi.fn(), insert: vi.fn(), delete: vi.fn() },
+  commentBlocklist: {},
+}));
+
+vi.mock('../db/redis', () => ({
+  CacheManager: {
+    get: vi.fn(),
+    set: vi.fn(),
+    del: vi.fn(),
+  },
+  RateLimiter: {
+    hit: vi.fn(),
+  },
+}));
+
+describe('SpamFilterService', () => {
+  const comment: SpamCheckInput = {
+    authorName: 'Jane Reader',
+    authorEmail: 'jane@example.com',
+    content: 'Thanks, the section on restoring oak furniture was really helpful.',
+    ipAddress: '203.0.113.7',
+    renderedAt: Date.now() - 60_000,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(CacheManager.get).mockResolvedValue([{ type: 'domain', value: 'spam.test' }]);
+    vi.mocked(RateLimiter.hit).mockResolvedValue(1);
+  });
+
+  it('should approve comments without any signal', async () => {
+    const verdict = await SpamFilterService.evaluate(comment);
+
+    expect(verdict.status).toBe('approved');
+    expect(verdict.score).toBe(0);
+  });
+
+  it('should mark honeypot, fast and blocklisted submissions as spam', async () => {
+    expect(await SpamFilterService.evaluate({ ...comment, honeypot: 'http://example.org' })).toMatchObject({
+      status: 'spam',
+      reason: 'Hidden honeypot field was filled in',
+    });
+    expect((await SpamFilterService.evaluate({ ...comment, renderedAt: Date.now() })).status).toBe('spam');
+    expect(await SpamFilterService.evaluate({ ...comment, authorEmail: 'bot@mail.spam.test' })).toMatchObject({
+      status: 'spam',
+      reason: 'Blocklisted domain: spam.test',
+    });
+  });
+
+  it('should mark comments over the per-IP rate limit as spam', async () => {
+    vi.mocked(RateLimiter.hit).mockResolvedValue(6);
+
+    const verdict = await SpamFilterService.evaluate(comment);
+    expect(verdict.status).toBe('spam');
+    expect(verdict.signals.map(signal => signal.check)).toEqual(['rate-limit']);
+  });
+
+  it('should score links and keywords', async () => {
+    const oneLink = await SpamFilterService.evaluate({
+      ...comment,
+      content: 'More on this at https://example.org/oak',
+    });
+    expect(oneLink).toMatchObject({ status: 'pending', score: 1, reason: 'Contains 1 link' });
+
+    const manyLinks = await SpamFilterService.evaluate({
+      ...comment,
+      content: 'https://a.test https://b.test https://c.test',
+    });
+    expect(manyLinks.status).toBe('spam');
+
+    const keywords = await SpamFilterService.evaluate({ ...comment, content: 'Best online casino and poker bonus' });
+    expect(keywords.status).toBe('spam');
+    expect(keywords.reason).toContain('"casino"');
+  });
+
+  it('should run registered checks', async () => {
+    SpamFilterService.registerCheck({
+      name: 'shouting',
+      run: input =>
+        input.content === input.content.toUpperCase()
+          ? [{ check: 'shouting', score: 2, reason: 'Written in capitals' }]
+          : [],
+    });
+
+    try {
+      expect(await SpamFilterService.evaluate({ ...comment, content: 'GREAT POST' })).toMatchObject({
+        status: 'pending',
+        reason: 'Written in capitals',
+      });
+    } finally {
+      SpamFilterService.unregisterCheck('shouting');
+    }
+  });
+});
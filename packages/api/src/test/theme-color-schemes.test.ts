@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ThemeService, type ThemeConfig } from '../services/theme-service';
+
+// Mock the database dependency
+vi.mock('../db/index', () => ({
+  db: {},
+  themes: {},
+}));
+
+const config: ThemeConfig = {
+  colors: {
+    primary: '#1d4ed8',
+    secondary: '#475569',
+    accent: '#f59e0b',
+    neutral: '#404040',
+    base: '#ffffff',
+    info: '#0369a1',
+    success: '#15803d',
+    warning: '#b45309',
+    error: '#b91c1c',
+    background: '#ffffff',
+    foreground: '#111827',
+    muted: '#f3f4f6',
+    'muted-foreground': '#374151',
+    popover: '#ffffff',
+    'popover-foreground': '#111827',
+    card: '#ffffff',
+    'card-foreground': '#111827',
+    border: '#e5e7eb',
+    input: '#e5e7eb',
+    ring: '#1d4ed8',
+  },
+  typography: {
+    fontFamily: 'Inter, sans-serif',
+    fontSize: {},
+    fontWeight: {},
+    lineHeight: {},
+  },
+  spacing: {},
+  borderRadius: {},
+  shadows: {},
+  colorSchemes: {
+    dark: {
+      background: '#0f172a',
+      foreground: '#f8fafc',
+      muted: '#1e293b',
+      'muted-foreground': '#cbd5e1',
+      card: '#0f172a',
+      'card-foreground': '#f8fafc',
+      popover: '#0f172a',
+      'popover-foreground': '#f8fafc',
+      primary: '#93c5fd',
+      secondary: '#cbd5e1',
+    },
+  },
+};
+
+describe('ThemeService color schemes', () => {
+  it('should emit dark colors for the system preference and for explicit toggles', () => {
+    const css = ThemeService.generateCSS(config);
+
+    expect(css).toContain('@media (prefers-color-scheme: dark) {');
+    expect(css).toContain(':root:not([data-color-scheme]):not(.light):not(.dark):not(.high-contrast) {');
+    expect(css).toContain(':root.dark, :root[data-color-scheme="dark"] {\n  --color-background: #0f172a;');
+    expect(css).not.toContain('prefers-contrast');
+
+    // Only colors change between schemes
+    const darkBlock = css.slice(css.indexOf(':root.dark'));
+    expect(darkBlock.slice(0, darkBlock.indexOf('}'))).not.toContain('--font-family');
+  });
+
+  it('should check contrast in every scheme', () => {
+    expect(ThemeService.validateAccessibility(config)).toMatchObject({ isValid: true, schemes: ['light', 'dark'] });
+
+    // Dark text left on the dark background
+    const result = ThemeService.validateAccessibility({
+      ...config,
+      colorSchemes: { dark: { background: '#0f172a' }, 'high-contrast': { 'muted-foreground': '#4b5563' } },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.schemes).toEqual(['light', 'dark', 'high-contrast']);
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ scheme: 'dark', severity: 'error', message: 'Low contrast ratio for main text (dark scheme)' })
+    );
+    // 6.9:1 passes AA but the high-contrast scheme is held to AAA
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ scheme: 'high-contrast', severity: 'warning', message: 'Low contrast ratio for muted text (high-contrast scheme)' })
+    );
+    expect(result.issues.filter(issue => issue.scheme === 'light' && issue.type === 'contrast')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeService, type ThemeConfig } from '../services/theme-service';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency
+const db = vi.hoisted(() => ({ select: vi.fn() }));
+
+vi.mock('../db/index', () => ({
+  db,
+  themes: {},
+}));
+
+const baseConfig: ThemeConfig = {
+  colors: {
+    primary: '#1d4ed8',
+    secondary: '#64748b',
+    accent: '#f59e0b',
+    neutral: '#404040',
+    base: '#ffffff',
+    info: '#0ea5e9',
+    success: '#16a34a',
+    warning: '#d97706',
+    error: '#dc2626',
+    background: '#ffffff',
+    foreground: '#111827',
+    muted: '#f3f4f6',
+    'muted-foreground': '#4b5563',
+    popover: '#ffffff',
+    'popover-foreground': '#111827',
+    card: '#ffffff',
+    'card-foreground': '#111827',
+    border: '#e5e7eb',
+    input: '#e5e7eb',
+    ring: '#1d4ed8',
+  },
+  typography: {
+    fontFamily: 'Inter, sans-serif',
+    fontSize: { base: '1rem', lg: '1.125rem' },
+    fontWeight: { normal: 400, bold: 700 },
+    lineHeight: { normal: '1.5' },
+  },
+  spacing: { sm: '0.5rem', md: '1rem' },
+  borderRadius: { md: '0.375rem' },
+  shadows: {},
+};
+
+function themeRow(id: string, parentId: string | null, config: unknown) {
+  return { id, name: `Theme ${id}`, parentId, config, isDefault: false };
+}
+
+describe('ThemeService inheritance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should merge overrides key by key', () => {
+    const merged = ThemeService.mergeConfig(baseConfig, {
+      colors: { primary: '#7c3aed' },
+      typography: { fontSize: { lg: '1.25rem' } },
+      spacing: { lg: '2rem' },
+    });
+
+    expect(merged.colors.primary).toBe('#7c3aed');
+    expect(merged.colors.secondary).toBe(baseConfig.colors.secondary);
+    expect(merged.typography.fontFamily).toBe('Inter, sans-serif');
+    expect(merged.typography.fontSize).toEqual({ base: '1rem', lg: '1.25rem' });
+    expect(merged.spacing).toEqual({ sm: '0.5rem', md: '1rem', lg: '2rem' });
+    expect(ThemeService.isCompleteConfig({ colors: { primary: '#000000' } })).toBe(false);
+    expect(ThemeService.isCompleteConfig(baseConfig)).toBe(true);
+  });
+
+  it('should resolve a theme through its parents, nearest overrides winning', async () => {
+    db.select
+      .mockReturnValueOnce(queryReturning([themeRow('child', 'middle', { colors: { primary: '#dc2626' } })]))
+      .mockReturnValueOnce(
+        queryReturning([themeRow('middle', 'root', { colors: { primary: '#7c3aed', accent: '#10b981' } })])
+      )
+      .mockReturnValueOnce(queryReturning([themeRow('root', null, baseConfig)]));
+
+    const result = await ThemeService.getThemeById('child');
+
+    expect(result?.theme.id).toBe('child');
+    expect(result?.config.colors.primary).toBe('#dc2626');
+    expect(result?.config.colors.accent).toBe('#10b981');
+    expect(result?.config.colors.background).toBe(baseConfig.colors.background);
+  });
+
+  it('should reject parents that would create a cycle', async () => {
+    // "root" extends nothing and "child" extends "root", so "root" cannot extend "child"
+    db.select
+      .mockReturnValueOnce(queryReturning([themeRow('child', 'root', {})]))
+      .mockReturnValueOnce(queryReturning([themeRow('root', null, baseConfig)]));
+
+    await expect(ThemeService.assertValidParent('root', 'child')).rejects.toThrow(
+      'A theme cannot extend itself or one of its descendants'
+    );
+
+    db.select.mockReturnValueOnce(queryReturning([]));
+    await expect(ThemeService.assertValidParent(null, 'missing')).rejects.toThrow('Parent theme not found');
+  });
+});
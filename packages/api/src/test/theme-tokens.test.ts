@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { ThemeTokenService, type DesignTokenGroup } from '../services/theme-token-service';
+import type { ThemeConfig } from '../services/theme-service';
+
+const config: ThemeConfig = {
+  colors: {
+    primary: '#1d4ed8',
+    secondary: '#475569',
+    accent: '#f59e0b',
+    neutral: '#404040',
+    base: '#ffffff',
+    info: '#0369a1',
+    success: '#15803d',
+    warning: '#b45309',
+    error: '#b91c1c',
+    background: '#ffffff',
+    foreground: '#111827',
+    muted: '#f3f4f6',
+    'muted-foreground': '#374151',
+    popover: '#ffffff',
+    'popover-foreground': '#111827',
+    card: '#ffffff',
+    'card-foreground': '#111827',
+    border: '#e5e7eb',
+    input: '#e5e7eb',
+    ring: '#1d4ed8',
+  },
+  typography: {
+    fontFamily: '"Open Sans", sans-serif',
+    headingFont: 'Georgia, serif',
+    fontSize: { base: '1rem', xl: '1.25rem' },
+    fontWeight: { normal: 400, bold: 700 },
+    lineHeight: { normal: '1.5', loose: '2rem' },
+  },
+  spacing: { sm: '0.5rem', md: '1rem' },
+  borderRadius: { md: '0.375rem' },
+  shadows: {
+    sm: '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+    focus: 'inset 0 0 0 2px #1d4ed8, 0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+    glow: 'var(--glow)',
+  },
+  colorSchemes: {
+    dark: { background: '#0f172a', foreground: '#f8fafc' },
+  },
+};
+
+describe('ThemeTokenService', () => {
+  it('should round-trip a theme through W3C design tokens', () => {
+    const tokens = ThemeTokenService.toDesignTokens('Harbour', config);
+
+    expect(tokens.color).toMatchObject({ primary: { $type: 'color', $value: '#1d4ed8' } });
+    expect(tokens.typography).toMatchObject({
+      fontFamily: { base: { $type: 'fontFamily', $value: ['Open Sans', 'sans-serif'] } },
+      lineHeight: { normal: { $type: 'number', $value: 1.5 }, loose: { $type: 'dimension', $value: '2rem' } },
+    });
+    expect(tokens.shadow).toMatchObject({
+      sm: { $type: 'shadow', $value: { offsetX: '0', offsetY: '1px', blur: '2px', spread: '0', color: 'rgba(0, 0, 0, 0.05)' } },
+      focus: { $type: 'shadow', $value: [{ inset: true, color: '#1d4ed8' }, { offsetY: '4px', spread: '-1px' }] },
+    });
+
+    // Shadows DTCG cannot describe keep their CSS
+    expect(tokens.shadow).toMatchObject({ glow: { $value: 'var(--glow)' } });
+
+    const imported = ThemeTokenService.fromDesignTokens('Harbour', JSON.parse(JSON.stringify(tokens)));
+    expect(imported).toEqual({ name: 'Harbour', ...config });
+  });
+
+  it('should resolve aliases and reject tokens that are not a complete theme', () => {
+    const tokens = ThemeTokenService.toDesignTokens('Harbour', config);
+    const color = tokens.color as DesignTokenGroup;
+    color.ring = { $type: 'color', $value: '{color.accent}' };
+    tokens.typography = {
+      ...(tokens.typography as DesignTokenGroup),
+      fontWeight: { bold: { $type: 'fontWeight', $value: 'semi-bold' } },
+    };
+
+    const imported = ThemeTokenService.fromDesignTokens('Harbour', tokens);
+    expect(imported.colors.ring).toBe('#f59e0b');
+    expect(imported.typography.fontWeight).toEqual({ bold: 600 });
+
+    color.ring = { $type: 'color', $value: '{color.missing}' };
+    expect(() => ThemeTokenService.fromDesignTokens('Harbour', tokens)).toThrow('Unknown design token alias: {color.missing}');
+
+    delete color.ring;
+    expect(() => ThemeTokenService.fromDesignTokens('Harbour', tokens)).toThrow(ZodError);
+  });
+
+  it('should export Tailwind, SCSS and TypeScript files', () => {
+    const tailwind = ThemeTokenService.exportTheme('Harbour Blue', config, 'tailwind');
+    expect(tailwind.filename).toBe('harbour-blue.tailwind-preset.js');
+
+    const exported = tailwind.data.slice(tailwind.data.indexOf('module.exports = ') + 'module.exports = '.length);
+    const preset = JSON.parse(exported.slice(0, exported.lastIndexOf(';')));
+    expect(preset.theme.extend.colors.dark).toEqual({ background: '#0f172a', foreground: '#f8fafc' });
+    expect(preset.theme.extend.fontFamily).toEqual({ sans: ['Open Sans', 'sans-serif'], heading: ['Georgia', 'serif'] });
+    expect(preset.theme.extend.fontWeight).toEqual({ normal: '400', bold: '700' });
+
+    const scss = ThemeTokenService.exportTheme('Harbour Blue', config, 'scss');
+    expect(scss.filename).toBe('_harbour-blue.scss');
+    expect(scss.data).toContain('$color-muted-foreground: #374151;');
+    expect(scss.data).toContain('$color-dark-background: #0f172a;');
+    expect(scss.data).toContain("  'primary': $color-primary,");
+
+    const typescript = ThemeTokenService.exportTheme('Harbour Blue', config, 'typescript');
+    expect(typescript.data).toContain('export const colors = {\n  "primary": "#1d4ed8",');
+    expect(typescript.data).toContain('export type ColorToken = keyof typeof colors;');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { urlService } from '../services/url-service';
+import { sitemapEntries } from '../db/schema';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency
+const db = vi.hoisted(() => ({ select: vi.fn(), insert: vi.fn(), delete: vi.fn() }));
+
+vi.mock('../db/connection', () => ({ db }));
+
+describe('URLService sitemap entries', () => {
+  const page = (slug: string) => ({ id: 'page-1', slug, updatedAt: new Date() });
+  let deleteConditions: SQL[];
+  let inserted: Array<{ url: string; pageId: string }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deleteConditions = [];
+    inserted = [];
+    db.delete.mockImplementation(() => queryReturning([], deleteConditions));
+    db.insert.mockImplementation(() => ({
+      values: (values: { url: string; pageId: string }) => {
+        inserted.push(values);
+        return queryReturning([]);
+      },
+    }));
+  });
+
+  it('should list pages, the home page and blog posts at their public paths', async () => {
+    db.select
+      .mockReturnValueOnce(queryReturning([]))
+      .mockReturnValueOnce(queryReturning([]))
+      .mockReturnValueOnce(queryReturning([{ id: 'post-1' }]));
+
+    await urlService.upsertPageSitemapEntry('https://example.com', page('about'));
+    await urlService.upsertPageSitemapEntry('https://example.com', page('home'));
+    await urlService.upsertPageSitemapEntry('https://example.com', page('launch'));
+
+    expect(inserted.map(entry => entry.url)).toEqual([
+      'https://example.com/about',
+      'https://example.com/',
+      'https://example.com/blog/launch',
+    ]);
+  });
+
+  it('should replace the entry a page had under its previous slug', async () => {
+    db.select.mockReturnValueOnce(queryReturning([]));
+
+    await urlService.upsertPageSitemapEntry('https://example.com', page('about-us'));
+
+    expect(db.delete).toHaveBeenCalledWith(sitemapEntries);
+    const { sql, params } = new PgDialect().sqlToQuery(deleteConditions[0]!);
+    expect(sql).toBe('("sitemap_entries"."page_id" = $1 and "sitemap_entries"."url" <> $2)');
+    expect(params).toEqual(['page-1', 'https://example.com/about-us']);
+    expect(inserted[0]).toMatchObject({ url: 'https://example.com/about-us', pageId: 'page-1' });
+  });
+});
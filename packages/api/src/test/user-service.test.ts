@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserService } from '../services/user-service';
+import { queryReturning } from './query-chain';
+
+// Mock the database dependency
+const db = vi.hoisted(() => ({ select: vi.fn(), insert: vi.fn(), update: vi.fn() }));
+
+vi.mock('../db/index', () => ({
+  db,
+  users: {},
+  refreshTokens: {},
+}));
+
+describe('UserService', () => {
+  describe('password hashing', () => {
+    it('should not store the plaintext password', async () => {
+      const hash = await UserService.hashPassword('password123');
+
+      expect(hash).not.toContain('password123');
+      expect(hash.split(':')).toHaveLength(2);
+    });
+
+    it('should salt each hash differently', async () => {
+      const first = await UserService.hashPassword('password123');
+      const second = await UserService.hashPassword('password123');
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should verify the correct password', async () => {
+      const hash = await UserService.hashPassword('password123');
+
+      await expect(UserService.verifyPassword('password123', hash)).resolves.toBe(true);
+    });
+
+    it('should reject an incorrect password', async () => {
+      const hash = await UserService.hashPassword('password123');
+
+      await expect(UserService.verifyPassword('wrong-password', hash)).resolves.toBe(false);
+    });
+
+    it('should reject a malformed stored hash', async () => {
+      await expect(UserService.verifyPassword('password123', 'not-a-hash')).resolves.toBe(false);
+    });
+  });
+
+  describe('accounts and tokens', () => {
+    const dbUser = {
+      id: 'user-1',
+      email: 'jane@example.com',
+      name: 'Jane',
+      role: 'editor',
+      isActive: true,
+      preferences: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should report a concurrent registration of the same email as a duplicate', async () => {
+      db.select.mockReturnValue(queryReturning([]));
+      const violation = Object.assign(new Error('Failed query'), { cause: { code: '23505' } });
+      db.insert.mockReturnValue(queryReturning(violation));
+
+      await expect(
+        UserService.createUser({ email: 'jane@example.com', password: 'password123', name: 'Jane' })
+      ).rejects.toThrow('User with this email already exists');
+    });
+
+    it('should let only one request rotate a refresh token', async () => {
+      // The first UPDATE ... RETURNING revokes the token; the second finds nothing left to revoke
+      db.update
+        .mockReturnValueOnce(queryReturning([{ id: 'token-1', userId: 'user-1' }]))
+        .mockReturnValueOnce(queryReturning([]));
+      db.select.mockReturnValue(queryReturning([dbUser]));
+      db.insert.mockReturnValue(queryReturning([]));
+
+      const [first, second] = await Promise.all([
+        UserService.rotateRefreshToken('token'),
+        UserService.rotateRefreshToken('token'),
+      ]);
+
+      expect(first).toMatchObject({ user: { id: 'user-1' }, refreshToken: expect.any(String) });
+      expect(second).toBeNull();
+      expect(db.insert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PermissionUtils, WORKFLOW_TRANSITIONS, WorkflowUtils } from '@oldworldcharm/shared';
+import { WorkflowService } from '../services/workflow-service';
+
+// Mock the database dependency
+vi.mock('../db/index', () => ({
+  db: {},
+  pages: {},
+  workflowTransitions: {},
+}));
+
+describe('WorkflowUtils', () => {
+  it('should only publish approved content', () => {
+    expect(WorkflowUtils.canTransition('approved', 'published')).toBe(true);
+    expect(WorkflowUtils.canTransition('draft', 'published')).toBe(false);
+    expect(WorkflowUtils.canTransition('in_review', 'published')).toBe(false);
+    expect(WorkflowUtils.canTransition('changes_requested', 'published')).toBe(false);
+  });
+
+  it('should resolve the action for a status change', () => {
+    expect(WorkflowUtils.getAction('draft', 'in_review')).toBe('submit');
+    expect(WorkflowUtils.getAction('in_review', 'approved')).toBe('approve');
+    expect(WorkflowUtils.getAction('in_review', 'changes_requested')).toBe('request_changes');
+    expect(WorkflowUtils.getAction('published', 'draft')).toBe('unpublish');
+    expect(WorkflowUtils.getAction('archived', 'published')).toBeNull();
+  });
+
+  it('should list the actions available from a status', () => {
+    expect(WorkflowUtils.getAvailableActions('in_review')).toEqual([
+      'withdraw',
+      'approve',
+      'request_changes',
+    ]);
+    expect(WorkflowUtils.getAvailableActions('archived')).toEqual(['restore']);
+  });
+
+  it('should require a comment and the review permission to request changes', () => {
+    const rule = WORKFLOW_TRANSITIONS.request_changes;
+
+    expect(rule.requiresComment).toBe(true);
+    expect(PermissionUtils.can('editor', 'blog', rule.permission)).toBe(true);
+    expect(PermissionUtils.can('author', 'blog', rule.permission, true)).toBe(false);
+  });
+
+  it('should let authors submit their own posts for review', () => {
+    const rule = WORKFLOW_TRANSITIONS.submit;
+
+    expect(PermissionUtils.can('author', 'blog', rule.permission, true)).toBe(true);
+    expect(PermissionUtils.can('author', 'blog', rule.permission, false)).toBe(false);
+  });
+});
+
+describe('WorkflowService', () => {
+  const edit = { resource: 'blog' as const, currentStatus: 'published' as const, contentChanged: true };
+
+  it('should send an author\'s edit of their own published post back to review', () => {
+    expect(WorkflowService.resolveUpdateTransition({ ...edit, role: 'author', isOwner: true })).toEqual({
+      action: 'submit',
+      fromStatus: 'published',
+      toStatus: 'in_review',
+    });
+    expect(WorkflowUtils.canApply('submit', 'published')).toBe(true);
+  });
+
+  it('should keep published content live when someone who can publish edits it', () => {
+    expect(WorkflowService.resolveUpdateTransition({ ...edit, role: 'editor' })).toBeNull();
+    expect(WorkflowService.resolveUpdateTransition({ ...edit, role: 'author', isOwner: true, contentChanged: false })).toBeNull();
+  });
+});
@@ -1,22 +1,61 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Canvas } from '../canvas';
 import { ComponentPalette } from '../palette/ComponentPalette';
 import { PropertiesPanel } from '../properties';
 import { ComponentTree } from '../tree';
-import { useEditorStore } from '../../store/editorStore';
+import { useEditorStore, SaveStatus } from '../../store/editorStore';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 
 export interface VisualEditorProps {
   className?: string;
+  pageId?: string | null;
 }
 
-export function VisualEditor({ className = '' }: VisualEditorProps) {
-  const { mode, setMode, canUndo, canRedo, undo, redo, clearCanvas } = useEditorStore();
+export function VisualEditor({ className = '', pageId }: VisualEditorProps) {
+  const {
+    mode,
+    setMode,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    clearCanvas,
+    page,
+    isDirty,
+    saveStatus,
+    saveError,
+    loadPage,
+    savePage,
+    resolveConflict,
+  } = useEditorStore();
   const [leftSidebarTab, setLeftSidebarTab] = useState<'components' | 'structure'>('components');
   
   // Enable keyboard shortcuts
   useKeyboardShortcuts();
 
+  // Load the page being edited
+  useEffect(() => {
+    if (pageId) {
+      loadPage(pageId).catch(() => {
+        // Error is surfaced through saveError
+      });
+    }
+  }, [pageId, loadPage]);
+
+  // Warn before leaving with unsaved changes
+  useEffect(() => {
+    if (!isDirty) {
+      return;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
   return (
     <div className={`flex h-screen bg-gray-100 ${className}`}>
       {/* Left Sidebar - Component Palette & Structure */}
@@ -100,7 +139,8 @@ export function VisualEditor({ className = '' }: VisualEditorProps) {
 
             {/* Center - Page title */}
             <div className="flex-1 text-center">
-              <h1 className="text-lg font-medium text-gray-900">Untitled Page</h1>
+              <h1 className="text-lg font-medium text-gray-900">{page?.title || 'Untitled Page'}</h1>
+              <SaveStatusIndicator status={saveStatus} isDirty={isDirty} error={saveError} />
             </div>
 
             {/* Right side - Actions */}
@@ -139,13 +179,38 @@ export function VisualEditor({ className = '' }: VisualEditorProps) {
               </button>
 
               {/* Save */}
-              <button className="px-4 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors">
-                Save
+              <button
+                onClick={() => savePage()}
+                disabled={!page || !isDirty || saveStatus === 'saving' || saveStatus === 'conflict'}
+                className="px-4 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saveStatus === 'saving' ? 'Saving...' : 'Save'}
               </button>
             </div>
           </div>
         </div>
 
+        {/* Conflict banner */}
+        {saveStatus === 'conflict' && (
+          <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 flex items-center justify-between text-sm text-amber-800">
+            <span>This page was changed elsewhere since you opened it.</span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => resolveConflict('use-server')}
+                className="px-3 py-1 rounded-md hover:bg-amber-100 transition-colors"
+              >
+                Discard my changes
+              </button>
+              <button
+                onClick={() => resolveConflict('keep-local')}
+                className="px-3 py-1 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors"
+              >
+                Overwrite with mine
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Canvas Area */}
         <div className="flex-1 overflow-hidden">
           {mode === 'design' ? (
@@ -164,6 +229,31 @@ export function VisualEditor({ className = '' }: VisualEditorProps) {
   );
 }
 
+// Save state shown under the page title
+function SaveStatusIndicator({
+  status,
+  isDirty,
+  error,
+}: {
+  status: SaveStatus;
+  isDirty: boolean;
+  error: string | null;
+}) {
+  if (status === 'saving') {
+    return <div className="text-xs text-gray-500">Saving...</div>;
+  }
+  if (status === 'error' || status === 'conflict') {
+    return <div className="text-xs text-red-600">{error || 'Save failed'}</div>;
+  }
+  if (isDirty) {
+    return <div className="text-xs text-gray-500">Unsaved changes</div>;
+  }
+  if (status === 'saved') {
+    return <div className="text-xs text-gray-500">All changes saved</div>;
+  }
+  return null;
+}
+
 // Placeholder component for preview mode
 function PreviewMode() {
   return (
@@ -192,6 +192,18 @@ export function ComponentPropertyEditor({
             onChange={(value) => onPropertyChange('height', value)}
             placeholder="auto, 100px, 50%"
           />,
+          <PropertyField
+            key="crop"
+            label="Crop"
+            type="select"
+            value={component.props.crop || ''}
+            options={[
+              { value: '', label: 'Original' },
+              { value: 'square', label: 'Square' },
+              { value: 'widescreen', label: '16:9' },
+            ]}
+            onChange={(value) => onPropertyChange('crop', value || undefined)}
+          />,
           <PropertyField
             key="rounded"
             label="Rounded"
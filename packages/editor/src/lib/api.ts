@@ -0,0 +1,114 @@
+import type {
+  APIResponse,
+  APIError,
+  ComponentInstance,
+  PageStatus,
+  SEOData,
+} from '@oldworldcharm/shared';
+
+const DEFAULT_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Page record as returned by the pages routes (components are stored in `content`)
+export interface PageRecord {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  content: ComponentInstance[];
+  seoData: SEOData;
+  status: PageStatus;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdatePageData {
+  slug?: string;
+  title?: string;
+  description?: string;
+  components?: ComponentInstance[];
+  seoData?: SEOData;
+  status?: PageStatus;
+  // The updatedAt the editor last saw; the server rejects the save with PAGE_CONFLICT if it has moved on
+  expectedUpdatedAt?: string;
+}
+
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string,
+    public readonly details?: APIError['details']
+  ) {
+    super(message);
+    this.name = 'ApiClientError';
+  }
+}
+
+export class ApiClient {
+  private authToken: string | null = null;
+
+  constructor(private readonly baseUrl: string = DEFAULT_BASE_URL) {}
+
+  setAuthToken(token: string | null): void {
+    this.authToken = token;
+  }
+
+  async getPage(id: string): Promise<PageRecord> {
+    const data = await this.request<{ page: PageRecord }>(
+      'GET',
+      `/pages/${encodeURIComponent(id)}`
+    );
+    return data.page;
+  }
+
+  async updatePage(id: string, updates: UpdatePageData): Promise<PageRecord> {
+    const data = await this.request<{ page: PageRecord }>(
+      'PUT',
+      `/pages/${encodeURIComponent(id)}`,
+      updates
+    );
+    return data.page;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        credentials: 'include',
+        body: body !== undefined ? JSON.stringify(body) : null,
+      });
+    } catch (error) {
+      throw new ApiClientError(
+        error instanceof Error ? error.message : 'Network request failed',
+        0,
+        'NETWORK_ERROR'
+      );
+    }
+
+    const payload = (await response.json().catch(() => null)) as APIResponse<T> | null;
+
+    if (!response.ok || !payload?.success) {
+      throw new ApiClientError(
+        payload?.error?.message || `Request failed with status ${response.status}`,
+        response.status,
+        payload?.error?.code || 'HTTP_ERROR',
+        payload?.error?.details
+      );
+    }
+
+    return payload.data as T;
+  }
+}
+
+export const apiClient = new ApiClient();
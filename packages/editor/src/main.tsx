@@ -8,7 +8,9 @@ import './styles/globals.css';
 registerSampleComponents();
 
 function App() {
-  return <VisualEditor />;
+  // Open a saved page with ?pageId=<id>
+  const pageId = new URLSearchParams(window.location.search).get('pageId');
+  return <VisualEditor pageId={pageId} />;
 }
 
 const root = document.getElementById('root');
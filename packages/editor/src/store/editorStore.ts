@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { ComponentInstance } from '@oldworldcharm/shared';
+import { apiClient, ApiClientError, PageRecord } from '../lib/api';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'conflict';
 
 export interface EditorState {
   // Canvas state
@@ -23,6 +26,18 @@ export interface EditorState {
   history: ComponentInstance[][];
   historyIndex: number;
   maxHistorySize: number;
+  
+  // Persistence
+  page: PageRecord | null;
+  savedComponents: ComponentInstance[];
+  isLoading: boolean;
+  isDirty: boolean;
+  saveStatus: SaveStatus;
+  saveError: string | null;
+  lastSavedAt: Date | null;
+  conflictPage: PageRecord | null;
+  autosaveEnabled: boolean;
+  autosaveDelay: number;
 }
 
 export interface EditorActions {
@@ -61,6 +76,12 @@ export interface EditorActions {
   // Bulk operations
   setComponents: (components: ComponentInstance[]) => void;
   clearCanvas: () => void;
+  
+  // Persistence
+  loadPage: (pageId: string) => Promise<void>;
+  savePage: (options?: { force?: boolean }) => Promise<void>;
+  resolveConflict: (resolution: 'keep-local' | 'use-server') => Promise<void>;
+  setAutosave: (enabled: boolean) => void;
 }
 
 const initialState: EditorState = {
@@ -75,8 +96,35 @@ const initialState: EditorState = {
   history: [[]],
   historyIndex: 0,
   maxHistorySize: 50,
+  page: null,
+  savedComponents: [],
+  isLoading: false,
+  isDirty: false,
+  saveStatus: 'idle',
+  saveError: null,
+  lastSavedAt: null,
+  conflictPage: null,
+  autosaveEnabled: true,
+  autosaveDelay: 2000,
 };
 
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cancelAutosave() {
+  if (autosaveTimer) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+}
+
+function scheduleAutosave(delay: number) {
+  cancelAutosave();
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    void useEditorStore.getState().savePage();
+  }, delay);
+}
+
 export const useEditorStore = create<EditorState & EditorActions>()(
   devtools(
     (set, get) => ({
@@ -282,6 +330,95 @@ export const useEditorStore = create<EditorState & EditorActions>()(
         });
         get().pushToHistory();
       },
+
+      // Persistence
+      loadPage: async (pageId) => {
+        cancelAutosave();
+        set({ isLoading: true, saveError: null });
+
+        try {
+          const page = await apiClient.getPage(pageId);
+          applyServerPage(set, page);
+        } catch (error) {
+          set({
+            isLoading: false,
+            saveError: error instanceof Error ? error.message : 'Failed to load page',
+          });
+          throw error;
+        }
+      },
+
+      savePage: async (options = {}) => {
+        const state = get();
+        if (!state.page || state.saveStatus === 'saving') {
+          return;
+        }
+
+        cancelAutosave();
+
+        // Snapshot what is being sent so edits made during the request stay dirty
+        const components = state.components;
+        set({ saveStatus: 'saving', saveError: null });
+
+        try {
+          const page = await apiClient.updatePage(state.page.id, {
+            components,
+            ...(options.force ? {} : { expectedUpdatedAt: state.page.updatedAt }),
+          });
+
+          set((current) => ({
+            page,
+            savedComponents: components,
+            isDirty: current.components !== components,
+            saveStatus: 'saved',
+            lastSavedAt: new Date(),
+            conflictPage: null,
+          }));
+
+          // Pick up edits that arrived while the request was in flight
+          const { isDirty, autosaveEnabled, autosaveDelay } = get();
+          if (isDirty && autosaveEnabled) {
+            scheduleAutosave(autosaveDelay);
+          }
+        } catch (error) {
+          if (error instanceof ApiClientError && error.code === 'PAGE_CONFLICT') {
+            // Keep local edits and surface the newer server copy so the user can choose
+            const conflictPage = await apiClient.getPage(state.page.id).catch(() => null);
+            set({
+              saveStatus: 'conflict',
+              saveError: error.message,
+              conflictPage,
+            });
+            return;
+          }
+
+          set({
+            saveStatus: 'error',
+            saveError: error instanceof Error ? error.message : 'Failed to save page',
+          });
+        }
+      },
+
+      resolveConflict: async (resolution) => {
+        const { conflictPage } = get();
+
+        if (resolution === 'use-server') {
+          if (conflictPage) {
+            cancelAutosave();
+            applyServerPage(set, conflictPage);
+          }
+          return;
+        }
+
+        await get().savePage({ force: true });
+      },
+
+      setAutosave: (enabled) => {
+        if (!enabled) {
+          cancelAutosave();
+        }
+        set({ autosaveEnabled: enabled });
+      },
     }),
     {
       name: 'editor-store',
@@ -289,7 +426,44 @@ export const useEditorStore = create<EditorState & EditorActions>()(
   )
 );
 
+// Track unsaved changes and schedule autosave whenever the component tree changes
+useEditorStore.subscribe((state, previousState) => {
+  if (state.components === previousState.components || state.components === state.savedComponents) {
+    return;
+  }
+
+  if (!state.isDirty) {
+    useEditorStore.setState({ isDirty: true });
+  }
+
+  if (state.page && state.autosaveEnabled && state.saveStatus !== 'conflict') {
+    scheduleAutosave(state.autosaveDelay);
+  }
+});
+
 // Helper functions
+function applyServerPage(
+  set: (partial: Partial<EditorState>) => void,
+  page: PageRecord
+) {
+  const components = page.content || [];
+
+  set({
+    page,
+    components,
+    savedComponents: components,
+    selectedComponentId: null,
+    hoveredComponentId: null,
+    history: [JSON.parse(JSON.stringify(components))],
+    historyIndex: 0,
+    isLoading: false,
+    isDirty: false,
+    saveStatus: 'idle',
+    saveError: null,
+    conflictPage: null,
+  });
+}
+
 function addComponentToTree(
   components: ComponentInstance[],
   newComponent: ComponentInstance,
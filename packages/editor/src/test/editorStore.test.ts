@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ComponentInstance } from '@oldworldcharm/shared';
+import { useEditorStore } from '../store/editorStore';
+import type { PageRecord, UpdatePageData } from '../lib/api';
+
+const page: PageRecord = {
+  id: 'page-1',
+  slug: 'about',
+  title: 'About',
+  description: null,
+  content: [],
+  seoData: {},
+  status: 'draft',
+  publishedAt: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const heading = (id: string): ComponentInstance => ({ id, type: 'heading', props: { text: id }, children: [] });
+
+// Responds like the pages routes, recording every request; only saves carry a body
+function mockApi(respond: (method: string, body: UpdatePageData) => { status: number; payload: unknown }) {
+  const requests: Array<{ method: string; body: UpdatePageData }> = [];
+  const fetchMock = vi.fn(async (_url: string, init: { method?: string; body?: unknown }) => {
+    const method = init.method || 'GET';
+    const body: UpdatePageData = init.body ? JSON.parse(String(init.body)) : {};
+    requests.push({ method, body });
+    const { status, payload } = respond(method, body);
+    return new Response(JSON.stringify(payload), { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return requests;
+}
+
+const ok = (data: unknown) => ({ status: 200, payload: { success: true, data } });
+const saves = <T extends { method: string }>(requests: T[]) => requests.filter(request => request.method === 'PUT');
+
+describe('editor store persistence', () => {
+  beforeEach(async () => {
+    mockApi(() => ok({ page }));
+    await useEditorStore.getState().loadPage(page.id);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should autosave once after the edits stop', async () => {
+    const saved = { ...page, updatedAt: '2026-01-01T00:01:00.000Z' };
+    const requests = mockApi(method => ok({ page: method === 'PUT' ? saved : page }));
+
+    useEditorStore.getState().addComponent(heading('a'));
+    await vi.advanceTimersByTimeAsync(1500);
+    useEditorStore.getState().addComponent(heading('b'));
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(saves(requests)).toHaveLength(0);
+    expect(useEditorStore.getState().isDirty).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(saves(requests)).toHaveLength(1);
+    expect(saves(requests)[0]!.body).toMatchObject({
+      components: [{ id: 'a' }, { id: 'b' }],
+      expectedUpdatedAt: page.updatedAt,
+    });
+    expect(useEditorStore.getState()).toMatchObject({ isDirty: false, saveStatus: 'saved', page: saved });
+  });
+
+  it('should keep local edits and show the server copy on a conflict', async () => {
+    const server = { ...page, title: 'About us', updatedAt: '2026-01-01T00:02:00.000Z', content: [heading('server')] };
+    const requests = mockApi((method, body) => {
+      if (method === 'GET') return ok({ page: server });
+      return body.expectedUpdatedAt
+        ? { status: 409, payload: { success: false, error: { code: 'PAGE_CONFLICT', message: 'The page has been modified since it was loaded' } } }
+        : ok({ page: { ...server, content: body.components, updatedAt: '2026-01-01T00:03:00.000Z' } });
+    });
+
+    useEditorStore.getState().addComponent(heading('local'));
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(useEditorStore.getState()).toMatchObject({
+      saveStatus: 'conflict',
+      conflictPage: server,
+      isDirty: true,
+      components: [{ id: 'local' }],
+    });
+
+    // No autosave overwrites the server copy while the conflict is open
+    useEditorStore.getState().addComponent(heading('more'));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(saves(requests)).toHaveLength(1);
+
+    await useEditorStore.getState().resolveConflict('keep-local');
+    expect(saves(requests)[1]!.body).not.toHaveProperty('expectedUpdatedAt');
+    expect(useEditorStore.getState()).toMatchObject({ saveStatus: 'saved', isDirty: false, conflictPage: null });
+  });
+
+  it('should stay dirty when a save fails', async () => {
+    mockApi(() => ({ status: 500, payload: { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update page' } } }));
+
+    useEditorStore.getState().addComponent(heading('a'));
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(useEditorStore.getState()).toMatchObject({
+      saveStatus: 'error',
+      saveError: 'Failed to update page',
+      isDirty: true,
+      components: [{ id: 'a' }],
+    });
+  });
+});
@@ -152,6 +152,7 @@ export function registerSampleComponents() {
       alt: z.string().default('Image description'),
       width: z.union([z.string(), z.number()]).default('auto'),
       height: z.union([z.string(), z.number()]).default('auto'),
+      crop: z.enum(['square', 'widescreen']).optional(),
       rounded: z.boolean().default(false),
     }),
     metadata: {
@@ -9,5 +9,17 @@ export * from './schemas';
 // Export components
 export * from './components';
 
+// Export role-based permissions
+export * from './permissions';
+
+// Export content workflow rules
+export * from './workflow';
+
+// Export server-side HTML rendering
+export * from './rendering';
+
+// Export A/B test statistics
+export * from './statistics';
+
 // Re-export zod for convenience
 export { z } from 'zod';
@@ -0,0 +1,112 @@
+// Role-based permission matrix shared by the API and the editor
+import type { UserRole } from '../types';
+
+export type PermissionResource =
+  | 'pages'
+  | 'blog'
+  | 'themes'
+  | 'media'
+  | 'templates'
+  | 'comments'
+  | 'seo'
+  | 'ab-tests'
+  | 'users';
+
+export type PermissionAction =
+  | 'read'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'publish'
+  | 'review'
+  | 'set-default'
+  | 'moderate';
+
+// A grant either covers every record (`update`) or only records the user owns (`update:own`)
+export type PermissionGrant = PermissionAction | `${PermissionAction}:own`;
+
+export type PermissionMatrix = Record<
+  UserRole,
+  Partial<Record<PermissionResource, PermissionGrant[]>>
+>;
+
+const ALL_RESOURCES: PermissionResource[] = [
+  'pages',
+  'blog',
+  'themes',
+  'media',
+  'templates',
+  'comments',
+  'seo',
+  'ab-tests',
+];
+
+const readOnly = (): Partial<Record<PermissionResource, PermissionGrant[]>> =>
+  Object.fromEntries(ALL_RESOURCES.map(resource => [resource, ['read']]));
+
+export const ROLE_PERMISSIONS: PermissionMatrix = {
+  admin: {
+    ...Object.fromEntries(
+      ALL_RESOURCES.map(resource => [
+        resource,
+        ['read', 'create', 'update', 'delete', 'publish', 'review', 'set-default', 'moderate'],
+      ])
+    ),
+    // Accounts are managed by admins only, so users stays out of ALL_RESOURCES
+    users: ['read', 'update'],
+  },
+  editor: {
+    pages: ['read', 'create', 'update', 'delete', 'publish', 'review'],
+    blog: ['read', 'create', 'update', 'delete', 'publish', 'review'],
+    themes: ['read', 'create', 'update'],
+    media: ['read', 'create', 'update'],
+    templates: ['read', 'create', 'update', 'delete'],
+    comments: ['read', 'update', 'delete', 'moderate'],
+    seo: ['read', 'create', 'update', 'delete'],
+    'ab-tests': ['read', 'create', 'update', 'delete', 'publish'],
+  },
+  author: {
+    ...readOnly(),
+    blog: ['read', 'create', 'update:own', 'delete:own'],
+    media: ['read', 'create'],
+  },
+  viewer: readOnly(),
+};
+
+export type PermissionCheck = 'granted' | 'own' | 'denied';
+
+export class PermissionUtils {
+  /**
+   * Resolves whether a role may perform an action on any record, only on its own records, or not at all
+   */
+  static check(
+    role: UserRole | string,
+    resource: PermissionResource,
+    action: PermissionAction,
+    matrix: PermissionMatrix = ROLE_PERMISSIONS
+  ): PermissionCheck {
+    const grants = matrix[role as UserRole]?.[resource] ?? [];
+
+    if (grants.includes(action)) {
+      return 'granted';
+    }
+    if (grants.includes(`${action}:own`)) {
+      return 'own';
+    }
+    return 'denied';
+  }
+
+  /**
+   * Determines if a role may perform an action, given whether the user owns the record
+   */
+  static can(
+    role: UserRole | string,
+    resource: PermissionResource,
+    action: PermissionAction,
+    isOwner = false,
+    matrix: PermissionMatrix = ROLE_PERMISSIONS
+  ): boolean {
+    const result = this.check(role, resource, action, matrix);
+    return result === 'granted' || (result === 'own' && isOwner);
+  }
+}
@@ -0,0 +1,336 @@
+// Framework-neutral HTML rendering of component trees, shared by the static build and page delivery
+import type { ComponentInstance, MediaVariant, MediaVariantFormat, Theme } from '../types';
+import { componentRegistry, type ComponentRegistry } from '../components/registry';
+import { ThemeUtils } from '../utils';
+
+export interface HtmlRenderOptions {
+  /** Registry used to resolve component default props */
+  registry?: ComponentRegistry;
+  /** Theme used to resolve color references such as `background: 'primary'` */
+  theme?: Theme;
+  /** Add lazy loading hints to images */
+  lazyImages?: boolean;
+  /** Resized copies of images by their `src`, rendered as a `<picture>`; an image's `crop` prop picks a crop preset */
+  images?: Record<string, ResponsiveImageSource[]>;
+  /** Emit `data-component-id` attributes (defaults to true) */
+  componentIds?: boolean;
+}
+
+export interface HtmlDocumentOptions {
+  title: string;
+  body: string;
+  lang?: string;
+  /** Additional head markup; callers are responsible for escaping it */
+  head?: string[];
+  /** Inline the theme's CSS custom properties */
+  theme?: Theme;
+  stylesheets?: string[];
+  scripts?: string[];
+  bodyClass?: string;
+}
+
+export type ResponsiveImageSource = Pick<MediaVariant, 'url' | 'width' | 'format' | 'preset'>;
+
+// Listed first in a <picture> so browsers pick the smallest format they support
+const IMAGE_FORMAT_ORDER: MediaVariantFormat[] = ['avif', 'webp', 'jpeg', 'png'];
+
+// Props that carry visible text, in the order they are read for plain-text extraction
+const TEXT_PROPS = ['title', 'text', 'description', 'caption', 'label', 'alt'];
+
+const SPACING_CLASSES: Record<string, string> = {
+  small: 'theme-p-sm',
+  medium: 'theme-p-md',
+  large: 'theme-p-lg',
+  xl: 'theme-p-xl',
+};
+
+const SHADOW_CLASSES: Record<string, string> = {
+  small: 'theme-shadow-sm',
+  medium: 'theme-shadow-md',
+  large: 'theme-shadow-lg',
+};
+
+const BUTTON_VARIANT_CLASSES: Record<string, string> = {
+  primary: 'theme-bg-primary',
+  secondary: 'theme-bg-secondary',
+  outline: 'theme-border-primary theme-text-primary',
+};
+
+const CSS_COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla)\([\d\s.,%]+\)|[a-z]+)$/i;
+
+export class HtmlRenderer {
+  private static readonly SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+  /**
+   * Render a component tree to an HTML fragment
+   */
+  static renderTree(components: ComponentInstance[], options: HtmlRenderOptions = {}): string {
+    return components.map(component => this.renderComponent(component, options)).join('\n');
+  }
+
+  /**
+   * Render a single component and its children to semantic HTML
+   */
+  static renderComponent(instance: ComponentInstance, options: HtmlRenderOptions = {}): string {
+    const props = this.resolveProps(instance, options.registry);
+    const children = (instance.children || [])
+      .map(child => this.renderComponent(child, options))
+      .join('');
+
+    const text = (key: string) => this.escapeHtml(String(props[key] ?? ''));
+    const attrs = this.renderAttributes(instance, props, options);
+
+    switch (instance.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(Number(props.level) || 1, 1), 6);
+        return `<h${level} ${attrs}>${text('text')}</h${level}>`;
+      }
+      case 'text':
+        return `<p ${attrs}>${text('text')}${children}</p>`;
+      case 'link':
+        return `<a ${attrs} href="${this.sanitizeUrl(props.href)}">${text('text')}${children}</a>`;
+      case 'button':
+        return props.href
+          ? `<a ${attrs} href="${this.sanitizeUrl(props.href)}">${text('text')}</a>`
+          : `<button ${attrs} type="button"${props.disabled ? ' disabled' : ''}>${text('text')}</button>`;
+      case 'image':
+      case 'avatar': {
+        const loading = options.lazyImages ? ' loading="lazy" decoding="async"' : '';
+        const size = ['width', 'height']
+          .filter(key => typeof props[key] === 'number')
+          .map(key => ` ${key}="${props[key]}"`)
+          .join('');
+        const crop = typeof props.crop === 'string' && props.crop ? props.crop : undefined;
+        const sources = (options.images?.[String(props.src ?? '')] || []).filter(source => source.preset === crop);
+        // Cropped images fall back to the widest cropped JPEG or PNG, so the crop holds without <picture>
+        const fallback = crop
+          ? sources.filter(source => source.format === 'jpeg' || source.format === 'png').sort((a, b) => b.width - a.width)[0]
+          : undefined;
+        const img = `<img ${attrs} src="${this.sanitizeUrl(fallback?.url ?? props.src)}" alt="${text('alt')}"${size}${loading}>`;
+        const image = sources.length ? this.renderPicture(img, sources, props) : img;
+        return props.caption ? `<figure>${image}<figcaption>${text('caption')}</figcaption></figure>` : image;
+      }
+      case 'input': {
+        const required = props.required ? ' required' : '';
+        const input = `<input ${attrs} type="${text('type') || 'text'}" placeholder="${text('placeholder')}"${required}>`;
+        return props.label ? `<label>${text('label')} ${input}</label>` : input;
+      }
+      case 'textarea':
+        return `<textarea ${attrs} placeholder="${text('placeholder')}" rows="${Number(props.rows) || 3}"></textarea>`;
+      case 'select': {
+        const choices = Array.isArray(props.options) ? props.options : [];
+        const optionTags = choices
+          .map(choice => `<option>${this.escapeHtml(String(choice))}</option>`)
+          .join('');
+        return `<select ${attrs}>${optionTags}</select>`;
+      }
+      case 'list': {
+        const tag = props.ordered ? 'ol' : 'ul';
+        const items = Array.isArray(props.items)
+          ? props.items.map(item => `<li>${this.escapeHtml(String(item))}</li>`).join('')
+          : '';
+        return `<${tag} ${attrs}>${items}${children}</${tag}>`;
+      }
+      case 'separator':
+        return `<hr ${attrs}>`;
+      case 'badge':
+        return `<span ${attrs}>${text('text')}</span>`;
+      case 'alert':
+        return `<div ${attrs} role="alert">${props.title ? `<strong>${text('title')}</strong> ` : ''}${text('description')}${children}</div>`;
+      case 'progress':
+        return `<progress ${attrs} value="${Number(props.value) || 0}" max="100"></progress>`;
+      case 'card':
+        return `<article ${attrs}>${props.title ? `<h3>${text('title')}</h3>` : ''}${props.description ? `<p>${text('description')}</p>` : ''}${children}</article>`;
+      case 'section':
+        return `<section ${attrs}>${children}</section>`;
+      default:
+        // Unknown or container components render as a wrapper around their children
+        return `<div ${attrs}>${props.text !== undefined ? text('text') : ''}${children}</div>`;
+    }
+  }
+
+  /**
+   * Wrap rendered markup in a complete HTML document
+   */
+  static renderDocument(options: HtmlDocumentOptions): string {
+    const head = [
+      '<meta charset="UTF-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+      `<title>${this.escapeHtml(options.title)}</title>`,
+      ...(options.head || []),
+      ...(options.stylesheets || []).map(href => `<link rel="stylesheet" href="${this.escapeHtml(href)}">`),
+      options.theme ? `<style>\n${ThemeUtils.generateCSSVariables(options.theme)}\n</style>` : '',
+    ].filter(Boolean);
+
+    const scripts = (options.scripts || [])
+      .map(src => `<script src="${this.escapeHtml(src)}" defer></script>`)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${this.escapeHtml(options.lang || 'en')}">
+<head>
+${head.join('\n')}
+</head>
+<body class="${this.escapeHtml(options.bodyClass || 'theme-bg-background theme-text-foreground theme-font-body')}">
+<main>
+${options.body}
+</main>
+${scripts}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Extract the visible text of a component tree, e.g. for descriptions and feed summaries
+   */
+  static renderText(components: ComponentInstance[], options: HtmlRenderOptions = {}): string {
+    const parts: string[] = [];
+
+    const visit = (instance: ComponentInstance) => {
+      const props = this.resolveProps(instance, options.registry);
+      for (const key of TEXT_PROPS) {
+        if (key === 'alt' && instance.type !== 'image') continue;
+        const value = props[key];
+        if (typeof value === 'string' && value.trim()) {
+          parts.push(value.trim());
+        }
+      }
+      if (Array.isArray(props.items)) {
+        parts.push(...props.items.map(item => String(item)));
+      }
+      (instance.children || []).forEach(visit);
+    };
+
+    components.forEach(visit);
+    return parts.join(' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Image URLs used in a component tree, e.g. to look up their resized copies before rendering
+   */
+  static collectImageSources(components: ComponentInstance[], options: HtmlRenderOptions = {}): string[] {
+    const sources = new Set<string>();
+
+    const visit = (instance: ComponentInstance) => {
+      const props = this.resolveProps(instance, options.registry);
+      if ((instance.type === 'image' || instance.type === 'avatar') && typeof props.src === 'string' && props.src) {
+        sources.add(props.src);
+      }
+      (instance.children || []).forEach(visit);
+    };
+
+    components.forEach(visit);
+    return [...sources];
+  }
+
+  /**
+   * Collapse whitespace between tags
+   */
+  static minify(html: string): string {
+    return html
+      .replace(/\n\s*/g, '\n')
+      .replace(/>\s+</g, '><')
+      .trim();
+  }
+
+  /**
+   * Escape a value for use in HTML text or a quoted attribute
+   */
+  static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static resolveProps(
+    instance: ComponentInstance,
+    registry: ComponentRegistry = componentRegistry
+  ): Record<string, unknown> {
+    const definition = registry.get(instance.type);
+    return { ...((definition?.defaultProps as Record<string, unknown>) || {}), ...instance.props };
+  }
+
+  private static renderAttributes(
+    instance: ComponentInstance,
+    props: Record<string, unknown>,
+    options: HtmlRenderOptions
+  ): string {
+    const classes = [`component-${instance.type}`];
+    if (typeof props.variant === 'string') classes.push(`${instance.type}-${props.variant}`);
+    if (typeof props.size === 'string') classes.push(`${instance.type}-${props.size}`);
+    if (instance.type === 'heading') classes.push('theme-font-heading');
+    if (instance.type === 'button' && typeof props.variant === 'string') {
+      classes.push(BUTTON_VARIANT_CLASSES[props.variant] || '', 'theme-rounded-md');
+    }
+    if (instance.type === 'card') classes.push('theme-bg-card', 'theme-rounded-lg');
+    if (typeof props.padding === 'string') classes.push(SPACING_CLASSES[props.padding] || '');
+    if (typeof props.shadow === 'string') classes.push(SHADOW_CLASSES[props.shadow] || '');
+
+    let attrs = `class="${this.escapeHtml(classes.filter(Boolean).join(' '))}"`;
+
+    const style = this.renderStyle(props, options.theme);
+    if (style) {
+      attrs += ` style="${this.escapeHtml(style)}"`;
+    }
+    if (options.componentIds !== false) {
+      attrs += ` data-component-id="${this.escapeHtml(instance.id)}"`;
+    }
+
+    return attrs;
+  }
+
+  // Background colors either name a theme color or are literal CSS colors
+  private static renderStyle(props: Record<string, unknown>, theme?: Theme): string {
+    const background = props.background;
+    if (typeof background !== 'string' || !background || background === 'transparent') {
+      return '';
+    }
+
+    if (theme && background in theme.colors) {
+      return `background-color: var(--color-${background})`;
+    }
+
+    return CSS_COLOR_PATTERN.test(background) ? `background-color: ${background}` : '';
+  }
+
+  // One <source> per format with every width; the <img> stays as the fallback and carries the attributes
+  private static renderPicture(img: string, sources: ResponsiveImageSource[], props: Record<string, unknown>): string {
+    const sizes =
+      typeof props.sizes === 'string' && props.sizes
+        ? props.sizes
+        : typeof props.width === 'number'
+          ? `(max-width: ${props.width}px) 100vw, ${props.width}px`
+          : '100vw';
+
+    const tags = IMAGE_FORMAT_ORDER.map(format => {
+      const srcset = sources
+        .filter(source => source.format === format)
+        .sort((a, b) => a.width - b.width)
+        .map(source => `${this.sanitizeUrl(source.url)} ${source.width}w`)
+        .join(', ');
+      return srcset ? `<source type="image/${format}" srcset="${srcset}" sizes="${this.escapeHtml(sizes)}">` : '';
+    });
+
+    return `<picture>${tags.join('')}${img}</picture>`;
+  }
+
+  // Keep web, mail and phone links and relative URLs; the result is escaped as an attribute value.
+  // Browsers skip control characters and whitespace around and inside a scheme ("java\tscript:"),
+  // so the scheme is read with them removed.
+  private static sanitizeUrl(value: unknown): string {
+    const url = String(value ?? '').trim().replace(/[\t\n\r]/g, '');
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec([...url].filter(char => char > ' ' && char !== '\u007f').join(''))?.[1];
+
+    if (scheme && !this.SAFE_URL_SCHEMES.includes(scheme.toLowerCase())) {
+      return '#';
+    }
+    return this.escapeHtml(url);
+  }
+}
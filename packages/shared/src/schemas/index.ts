@@ -84,6 +84,22 @@ export const ThemeTypographySchema = z.object({
   letterSpacing: z.record(z.string()).optional(),
 });
 
+export const ColorSchemeSchema = z.enum(['light', 'dark', 'high-contrast']);
+
+export const ThemeColorSchemesSchema = z.object({
+  dark: ThemeColorsSchema.partial().optional(),
+  'high-contrast': ThemeColorsSchema.partial().optional(),
+});
+
+export const ThemeTokenOverridesSchema = z.object({
+  colors: ThemeColorsSchema.partial().optional(),
+  typography: ThemeTypographySchema.partial().optional(),
+  spacing: z.record(z.string()).optional(),
+  borderRadius: z.record(z.string()).optional(),
+  shadows: z.record(z.string()).optional(),
+  colorSchemes: ThemeColorSchemesSchema.optional(),
+});
+
 export const ThemeSchema = z.object({
   id: z.string().min(1, 'Theme ID is required'),
   name: z
@@ -95,13 +111,41 @@ export const ThemeSchema = z.object({
   spacing: z.record(z.string()).default({}),
   borderRadius: z.record(z.string()).default({}),
   shadows: z.record(z.string()).default({}),
+  colorSchemes: ThemeColorSchemesSchema.optional(),
+  parentId: z.string().uuid('Invalid parent theme ID').optional(),
   isDefault: z.boolean().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 // Page and Content Schemas
-export const PageStatusSchema = z.enum(['draft', 'published', 'archived']);
+export const PageStatusSchema = z.enum([
+  'draft',
+  'in_review',
+  'changes_requested',
+  'approved',
+  'published',
+  'archived',
+]);
+
+// New content starts as a draft or goes straight to review; other statuses are reached through the workflow
+export const InitialPageStatusSchema = z.enum(['draft', 'in_review']);
+
+export const WorkflowActionSchema = z.enum([
+  'submit',
+  'withdraw',
+  'approve',
+  'request_changes',
+  'publish',
+  'unpublish',
+  'archive',
+  'restore',
+]);
+
+export const WorkflowTransitionRequestSchema = z.object({
+  action: WorkflowActionSchema,
+  comment: z.string().max(2000, 'Comment too long').optional(),
+});
 
 export const SEODataSchema = z.object({
   metaTitle: z
@@ -154,6 +198,8 @@ export const PageSchema = z.object({
   components: z.array(ComponentInstanceSchema).default([]),
   seoData: SEODataSchema.default({}),
   status: PageStatusSchema.default('draft'),
+  themeId: z.string().uuid('Invalid theme ID').optional(),
+  themeOverrides: ThemeTokenOverridesSchema.optional(),
   publishedAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -171,6 +217,32 @@ export const BlogPostSchema = PageSchema.extend({
 });
 
 // Media Management Schemas
+export const MediaVariantFormatSchema = z.enum(['jpeg', 'png', 'webp', 'avif']);
+
+export const MediaCropPresetSchema = z.enum(['square', 'widescreen', 'og']);
+
+export const MediaCropSchema = z.object({
+  left: z.number().int().nonnegative(),
+  top: z.number().int().nonnegative(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const MediaFocalPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+export const MediaVariantSchema = z.object({
+  key: z.string().min(1, 'Storage key is required'),
+  url: z.string().min(1, 'Variant URL is required'),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  format: MediaVariantFormatSchema,
+  size: z.number().int().nonnegative(),
+  preset: MediaCropPresetSchema.optional(),
+});
+
 export const MediaAssetSchema = z.object({
   id: z.string().min(1, 'Media asset ID is required'),
   filename: z.string().min(1, 'Filename is required'),
@@ -182,8 +254,13 @@ export const MediaAssetSchema = z.object({
   alt: z.string().max(200, 'Alt text too long').optional(),
   tags: z.array(z.string()).default([]),
   folder: z.string().optional(),
+  storage: z.enum(['local', 's3']).default('local'),
+  visibility: z.enum(['public', 'private']).default('public'),
   width: z.number().int().positive().optional(),
   height: z.number().int().positive().optional(),
+  variants: z.array(MediaVariantSchema).default([]),
+  focalPoint: MediaFocalPointSchema.optional(),
+  crops: z.record(MediaCropPresetSchema, MediaCropSchema).default({}),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -258,6 +335,32 @@ export const ABTestVariantSchema = z.object({
   isControl: z.boolean().default(false),
 });
 
+export const ABTestGoalSchema = z.object({
+  id: z
+    .string()
+    .min(1, 'Goal ID is required')
+    .max(100, 'Goal ID too long')
+    .regex(/^[a-z0-9_-]+$/, 'Goal ID can only contain lowercase letters, numbers, hyphens and underscores'),
+  name: z.string().min(1, 'Goal name is required').max(100, 'Goal name too long'),
+  type: z.enum(['click', 'form_submit', 'page_reached', 'custom_event', 'revenue']),
+  role: z.enum(['primary', 'secondary', 'guardrail']).default('secondary'),
+  target: z.string().max(500, 'Goal target too long').optional(),
+});
+
+export const ABTestStoppingRulesSchema = z.object({
+  maxDurationDays: z.number().int().positive().max(365, 'Maximum duration is one year').optional(),
+  minSamplePerVariant: z.number().int().positive().optional(),
+  confidenceLevel: z.number().gt(0.5).lt(1).optional(),
+  stopOnGuardrailDegradation: z.boolean().optional(),
+  guardrailTolerance: z.number().min(0).max(1).optional(),
+});
+
+export const ABTestBanditSettingsSchema = z.object({
+  enabled: z.boolean(),
+  minTrafficPercentage: z.number().min(0).max(50).optional(),
+  minSamplePerVariant: z.number().int().nonnegative().optional(),
+});
+
 export const ABTestResultsSchema = z.object({
   totalVisitors: z.number().int().nonnegative(),
   conversions: z.record(z.number().int().nonnegative()),
@@ -284,6 +387,16 @@ export const ABTestSchema = z
     startDate: z.date().optional(),
     endDate: z.date().optional(),
     conversionGoal: z.string().min(1, 'Conversion goal is required'),
+    goals: z.array(ABTestGoalSchema).max(20, 'Too many goals').optional(),
+    holdoutPercentage: z
+      .number()
+      .int()
+      .min(0)
+      .lt(100, 'Holdout percentage must be less than 100')
+      .optional(),
+    exclusionGroup: z.string().max(100, 'Exclusion group too long').optional(),
+    stoppingRules: ABTestStoppingRulesSchema.optional(),
+    bandit: ABTestBanditSettingsSchema.optional(),
     results: ABTestResultsSchema.optional(),
     createdAt: z.date(),
     updatedAt: z.date(),
@@ -297,6 +410,10 @@ export const ABTestSchema = z
       return Math.abs(totalTraffic - 100) < 0.01; // Allow for floating point precision
     },
     { message: 'Traffic split must total 100%', path: ['trafficSplit'] }
+  )
+  .refine(
+    data => !data.goals?.length || data.goals.filter(goal => goal.role === 'primary').length === 1,
+    { message: 'Exactly one goal must be primary', path: ['goals'] }
   );
 
 // User and Authentication Schemas
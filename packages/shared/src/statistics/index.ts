@@ -0,0 +1,512 @@
+// Statistics for A/B test results: frequentist tests with multiple-comparison correction,
+// Bayesian probability to beat control and sample-size planning
+import type {
+  ABTestAnalysis,
+  ConfidenceInterval,
+  MeanComparison,
+  VariantComparison,
+  VariantStatistics,
+} from '../types';
+
+export interface VariantCounts {
+  variantId: string;
+  visitors: number;
+  conversions: number;
+  isControl?: boolean;
+}
+
+// Per-visitor totals of a continuous metric such as revenue; visitors without a value count as 0
+export interface MeanSummary {
+  variantId: string;
+  visitors: number;
+  sum: number;
+  sumOfSquares: number;
+  isControl?: boolean;
+}
+
+export interface AnalysisOptions {
+  /** Confidence level for intervals and significance (defaults to 0.95) */
+  confidenceLevel?: number;
+  /** Relative lift the sample size is planned for (defaults to 0.1, a 10% lift) */
+  minimumDetectableEffect?: number;
+  /** Statistical power for sample-size planning (defaults to 0.8) */
+  power?: number;
+}
+
+export interface SampleSizeOptions {
+  baselineRate: number;
+  /** Relative lift to detect, e.g. 0.1 for a 10% improvement over the baseline */
+  minimumDetectableEffect: number;
+  alpha?: number;
+  power?: number;
+  /** Number of variants compared with the control; alpha is split between them */
+  comparisons?: number;
+}
+
+export interface DetectableEffectOptions {
+  baselineRate: number;
+  sampleSize: number;
+  alpha?: number;
+  power?: number;
+  comparisons?: number;
+}
+
+export interface ProbabilityToBeBestOptions {
+  /** Number of posterior draws (defaults to 10000) */
+  draws?: number;
+  /** Source of uniform random numbers in [0, 1), e.g. a seeded generator in tests */
+  random?: () => number;
+}
+
+export interface ZTestResult {
+  zScore: number;
+  pValue: number;
+  absoluteDifference: number;
+  relativeLift: number;
+}
+
+// Above this many conversions the exact Bayesian sum is replaced by a normal approximation
+const EXACT_BAYES_LIMIT = 10000;
+
+export class ABTestStatistics {
+  /**
+   * Analyze test results: confidence intervals per variant and, for each variant, a two-proportion
+   * z-test against the control with Holm-Bonferroni correction and the Bayesian probability to
+   * beat the control
+   */
+  static analyze(variants: VariantCounts[], options: AnalysisOptions = {}): ABTestAnalysis {
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+    const alpha = 1 - confidenceLevel;
+    const minimumDetectableEffect = options.minimumDetectableEffect ?? 0.1;
+    const power = options.power ?? 0.8;
+
+    const control = variants.find(variant => variant.isControl) || variants[0];
+    const challengers = variants.filter(variant => variant !== control);
+
+    const tests = challengers.map(variant => (control ? this.twoProportionZTest(control, variant) : null));
+    const adjusted = this.holmAdjust(tests.map(test => test?.pValue ?? 1));
+
+    const statistics: VariantStatistics[] = variants.map(variant => ({
+      variantId: variant.variantId,
+      isControl: variant === control,
+      visitors: variant.visitors,
+      conversions: variant.conversions,
+      conversionRate: this.rate(variant),
+      confidenceInterval: this.wilsonInterval(variant.conversions, variant.visitors, confidenceLevel),
+    }));
+
+    challengers.forEach((variant, index) => {
+      const test = tests[index];
+      const entry = statistics.find(stat => stat.variantId === variant.variantId);
+      if (!test || !entry || !control) return;
+
+      const adjustedPValue = adjusted[index] ?? 1;
+      const comparison: VariantComparison = {
+        ...test,
+        adjustedPValue,
+        significant: adjustedPValue < alpha,
+        probabilityToBeatControl: this.probabilityToBeatControl(control, variant),
+      };
+      entry.comparison = comparison;
+    });
+
+    const baselineRate = control ? this.rate(control) : 0;
+    const comparisons = Math.max(challengers.length, 1);
+    const currentPerVariant = variants.length > 0 ? Math.min(...variants.map(variant => variant.visitors)) : 0;
+
+    const analysis: ABTestAnalysis = {
+      confidenceLevel,
+      correction: 'holm',
+      variants: statistics,
+      sampleSize: {
+        minimumDetectableEffect,
+        requiredPerVariant: this.sampleSize({ baselineRate, minimumDetectableEffect, alpha, power, comparisons }),
+        currentPerVariant,
+        detectableEffect: this.minimumDetectableEffect({
+          baselineRate,
+          sampleSize: currentPerVariant,
+          alpha,
+          power,
+          comparisons,
+        }),
+      },
+    };
+
+    const winner = this.selectWinner(statistics);
+    if (winner) {
+      analysis.winner = winner;
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Compare the per-visitor mean of a continuous metric (e.g. revenue per visitor) of each variant
+   * with the control using Welch's z-test and Holm-Bonferroni correction. Keyed by variant ID.
+   */
+  static compareMeans(variants: MeanSummary[], options: AnalysisOptions = {}): Record<string, MeanComparison> {
+    const alpha = 1 - (options.confidenceLevel ?? 0.95);
+    const control = variants.find(variant => variant.isControl) || variants[0];
+    const challengers = variants.filter(variant => variant !== control);
+    if (!control) {
+      return {};
+    }
+
+    const tests = challengers.map(variant => {
+      const controlMean = this.mean(control);
+      const difference = this.mean(variant) - controlMean;
+      const relativeLift = controlMean > 0 ? difference / controlMean : 0;
+      const se = Math.sqrt(
+        (control.visitors > 0 ? this.variance(control) / control.visitors : 0) +
+          (variant.visitors > 0 ? this.variance(variant) / variant.visitors : 0)
+      );
+
+      if (control.visitors === 0 || variant.visitors === 0 || se === 0) {
+        return { difference, relativeLift, zScore: 0, pValue: 1 };
+      }
+
+      const zScore = difference / se;
+      return { difference, relativeLift, zScore, pValue: Math.min(1, 2 * (1 - this.normalCdf(Math.abs(zScore)))) };
+    });
+    const adjusted = this.holmAdjust(tests.map(test => test.pValue));
+
+    const comparisons: Record<string, MeanComparison> = {};
+    challengers.forEach((variant, index) => {
+      const adjustedPValue = adjusted[index] ?? 1;
+      comparisons[variant.variantId] = { ...tests[index]!, adjustedPValue, significant: adjustedPValue < alpha };
+    });
+
+    return comparisons;
+  }
+
+  /**
+   * Two-sided two-proportion z-test of a variant against the control, using the pooled proportion
+   */
+  static twoProportionZTest(control: VariantCounts, variant: VariantCounts): ZTestResult {
+    const p1 = this.rate(control);
+    const p2 = this.rate(variant);
+    const absoluteDifference = p2 - p1;
+    const relativeLift = p1 > 0 ? absoluteDifference / p1 : 0;
+
+    if (control.visitors === 0 || variant.visitors === 0) {
+      return { zScore: 0, pValue: 1, absoluteDifference, relativeLift };
+    }
+
+    const pooled = (control.conversions + variant.conversions) / (control.visitors + variant.visitors);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / control.visitors + 1 / variant.visitors));
+    if (se === 0) {
+      return { zScore: 0, pValue: 1, absoluteDifference, relativeLift };
+    }
+
+    const zScore = absoluteDifference / se;
+    const pValue = Math.min(1, 2 * (1 - this.normalCdf(Math.abs(zScore))));
+
+    return { zScore, pValue, absoluteDifference, relativeLift };
+  }
+
+  /**
+   * Holm-Bonferroni step-down adjustment; returned p-values are in the input order
+   */
+  static holmAdjust(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((pValue, index) => ({ pValue, index })).sort((a, b) => a.pValue - b.pValue);
+    const adjusted = new Array<number>(m).fill(1);
+
+    let runningMax = 0;
+    order.forEach(({ pValue, index }, rank) => {
+      runningMax = Math.max(runningMax, Math.min(1, (m - rank) * pValue));
+      adjusted[index] = runningMax;
+    });
+
+    return adjusted;
+  }
+
+  /**
+   * Wilson score interval for a conversion rate
+   */
+  static wilsonInterval(conversions: number, visitors: number, confidenceLevel = 0.95): ConfidenceInterval {
+    if (visitors === 0) {
+      return { lower: 0, upper: 0 };
+    }
+
+    const z = this.normalQuantile(1 - (1 - confidenceLevel) / 2);
+    const p = conversions / visitors;
+    const denominator = 1 + (z * z) / visitors;
+    const center = (p + (z * z) / (2 * visitors)) / denominator;
+    const margin = (z * Math.sqrt((p * (1 - p)) / visitors + (z * z) / (4 * visitors * visitors))) / denominator;
+
+    return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+  }
+
+  /**
+   * Probability that the variant's true conversion rate is higher than the control's, with
+   * uniform Beta(1, 1) priors
+   */
+  static probabilityToBeatControl(control: VariantCounts, variant: VariantCounts): number {
+    const alphaA = 1 + control.conversions;
+    const betaA = 1 + control.visitors - control.conversions;
+    const alphaB = 1 + variant.conversions;
+    const betaB = 1 + variant.visitors - variant.conversions;
+
+    if (alphaB > EXACT_BAYES_LIMIT) {
+      const meanA = alphaA / (alphaA + betaA);
+      const meanB = alphaB / (alphaB + betaB);
+      const varA = (alphaA * betaA) / ((alphaA + betaA) ** 2 * (alphaA + betaA + 1));
+      const varB = (alphaB * betaB) / ((alphaB + betaB) ** 2 * (alphaB + betaB + 1));
+      return this.normalCdf((meanB - meanA) / Math.sqrt(varA + varB));
+    }
+
+    // Closed form for P(B > A) with Beta posteriors (sum over the variant's successes)
+    let total = 0;
+    const logBetaA = this.logBeta(alphaA, betaA);
+    for (let i = 0; i < alphaB; i++) {
+      total += Math.exp(
+        this.logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - this.logBeta(1 + i, betaB) - logBetaA
+      );
+    }
+
+    return Math.min(1, Math.max(0, total));
+  }
+
+  /**
+   * Probability that each variant has the highest true conversion rate, estimated by sampling the
+   * Beta(1, 1) posteriors (Thompson sampling). Keyed by variant ID; the values add up to 1.
+   */
+  static probabilityToBeBest(
+    variants: VariantCounts[],
+    options: ProbabilityToBeBestOptions = {}
+  ): Record<string, number> {
+    const draws = options.draws ?? 10000;
+    const random = options.random ?? Math.random;
+    const wins = variants.map(() => 0);
+
+    for (let draw = 0; draw < draws; draw++) {
+      let best = -1;
+      let bestIndex = 0;
+      variants.forEach((variant, index) => {
+        const sample = this.sampleBeta(1 + variant.conversions, 1 + variant.visitors - variant.conversions, random);
+        if (sample > best) {
+          best = sample;
+          bestIndex = index;
+        }
+      });
+      wins[bestIndex]!++;
+    }
+
+    return Object.fromEntries(
+      variants.map((variant, index) => [variant.variantId, draws > 0 ? wins[index]! / draws : 0])
+    );
+  }
+
+  /**
+   * Visitors needed per variant to detect a relative lift with the given significance and power.
+   * Returns null when the lift cannot be reached (the variant rate would exceed 100%).
+   */
+  static sampleSize(options: SampleSizeOptions): number | null {
+    const { baselineRate, minimumDetectableEffect } = options;
+    const alpha = (options.alpha ?? 0.05) / (options.comparisons ?? 1);
+    const power = options.power ?? 0.8;
+
+    const p1 = baselineRate;
+    const p2 = baselineRate * (1 + minimumDetectableEffect);
+    if (p1 <= 0 || p1 >= 1 || p2 <= 0 || p2 >= 1 || p1 === p2) {
+      return null;
+    }
+
+    const zAlpha = this.normalQuantile(1 - alpha / 2);
+    const zBeta = this.normalQuantile(power);
+    const pooled = (p1 + p2) / 2;
+    const numerator =
+      zAlpha * Math.sqrt(2 * pooled * (1 - pooled)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+
+    return Math.ceil((numerator * numerator) / ((p2 - p1) * (p2 - p1)));
+  }
+
+  /**
+   * Smallest relative lift detectable with a given number of visitors per variant, or null when
+   * no lift is detectable with that sample
+   */
+  static minimumDetectableEffect(options: DetectableEffectOptions): number | null {
+    const { baselineRate, sampleSize } = options;
+    if (baselineRate <= 0 || baselineRate >= 1 || sampleSize <= 0) {
+      return null;
+    }
+
+    const required = (effect: number) =>
+      this.sampleSize({ ...options, minimumDetectableEffect: effect }) ?? Infinity;
+
+    // The largest possible lift takes the variant rate just below 100%
+    let high = (1 - baselineRate) / baselineRate - 1e-9;
+    if (required(high) > sampleSize) {
+      return null;
+    }
+
+    let low = 0;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (required(mid) > sampleSize) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return high;
+  }
+
+  /**
+   * P-value a comparison must fall below to stop a test early once it has reached the given share
+   * of its planned sample. The boundary has the O'Brien-Fleming shape (z / √t) with its critical
+   * value set for continuous monitoring, so checking the test any number of times before the
+   * planned sample keeps the overall false positive rate at alpha.
+   */
+  static sequentialBoundary(alpha: number, informationFraction: number): number {
+    const fraction = Math.min(informationFraction, 1);
+    if (fraction <= 0) {
+      return 0;
+    }
+
+    const z = this.normalQuantile(1 - alpha / 4) / Math.sqrt(fraction);
+    return 2 * (1 - this.normalCdf(z));
+  }
+
+  /**
+   * Standard normal cumulative distribution function
+   */
+  static normalCdf(z: number): number {
+    // Abramowitz and Stegun 7.1.26, absolute error below 1.5e-7
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf =
+      1 -
+      ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+        t *
+        Math.exp(-x * x);
+
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
+  /**
+   * Inverse of the standard normal cumulative distribution function
+   */
+  static normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    // Acklam's rational approximation, relative error below 1.15e-9
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+
+    if (p < low) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+        ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+    }
+    if (p > 1 - low) {
+      return -this.normalQuantile(1 - p);
+    }
+
+    const q = p - 0.5;
+    const r = q * q;
+    return ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) /
+      (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+  }
+
+  /**
+   * Private helper methods
+   */
+  private static rate(variant: VariantCounts): number {
+    return variant.visitors > 0 ? variant.conversions / variant.visitors : 0;
+  }
+
+  private static mean(summary: MeanSummary): number {
+    return summary.visitors > 0 ? summary.sum / summary.visitors : 0;
+  }
+
+  // Sample variance from the running totals
+  private static variance(summary: MeanSummary): number {
+    if (summary.visitors < 2) return 0;
+    const mean = this.mean(summary);
+    return Math.max(0, (summary.sumOfSquares - summary.visitors * mean * mean) / (summary.visitors - 1));
+  }
+
+  // The best significant improvement wins; the control wins when every variant is significantly worse
+  private static selectWinner(statistics: VariantStatistics[]): string | undefined {
+    const challengers = statistics.filter(stat => stat.comparison);
+    const improvements = challengers
+      .filter(stat => stat.comparison!.significant && stat.comparison!.absoluteDifference > 0)
+      .sort((a, b) => b.conversionRate - a.conversionRate);
+
+    if (improvements[0]) {
+      return improvements[0].variantId;
+    }
+
+    const control = statistics.find(stat => stat.isControl);
+    const controlWins =
+      challengers.length > 0 &&
+      challengers.every(stat => stat.comparison!.significant && stat.comparison!.absoluteDifference < 0);
+
+    return control && controlWins ? control.variantId : undefined;
+  }
+
+  private static sampleBeta(alpha: number, beta: number, random: () => number): number {
+    const x = this.sampleGamma(alpha, random);
+    const y = this.sampleGamma(beta, random);
+    return x / (x + y);
+  }
+
+  // Marsaglia-Tsang method; posteriors here always have a shape of at least 1
+  private static sampleGamma(shape: number, random: () => number): number {
+    const d = shape - 1 / 3;
+    const c = 1 / Math.sqrt(9 * d);
+
+    for (;;) {
+      let x: number;
+      let v: number;
+      do {
+        x = this.sampleNormal(random);
+        v = 1 + c * x;
+      } while (v <= 0);
+
+      v = v * v * v;
+      const u = random();
+      if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+        return d * v;
+      }
+    }
+  }
+
+  // Box-Muller transform
+  private static sampleNormal(random: () => number): number {
+    const u = 1 - random(); // (0, 1], so the logarithm is finite
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  }
+
+  private static logBeta(a: number, b: number): number {
+    return this.logGamma(a) + this.logGamma(b) - this.logGamma(a + b);
+  }
+
+  // Lanczos approximation (g = 7, n = 9)
+  private static logGamma(x: number): number {
+    const coefficients = [
+      0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+      12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+
+    if (x < 0.5) {
+      return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - this.logGamma(1 - x);
+    }
+
+    const shifted = x - 1;
+    let sum = coefficients[0]!;
+    for (let i = 1; i < coefficients.length; i++) {
+      sum += coefficients[i]! / (shifted + i);
+    }
+    const t = shifted + 7.5;
+
+    return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+  }
+}
@@ -48,11 +48,28 @@ export interface Theme {
   spacing: Record<string, string>;
   borderRadius: Record<string, string>;
   shadows: Record<string, string>;
+  colorSchemes?: ThemeColorSchemes;
+  parentId?: string; // Theme this one extends; its own tokens override the parent's
   isDefault?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Tokens a child theme or a page overrides; everything else comes from the base theme
+export interface ThemeTokenOverrides {
+  colors?: Partial<ThemeColors>;
+  typography?: Partial<ThemeTypography>;
+  spacing?: Record<string, string>;
+  borderRadius?: Record<string, string>;
+  shadows?: Record<string, string>;
+  colorSchemes?: ThemeColorSchemes;
+}
+
+// Light is the theme's own colors; the other schemes override some of them
+export type ColorScheme = 'light' | 'dark' | 'high-contrast';
+
+export type ThemeColorSchemes = Partial<Record<Exclude<ColorScheme, 'light'>, Partial<ThemeColors>>>;
+
 export interface ThemeColors {
   primary: string;
   secondary: string;
@@ -94,13 +111,59 @@ export interface Page {
   components: ComponentInstance[];
   seoData: SEOData;
   status: PageStatus;
+  themeId?: string; // Defaults to the site's default theme
+  themeOverrides?: ThemeTokenOverrides;
   publishedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   version: number;
 }
 
-export type PageStatus = 'draft' | 'published' | 'archived';
+export type PageStatus =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'published'
+  | 'archived';
+
+export interface PageVersion {
+  id: string;
+  pageId: string;
+  version: number;
+  title: string;
+  description?: string;
+  components: ComponentInstance[];
+  seoData: SEOData;
+  status: PageStatus;
+  publishedAt?: Date;
+  createdBy?: string;
+  changeNote?: string;
+  createdAt: Date;
+}
+
+// Structural diff between two component trees
+export type ComponentChangeType = 'added' | 'removed' | 'updated' | 'moved';
+
+export interface ValueChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ComponentChange {
+  type: ComponentChangeType;
+  componentId: string;
+  componentType: string;
+  parentId: string | null;
+  previousParentId?: string | null;
+  propChanges?: ValueChange[];
+}
+
+export interface ComponentTreeDiff {
+  changes: ComponentChange[];
+  summary: Record<ComponentChangeType, number>;
+}
 
 export interface BlogPost extends Page {
   excerpt?: string;
@@ -130,6 +193,41 @@ export interface SEOData {
 }
 
 // Media Management Types
+// Where a media file is stored; private files are only served through signed URLs
+export type MediaStorageBackend = 'local' | 's3';
+export type MediaVisibility = 'public' | 'private';
+
+// Formats image variants are encoded in
+export type MediaVariantFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+// Named crops editors can adjust per image: 1:1, 16:9 and the 1200x630 Open Graph image
+export type MediaCropPreset = 'square' | 'widescreen' | 'og';
+
+// An area of the original image, in pixels
+export interface MediaCrop {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// The subject of an image, as fractions of its width and height from the top left corner
+export interface MediaFocalPoint {
+  x: number;
+  y: number;
+}
+
+// A resized copy of an image, listed in its asset's variant manifest
+export interface MediaVariant {
+  key: string; // storage key
+  url: string;
+  width: number;
+  height: number;
+  format: MediaVariantFormat;
+  size: number; // bytes
+  preset?: MediaCropPreset; // cropped copies; uncropped variants have none
+}
+
 export interface MediaAsset {
   id: string;
   filename: string;
@@ -141,8 +239,13 @@ export interface MediaAsset {
   alt?: string;
   tags: string[];
   folder?: string;
+  storage: MediaStorageBackend;
+  visibility: MediaVisibility;
   width?: number;
   height?: number;
+  variants: MediaVariant[];
+  focalPoint?: MediaFocalPoint;
+  crops: Partial<Record<MediaCropPreset, MediaCrop>>; // crops set by hand; other presets follow the focal point
   createdAt: Date;
   updatedAt: Date;
 }
@@ -168,6 +271,11 @@ export interface ABTest {
   startDate?: Date;
   endDate?: Date;
   conversionGoal: string;
+  goals?: ABTestGoal[];
+  holdoutPercentage?: number; // share of visitors kept out of the test, 0-100
+  exclusionGroup?: string; // visitors join at most one running test per group
+  stoppingRules?: ABTestStoppingRules;
+  bandit?: ABTestBanditSettings;
   results?: ABTestResults;
   createdAt: Date;
   updatedAt: Date;
@@ -188,6 +296,51 @@ export interface ABTestVariant {
   isControl: boolean;
 }
 
+// Rules checked by the background job; a running test is completed as soon as one of them fires
+export interface ABTestStoppingRules {
+  maxDurationDays?: number;
+  minSamplePerVariant?: number; // planned visitors per variant; a winner stops the test early only past a sequential boundary
+  confidenceLevel?: number; // for the significance rule, defaults to the service's confidence level
+  stopOnGuardrailDegradation?: boolean; // stop when a variant significantly hurts a guardrail goal
+  guardrailTolerance?: number; // relative drop of a guardrail goal that is tolerated, e.g. 0.05
+}
+
+// Multi-armed bandit mode: the background job shifts the traffic split toward better variants
+export interface ABTestBanditSettings {
+  enabled: boolean;
+  minTrafficPercentage?: number; // floor per variant so every variant keeps collecting data
+  minSamplePerVariant?: number; // visitors per variant before traffic is reallocated
+}
+
+export type ABTestDecisionAction = 'stop' | 'reallocate';
+
+export type ABTestDecisionRule = 'max_duration' | 'significance' | 'guardrail' | 'bandit';
+
+// An automatic decision taken on a test by the background job
+export interface ABTestDecision {
+  id: string;
+  testId: string;
+  action: ABTestDecisionAction;
+  rule: ABTestDecisionRule;
+  reason: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export type ABTestGoalType = 'click' | 'form_submit' | 'page_reached' | 'custom_event' | 'revenue';
+
+// The primary goal decides the winner; guardrails watch for harm; secondary goals are informational
+export type ABTestGoalRole = 'primary' | 'secondary' | 'guardrail';
+
+export interface ABTestGoal {
+  id: string;
+  name: string;
+  type: ABTestGoalType;
+  role: ABTestGoalRole;
+  target?: string; // CSS selector for clicks and form submits, path for page reached, event name for custom events
+}
+
+// Results use the primary goal; `goals` holds the results of every goal
 export interface ABTestResults {
   totalVisitors: number;
   conversions: Record<string, number>;
@@ -195,6 +348,71 @@ export interface ABTestResults {
   statisticalSignificance: number;
   winner?: string;
   confidence: number;
+  analysis?: ABTestAnalysis;
+  goals?: ABTestGoalResults[];
+}
+
+export interface ABTestGoalResults {
+  goalId: string;
+  name: string;
+  type: ABTestGoalType;
+  role: ABTestGoalRole;
+  conversions: Record<string, number>; // converting sessions per variant
+  conversionRates: Record<string, number>;
+  analysis: ABTestAnalysis;
+  revenue?: {
+    total: Record<string, number>;
+    perVisitor: Record<string, number>;
+    comparisons: Record<string, MeanComparison>; // variants against the control
+  };
+}
+
+export interface MeanComparison {
+  difference: number;
+  relativeLift: number;
+  zScore: number;
+  pValue: number;
+  adjustedPValue: number;
+  significant: boolean;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+// Comparison of a variant against the control
+export interface VariantComparison {
+  absoluteDifference: number;
+  relativeLift: number; // (variant - control) / control
+  zScore: number;
+  pValue: number;
+  adjustedPValue: number; // corrected for multiple comparisons
+  significant: boolean;
+  probabilityToBeatControl: number; // Bayesian, Beta(1, 1) prior
+}
+
+export interface VariantStatistics {
+  variantId: string;
+  isControl: boolean;
+  visitors: number;
+  conversions: number;
+  conversionRate: number;
+  confidenceInterval: ConfidenceInterval;
+  comparison?: VariantComparison;
+}
+
+export interface ABTestAnalysis {
+  confidenceLevel: number;
+  correction: 'holm';
+  variants: VariantStatistics[];
+  winner?: string;
+  sampleSize: {
+    minimumDetectableEffect: number; // relative lift the required sample size is planned for
+    requiredPerVariant: number | null;
+    currentPerVariant: number; // smallest variant
+    detectableEffect: number | null; // relative lift detectable with the current sample
+  };
 }
 
 // User and Authentication Types
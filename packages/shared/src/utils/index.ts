@@ -1,9 +1,16 @@
 // Shared utility functions
 import type {
   ComponentInstance,
+  ComponentChange,
+  ComponentTreeDiff,
+  ValueChange,
   Theme,
+  ColorScheme,
   Page,
   MediaAsset,
+  MediaCrop,
+  MediaCropPreset,
+  MediaFocalPoint,
 } from '../types/index.js';
 
 // ID Generation
@@ -294,6 +301,105 @@ export class ComponentUtils {
       errors,
     };
   }
+
+  /**
+   * Compute a structural diff between two component trees, matching components by ID
+   */
+  static diffComponentTrees(
+    before: ComponentInstance[],
+    after: ComponentInstance[]
+  ): ComponentTreeDiff {
+    type Entry = { component: ComponentInstance; parentId: string | null };
+
+    const index = (components: ComponentInstance[]) => {
+      const entries = new Map<string, Entry>();
+      const siblings = new Map<string | null, string[]>();
+
+      const walk = (nodes: ComponentInstance[], parentId: string | null) => {
+        siblings.set(parentId, nodes.map(node => node.id));
+        for (const node of nodes) {
+          entries.set(node.id, { component: node, parentId });
+          walk(node.children || [], node.id);
+        }
+      };
+
+      walk(components, null);
+      return { entries, siblings };
+    };
+
+    const previous = index(before);
+    const next = index(after);
+    const changes: ComponentChange[] = [];
+
+    // Position among siblings that exist in both trees, so insertions and removals don't count as moves
+    const relativePosition = (
+      tree: typeof previous,
+      parentId: string | null,
+      id: string
+    ) =>
+      (tree.siblings.get(parentId) || [])
+        .filter(siblingId => previous.entries.has(siblingId) && next.entries.has(siblingId))
+        .indexOf(id);
+
+    for (const [id, { component, parentId }] of previous.entries) {
+      if (!next.entries.has(id)) {
+        changes.push({ type: 'removed', componentId: id, componentType: component.type, parentId });
+      }
+    }
+
+    for (const [id, { component, parentId }] of next.entries) {
+      const old = previous.entries.get(id);
+
+      if (!old) {
+        changes.push({ type: 'added', componentId: id, componentType: component.type, parentId });
+        continue;
+      }
+
+      const propChanges: ValueChange[] = [];
+      if (old.component.type !== component.type) {
+        propChanges.push({ key: 'type', before: old.component.type, after: component.type });
+      }
+
+      const keys = new Set([...Object.keys(old.component.props || {}), ...Object.keys(component.props || {})]);
+      for (const key of keys) {
+        const oldValue = old.component.props?.[key];
+        const newValue = component.props?.[key];
+        if (!isEqual(oldValue, newValue)) {
+          propChanges.push({ key, before: oldValue, after: newValue });
+        }
+      }
+
+      if (propChanges.length > 0) {
+        changes.push({
+          type: 'updated',
+          componentId: id,
+          componentType: component.type,
+          parentId,
+          propChanges,
+        });
+      }
+
+      if (
+        old.parentId !== parentId ||
+        relativePosition(previous, old.parentId, id) !== relativePosition(next, parentId, id)
+      ) {
+        changes.push({
+          type: 'moved',
+          componentId: id,
+          componentType: component.type,
+          parentId,
+          previousParentId: old.parentId,
+        });
+      }
+    }
+
+    const summary = { added: 0, removed: 0, updated: 0, moved: 0 };
+    for (const change of changes) {
+      summary[change.type]++;
+    }
+
+    return { changes, summary };
+  }
 }
 
 // Theme Processing Utilities
@@ -343,9 +449,37 @@ export class ThemeUtils {
     });
 
     cssVars.push('}');
+
+    // Dark and high-contrast palettes only change colors
+    Object.entries(theme.colorSchemes || {}).forEach(([scheme, colors]) => {
+      const { toggle, media, mediaSelector } = this.getColorSchemeSelectors(scheme as ColorScheme);
+      const properties = Object.entries(colors || {}).map(([key, value]) => `  --color-${key}: ${value};`);
+      if (properties.length === 0) return;
+
+      cssVars.push(`@media ${media} {`, `${mediaSelector} {`, ...properties, '}', '}');
+      cssVars.push(`${toggle} {`, ...properties, '}');
+    });
+
     return cssVars.join('\n');
   }
 
+  /**
+   * Selectors for a color scheme: an explicit class or data-color-scheme attribute, or the
+   * visitor's system preference when the page has not picked a scheme
+   */
+  static getColorSchemeSelectors(
+    scheme: ColorScheme,
+    selector: string = ':root'
+  ): { toggle: string; media: string; mediaSelector: string } {
+    const explicit = ['light', 'dark', 'high-contrast'].map(name => `:not(.${name})`).join('');
+
+    return {
+      toggle: `${selector}.${scheme}, ${selector}[data-color-scheme="${scheme}"]`,
+      media: scheme === 'high-contrast' ? '(prefers-contrast: more)' : `(prefers-color-scheme: ${scheme})`,
+      mediaSelector: `${selector}:not([data-color-scheme])${explicit}`,
+    };
+  }
+
   /**
    * Validate color contrast ratio for accessibility
    */
@@ -586,6 +720,13 @@ export class PageUtils {
 
 // Media Utilities
 export class MediaUtils {
+  // Aspect ratios of the crop presets; width caps the size of a single fixed-size image
+  static readonly CROP_PRESETS: Record<MediaCropPreset, { label: string; aspectRatio: number; width?: number }> = {
+    square: { label: 'Square', aspectRatio: 1 },
+    widescreen: { label: '16:9', aspectRatio: 16 / 9 },
+    og: { label: 'Open Graph (1200×630)', aspectRatio: 1200 / 630, width: 1200 },
+  };
+
   /**
    * Get file extension from filename
    */
@@ -638,6 +779,58 @@ export class MediaUtils {
       }));
   }
 
+  /**
+   * Largest area with the given aspect ratio, centered on the focal point as far as the image edges allow
+   */
+  static getFocalCrop(
+    width: number,
+    height: number,
+    aspectRatio: number,
+    focalPoint: MediaFocalPoint = { x: 0.5, y: 0.5 }
+  ): MediaCrop {
+    const cropWidth = Math.min(width, Math.round(height * aspectRatio));
+    const cropHeight = Math.min(height, Math.round(width / aspectRatio));
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+    return {
+      left: clamp(Math.round(focalPoint.x * width - cropWidth / 2), width - cropWidth),
+      top: clamp(Math.round(focalPoint.y * height - cropHeight / 2), height - cropHeight),
+      width: cropWidth,
+      height: cropHeight,
+    };
+  }
+
+  /**
+   * Crop of an image for a preset: the one set by hand, or one around the focal point.
+   * Returns null while the image's dimensions are unknown.
+   */
+  static getPresetCrop(
+    asset: { width?: number | null; height?: number | null; focalPoint?: MediaFocalPoint | null; crops?: Partial<Record<MediaCropPreset, MediaCrop>> | null },
+    preset: MediaCropPreset
+  ): MediaCrop | null {
+    if (asset.crops?.[preset]) {
+      return asset.crops[preset]!;
+    }
+    if (!asset.width || !asset.height) {
+      return null;
+    }
+    return this.getFocalCrop(asset.width, asset.height, this.CROP_PRESETS[preset].aspectRatio, asset.focalPoint ?? undefined);
+  }
+
+  /**
+   * Check that a crop lies within an image
+   */
+  static isCropInside(crop: MediaCrop, width: number, height: number): boolean {
+    return (
+      crop.left >= 0 &&
+      crop.top >= 0 &&
+      crop.width >= 1 &&
+      crop.height >= 1 &&
+      crop.left + crop.width <= width &&
+      crop.top + crop.height <= height
+    );
+  }
+
   /**
    * Validate media asset
    */
@@ -0,0 +1,88 @@
+// Content review workflow shared by the API and the editor
+import type { PageStatus } from '../types';
+import type { PermissionAction } from '../permissions';
+
+export type WorkflowAction =
+  | 'submit'
+  | 'withdraw'
+  | 'approve'
+  | 'request_changes'
+  | 'publish'
+  | 'unpublish'
+  | 'archive'
+  | 'restore';
+
+export interface WorkflowTransitionRule {
+  from: PageStatus[];
+  to: PageStatus;
+  // Permission required on the content's resource to perform the action
+  permission: PermissionAction;
+  requiresComment?: boolean;
+}
+
+export interface WorkflowTransition {
+  id: string;
+  pageId: string;
+  action: WorkflowAction;
+  fromStatus: PageStatus;
+  toStatus: PageStatus;
+  comment?: string;
+  userId?: string;
+  createdAt: Date;
+}
+
+export const WORKFLOW_TRANSITIONS: Record<WorkflowAction, WorkflowTransitionRule> = {
+  // Approved and published content goes back to review when it is edited by someone who can't publish it
+  submit: { from: ['draft', 'changes_requested', 'approved', 'published'], to: 'in_review', permission: 'update' },
+  withdraw: { from: ['in_review'], to: 'draft', permission: 'update' },
+  approve: { from: ['in_review'], to: 'approved', permission: 'review' },
+  request_changes: {
+    from: ['in_review', 'approved'],
+    to: 'changes_requested',
+    permission: 'review',
+    requiresComment: true,
+  },
+  publish: { from: ['approved'], to: 'published', permission: 'publish' },
+  unpublish: { from: ['published'], to: 'draft', permission: 'publish' },
+  archive: {
+    from: ['draft', 'changes_requested', 'approved', 'published'],
+    to: 'archived',
+    permission: 'publish',
+  },
+  restore: { from: ['archived'], to: 'draft', permission: 'update' },
+};
+
+export const WORKFLOW_ACTIONS = Object.keys(WORKFLOW_TRANSITIONS) as WorkflowAction[];
+
+export class WorkflowUtils {
+  /**
+   * Determines if an action may be applied to content in the given status
+   */
+  static canApply(action: WorkflowAction, from: PageStatus): boolean {
+    return WORKFLOW_TRANSITIONS[action].from.includes(from);
+  }
+
+  /**
+   * Finds the action that moves content between two statuses, if the transition is allowed
+   */
+  static getAction(from: PageStatus, to: PageStatus): WorkflowAction | null {
+    return WORKFLOW_ACTIONS.find(action => {
+      const rule = WORKFLOW_TRANSITIONS[action];
+      return rule.to === to && rule.from.includes(from);
+    }) ?? null;
+  }
+
+  /**
+   * Determines if content may move directly from one status to another
+   */
+  static canTransition(from: PageStatus, to: PageStatus): boolean {
+    return from === to || this.getAction(from, to) !== null;
+  }
+
+  /**
+   * Lists the actions available for content in the given status
+   */
+  static getAvailableActions(from: PageStatus): WorkflowAction[] {
+    return WORKFLOW_ACTIONS.filter(action => this.canApply(action, from));
+  }
+}